@@ -2,18 +2,22 @@ do $$begin raise exception 'do not run this file'; end$$;
 
 
 --drop function preview.user_upsert(int, text, text, text, in);
+--drop function preview.user_upsert(int, text, text, text, text, int);  -- pre-audit signature; drop it before creating this one
+--drop function preview.user_upsert(int, text, text, text, text, int, jsonb);
 create function preview.user_upsert(
   p_user_id           int,
   p_user_name         text,
   p_user_email        text,
   p_user_first_name   text,
   p_user_last_name    text,
-  p_user_role_number  int
+  p_user_role_number  int,
+  p_audit             jsonb default null   -- request context for audit_log_write
 ) returns int
 language plpgsql
 as $$
 declare
   v_user_id int;
+  v_before  jsonb;
 begin
   if p_user_id is null then
     insert into preview.site_user (
@@ -31,8 +35,10 @@ begin
       p_user_role_number
     )
     returning user_id into v_user_id;
+    perform preview.audit_log_write('user_upsert', 'user', v_user_id, null, preview.audit_user_snapshot(v_user_id), p_audit);
     return v_user_id;
   else
+    v_before := preview.audit_user_snapshot(p_user_id);
     update preview.site_user
     set user_name         = lower(btrim(p_user_name)),
         user_email        = lower(btrim(p_user_email)),
@@ -40,8 +46,10 @@ begin
         user_last_name    = btrim(p_user_last_name),
         user_role_number  = p_user_role_number,
         updated_datetime  = now()
-    where user_id = p_user_id;
+    where user_id = p_user_id
+      and deleted_datetime is null;
         if found then
+          perform preview.audit_log_write('user_upsert', 'user', p_user_id, v_before, preview.audit_user_snapshot(p_user_id), p_audit);
           return p_user_id;
         else
           raise exception 'user_id % not found', p_user_id
@@ -51,40 +59,55 @@ begin
 end
 $$;
 
-revoke all on function preview.user_upsert(int, text, text, text, text, int) 
+revoke all on function preview.user_upsert(int, text, text, text, text, int, jsonb)
   from public, authenticated, anon;
-grant execute on function preview.user_upsert(int, text, text, text, text, int) 
+grant execute on function preview.user_upsert(int, text, text, text, text, int, jsonb)
   to service_role;
 
 
---drop function preview.user_delete(int);
+--drop function preview.user_delete(int);  -- pre-audit signature; drop it before creating this one
+--drop function preview.user_delete(int, jsonb);
 create function preview.user_delete(
-  p_user_id int
+  p_user_id int,
+  p_audit   jsonb default null   -- request context for audit_log_write
 )
 returns int
 language plpgsql
 as $$
 declare
-  v_count int;
+  v_count  int;
+  v_before jsonb;
 begin
-  delete from preview.site_user
-  where user_id = p_user_id;
+  v_before := preview.audit_user_snapshot(p_user_id);
+
+  -- Soft delete: the user goes to the Trash (trash_restore / trash_purge)
+  update preview.site_user
+     set deleted_datetime = now()
+   where user_id = p_user_id
+     and deleted_datetime is null;
 
   get diagnostics v_count = row_count;
+  if v_count > 0 then
+    perform preview.audit_log_write('user_delete', 'user', p_user_id, v_before, preview.audit_user_snapshot(p_user_id), p_audit);
+  end if;
   return v_count;
 end
 $$;
 
-revoke all on function preview.user_delete(int) 
+revoke all on function preview.user_delete(int, jsonb)
   from public, authenticated, anon;
-grant execute on function preview.user_delete(int) 
+grant execute on function preview.user_delete(int, jsonb)
   to service_role;
 
 
---drop function preview.user_list(text, text);
+--drop function preview.user_list(text, text);  -- pre-pagination signature; drop it before creating this one
+--drop function preview.user_list(text, text, int, text, int);
 create or replace function preview.user_list(
   p_sort_column     text default 'user_name',
-  p_sort_direction  text default 'asc'
+  p_sort_direction  text default 'asc',
+  p_limit           int  default null,   -- null = every remaining row
+  p_after_key       text default null,   -- keyset cursor: sort_key of the last row already seen
+  p_after_id        int  default null    -- keyset cursor: user_id of the last row already seen
 )
 returns table (
   user_id           int,
@@ -95,38 +118,78 @@ returns table (
   user_role_number  int,
   user_role_name    text,
   inserted_datetime timestamptz,
-  updated_datetime  timestamptz
+  updated_datetime  timestamptz,
+  sort_key          text
 )
 language plpgsql
 stable
 as $$
 declare
-  order_clause text;
+  key_expr     text;
+  key_type     text := 'text';
+  tie_exprs    text[] := '{}';   -- tie-break columns after the sort column, always ascending
+  tie_types    text[] := '{}';
+  tie_cols     text := '';
+  tie_vals     text := '';
+  where_clause text := 'true';
 begin
   if p_sort_direction not in ('asc', 'desc') then
     raise exception 'Invalid sort_direction: %, must be "asc" or "desc"', p_sort_direction
       using errcode = '22023'; -- invalid_parameter_value
   end if;
 
+  if p_limit is not null and (p_limit < 1 or p_limit > 1000) then
+    raise exception 'Invalid limit: %, must be between 1 and 1000', p_limit
+      using errcode = '22023';
+  end if;
+
+  -- Keyset order: the sort column in the requested direction, then its tie-break columns
+  -- and user_id ascending. sort_key is a JSON array of the sort column and the tie-breaks.
   case p_sort_column
     when 'user_name' then
-      order_clause := format('u.user_name %s', p_sort_direction);
+      key_expr := 'u.user_name';
     when 'user_email' then
-      order_clause := format('u.user_email %s', p_sort_direction);
+      key_expr := 'u.user_email';
     when 'user_first_name' then
-      order_clause := format('u.user_first_name %s, u.user_last_name asc, u.user_name asc', p_sort_direction);
+      key_expr := 'u.user_first_name';
+      tie_exprs := array['u.user_last_name', 'u.user_name'];
+      tie_types := array['text', 'text'];
     when 'user_last_name' then
-      order_clause := format('u.user_last_name %s, u.user_first_name asc, u.user_name asc', p_sort_direction);
+      key_expr := 'u.user_last_name';
+      tie_exprs := array['u.user_first_name', 'u.user_name'];
+      tie_types := array['text', 'text'];
     when 'user_role_number' then
-      order_clause := format('u.user_role_number %s, u.user_name asc', p_sort_direction);
+      key_expr := 'u.user_role_number';
+      key_type := 'int';
+      tie_exprs := array['u.user_name'];
+      tie_types := array['text'];
     when 'updated_datetime' then
-      order_clause := format('u.updated_datetime %s, u.user_name asc', p_sort_direction);
+      key_expr := 'u.updated_datetime';
+      key_type := 'timestamptz';
+      tie_exprs := array['u.user_name'];
+      tie_types := array['text'];
     when 'inserted_datetime' then
-      order_clause := format('u.inserted_datetime %s, u.user_name asc', p_sort_direction);
+      key_expr := 'u.inserted_datetime';
+      key_type := 'timestamptz';
+      tie_exprs := array['u.user_name'];
+      tie_types := array['text'];
     else
-      order_clause := format('u.user_name %s', p_sort_direction);
+      key_expr := 'u.user_name';
   end case;
 
+  for i in 1 .. coalesce(array_length(tie_exprs, 1), 0) loop
+    tie_cols := tie_cols || tie_exprs[i] || ', ';
+    tie_vals := tie_vals || format('(%L::jsonb->>%s)::%s, ', p_after_key, i, tie_types[i]);
+  end loop;
+
+  if p_after_id is not null then
+    where_clause := format(
+      '(%1$s %2$s (%3$L::jsonb->>0)::%4$s or (%1$s = (%3$L::jsonb->>0)::%4$s and (%5$su.user_id) > (%6$s%7$s)))',
+      key_expr, case p_sort_direction when 'asc' then '>' else '<' end, p_after_key, key_type,
+      tie_cols, tie_vals, p_after_id
+    );
+  end if;
+
   return query execute format(
     'select
       u.user_id,
@@ -137,160 +200,344 @@ begin
       u.user_role_number,
       ur.user_role_name,
       u.inserted_datetime,
-      u.updated_datetime
+      u.updated_datetime,
+      jsonb_build_array(%s%s)::text
      from  preview.site_user as u
       join preview.user_role as ur
         on ur.user_role_number = u.user_role_number
-     order by %s', order_clause
+     where u.deleted_datetime is null
+       and %s
+     order by %s %s, %su.user_id
+     limit %s',
+    key_expr, rtrim(', ' || tie_cols, ', '), where_clause, key_expr, p_sort_direction,
+    replace(tie_cols, ',', ' asc,'), coalesce(p_limit::text, 'all')
   );
 end
 $$;
 
-revoke all on function preview.user_list(text, text) 
+revoke all on function preview.user_list(text, text, int, text, int)
   from public, authenticated, anon;
-grant execute on function preview.user_list(text, text) 
+grant execute on function preview.user_list(text, text, int, text, int)
   to service_role;
 
 
---drop function preview.song_list(text, text);
-create or replace function preview.song_list(
-  p_sort_column     text default 'composer_last_name',
-  p_sort_direction  text default 'asc'
+--drop function preview.user_get_by_email(text);
+create or replace function preview.user_get_by_email(
+  p_user_email text
 )
 returns table (
-  song_id               int,
-  song_title            text,
-  composer_first_name   text,
-  composer_last_name    text,
-  skill_level_number    int,
-  skill_level_name      text,
-  file_name             text,
-  inserted_datetime     timestamptz,
-  updated_datetime      timestamptz
+  user_id           int,
+  user_name         text,
+  user_email        text,
+  user_role_number  int,
+  user_role_name    text
+)
+language plpgsql
+stable
+as $$
+begin
+  -- site_user.user_email is stored lowercased (ck_user_email_lower)
+  return query
+  select
+    u.user_id,
+    u.user_name,
+    u.user_email,
+    u.user_role_number,
+    ur.user_role_name
+  from  preview.site_user as u
+   join preview.user_role as ur
+     on ur.user_role_number = u.user_role_number
+  where u.user_email = lower(btrim(p_user_email))
+    and u.deleted_datetime is null;  -- a user in the Trash can't sign in
+end
+$$;
+
+revoke all on function preview.user_get_by_email(text)
+  from public, authenticated, anon;
+grant execute on function preview.user_get_by_email(text)
+  to service_role;
+
+
+--drop function preview.annotation_list(int, int);
+create or replace function preview.annotation_list(
+  p_song_id  int,
+  p_user_id  int
+)
+returns table (
+  annotation_id      int,
+  song_id            int,
+  annotation_kind    text,
+  measure_number     int,
+  part_id            text,
+  staff_number       int,
+  annotation_data    jsonb,
+  inserted_datetime  timestamptz
 )
 language plpgsql
 stable
 as $$
+begin
+  return query
+  select
+    a.annotation_id,
+    a.song_id,
+    a.annotation_kind,
+    a.measure_number,
+    a.part_id,
+    a.staff_number,
+    a.annotation_data,
+    a.inserted_datetime
+  from  preview.annotation as a
+  where a.song_id = p_song_id
+    and a.user_id = p_user_id
+  order by
+    a.annotation_id;
+end
+$$;
+
+revoke all on function preview.annotation_list(int, int)
+  from public, authenticated, anon;
+grant execute on function preview.annotation_list(int, int)
+  to service_role;
+
+
+--drop function preview.annotation_insert(int, int, text, int, text, int, jsonb);
+create or replace function preview.annotation_insert(
+  p_song_id          int,
+  p_user_id          int,
+  p_annotation_kind  text,
+  p_measure_number   int,
+  p_part_id          text,
+  p_staff_number     int,
+  p_annotation_data  jsonb
+)
+returns int
+language plpgsql
+as $$
 declare
-  order_clause text;
+  v_annotation_id int;
 begin
-  if p_sort_direction not in ('asc', 'desc') then
-    raise exception 'Invalid sort_direction: %, must be "asc" or "desc"', p_sort_direction
+  insert into preview.annotation (
+    song_id,
+    user_id,
+    annotation_kind,
+    measure_number,
+    part_id,
+    staff_number,
+    annotation_data
+  )
+  values (
+    p_song_id,
+    p_user_id,
+    p_annotation_kind,
+    p_measure_number,
+    p_part_id,
+    p_staff_number,
+    p_annotation_data
+  )
+  returning annotation_id into v_annotation_id;
+
+  return v_annotation_id;
+end
+$$;
+
+revoke all on function preview.annotation_insert(int, int, text, int, text, int, jsonb)
+  from public, authenticated, anon;
+grant execute on function preview.annotation_insert(int, int, text, int, text, int, jsonb)
+  to service_role;
+
+
+--drop function preview.annotation_delete(int, int, int);
+create or replace function preview.annotation_delete(
+  p_user_id        int,
+  p_annotation_id  int default null,   -- one marking …
+  p_song_id        int default null    -- … or, when null, every marking of the user on this song
+)
+returns int
+language plpgsql
+as $$
+declare
+  v_count int;
+begin
+  if p_annotation_id is null and p_song_id is null then
+    raise exception 'p_annotation_id or p_song_id is required'
       using errcode = '22023'; -- invalid_parameter_value
   end if;
 
-  case p_sort_column
-    when 'composer_last_name' then
-      order_clause := format('s.composer_last_name %s, s.composer_first_name ASC, s.song_title ASC, s.skill_level_number ASC', p_sort_direction);
-    when 'composer_first_name' then
-      order_clause := format('s.composer_first_name %s, s.composer_last_name ASC, s.song_title ASC, s.skill_level_number ASC', p_sort_direction);
-    when 'song_title' then
-      order_clause := format('s.song_title %s, s.composer_last_name ASC, s.composer_first_name ASC, s.skill_level_number ASC', p_sort_direction);
-    when 'skill_level_name', 'skill_level_number' then
-      order_clause := format('s.skill_level_number %s, s.composer_last_name ASC, s.composer_first_name ASC, s.song_title ASC', p_sort_direction);
-    when 'updated_datetime' then
-      order_clause := format('s.updated_datetime %s, s.composer_last_name ASC, s.composer_first_name ASC, s.song_title ASC, s.skill_level_number ASC', p_sort_direction);
-    when 'inserted_datetime' then
-      order_clause := format('s.inserted_datetime %s, s.composer_last_name ASC, s.composer_first_name ASC, s.song_title ASC, s.skill_level_number ASC', p_sort_direction);
-    when 'file_name' then
-      order_clause := format('s.file_name %s', p_sort_direction);
-    else
-      order_clause := format('s.composer_last_name %s, s.composer_first_name ASC, s.song_title ASC, s.skill_level_number ASC'), p_sort_direction;
-  end case;
+  delete from preview.annotation as a
+   where a.user_id = p_user_id
+     and (p_annotation_id is null or a.annotation_id = p_annotation_id)
+     and (p_song_id is null or a.song_id = p_song_id);
 
-  return query execute format(
-    'select
-       s.song_id,
-       s.song_title,
-       s.composer_first_name,
-       s.composer_last_name,
-       s.skill_level_number,
-       sl.skill_level_name,
-       s.file_name,
-       s.inserted_datetime,
-       s.updated_datetime
-     from  preview.song as s
-      join preview.skill_level as sl
-        on sl.skill_level_number = s.skill_level_number
-     order by %s', order_clause
-  );
+  get diagnostics v_count = row_count;
+  return v_count;
+end
+$$;
+
+revoke all on function preview.annotation_delete(int, int, int)
+  from public, authenticated, anon;
+grant execute on function preview.annotation_delete(int, int, int)
+  to service_role;
+
+
+--drop function preview.setlist_list(int);
+create or replace function preview.setlist_list(
+  p_user_id  int
+)
+returns table (
+  setlist_id         int,
+  setlist_name       text,
+  song_count         int,
+  inserted_datetime  timestamptz,
+  updated_datetime   timestamptz
+)
+language plpgsql
+stable
+as $$
+begin
+  return query
+  select
+    s.setlist_id,
+    s.setlist_name,
+    (
+      select count(*)::int
+        from preview.setlist_song as ss
+        join preview.song as g
+          on g.song_id = ss.song_id
+       where ss.setlist_id = s.setlist_id
+         and g.deleted_datetime is null
+    ) as song_count,
+    s.inserted_datetime,
+    s.updated_datetime
+  from  preview.setlist as s
+  where s.user_id = p_user_id
+  order by
+    lower(s.setlist_name),
+    s.setlist_id;
 end
 $$;
 
-revoke all on function preview.song_list(text, text)
+revoke all on function preview.setlist_list(int)
   from public, authenticated, anon;
-grant execute on function preview.song_list(text, text)
+grant execute on function preview.setlist_list(int)
   to service_role;
 
 
+--drop function preview.setlist_get(int, int);  -- also needed when upgrading from the version without song_deleted (new result column)
+-- Songs in the Trash stay in the list, flagged, so saving the setlist keeps their place for when they are restored
+create or replace function preview.setlist_get(
+  p_setlist_id  int,
+  p_user_id     int
+)
+returns table (
+  setlist_id           int,
+  setlist_name         text,
+  song_position        int,   -- null (with the song columns) for an empty setlist
+  song_id              int,
+  song_title           text,
+  composer_first_name  text,
+  composer_last_name   text,
+  song_deleted         boolean
+)
+language plpgsql
+stable
+as $$
+begin
+  return query
+  select
+    s.setlist_id,
+    s.setlist_name,
+    ss.song_position,
+    ss.song_id,
+    g.song_title,
+    g.composer_first_name,
+    g.composer_last_name,
+    g.deleted_datetime is not null
+  from  preview.setlist as s
+  left join (
+        preview.setlist_song as ss
+        join preview.song as g
+          on g.song_id = ss.song_id
+       )
+    on ss.setlist_id = s.setlist_id
+  where s.setlist_id = p_setlist_id
+    and s.user_id = p_user_id
+  order by
+    ss.song_position;
+end
+$$;
+
+revoke all on function preview.setlist_get(int, int)
+  from public, authenticated, anon;
+grant execute on function preview.setlist_get(int, int)
+  to service_role;
+
 
---drop function preview.song_upsert(int,text,text,text,int,text,bytea)
-create function preview.song_upsert(
-    p_song_id               int,
-    p_song_title            text,
-    p_composer_first_name   text,
-    p_composer_last_name    text,
-    p_skill_level_number    int,
-    p_file_name             text,
-    p_song_mxl              bytea
+--drop function preview.setlist_save(int, int, text, int[]);
+create or replace function preview.setlist_save(
+  p_setlist_id    int,     -- null = create a new setlist
+  p_user_id       int,
+  p_setlist_name  text,
+  p_song_ids      int[]    -- play order; replaces the whole list
 )
 returns int
 language plpgsql
 as $$
 declare
-    v_song_id int;
+  v_setlist_id int;
 begin
-    IF p_song_id is null then
-        insert into preview.song (
-            song_title,
-            composer_first_name,
-            composer_last_name,
-            skill_level_number,
-            file_name,
-            song_mxl
-        )
-        values (
-            p_song_title,
-            p_composer_first_name,
-            p_composer_last_name,
-            p_skill_level_number,
-            p_file_name,
-            p_song_mxl
-        )
-        returning song_id into v_song_id;
-
-        return v_song_id;
-    else
-        update preview.song
-        set
-            song_title           = p_song_title,
-            composer_first_name  = p_composer_first_name,
-            composer_last_name   = p_composer_last_name,
-            skill_level_number   = p_skill_level_number,
-            file_name            = p_file_name,
-            song_mxl             = p_song_mxl,
-            updated_datetime     = now()
-        where song_id = p_song_id;
+  if p_setlist_id is null then
+    insert into preview.setlist (
+      user_id,
+      setlist_name
+    )
+    values (
+      p_user_id,
+      btrim(p_setlist_name)
+    )
+    returning setlist_id into v_setlist_id;
+  else
+    update preview.setlist as s
+       set setlist_name     = btrim(p_setlist_name),
+           updated_datetime = now()
+     where s.setlist_id = p_setlist_id
+       and s.user_id = p_user_id
+    returning s.setlist_id into v_setlist_id;
 
-        if found then
-            return p_song_id;
-        else
-            raise exception 'song_id % not found', p_song_id
-               using errcode = 'P0002';  -- no_data_found
-        end if;
+    if v_setlist_id is null then
+      raise exception 'setlist_id % not found', p_setlist_id
+        using errcode = 'P0002'; -- no_data_found
     end if;
+
+    delete from preview.setlist_song as ss
+     where ss.setlist_id = v_setlist_id;
+  end if;
+
+  insert into preview.setlist_song (
+    setlist_id,
+    song_position,
+    song_id
+  )
+  select
+    v_setlist_id,
+    x.song_position::int,
+    x.song_id
+  from unnest(coalesce(p_song_ids, '{}')) with ordinality as x(song_id, song_position);
+
+  return v_setlist_id;
 end
 $$;
 
-revoke all on function preview.song_upsert(int, text, text, text, int, text, bytea)
+revoke all on function preview.setlist_save(int, int, text, int[])
   from public, authenticated, anon;
-grant execute on function preview.song_upsert(int, text, text, text, int, text, bytea)
+grant execute on function preview.setlist_save(int, int, text, int[])
   to service_role;
 
 
---drop function preview.song_delete(int)
-create or replace function preview.song_delete(
-  p_song_id int
+--drop function preview.setlist_delete(int, int);
+create or replace function preview.setlist_delete(
+  p_setlist_id  int,
+  p_user_id     int
 )
 returns int
 language plpgsql
@@ -298,42 +545,1706 @@ as $$
 declare
   v_count int;
 begin
-  delete from preview.song as s
-  where s.song_id = p_song_id;
+  delete from preview.setlist as s
+   where s.setlist_id = p_setlist_id
+     and s.user_id = p_user_id;
 
   get diagnostics v_count = row_count;
   return v_count;
 end
 $$;
 
-revoke all on function preview.song_delete(int)
+revoke all on function preview.setlist_delete(int, int)
   from public, authenticated, anon;
-grant execute on function preview.song_delete(int)
+grant execute on function preview.setlist_delete(int, int)
   to service_role;
 
 
---drop function preview.song_mxl_get(int)
-create or replace function preview.song_mxl_get(
-  p_song_id int
+--drop function preview.assignment_assign(int, int[], text, date, int);
+create or replace function preview.assignment_assign(
+  p_song_id              int,
+  p_user_ids             int[],
+  p_assignment_notes     text,
+  p_due_date             date,
+  p_assigned_by_user_id  int
+)
+returns int
+language plpgsql
+as $$
+declare
+  v_bad_user_id int;
+  v_count       int;
+begin
+  if p_user_ids is null or cardinality(p_user_ids) = 0 then
+    raise exception 'p_user_ids must not be empty'
+      using errcode = '22023'; -- invalid_parameter_value
+  end if;
+
+  -- A song in the Trash can't be assigned until it is restored
+  if not exists (
+    select 1
+      from preview.song as s
+     where s.song_id = p_song_id
+       and s.deleted_datetime is null
+  ) then
+    raise exception 'song_id % not found', p_song_id
+      using errcode = 'P0002';  -- no_data_found
+  end if;
+
+  -- Only students can be assigned songs (user_role_number 2 = Student), and not ones in the Trash
+  select x.user_id
+    into v_bad_user_id
+    from unnest(p_user_ids) as x(user_id)
+   where not exists (
+           select 1
+             from preview.site_user as u
+            where u.user_id = x.user_id
+              and u.user_role_number = 2
+              and u.deleted_datetime is null
+         )
+   limit 1;
+  if v_bad_user_id is not null then
+    raise exception 'user_id % is not a student', v_bad_user_id
+      using errcode = '22023';
+  end if;
+
+  insert into preview.assignment (
+    song_id,
+    user_id,
+    assigned_by_user_id,
+    assignment_notes,
+    due_date
+  )
+  select distinct
+    p_song_id,
+    x.user_id,
+    p_assigned_by_user_id,
+    coalesce(btrim(p_assignment_notes), ''),
+    p_due_date
+  from unnest(p_user_ids) as x(user_id)
+  on conflict (song_id, user_id) where completed_datetime is null
+  do update
+     set assignment_notes    = excluded.assignment_notes,
+         due_date            = excluded.due_date,
+         assigned_by_user_id = excluded.assigned_by_user_id,
+         updated_datetime    = now();
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end
+$$;
+
+revoke all on function preview.assignment_assign(int, int[], text, date, int)
+  from public, authenticated, anon;
+grant execute on function preview.assignment_assign(int, int[], text, date, int)
+  to service_role;
+
+
+--drop function preview.assignment_list(int, boolean);
+create or replace function preview.assignment_list(
+  p_user_id            int     default null,   -- null = every student
+  p_include_completed  boolean default false
 )
 returns table (
-    song_mxl    bytea
+  assignment_id        int,
+  song_id              int,
+  song_title           text,
+  composer_first_name  text,
+  composer_last_name   text,
+  user_id              int,
+  user_name            text,
+  user_first_name      text,
+  user_last_name       text,
+  assignment_notes     text,
+  due_date             date,
+  completed_datetime   timestamptz,
+  inserted_datetime    timestamptz
 )
 language plpgsql
 stable
 as $$
 begin
-    return query
-    select 
-      s.song_mxl
-    from  preview.song as s
-    where s.song_id = p_song_id;
+  return query
+  select
+    a.assignment_id,
+    a.song_id,
+    s.song_title,
+    s.composer_first_name,
+    s.composer_last_name,
+    a.user_id,
+    u.user_name,
+    u.user_first_name,
+    u.user_last_name,
+    a.assignment_notes,
+    a.due_date,
+    a.completed_datetime,
+    a.inserted_datetime
+  from  preview.assignment as a
+   join preview.song as s
+     on s.song_id = a.song_id
+   join preview.site_user as u
+     on u.user_id = a.user_id
+  where (p_user_id is null or a.user_id = p_user_id)
+    and (p_include_completed or a.completed_datetime is null)
+    and s.deleted_datetime is null
+    and u.deleted_datetime is null
+  order by
+    a.completed_datetime is not null,
+    a.due_date asc nulls last,
+    a.inserted_datetime desc;
 end
 $$;
 
-revoke all on function preview.song_mxl_get(int)
+revoke all on function preview.assignment_list(int, boolean)
   from public, authenticated, anon;
-grant execute on function preview.song_mxl_get(int)
+grant execute on function preview.assignment_list(int, boolean)
+  to service_role;
+
+
+--drop function preview.assignment_complete(int, int);
+create or replace function preview.assignment_complete(
+  p_assignment_id  int,
+  p_user_id        int default null   -- when set, the assignment must belong to this student
+)
+returns int
+language plpgsql
+as $$
+declare
+  v_count int;
+begin
+  update preview.assignment as a
+     set completed_datetime = now(),
+         updated_datetime   = now()
+   where a.assignment_id = p_assignment_id
+     and a.completed_datetime is null
+     and (p_user_id is null or a.user_id = p_user_id);
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end
+$$;
+
+revoke all on function preview.assignment_complete(int, int)
+  from public, authenticated, anon;
+grant execute on function preview.assignment_complete(int, int)
+  to service_role;
+
+
+--drop function preview.song_list(text, text);  -- older signatures; drop them before creating this one
+--drop function preview.song_list(text, text, text, int[]);
+--drop function preview.song_list(text, text, text, int[], int, text, int);
+--drop function preview.song_list(text, text, text, int[], int, text, int, text, text, text);
+--drop function preview.song_list(text, text, text, int[], int, text, int, text, text, text, text[]);
+create or replace function preview.song_list(
+  p_sort_column     text  default 'composer_last_name',
+  p_sort_direction  text  default 'asc',
+  p_search          text  default null,   -- words matched (all of them) against title + composer
+  p_skill_levels    int[] default null,   -- null/empty = every level
+  p_limit           int   default null,   -- null = every remaining row
+  p_after_key       text  default null,   -- keyset cursor: sort_key of the last row already seen
+  p_after_id        int   default null,   -- keyset cursor: song_id of the last row already seen
+  p_key_signature   text  default null,   -- exact match, e.g. 'G major'
+  p_time_signature  text  default null,   -- exact match, e.g. '3/4'
+  p_instrument      text  default null,   -- case-insensitive substring of any instrument name
+  p_tags            text[] default null   -- songs carrying every one of these tags (case-insensitive)
+)
+returns table (
+  song_id               int,
+  song_title            text,
+  composer_first_name   text,
+  composer_last_name    text,
+  skill_level_number    int,
+  skill_level_name      text,
+  file_name             text,
+  key_signature         text,
+  time_signature        text,
+  tempo_text            text,
+  tempo_bpm             int,
+  instrument_names      text[],
+  measure_count         int,
+  page_count            int,
+  lyricist              text,
+  arranger              text,
+  copyright             text,
+  tag_names             text[],
+  inserted_datetime     timestamptz,
+  updated_datetime      timestamptz,
+  sort_key              text
+)
+language plpgsql
+stable
+as $$
+declare
+  key_expr     text;
+  key_type     text := 'text';
+  tie_exprs    text[] := '{}';   -- tie-break columns after the sort column, always ascending
+  tie_types    text[] := '{}';
+  tie_cols     text := '';
+  tie_vals     text := '';
+  where_clause text := 'true';
+  v_word       text;
+  v_tag        text;
+begin
+  -- Songs in the Trash (song_delete) never list
+  where_clause := 's.deleted_datetime is null';
+
+  if p_sort_direction not in ('asc', 'desc') then
+    raise exception 'Invalid sort_direction: %, must be "asc" or "desc"', p_sort_direction
+      using errcode = '22023'; -- invalid_parameter_value
+  end if;
+
+  if p_limit is not null and (p_limit < 1 or p_limit > 1000) then
+    raise exception 'Invalid limit: %, must be between 1 and 1000', p_limit
+      using errcode = '22023';
+  end if;
+
+  -- Keyset order: the sort column in the requested direction, then its tie-break columns
+  -- and song_id ascending. sort_key is a JSON array of the sort column and the tie-breaks.
+  case p_sort_column
+    when 'composer_first_name' then
+      key_expr := 's.composer_first_name';
+      tie_exprs := array['s.composer_last_name', 's.song_title', 's.skill_level_number'];
+      tie_types := array['text', 'text', 'int'];
+    when 'song_title' then
+      key_expr := 's.song_title';
+      tie_exprs := array['s.composer_last_name', 's.composer_first_name', 's.skill_level_number'];
+      tie_types := array['text', 'text', 'int'];
+    when 'skill_level_name', 'skill_level_number' then
+      key_expr := 's.skill_level_number';
+      key_type := 'int';
+      tie_exprs := array['s.composer_last_name', 's.composer_first_name', 's.song_title'];
+      tie_types := array['text', 'text', 'text'];
+    when 'updated_datetime' then
+      key_expr := 's.updated_datetime';
+      key_type := 'timestamptz';
+      tie_exprs := array['s.composer_last_name', 's.composer_first_name', 's.song_title', 's.skill_level_number'];
+      tie_types := array['text', 'text', 'text', 'int'];
+    when 'inserted_datetime' then
+      key_expr := 's.inserted_datetime';
+      key_type := 'timestamptz';
+      tie_exprs := array['s.composer_last_name', 's.composer_first_name', 's.song_title', 's.skill_level_number'];
+      tie_types := array['text', 'text', 'text', 'int'];
+    when 'file_name' then
+      key_expr := 's.file_name';
+    else
+      -- composer_last_name (the default)
+      key_expr := 's.composer_last_name';
+      tie_exprs := array['s.composer_first_name', 's.song_title', 's.skill_level_number'];
+      tie_types := array['text', 'text', 'int'];
+  end case;
+
+  for i in 1 .. coalesce(array_length(tie_exprs, 1), 0) loop
+    tie_cols := tie_cols || tie_exprs[i] || ', ';
+    tie_vals := tie_vals || format('(%L::jsonb->>%s)::%s, ', p_after_key, i, tie_types[i]);
+  end loop;
+
+  -- Free text: one LIKE per word on the ix_song_search_trgm expression (LIKE wildcards escaped)
+  if p_search is not null and length(btrim(p_search)) > 0 then
+    foreach v_word in array regexp_split_to_array(lower(btrim(p_search)), '\s+') loop
+      where_clause := where_clause || format(
+        ' and lower(s.song_title || '' '' || s.composer_first_name || '' '' || s.composer_last_name) like %L',
+        '%' || replace(replace(replace(v_word, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      );
+    end loop;
+  end if;
+
+  if p_skill_levels is not null and cardinality(p_skill_levels) > 0 then
+    where_clause := where_clause || format(' and s.skill_level_number = any(%L::int[])', p_skill_levels);
+  end if;
+
+  if p_key_signature is not null then
+    where_clause := where_clause || format(' and s.key_signature = %L', p_key_signature);
+  end if;
+
+  if p_time_signature is not null then
+    where_clause := where_clause || format(' and s.time_signature = %L', p_time_signature);
+  end if;
+
+  if p_instrument is not null and length(btrim(p_instrument)) > 0 then
+    where_clause := where_clause || format(
+      ' and exists (select 1 from unnest(s.instrument_names) as i(name) where lower(i.name) like %L)',
+      '%' || replace(replace(replace(lower(btrim(p_instrument)), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    );
+  end if;
+
+  if p_tags is not null then
+    foreach v_tag in array p_tags loop
+      where_clause := where_clause || format(
+        ' and exists (select 1 from preview.song_tag as st join preview.tag as t on t.tag_id = st.tag_id'
+        ' where st.song_id = s.song_id and lower(t.tag_name) = %L)',
+        lower(btrim(v_tag))
+      );
+    end loop;
+  end if;
+
+  if p_after_id is not null then
+    where_clause := where_clause || format(
+      ' and (%1$s %2$s (%3$L::jsonb->>0)::%4$s or (%1$s = (%3$L::jsonb->>0)::%4$s and (%5$ss.song_id) > (%6$s%7$s)))',
+      key_expr, case p_sort_direction when 'asc' then '>' else '<' end, p_after_key, key_type,
+      tie_cols, tie_vals, p_after_id
+    );
+  end if;
+
+  return query execute format(
+    'select
+       s.song_id,
+       s.song_title,
+       s.composer_first_name,
+       s.composer_last_name,
+       s.skill_level_number,
+       sl.skill_level_name,
+       s.file_name,
+       s.key_signature,
+       s.time_signature,
+       s.tempo_text,
+       s.tempo_bpm,
+       s.instrument_names,
+       s.measure_count,
+       s.page_count,
+       s.lyricist,
+       s.arranger,
+       s.copyright,
+       array(
+         select t.tag_name
+           from preview.song_tag as st
+           join preview.tag as t
+             on t.tag_id = st.tag_id
+          where st.song_id = s.song_id
+          order by lower(t.tag_name)
+       ),
+       s.inserted_datetime,
+       s.updated_datetime,
+       jsonb_build_array(%s%s)::text
+     from  preview.song as s
+      join preview.skill_level as sl
+        on sl.skill_level_number = s.skill_level_number
+     where %s
+     order by %s %s, %ss.song_id
+     limit %s',
+    key_expr, rtrim(', ' || tie_cols, ', '), where_clause, key_expr, p_sort_direction,
+    replace(tie_cols, ',', ' asc,'), coalesce(p_limit::text, 'all')
+  );
+end
+$$;
+
+revoke all on function preview.song_list(text, text, text, int[], int, text, int, text, text, text, text[])
+  from public, authenticated, anon;
+grant execute on function preview.song_list(text, text, text, int[], int, text, int, text, text, text, text[])
+  to service_role;
+
+
+--drop function preview.song_facet_list();
+-- Distinct key / time / instrument / tag values for the catalog filters, most used first
+create or replace function preview.song_facet_list()
+returns table (
+    facet        text,
+    facet_value  text,
+    song_count   int
+)
+language plpgsql
+stable
+as $$
+begin
+    return query
+    select f.facet, f.facet_value, count(*)::int
+    from (
+        select 'key_signature'::text as facet, s.key_signature as facet_value
+          from preview.song as s
+         where s.key_signature is not null
+           and s.deleted_datetime is null
+        union all
+        select 'time_signature', s.time_signature
+          from preview.song as s
+         where s.time_signature is not null
+           and s.deleted_datetime is null
+        union all
+        select 'instrument', i.name
+          from preview.song as s
+         cross join unnest(s.instrument_names) as i(name)
+         where s.deleted_datetime is null
+        union all
+        select 'tag', t.tag_name
+          from preview.song_tag as st
+          join preview.tag as t
+            on t.tag_id = st.tag_id
+          join preview.song as s
+            on s.song_id = st.song_id
+         where s.deleted_datetime is null
+    ) as f
+    group by f.facet, f.facet_value
+    order by f.facet, count(*) desc, f.facet_value;
+end
+$$;
+
+revoke all on function preview.song_facet_list()
+  from public, authenticated, anon;
+grant execute on function preview.song_facet_list()
+  to service_role;
+
+
+
+--drop function preview.composer_resolve(text, text);
+-- The composer a song's name belongs to: same name (any case), else a listed alternate
+-- spelling, else a new composer. Called by song_upsert.
+create or replace function preview.composer_resolve(
+  p_composer_first_name  text,
+  p_composer_last_name   text
+)
+returns int
+language plpgsql
+as $$
+declare
+  v_first       text := btrim(coalesce(p_composer_first_name, ''));
+  v_last        text := btrim(coalesce(p_composer_last_name, ''));
+  v_composer_id int;
+begin
+  select c.composer_id
+    into v_composer_id
+    from preview.composer as c
+   where lower(c.composer_last_name) = lower(v_last)
+     and lower(c.composer_first_name) = lower(v_first);
+  if v_composer_id is not null then
+    return v_composer_id;
+  end if;
+
+  select c.composer_id
+    into v_composer_id
+    from preview.composer as c
+   where exists (
+           select 1
+             from unnest(c.alternate_names) as a(name)
+            where lower(a.name) = lower(btrim(v_first || ' ' || v_last))
+         )
+   order by c.composer_id
+   limit 1;
+  if v_composer_id is not null then
+    return v_composer_id;
+  end if;
+
+  insert into preview.composer (
+    composer_first_name,
+    composer_last_name
+  )
+  values (
+    v_first,
+    v_last
+  )
+  on conflict (lower(composer_last_name), lower(composer_first_name)) do nothing
+  returning composer_id into v_composer_id;
+
+  -- Lost a race with another insert of the same name
+  if v_composer_id is null then
+    select c.composer_id
+      into v_composer_id
+      from preview.composer as c
+     where lower(c.composer_last_name) = lower(v_last)
+       and lower(c.composer_first_name) = lower(v_first);
+  end if;
+
+  return v_composer_id;
+end
+$$;
+
+revoke all on function preview.composer_resolve(text, text)
+  from public, authenticated, anon;
+grant execute on function preview.composer_resolve(text, text)
+  to service_role;
+
+
+--drop function preview.composer_list();
+create or replace function preview.composer_list()
+returns table (
+  composer_id          int,
+  composer_first_name  text,
+  composer_last_name   text,
+  birth_year           int,
+  death_year           int,
+  alternate_names      text[],
+  song_count           int,
+  updated_datetime     timestamptz
+)
+language plpgsql
+stable
+as $$
+begin
+  return query
+  select
+    c.composer_id,
+    c.composer_first_name,
+    c.composer_last_name,
+    c.birth_year,
+    c.death_year,
+    c.alternate_names,
+    (
+      select count(*)::int
+        from preview.song as s
+       where s.composer_id = c.composer_id
+         and s.deleted_datetime is null
+    ) as song_count,
+    c.updated_datetime
+  from  preview.composer as c
+  order by
+    lower(c.composer_last_name),
+    lower(c.composer_first_name),
+    c.composer_id;
+end
+$$;
+
+revoke all on function preview.composer_list()
+  from public, authenticated, anon;
+grant execute on function preview.composer_list()
+  to service_role;
+
+
+--drop function preview.composer_duplicate_list(real);
+-- Pairs of composers that are probably the same person, most alike first:
+--   'alternate_name'   one lists the other's full name as an alternate spelling
+--   'same_last_name'   same last name and the first names start with the same letter ('J.S.' / 'Johann Sebastian')
+--   'similar_name'     full names at least p_min_similarity alike (trigram similarity)
+create or replace function preview.composer_duplicate_list(
+  p_min_similarity  real default 0.5
+)
+returns table (
+  composer_id_a    int,
+  composer_id_b    int,
+  match_reason     text,
+  name_similarity  real
+)
+language plpgsql
+stable
+as $$
+begin
+  return query
+  with named as (
+    select
+      c.composer_id,
+      c.composer_first_name,
+      c.composer_last_name,
+      lower(btrim(c.composer_first_name || ' ' || c.composer_last_name)) as full_name,
+      array(select lower(a.name) from unnest(c.alternate_names) as a(name)) as alternates
+    from preview.composer as c
+  ),
+  pairs as (
+    select
+      a.composer_id as id_a,
+      b.composer_id as id_b,
+      extensions.similarity(a.full_name, b.full_name) as sim,
+      case
+        when a.full_name = any(b.alternates) or b.full_name = any(a.alternates)
+          then 'alternate_name'
+        when lower(a.composer_last_name) = lower(b.composer_last_name)
+         and left(lower(a.composer_first_name), 1) = left(lower(b.composer_first_name), 1)
+          then 'same_last_name'
+        else 'similar_name'
+      end as reason
+    from named as a
+    join named as b
+      on b.composer_id > a.composer_id
+  )
+  select
+    p.id_a,
+    p.id_b,
+    p.reason,
+    p.sim
+  from pairs as p
+  where p.reason <> 'similar_name'
+     or p.sim >= p_min_similarity
+  order by
+    case p.reason when 'alternate_name' then 0 when 'same_last_name' then 1 else 2 end,
+    p.sim desc,
+    p.id_a,
+    p.id_b;
+end
+$$;
+
+revoke all on function preview.composer_duplicate_list(real)
+  from public, authenticated, anon;
+grant execute on function preview.composer_duplicate_list(real)
+  to service_role;
+
+
+--drop function preview.composer_match(text, int);
+-- Existing composers for a free-text creator name from a score (e.g. 'J. S. Bach'), best first
+create or replace function preview.composer_match(
+  p_name   text,
+  p_limit  int default 5
+)
+returns table (
+  composer_id          int,
+  composer_first_name  text,
+  composer_last_name   text,
+  birth_year           int,
+  death_year           int,
+  name_similarity      real
+)
+language plpgsql
+stable
+as $$
+declare
+  v_name text := lower(btrim(regexp_replace(coalesce(p_name, ''), '\s+', ' ', 'g')));
+begin
+  if v_name = '' then
+    return;
+  end if;
+
+  return query
+  select
+    m.composer_id,
+    m.composer_first_name,
+    m.composer_last_name,
+    m.birth_year,
+    m.death_year,
+    m.sim
+  from (
+    select
+      c.composer_id,
+      c.composer_first_name,
+      c.composer_last_name,
+      c.birth_year,
+      c.death_year,
+      greatest(
+        extensions.similarity(v_name, lower(btrim(c.composer_first_name || ' ' || c.composer_last_name))),
+        coalesce((select max(extensions.similarity(v_name, lower(a.name))) from unnest(c.alternate_names) as a(name)), 0),
+        -- 'Bach' alone, or any name ending in the last name
+        case when v_name = lower(c.composer_last_name) or v_name like '% ' || lower(c.composer_last_name) then 0.6 else 0 end
+      )::real as sim
+    from preview.composer as c
+  ) as m
+  where m.sim >= 0.3
+  order by
+    m.sim desc,
+    m.composer_id
+  limit greatest(1, least(coalesce(p_limit, 5), 20));
+end
+$$;
+
+revoke all on function preview.composer_match(text, int)
+  from public, authenticated, anon;
+grant execute on function preview.composer_match(text, int)
+  to service_role;
+
+
+--drop function preview.composer_save(int, text, text, int, int, text[]);  -- pre-audit signature; drop it before creating this one
+--drop function preview.composer_save(int, text, text, int, int, text[], jsonb);
+-- Update a composer; a renamed composer's songs get the new name copied in (one audit row per song)
+create or replace function preview.composer_save(
+  p_composer_id          int,
+  p_composer_first_name  text,
+  p_composer_last_name   text,
+  p_birth_year           int,
+  p_death_year           int,
+  p_alternate_names      text[],
+  p_audit                jsonb default null   -- request context for audit_log_write
+)
+returns int
+language plpgsql
+as $$
+declare
+  v_song_id int;
+  v_before  jsonb;
+begin
+  update preview.composer as c
+     set composer_first_name = btrim(coalesce(p_composer_first_name, '')),
+         composer_last_name  = btrim(p_composer_last_name),
+         birth_year          = p_birth_year,
+         death_year          = p_death_year,
+         alternate_names     = coalesce(p_alternate_names, '{}'),
+         updated_datetime    = now()
+   where c.composer_id = p_composer_id;
+
+  if not found then
+    raise exception 'composer_id % not found', p_composer_id
+      using errcode = 'P0002'; -- no_data_found
+  end if;
+
+  for v_song_id in
+    select s.song_id
+      from preview.song as s
+     where s.composer_id = p_composer_id
+       and (s.composer_first_name, s.composer_last_name)
+           is distinct from (btrim(coalesce(p_composer_first_name, '')), btrim(p_composer_last_name))
+     order by s.song_id
+  loop
+    v_before := preview.audit_song_snapshot(v_song_id);
+    update preview.song as s
+       set composer_first_name = btrim(coalesce(p_composer_first_name, '')),
+           composer_last_name  = btrim(p_composer_last_name),
+           updated_datetime    = now()
+     where s.song_id = v_song_id;
+    perform preview.audit_log_write('composer_save', 'song', v_song_id, v_before, preview.audit_song_snapshot(v_song_id), p_audit);
+  end loop;
+
+  return p_composer_id;
+end
+$$;
+
+revoke all on function preview.composer_save(int, text, text, int, int, text[], jsonb)
+  from public, authenticated, anon;
+grant execute on function preview.composer_save(int, text, text, int, int, text[], jsonb)
+  to service_role;
+
+
+--drop function preview.composer_merge(int, int);  -- pre-audit signature; drop it before creating this one
+--drop function preview.composer_merge(int, int, jsonb);
+-- Fold p_merge_composer_id into p_keep_composer_id: its songs move over (taking the kept
+-- name, one audit row per song), its name and spellings become alternates, missing years
+-- are filled in, and it is deleted. Returns the number of songs moved.
+create or replace function preview.composer_merge(
+  p_keep_composer_id   int,
+  p_merge_composer_id  int,
+  p_audit              jsonb default null   -- request context for audit_log_write
+)
+returns int
+language plpgsql
+as $$
+declare
+  v_keep    preview.composer%rowtype;
+  v_merge   preview.composer%rowtype;
+  v_count   int := 0;
+  v_song_id int;
+  v_before  jsonb;
+begin
+  if p_keep_composer_id = p_merge_composer_id then
+    raise exception 'cannot merge a composer into itself'
+      using errcode = '22023'; -- invalid_parameter_value
+  end if;
+
+  select * into v_keep from preview.composer as c where c.composer_id = p_keep_composer_id for update;
+  select * into v_merge from preview.composer as c where c.composer_id = p_merge_composer_id for update;
+  if v_keep.composer_id is null or v_merge.composer_id is null then
+    raise exception 'composer not found'
+      using errcode = 'P0002'; -- no_data_found
+  end if;
+
+  for v_song_id in
+    select s.song_id
+      from preview.song as s
+     where s.composer_id = v_merge.composer_id
+     order by s.song_id
+  loop
+    v_before := preview.audit_song_snapshot(v_song_id);
+    update preview.song as s
+       set composer_id         = v_keep.composer_id,
+           composer_first_name = v_keep.composer_first_name,
+           composer_last_name  = v_keep.composer_last_name,
+           updated_datetime    = now()
+     where s.song_id = v_song_id;
+    perform preview.audit_log_write('composer_merge', 'song', v_song_id, v_before, preview.audit_song_snapshot(v_song_id), p_audit);
+    v_count := v_count + 1;
+  end loop;
+
+  update preview.composer as c
+     set birth_year       = coalesce(c.birth_year, v_merge.birth_year),
+         death_year       = coalesce(c.death_year, v_merge.death_year),
+         alternate_names  = array(
+           select distinct on (lower(x.name)) x.name
+             from unnest(
+                    c.alternate_names
+                    || v_merge.alternate_names
+                    || btrim(v_merge.composer_first_name || ' ' || v_merge.composer_last_name)
+                  ) as x(name)
+            where lower(x.name) <> lower(btrim(c.composer_first_name || ' ' || c.composer_last_name))
+            order by lower(x.name)
+         ),
+         updated_datetime = now()
+   where c.composer_id = v_keep.composer_id;
+
+  delete from preview.composer as c
+   where c.composer_id = v_merge.composer_id;
+
+  return v_count;
+end
+$$;
+
+revoke all on function preview.composer_merge(int, int, jsonb)
+  from public, authenticated, anon;
+grant execute on function preview.composer_merge(int, int, jsonb)
+  to service_role;
+
+
+--drop function preview.song_tag_set(int, text[]);
+-- Replace a song's tags; names are matched case-insensitively and new ones are created
+create or replace function preview.song_tag_set(
+  p_song_id    int,
+  p_tag_names  text[]
+)
+returns int
+language plpgsql
+as $$
+declare
+  v_count int;
+begin
+  insert into preview.tag (tag_name)
+  select distinct on (lower(btrim(x.tag_name)))
+    btrim(x.tag_name)
+  from unnest(coalesce(p_tag_names, '{}')) as x(tag_name)
+  where btrim(x.tag_name) <> ''
+  on conflict (lower(tag_name)) do nothing;
+
+  delete from preview.song_tag as st
+   where st.song_id = p_song_id;
+
+  insert into preview.song_tag (
+    song_id,
+    tag_id
+  )
+  select distinct
+    p_song_id,
+    t.tag_id
+  from unnest(coalesce(p_tag_names, '{}')) as x(tag_name)
+  join preview.tag as t
+    on lower(t.tag_name) = lower(btrim(x.tag_name));
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end
+$$;
+
+revoke all on function preview.song_tag_set(int, text[])
+  from public, authenticated, anon;
+grant execute on function preview.song_tag_set(int, text[])
+  to service_role;
+
+
+--drop function preview.song_upsert(int,text,text,text,int,text,bytea)  -- pre-revision signature; drop it before creating this one
+--drop function preview.song_upsert(int,text,text,text,int,text,bytea,int)  -- pre-metadata signature
+--drop function preview.song_upsert(int,text,text,text,int,text,bytea,int,jsonb)  -- pre-tag signature
+--drop function preview.song_upsert(int,text,text,text,int,text,bytea,int,jsonb,text[])  -- pre-audit signature
+--drop function preview.song_upsert(int,text,text,text,int,text,bytea,int,jsonb,text[],jsonb)
+-- p_metadata: SongMetadata from src/lib/mxlMetadata.ts (null = the score could not be read)
+-- p_tag_names: the song's full tag list (null = leave its tags as they are)
+-- p_audit: request context for audit_log_write
+create function preview.song_upsert(
+    p_song_id               int,
+    p_song_title            text,
+    p_composer_first_name   text,
+    p_composer_last_name    text,
+    p_skill_level_number    int,
+    p_file_name             text,
+    p_song_mxl              bytea,
+    p_uploaded_by_user_id   int default null,
+    p_metadata              jsonb default null,
+    p_tag_names             text[] default null,
+    p_audit                 jsonb default null
+)
+returns int
+language plpgsql
+as $$
+declare
+    v_song_id     int;
+    v_old_mxl     bytea;
+    v_composer_id int;
+    v_first_name  text;
+    v_last_name   text;
+    v_before      jsonb;
+begin
+    -- The song takes the composer's own spelling of the name
+    v_composer_id := preview.composer_resolve(p_composer_first_name, p_composer_last_name);
+    select c.composer_first_name, c.composer_last_name
+      into v_first_name, v_last_name
+      from preview.composer as c
+     where c.composer_id = v_composer_id;
+
+    IF p_song_id is null then
+        insert into preview.song (
+            song_title,
+            composer_id,
+            composer_first_name,
+            composer_last_name,
+            skill_level_number,
+            file_name,
+            song_mxl,
+            key_signature,
+            time_signature,
+            tempo_text,
+            tempo_bpm,
+            instrument_names,
+            measure_count,
+            page_count,
+            lyricist,
+            arranger,
+            copyright
+        )
+        values (
+            p_song_title,
+            v_composer_id,
+            v_first_name,
+            v_last_name,
+            p_skill_level_number,
+            p_file_name,
+            p_song_mxl,
+            p_metadata->>'key_signature',
+            p_metadata->>'time_signature',
+            p_metadata->>'tempo_text',
+            (p_metadata->>'tempo_bpm')::int,
+            array(select jsonb_array_elements_text(p_metadata->'instrument_names')),
+            (p_metadata->>'measure_count')::int,
+            (p_metadata->>'page_count')::int,
+            p_metadata->>'lyricist',
+            p_metadata->>'arranger',
+            p_metadata->>'copyright'
+        )
+        returning song_id into v_song_id;
+
+        insert into preview.song_revision (song_id, file_name, song_mxl, uploaded_by_user_id)
+        values (v_song_id, p_file_name, p_song_mxl, p_uploaded_by_user_id);
+
+        if p_tag_names is not null then
+            perform preview.song_tag_set(v_song_id, p_tag_names);
+        end if;
+
+        perform preview.audit_log_write('song_upsert', 'song', v_song_id, null, preview.audit_song_snapshot(v_song_id), p_audit);
+        return v_song_id;
+    else
+        -- A song in the Trash can't be edited until it is restored
+        select s.song_mxl
+          into v_old_mxl
+          from preview.song as s
+         where s.song_id = p_song_id
+           and s.deleted_datetime is null
+           for update;
+
+        if not found then
+            raise exception 'song_id % not found', p_song_id
+               using errcode = 'P0002';  -- no_data_found
+        end if;
+
+        v_before := preview.audit_song_snapshot(p_song_id);
+
+        update preview.song
+        set
+            song_title           = p_song_title,
+            composer_id          = v_composer_id,
+            composer_first_name  = v_first_name,
+            composer_last_name   = v_last_name,
+            skill_level_number   = p_skill_level_number,
+            file_name            = p_file_name,
+            song_mxl             = p_song_mxl,
+            key_signature        = p_metadata->>'key_signature',
+            time_signature       = p_metadata->>'time_signature',
+            tempo_text           = p_metadata->>'tempo_text',
+            tempo_bpm            = (p_metadata->>'tempo_bpm')::int,
+            instrument_names     = array(select jsonb_array_elements_text(p_metadata->'instrument_names')),
+            measure_count        = (p_metadata->>'measure_count')::int,
+            page_count           = (p_metadata->>'page_count')::int,
+            lyricist             = p_metadata->>'lyricist',
+            arranger             = p_metadata->>'arranger',
+            copyright            = p_metadata->>'copyright',
+            updated_datetime     = now()
+        where song_id = p_song_id;
+
+        -- Metadata-only saves send the same bytes back; only new engravings become revisions
+        if v_old_mxl is distinct from p_song_mxl then
+            insert into preview.song_revision (song_id, file_name, song_mxl, uploaded_by_user_id)
+            values (p_song_id, p_file_name, p_song_mxl, p_uploaded_by_user_id);
+        end if;
+
+        if p_tag_names is not null then
+            perform preview.song_tag_set(p_song_id, p_tag_names);
+        end if;
+
+        perform preview.audit_log_write('song_upsert', 'song', p_song_id, v_before, preview.audit_song_snapshot(p_song_id), p_audit);
+        return p_song_id;
+    end if;
+end
+$$;
+
+revoke all on function preview.song_upsert(int, text, text, text, int, text, bytea, int, jsonb, text[], jsonb)
+  from public, authenticated, anon;
+grant execute on function preview.song_upsert(int, text, text, text, int, text, bytea, int, jsonb, text[], jsonb)
+  to service_role;
+
+
+--drop function preview.song_delete(int)  -- pre-audit signature; drop it before creating this one
+--drop function preview.song_delete(int, jsonb)
+create or replace function preview.song_delete(
+  p_song_id int,
+  p_audit   jsonb default null   -- request context for audit_log_write
+)
+returns int
+language plpgsql
+as $$
+declare
+  v_count  int;
+  v_before jsonb;
+begin
+  v_before := preview.audit_song_snapshot(p_song_id);
+
+  -- Soft delete: the song goes to the Trash (trash_restore / trash_purge)
+  update preview.song as s
+     set deleted_datetime = now()
+   where s.song_id = p_song_id
+     and s.deleted_datetime is null;
+
+  get diagnostics v_count = row_count;
+  if v_count > 0 then
+    perform preview.audit_log_write('song_delete', 'song', p_song_id, v_before, preview.audit_song_snapshot(p_song_id), p_audit);
+  end if;
+  return v_count;
+end
+$$;
+
+revoke all on function preview.song_delete(int, jsonb)
+  from public, authenticated, anon;
+grant execute on function preview.song_delete(int, jsonb)
+  to service_role;
+
+
+--drop function preview.song_mxl_get(int)
+create or replace function preview.song_mxl_get(
+  p_song_id int
+)
+returns table (
+    song_mxl    bytea
+)
+language plpgsql
+stable
+as $$
+begin
+    return query
+    select 
+      s.song_mxl
+    from  preview.song as s
+    where s.song_id = p_song_id
+      and s.deleted_datetime is null;
+end
+$$;
+
+revoke all on function preview.song_mxl_get(int)
+  from public, authenticated, anon;
+grant execute on function preview.song_mxl_get(int)
+  to service_role;
+
+
+--drop function preview.song_get(int)
+-- One song's catalog fields (no MXL), e.g. for the viewer's print header
+create or replace function preview.song_get(
+  p_song_id int
+)
+returns table (
+    song_id              int,
+    song_title           text,
+    composer_first_name  text,
+    composer_last_name   text,
+    skill_level_number   int,
+    skill_level_name     text
+)
+language plpgsql
+stable
+as $$
+begin
+    return query
+    select
+      s.song_id,
+      s.song_title,
+      s.composer_first_name,
+      s.composer_last_name,
+      s.skill_level_number,
+      sl.skill_level_name
+    from  preview.song as s
+     join preview.skill_level as sl
+       on sl.skill_level_number = s.skill_level_number
+    where s.song_id = p_song_id
+      and s.deleted_datetime is null;
+end
+$$;
+
+revoke all on function preview.song_get(int)
+  from public, authenticated, anon;
+grant execute on function preview.song_get(int)
+  to service_role;
+
+
+--drop function preview.song_revision_list(int);
+create or replace function preview.song_revision_list(
+  p_song_id int
+)
+returns table (
+    song_revision_id           int,
+    file_name                  text,
+    mxl_bytes                  int,
+    uploaded_by_user_id        int,
+    uploaded_by_user_name      text,
+    restored_from_revision_id  int,
+    is_current                 boolean,
+    inserted_datetime          timestamptz
+)
+language plpgsql
+stable
+as $$
+begin
+    return query
+    select
+      r.song_revision_id,
+      r.file_name,
+      octet_length(r.song_mxl)::int,
+      r.uploaded_by_user_id,
+      u.user_name,
+      r.restored_from_revision_id,
+      r.song_revision_id = max(r.song_revision_id) over (),
+      r.inserted_datetime
+    from      preview.song_revision as r
+    left join preview.site_user     as u on u.user_id = r.uploaded_by_user_id
+    where r.song_id = p_song_id
+    order by r.song_revision_id desc;
+end
+$$;
+
+revoke all on function preview.song_revision_list(int)
+  from public, authenticated, anon;
+grant execute on function preview.song_revision_list(int)
+  to service_role;
+
+
+--drop function preview.song_revision_mxl_get(int, int);
+create or replace function preview.song_revision_mxl_get(
+  p_song_id           int,
+  p_song_revision_id  int
+)
+returns table (
+    song_mxl    bytea
+)
+language plpgsql
+stable
+as $$
+begin
+    return query
+    select
+      r.song_mxl
+    from  preview.song_revision as r
+    where r.song_id = p_song_id
+      and r.song_revision_id = p_song_revision_id;
+end
+$$;
+
+revoke all on function preview.song_revision_mxl_get(int, int)
+  from public, authenticated, anon;
+grant execute on function preview.song_revision_mxl_get(int, int)
+  to service_role;
+
+
+--drop function preview.song_revision_restore(int, int, int);  -- pre-metadata signature
+--drop function preview.song_revision_restore(int, int, int, jsonb);  -- pre-audit signature; drop it before creating this one
+--drop function preview.song_revision_restore(int, int, int, jsonb, jsonb);
+-- Makes an old revision current again by copying it forward as a new revision,
+-- so the history stays append-only. Returns the new (or already current) revision id.
+-- p_metadata is read from the restored MXL by the caller, as in song_upsert.
+create or replace function preview.song_revision_restore(
+  p_song_id           int,
+  p_song_revision_id  int,
+  p_user_id           int default null,
+  p_metadata          jsonb default null,
+  p_audit             jsonb default null   -- request context for audit_log_write
+)
+returns int
+language plpgsql
+as $$
+declare
+  v_file_name   text;
+  v_song_mxl    bytea;
+  v_current_id  int;
+  v_new_id      int;
+  v_before      jsonb;
+begin
+  -- A song in the Trash can't be edited until it is restored
+  perform 1
+     from preview.song as s
+    where s.song_id = p_song_id
+      and s.deleted_datetime is null
+      for update;
+
+  if not found then
+    raise exception 'song_id % not found', p_song_id
+      using errcode = 'P0002';  -- no_data_found
+  end if;
+
+  select r.file_name, r.song_mxl
+    into v_file_name, v_song_mxl
+    from preview.song_revision as r
+   where r.song_id = p_song_id
+     and r.song_revision_id = p_song_revision_id;
+
+  if not found then
+    raise exception 'song_revision_id % not found for song_id %', p_song_revision_id, p_song_id
+      using errcode = 'P0002';  -- no_data_found
+  end if;
+
+  select max(r.song_revision_id)
+    into v_current_id
+    from preview.song_revision as r
+   where r.song_id = p_song_id;
+
+  if v_current_id = p_song_revision_id then
+    return p_song_revision_id;
+  end if;
+
+  v_before := preview.audit_song_snapshot(p_song_id);
+
+  update preview.song
+     set file_name        = v_file_name,
+         song_mxl         = v_song_mxl,
+         key_signature    = p_metadata->>'key_signature',
+         time_signature   = p_metadata->>'time_signature',
+         tempo_text       = p_metadata->>'tempo_text',
+         tempo_bpm        = (p_metadata->>'tempo_bpm')::int,
+         instrument_names = array(select jsonb_array_elements_text(p_metadata->'instrument_names')),
+         measure_count    = (p_metadata->>'measure_count')::int,
+         page_count       = (p_metadata->>'page_count')::int,
+         lyricist         = p_metadata->>'lyricist',
+         arranger         = p_metadata->>'arranger',
+         copyright        = p_metadata->>'copyright',
+         updated_datetime = now()
+   where song_id = p_song_id;
+
+  insert into preview.song_revision (song_id, file_name, song_mxl, uploaded_by_user_id, restored_from_revision_id)
+  values (p_song_id, v_file_name, v_song_mxl, p_user_id, p_song_revision_id)
+  returning song_revision_id into v_new_id;
+
+  perform preview.audit_log_write('song_revision_restore', 'song', p_song_id, v_before, preview.audit_song_snapshot(p_song_id), p_audit);
+  return v_new_id;
+end
+$$;
+
+revoke all on function preview.song_revision_restore(int, int, int, jsonb, jsonb)
+  from public, authenticated, anon;
+grant execute on function preview.song_revision_restore(int, int, int, jsonb, jsonb)
+  to service_role;
+
+
+--drop function preview.trash_list(int);
+-- Soft-deleted songs and users, most recently deleted first; purge_datetime is when
+-- trash_purge may remove each one for good
+create or replace function preview.trash_list(
+  p_retention_days  int
+)
+returns table (
+  item_type         text,   -- 'song' | 'user'
+  item_id           int,
+  item_name         text,
+  item_detail       text,
+  deleted_datetime  timestamptz,
+  purge_datetime    timestamptz
+)
+language plpgsql
+stable
+as $$
+begin
+  return query
+  select
+    t.item_type,
+    t.item_id,
+    t.item_name,
+    t.item_detail,
+    t.deleted_datetime,
+    t.deleted_datetime + make_interval(days => p_retention_days)
+  from (
+    select
+      'song'::text as item_type,
+      s.song_id as item_id,
+      s.song_title as item_name,
+      btrim(s.composer_first_name || ' ' || s.composer_last_name) || ' · ' || s.file_name as item_detail,
+      s.deleted_datetime
+    from  preview.song as s
+    where s.deleted_datetime is not null
+    union all
+    select
+      'user',
+      u.user_id,
+      u.user_name,
+      u.user_email,
+      u.deleted_datetime
+    from  preview.site_user as u
+    where u.deleted_datetime is not null
+  ) as t
+  order by
+    t.deleted_datetime desc,
+    t.item_type,
+    t.item_id;
+end
+$$;
+
+revoke all on function preview.trash_list(int)
+  from public, authenticated, anon;
+grant execute on function preview.trash_list(int)
+  to service_role;
+
+
+--drop function preview.trash_restore(text, int);  -- pre-audit signature; drop it before creating this one
+--drop function preview.trash_restore(text, int, jsonb);
+-- Take a song or user back out of the Trash; returns 0 when it isn't there
+create or replace function preview.trash_restore(
+  p_item_type  text,
+  p_item_id    int,
+  p_audit      jsonb default null   -- request context for audit_log_write
+)
+returns int
+language plpgsql
+as $$
+declare
+  v_count  int;
+  v_before jsonb;
+begin
+  if p_item_type = 'song' then
+    v_before := preview.audit_song_snapshot(p_item_id);
+    update preview.song as s
+       set deleted_datetime = null,
+           updated_datetime = now()
+     where s.song_id = p_item_id
+       and s.deleted_datetime is not null;
+    get diagnostics v_count = row_count;
+    if v_count > 0 then
+      perform preview.audit_log_write('trash_restore', 'song', p_item_id, v_before, preview.audit_song_snapshot(p_item_id), p_audit);
+    end if;
+  elsif p_item_type = 'user' then
+    v_before := preview.audit_user_snapshot(p_item_id);
+    update preview.site_user as u
+       set deleted_datetime = null,
+           updated_datetime = now()
+     where u.user_id = p_item_id
+       and u.deleted_datetime is not null;
+    get diagnostics v_count = row_count;
+    if v_count > 0 then
+      perform preview.audit_log_write('trash_restore', 'user', p_item_id, v_before, preview.audit_user_snapshot(p_item_id), p_audit);
+    end if;
+  else
+    raise exception 'Invalid item_type: %, must be "song" or "user"', p_item_type
+      using errcode = '22023'; -- invalid_parameter_value
+  end if;
+
+  return v_count;
+end
+$$;
+
+revoke all on function preview.trash_restore(text, int, jsonb)
+  from public, authenticated, anon;
+grant execute on function preview.trash_restore(text, int, jsonb)
+  to service_role;
+
+
+--drop function preview.trash_delete(text, int);  -- pre-audit signature; drop it before creating this one
+--drop function preview.trash_delete(text, int, jsonb);
+-- Permanently delete one song or user that is already in the Trash (child rows cascade)
+create or replace function preview.trash_delete(
+  p_item_type  text,
+  p_item_id    int,
+  p_audit      jsonb default null   -- request context for audit_log_write
+)
+returns int
+language plpgsql
+as $$
+declare
+  v_count  int;
+  v_before jsonb;
+begin
+  if p_item_type = 'song' then
+    v_before := preview.audit_song_snapshot(p_item_id);
+    delete from preview.song as s
+     where s.song_id = p_item_id
+       and s.deleted_datetime is not null;
+  elsif p_item_type = 'user' then
+    v_before := preview.audit_user_snapshot(p_item_id);
+    delete from preview.site_user as u
+     where u.user_id = p_item_id
+       and u.deleted_datetime is not null;
+  else
+    raise exception 'Invalid item_type: %, must be "song" or "user"', p_item_type
+      using errcode = '22023'; -- invalid_parameter_value
+  end if;
+
+  get diagnostics v_count = row_count;
+  if v_count > 0 then
+    perform preview.audit_log_write('trash_delete', p_item_type, p_item_id, v_before, null, p_audit);
+  end if;
+  return v_count;
+end
+$$;
+
+revoke all on function preview.trash_delete(text, int, jsonb)
+  from public, authenticated, anon;
+grant execute on function preview.trash_delete(text, int, jsonb)
+  to service_role;
+
+
+--drop function preview.trash_purge(int);  -- pre-audit signature; drop it before creating this one
+--drop function preview.trash_purge(int, jsonb);
+-- Permanently delete everything that has been in the Trash longer than the retention window;
+-- returns how many songs and users went. Each one gets an audit row with its last state.
+create or replace function preview.trash_purge(
+  p_retention_days  int,
+  p_audit           jsonb default null   -- request context for audit_log_write (null from pg_cron)
+)
+returns int
+language plpgsql
+as $$
+declare
+  v_cutoff timestamptz;
+  v_songs  int := 0;
+  v_users  int := 0;
+  v_id     int;
+  v_before jsonb;
+begin
+  if p_retention_days is null or p_retention_days < 1 then
+    raise exception 'Invalid retention_days: %, must be at least 1', p_retention_days
+      using errcode = '22023'; -- invalid_parameter_value
+  end if;
+  v_cutoff := now() - make_interval(days => p_retention_days);
+
+  for v_id in
+    select s.song_id
+      from preview.song as s
+     where s.deleted_datetime < v_cutoff
+     order by s.song_id
+  loop
+    v_before := preview.audit_song_snapshot(v_id);
+    delete from preview.song as s
+     where s.song_id = v_id;
+    perform preview.audit_log_write('trash_purge', 'song', v_id, v_before, null, p_audit);
+    v_songs := v_songs + 1;
+  end loop;
+
+  for v_id in
+    select u.user_id
+      from preview.site_user as u
+     where u.deleted_datetime < v_cutoff
+     order by u.user_id
+  loop
+    v_before := preview.audit_user_snapshot(v_id);
+    delete from preview.site_user as u
+     where u.user_id = v_id;
+    perform preview.audit_log_write('trash_purge', 'user', v_id, v_before, null, p_audit);
+    v_users := v_users + 1;
+  end loop;
+
+  return v_songs + v_users;
+end
+$$;
+
+revoke all on function preview.trash_purge(int, jsonb)
+  from public, authenticated, anon;
+grant execute on function preview.trash_purge(int, jsonb)
+  to service_role;
+
+-- Purge nightly with pg_cron; keep the days in step with TRASH_RETENTION_DAYS (src/lib/trashPolicy.ts)
+--select cron.schedule('preview-trash-purge', '15 3 * * *', $$select preview.trash_purge(30)$$);
+
+
+--drop function preview.audit_song_snapshot(int);
+-- A song as the audit log keeps it: every column and its tags, but the MXL only as a SHA-256
+create or replace function preview.audit_song_snapshot(
+  p_song_id  int
+)
+returns jsonb
+language plpgsql
+stable
+as $$
+begin
+  return (
+    select
+      (to_jsonb(s) - 'song_mxl')
+      || jsonb_build_object(
+           'song_mxl_sha256', encode(sha256(s.song_mxl), 'hex'),
+           'tag_names', array(
+             select t.tag_name
+               from preview.song_tag as st
+               join preview.tag as t
+                 on t.tag_id = st.tag_id
+              where st.song_id = s.song_id
+              order by lower(t.tag_name)
+           )
+         )
+    from  preview.song as s
+    where s.song_id = p_song_id
+  );
+end
+$$;
+
+revoke all on function preview.audit_song_snapshot(int)
+  from public, authenticated, anon;
+grant execute on function preview.audit_song_snapshot(int)
+  to service_role;
+
+
+--drop function preview.audit_user_snapshot(int);
+create or replace function preview.audit_user_snapshot(
+  p_user_id  int
+)
+returns jsonb
+language plpgsql
+stable
+as $$
+begin
+  return (
+    select to_jsonb(u)
+    from  preview.site_user as u
+    where u.user_id = p_user_id
+  );
+end
+$$;
+
+revoke all on function preview.audit_user_snapshot(int)
+  from public, authenticated, anon;
+grant execute on function preview.audit_user_snapshot(int)
+  to service_role;
+
+
+--drop function preview.audit_log_write(text, text, int, jsonb, jsonb, jsonb);
+-- Called by the functions that change songs and users, in the same transaction as the change.
+-- p_audit is the request context built by src/lib/auditContext.ts:
+--   { actor_user_id, request_method, request_path, request_ip, user_agent }
+create or replace function preview.audit_log_write(
+  p_audit_action  text,
+  p_entity_type   text,
+  p_entity_id     int,
+  p_before_data   jsonb,
+  p_after_data    jsonb,
+  p_audit         jsonb
+)
+returns void
+language plpgsql
+as $$
+begin
+  insert into preview.audit_log (
+    audit_action,
+    entity_type,
+    entity_id,
+    actor_user_id,
+    before_data,
+    after_data,
+    request_method,
+    request_path,
+    request_ip,
+    user_agent
+  )
+  values (
+    p_audit_action,
+    p_entity_type,
+    p_entity_id,
+    -- An actor that no longer exists is logged as unknown rather than failing the change
+    (select u.user_id from preview.site_user as u where u.user_id = (p_audit->>'actor_user_id')::int),
+    p_before_data,
+    p_after_data,
+    p_audit->>'request_method',
+    p_audit->>'request_path',
+    p_audit->>'request_ip',
+    p_audit->>'user_agent'
+  );
+end
+$$;
+
+revoke all on function preview.audit_log_write(text, text, int, jsonb, jsonb, jsonb)
+  from public, authenticated, anon;
+grant execute on function preview.audit_log_write(text, text, int, jsonb, jsonb, jsonb)
+  to service_role;
+
+
+--drop function preview.audit_list(text, int, int, timestamptz, timestamptz, int, bigint);
+-- Audit rows newest first, with the entity's title/user name and the actor's user name
+create or replace function preview.audit_list(
+  p_entity_type    text        default null,   -- 'song' | 'user'; null = both
+  p_entity_id      int         default null,
+  p_actor_user_id  int         default null,
+  p_from           timestamptz default null,   -- inclusive
+  p_to             timestamptz default null,   -- exclusive
+  p_limit          int         default null,   -- null = every remaining row
+  p_after_id       bigint      default null    -- keyset cursor: audit_id of the last row already seen
+)
+returns table (
+  audit_id           bigint,
+  audit_action       text,
+  entity_type        text,
+  entity_id          int,
+  entity_name        text,
+  actor_user_id      int,
+  actor_user_name    text,
+  before_data        jsonb,
+  after_data         jsonb,
+  request_method     text,
+  request_path       text,
+  request_ip         text,
+  user_agent         text,
+  inserted_datetime  timestamptz,
+  sort_key           text
+)
+language plpgsql
+stable
+as $$
+begin
+  if p_limit is not null and (p_limit < 1 or p_limit > 1000) then
+    raise exception 'Invalid limit: %, must be between 1 and 1000', p_limit
+      using errcode = '22023'; -- invalid_parameter_value
+  end if;
+
+  return query
+  select
+    a.audit_id,
+    a.audit_action,
+    a.entity_type,
+    a.entity_id,
+    coalesce(a.after_data, a.before_data)->>(case a.entity_type when 'song' then 'song_title' else 'user_name' end),
+    a.actor_user_id,
+    u.user_name,
+    a.before_data,
+    a.after_data,
+    a.request_method,
+    a.request_path,
+    a.request_ip,
+    a.user_agent,
+    a.inserted_datetime,
+    a.audit_id::text
+  from  preview.audit_log as a
+  left join preview.site_user as u
+    on u.user_id = a.actor_user_id
+  where (p_entity_type is null or a.entity_type = p_entity_type)
+    and (p_entity_id is null or a.entity_id = p_entity_id)
+    and (p_actor_user_id is null or a.actor_user_id = p_actor_user_id)
+    and (p_from is null or a.inserted_datetime >= p_from)
+    and (p_to is null or a.inserted_datetime < p_to)
+    and (p_after_id is null or a.audit_id < p_after_id)
+  order by
+    a.audit_id desc
+  limit p_limit;
+end
+$$;
+
+revoke all on function preview.audit_list(text, int, int, timestamptz, timestamptz, int, bigint)
+  from public, authenticated, anon;
+grant execute on function preview.audit_list(text, int, int, timestamptz, timestamptz, int, bigint)
+  to service_role;
+
+
+--drop function preview.audit_actor_list();
+-- Users who appear as the actor of at least one audit row (the Activity page's actor filter)
+create or replace function preview.audit_actor_list()
+returns table (
+  user_id          int,
+  user_name        text,
+  user_first_name  text,
+  user_last_name   text
+)
+language plpgsql
+stable
+as $$
+begin
+  return query
+  select
+    u.user_id,
+    u.user_name,
+    u.user_first_name,
+    u.user_last_name
+  from  preview.site_user as u
+  where exists (
+          select 1
+            from preview.audit_log as a
+           where a.actor_user_id = u.user_id
+        )
+  order by
+    u.user_name;
+end
+$$;
+
+revoke all on function preview.audit_actor_list()
+  from public, authenticated, anon;
+grant execute on function preview.audit_actor_list()
   to service_role;
 
 
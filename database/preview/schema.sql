@@ -3,3 +3,6 @@ do $$begin raise exception 'do not run this file'; end$$;
 create schema if not exists preview;
 
 grant usage on schema preview to service_role;
+
+-- Trigram search (song_list p_search); Supabase keeps extensions in the "extensions" schema
+create extension if not exists pg_trgm with schema extensions;
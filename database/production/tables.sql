@@ -30,6 +30,7 @@ create table production.site_user (
   user_role_number  int  not null,
   inserted_datetime timestamptz not null default now(),
   updated_datetime  timestamptz not null default now(),
+  deleted_datetime  timestamptz,   -- set = in the Trash (user_delete); names stay reserved until purged
   constraint pk_site_user primary key (
     user_id
   ),
@@ -62,6 +63,9 @@ create table production.site_user (
   )
 );
 
+-- Upgrading a database created before the Trash:
+--alter table production.site_user add column deleted_datetime timestamptz;
+
 insert into production.site_user (user_name, user_email, user_first_name, user_last_name, user_role_number)
     values ('ron31416', 'ron31416@gmail.com', 'Ron', 'Rice', 1)
 
@@ -85,17 +89,56 @@ insert into production.skill_level (skill_level_number, skill_level_name) values
 insert into production.skill_level (skill_level_number, skill_level_name) values (3, 'Advanced');
 
 
+--drop table production.composer;
+create table production.composer (
+  composer_id          int         generated always as identity,
+  composer_first_name  text        not null default '',
+  composer_last_name   text        not null,
+  birth_year           int,
+  death_year           int,
+  alternate_names      text[]      not null default '{}',  -- other spellings seen in scores, e.g. 'J.S. Bach'
+  inserted_datetime    timestamptz not null default now(),
+  updated_datetime     timestamptz not null default now(),
+  constraint pk_composer primary key (
+    composer_id
+  ),
+  constraint ck_composer_last_name check (
+    btrim(composer_last_name) <> ''
+  ),
+  constraint ck_composer_years check (
+    birth_year is null or death_year is null or birth_year <= death_year
+  )
+);
+
+--drop index production.ui_composer_name_lower;
+create unique index ui_composer_name_lower on production.composer (lower(composer_last_name), lower(composer_first_name));
+
+
 --drop table production.song
 create table production.song (
   song_id             int         generated by default as identity,
   song_title          text        not null,
+  composer_id         int         not null,
+  -- Copy of the composer's name (search, sort and the unique key below); kept in step by song_upsert and composer_save/merge
   composer_last_name  text        not null,
   composer_first_name text        not null,
   skill_level_number  int         not null,
   file_name           text        not null,
   song_mxl            bytea       not null,
+  -- Read from the MusicXML on every save (src/lib/mxlMetadata.ts); null = not in the score
+  key_signature       text,
+  time_signature      text,
+  tempo_text          text,
+  tempo_bpm           int,
+  instrument_names    text[]      not null default '{}',
+  measure_count       int,
+  page_count          int,
+  lyricist            text,
+  arranger            text,
+  copyright           text,
   inserted_datetime   timestamptz not null default now(),
   updated_datetime    timestamptz not null default now(),
+  deleted_datetime    timestamptz,   -- set = in the Trash (song_delete); file name and title stay reserved until purged
   constraint pk_song primary key (
     song_id
   ),
@@ -114,8 +157,338 @@ create table production.song (
     references production.skill_level (
       skill_level_number
     ),
+  constraint fk_song_composer foreign key (
+    composer_id
+  )
+    references production.composer (
+      composer_id
+    ),
   constraint ck_song_mxl check (
     substring(song_mxl from 1 for 4)
       IN (E'\\x504b0304'::bytea, E'\\x504b0506'::bytea, E'\\x504b0708'::bytea)
   )
 );
+
+--drop index production.ix_song_search_trgm;
+-- Must match the search expression in production.song_list exactly
+create index ix_song_search_trgm on production.song
+  using gin (
+    lower(song_title || ' ' || composer_first_name || ' ' || composer_last_name) extensions.gin_trgm_ops
+  );
+
+--drop index production.ix_song_composer;
+create index ix_song_composer on production.song (composer_id);
+
+--drop index production.ix_song_deleted;
+-- Only the Trash looks up deleted rows (trash_list, trash_purge)
+create index ix_song_deleted on production.song (deleted_datetime) where deleted_datetime is not null;
+
+-- Upgrading a database created before the score metadata columns (they stay null until each song is saved again):
+--alter table production.song add column key_signature text;
+--alter table production.song add column time_signature text;
+--alter table production.song add column tempo_text text;
+--alter table production.song add column tempo_bpm int;
+--alter table production.song add column instrument_names text[] not null default '{}';
+--alter table production.song add column measure_count int;
+--alter table production.song add column page_count int;
+--alter table production.song add column lyricist text;
+--alter table production.song add column arranger text;
+--alter table production.song add column copyright text;
+
+-- Upgrading a database created before the Trash:
+--alter table production.song add column deleted_datetime timestamptz;
+--create index ix_song_deleted on production.song (deleted_datetime) where deleted_datetime is not null;
+
+-- Upgrading a database created before production.composer: create that table, then
+--alter table production.song add column composer_id int;
+--insert into production.composer (composer_first_name, composer_last_name)
+--    select distinct on (lower(composer_last_name), lower(composer_first_name)) composer_first_name, composer_last_name
+--    from production.song
+--    order by lower(composer_last_name), lower(composer_first_name), song_id;
+--update production.song as s
+--   set composer_id = c.composer_id
+--  from production.composer as c
+-- where lower(c.composer_last_name) = lower(s.composer_last_name)
+--   and lower(c.composer_first_name) = lower(s.composer_first_name);
+--alter table production.song alter column composer_id set not null;
+--alter table production.song add constraint fk_song_composer foreign key (composer_id) references production.composer (composer_id);
+--create index ix_song_composer on production.song (composer_id);
+
+
+--drop table production.song_revision;
+-- Every MXL a song has had; the newest row per song matches song.song_mxl
+create table production.song_revision (
+  song_revision_id          int         generated always as identity,
+  song_id                   int         not null,
+  file_name                 text        not null,
+  song_mxl                  bytea       not null,
+  uploaded_by_user_id       int,                   -- null for backfilled rows or once the user is deleted
+  restored_from_revision_id int,                   -- set when this row was created by a restore
+  inserted_datetime         timestamptz not null default now(),
+  constraint pk_song_revision primary key (
+    song_revision_id
+  ),
+  constraint fk_song_revision_song foreign key (
+    song_id
+  )
+    references production.song (
+      song_id
+    )
+    on delete cascade,
+  constraint fk_song_revision_uploaded_by foreign key (
+    uploaded_by_user_id
+  )
+    references production.site_user (
+      user_id
+    )
+    on delete set null,
+  constraint fk_song_revision_restored_from foreign key (
+    restored_from_revision_id
+  )
+    references production.song_revision (
+      song_revision_id
+    )
+    on delete set null
+);
+
+--drop index production.ix_song_revision_song;
+create index ix_song_revision_song on production.song_revision (song_id, song_revision_id);
+
+-- Backfill: the current MXL of every existing song becomes its first revision
+insert into production.song_revision (song_id, file_name, song_mxl, inserted_datetime)
+    select song_id, file_name, song_mxl, updated_datetime
+    from production.song
+    order by song_id;
+
+
+--drop table production.assignment;
+create table production.assignment (
+  assignment_id        int         generated always as identity,
+  song_id              int         not null,
+  user_id              int         not null,  -- the student
+  assigned_by_user_id  int,                   -- null once the assigning admin is deleted
+  assignment_notes     text        not null default '',
+  due_date             date,
+  completed_datetime   timestamptz,
+  inserted_datetime    timestamptz not null default now(),
+  updated_datetime     timestamptz not null default now(),
+  constraint pk_assignment primary key (
+    assignment_id
+  ),
+  constraint fk_assignment_song foreign key (
+    song_id
+  )
+    references production.song (
+      song_id
+    )
+    on delete cascade,
+  constraint fk_assignment_user foreign key (
+    user_id
+  )
+    references production.site_user (
+      user_id
+    )
+    on delete cascade,
+  constraint fk_assignment_assigned_by foreign key (
+    assigned_by_user_id
+  )
+    references production.site_user (
+      user_id
+    )
+    on delete set null
+);
+
+--drop index production.ui_assignment_open;
+-- One open assignment per (song, student); assigning it again updates that row
+create unique index ui_assignment_open on production.assignment (song_id, user_id)
+  where completed_datetime is null;
+
+--drop index production.ix_assignment_user_due;
+create index ix_assignment_user_due on production.assignment (user_id, due_date);
+
+
+--drop table production.annotation;
+create table production.annotation (
+  annotation_id      int         generated always as identity,
+  song_id            int         not null,
+  user_id            int         not null,  -- whose marking this is; only they see it
+  annotation_kind    text        not null,  -- 'stroke' (pencil) or 'text'
+  measure_number     int         not null,  -- anchor: OSMD measure number …
+  part_id            text        not null,  -- … <score-part id> …
+  staff_number       int         not null default 1,  -- … and 1-based staff within that part
+  annotation_data    jsonb       not null,  -- positions as fractions of the anchor staff's box in that measure
+  inserted_datetime  timestamptz not null default now(),
+  constraint pk_annotation primary key (
+    annotation_id
+  ),
+  constraint fk_annotation_song foreign key (
+    song_id
+  )
+    references production.song (
+      song_id
+    )
+    on delete cascade,
+  constraint fk_annotation_user foreign key (
+    user_id
+  )
+    references production.site_user (
+      user_id
+    )
+    on delete cascade,
+  constraint ck_annotation_kind check (
+    annotation_kind in ('stroke', 'text')
+  ),
+  constraint ck_annotation_staff_number check (
+    staff_number >= 1
+  )
+);
+
+--drop index production.ix_annotation_song_user;
+create index ix_annotation_song_user on production.annotation (song_id, user_id, annotation_id);
+
+
+--drop table production.setlist;
+create table production.setlist (
+  setlist_id         int         generated always as identity,
+  user_id            int         not null,  -- owner; setlists are private to them
+  setlist_name       text        not null,
+  inserted_datetime  timestamptz not null default now(),
+  updated_datetime   timestamptz not null default now(),
+  constraint pk_setlist primary key (
+    setlist_id
+  ),
+  constraint fk_setlist_user foreign key (
+    user_id
+  )
+    references production.site_user (
+      user_id
+    )
+    on delete cascade,
+  constraint ck_setlist_name check (
+    btrim(setlist_name) <> ''
+  )
+);
+
+--drop index production.ix_setlist_user;
+create index ix_setlist_user on production.setlist (user_id);
+
+
+--drop table production.setlist_song;
+create table production.setlist_song (
+  setlist_id         int         not null,
+  song_position      int         not null,  -- 1-based play order; a song may appear more than once
+  song_id            int         not null,
+  constraint pk_setlist_song primary key (
+    setlist_id,
+    song_position
+  ),
+  constraint fk_setlist_song_setlist foreign key (
+    setlist_id
+  )
+    references production.setlist (
+      setlist_id
+    )
+    on delete cascade,
+  constraint fk_setlist_song_song foreign key (
+    song_id
+  )
+    references production.song (
+      song_id
+    )
+    on delete cascade,
+  constraint ck_setlist_song_position check (
+    song_position >= 1
+  )
+);
+
+--drop index production.ix_setlist_song_song;
+create index ix_setlist_song_song on production.setlist_song (song_id);
+
+
+--drop table production.tag;
+create table production.tag (
+  tag_id             int         generated always as identity,
+  tag_name           text        not null,  -- genre, period or purpose, e.g. 'Baroque', 'Jazz', 'Sight-reading'
+  inserted_datetime  timestamptz not null default now(),
+  constraint pk_tag primary key (
+    tag_id
+  ),
+  constraint ck_tag_name check (
+    btrim(tag_name) <> '' and strpos(tag_name, ',') = 0
+  )
+);
+
+--drop index production.ui_tag_name_lower;
+-- 'jazz' and 'Jazz' are the same tag; the first spelling saved is kept
+create unique index ui_tag_name_lower on production.tag (lower(tag_name));
+
+
+--drop table production.song_tag;
+create table production.song_tag (
+  song_id            int         not null,
+  tag_id             int         not null,
+  constraint pk_song_tag primary key (
+    song_id,
+    tag_id
+  ),
+  constraint fk_song_tag_song foreign key (
+    song_id
+  )
+    references production.song (
+      song_id
+    )
+    on delete cascade,
+  constraint fk_song_tag_tag foreign key (
+    tag_id
+  )
+    references production.tag (
+      tag_id
+    )
+    on delete cascade
+);
+
+--drop index production.ix_song_tag_tag;
+create index ix_song_tag_tag on production.song_tag (tag_id, song_id);
+
+
+--drop table production.audit_log;
+-- Who changed which song or user, and how: one row per song_upsert, song_delete, song_revision_restore,
+-- user_upsert, user_delete, trash_restore, trash_delete call, and per song or user touched by
+-- composer_save, composer_merge and trash_purge; written in the same transaction as the change.
+-- No FK on entity_id, so the history outlives purged rows.
+create table production.audit_log (
+  audit_id           bigint      generated always as identity,
+  audit_action       text        not null,   -- the function that made the change
+  entity_type        text        not null,
+  entity_id          int         not null,
+  actor_user_id      int,                    -- null = no session (e.g. a script) or the actor was purged
+  before_data        jsonb,                  -- null when the row was created
+  after_data         jsonb,                  -- null when the row was deleted for good
+  request_method     text,
+  request_path       text,
+  request_ip         text,
+  user_agent         text,
+  inserted_datetime  timestamptz not null default now(),
+  constraint pk_audit_log primary key (
+    audit_id
+  ),
+  constraint fk_audit_log_actor foreign key (
+    actor_user_id
+  )
+    references production.site_user (
+      user_id
+    )
+    on delete set null,
+  constraint ck_audit_log_entity_type check (
+    entity_type in ('song', 'user')
+  )
+);
+
+--drop index production.ix_audit_log_entity;
+create index ix_audit_log_entity on production.audit_log (entity_type, entity_id, audit_id);
+
+--drop index production.ix_audit_log_actor;
+create index ix_audit_log_actor on production.audit_log (actor_user_id, audit_id);
+
+--drop index production.ix_audit_log_inserted;
+create index ix_audit_log_inserted on production.audit_log (inserted_datetime);
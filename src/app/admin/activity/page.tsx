@@ -0,0 +1,188 @@
+// src/app/admin/activity/page.tsx
+"use client";
+
+import React from "react";
+
+import { usePrefersDark, themeTokens, fieldStyle } from "@/lib/theme";
+import AdminActivityListPanel from "@/components/AdminActivityListPanel";
+import type { AuditActorItem, AuditEntityType, AuditItem } from "@/lib/types";
+import { fetchAuditPage, fetchAuditActors, type AuditFilters } from "@/lib/auditFetch";
+
+
+// --- Config ---
+
+//                  When Actor Action Entity Changes
+const GRID_COLS_PX = [150, 140, 130, 280, 300] as const;
+const GRID_COLS: React.CSSProperties["gridTemplateColumns"] = GRID_COLS_PX.map(n => `${n}px`).join(" ");
+const TABLE_MIN_PX = GRID_COLS_PX.reduce((a, b) => a + b, 0);
+const TABLE_ROW_PX = 32;
+const TABLE_ROW_COUNT = 18;
+
+
+// --- Helpers ---
+
+/** Local midnight of a yyyy-mm-dd date input as an ISO instant, `addDays` later; undefined if blank */
+function localDayStart(value: string, addDays: number = 0): string | undefined {
+    const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!m) {
+        return undefined;
+    }
+    return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]) + addDays).toISOString();
+}
+
+
+// --- Component ---
+
+export default function AdminActivityPage(): React.ReactElement {
+    const [rows, setRows] = React.useState<AuditItem[]>([]);
+    const [listLoading, setListLoading] = React.useState(false);
+    const [listError, setListError] = React.useState("");
+
+    // Filters (dates are the raw yyyy-mm-dd input values; "to" includes that whole day)
+    const [entityFilter, setEntityFilter] = React.useState<AuditEntityType | null>(null);
+    const [actorFilter, setActorFilter] = React.useState<number | null>(null);
+    const [fromDate, setFromDate] = React.useState("");
+    const [toDate, setToDate] = React.useState("");
+    const [actors, setActors] = React.useState<ReadonlyArray<AuditActorItem>>([]);
+
+    // Keyset paging: cursor for the next page (null = nothing more to load)
+    const nextCursorRef = React.useRef<string | null>(null);
+    const [hasMore, setHasMore] = React.useState(false);
+    const [loadingMore, setLoadingMore] = React.useState(false);
+
+    const [expandedId, setExpandedId] = React.useState<number | null>(null);
+
+    const listAbortRef = React.useRef<AbortController | null>(null);
+    const listSeqRef = React.useRef(0);
+
+    const isDark = usePrefersDark();
+    const T = React.useMemo(() => themeTokens(isDark), [isDark]);
+    const fieldCss = React.useMemo(() => fieldStyle(isDark), [isDark]);
+
+    const filters = React.useMemo<AuditFilters>(() => ({
+        entityType: entityFilter ?? undefined,
+        actorUserId: actorFilter ?? undefined,
+        from: localDayStart(fromDate),
+        to: localDayStart(toDate, 1),
+    }), [entityFilter, actorFilter, fromDate, toDate]);
+
+    // (re)fetch the first page whenever a filter changes
+    React.useEffect(() => {
+        void refreshActivity(filters);
+    }, [filters]);
+
+    // abort whatever is in flight on unmount
+    React.useEffect(() => {
+        return () => {
+            if (listAbortRef.current !== null) {
+                listAbortRef.current.abort();
+            }
+        };
+    }, []);
+
+    // fetch the actor filter choices on mount
+    React.useEffect(() => {
+        let ignore = false;
+        fetchAuditActors()
+            .then((data) => { if (!ignore) { setActors(data); } })
+            .catch((e) => { if (!ignore) { setListError(e instanceof Error ? e.message : String(e)); } });
+        return () => { ignore = true; };
+    }, []);
+
+    async function refreshActivity(f: AuditFilters): Promise<void> {
+        setListError("");
+        setListLoading(true);
+        setExpandedId(null);
+        nextCursorRef.current = null;
+        setHasMore(false);
+
+        if (listAbortRef.current !== null) {
+            listAbortRef.current.abort();
+        }
+        const controller = new AbortController();
+        listAbortRef.current = controller;
+        const seq = listSeqRef.current + 1;
+        listSeqRef.current = seq;
+
+        try {
+            const data = await fetchAuditPage(f, null, controller.signal);
+            if (seq !== listSeqRef.current) {
+                return;
+            }
+            setRows(data.items);
+            nextCursorRef.current = data.nextCursor;
+            setHasMore(data.nextCursor !== null);
+        } catch (e: unknown) {
+            const name = (e as { name?: string } | null)?.name ?? "";
+            if (name === "AbortError") {
+                return;
+            }
+            setListError(e instanceof Error ? e.message : String(e));
+            setRows([]);
+        } finally {
+            if (seq === listSeqRef.current) {
+                setListLoading(false);
+            }
+        }
+    }
+
+    // Append the next page; a filter change aborts it and wins
+    async function loadMoreActivity(): Promise<void> {
+        const cursor = nextCursorRef.current;
+        if (cursor === null || loadingMore || listLoading) {
+            return;
+        }
+        const seq = listSeqRef.current;
+        const controller = new AbortController();
+        listAbortRef.current = controller;
+        setLoadingMore(true);
+
+        try {
+            const page = await fetchAuditPage(filters, cursor, controller.signal);
+            if (seq !== listSeqRef.current) {
+                return;
+            }
+            setRows((prev) => [...prev, ...page.items]);
+            nextCursorRef.current = page.nextCursor;
+            setHasMore(page.nextCursor !== null);
+        } catch (e: unknown) {
+            const name = (e as { name?: string } | null)?.name ?? "";
+            if (name === "AbortError") {
+                return;
+            }
+            setListError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setLoadingMore(false);
+        }
+    }
+
+    return (
+        <main style={{ maxWidth: TABLE_MIN_PX + 32, margin: "24px auto", padding: "0 16px" }}>
+            <AdminActivityListPanel
+                rows={rows}
+                listLoading={listLoading}
+                listError={listError}
+                hasMore={hasMore}
+                loadingMore={loadingMore}
+                onLoadMore={() => { void loadMoreActivity(); }}
+                entityFilter={entityFilter}
+                onChangeEntityFilter={setEntityFilter}
+                actors={actors}
+                actorFilter={actorFilter}
+                onChangeActorFilter={setActorFilter}
+                fromDate={fromDate}
+                toDate={toDate}
+                onChangeFromDate={setFromDate}
+                onChangeToDate={setToDate}
+                expandedId={expandedId}
+                onToggleRow={(row) => { setExpandedId((prev) => (prev === row.audit_id ? null : row.audit_id)); }}
+                gridCols={GRID_COLS}
+                tableMinPx={TABLE_MIN_PX}
+                rowPx={TABLE_ROW_PX}
+                visibleRowCount={TABLE_ROW_COUNT}
+                T={T}
+                fieldCss={fieldCss}
+            />
+        </main>
+    );
+}
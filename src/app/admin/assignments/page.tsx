@@ -0,0 +1,349 @@
+// src/app/admin/assignments/page.tsx
+"use client";
+
+import React from "react";
+
+import { usePrefersDark, themeTokens, fieldStyle } from "@/lib/theme";
+import AdminAssignmentEditPanel from "@/components/AdminAssignmentEditPanel";
+import AdminAssignmentListPanel from "@/components/AdminAssignmentListPanel";
+import type { AssignmentItem, SongListItem, UserListItem } from "@/lib/types";
+import { USER_COL } from "@/lib/userCols";
+import { USER_ROLE } from "@/lib/accessPolicy";
+import { fetchSongList } from "@/lib/songListFetch";
+import { fetchUserList } from "@/lib/userListFetch";
+import { fetchAssignments, assignSong, completeAssignment } from "@/lib/assignmentFetch";
+
+
+// --- Config ---
+
+//                  Student Song Due Notes Status
+const GRID_COLS_PX = [170, 250, 100, 230, 100] as const;
+const GRID_COLS: React.CSSProperties["gridTemplateColumns"] = GRID_COLS_PX.map(n => `${n}px`).join(" ");
+const TABLE_MIN_PX = GRID_COLS_PX.reduce((a, b) => a + b, 0);
+const TABLE_ROW_PX = 28;
+const TABLE_ROW_COUNT = 10;
+
+const SONG_LIST_ENDPOINT = "/api/songlist";
+const USER_LIST_ENDPOINT = "/api/userlist";
+const SONG_SEARCH_DEBOUNCE_MS = 250;
+
+
+// --- Component ---
+
+export default function AdminAssignmentsPage(): React.ReactElement {
+    // Assignment list state
+    const [rows, setRows] = React.useState<AssignmentItem[]>([]);
+    const [listLoading, setListLoading] = React.useState(false);
+    const [listError, setListError] = React.useState("");
+    const [studentFilter, setStudentFilter] = React.useState<number | null>(null);
+    const [includeCompleted, setIncludeCompleted] = React.useState(false);
+    const [completingId, setCompletingId] = React.useState<number | null>(null);
+
+    // Students (every user with the Student role)
+    const [students, setStudents] = React.useState<ReadonlyArray<UserListItem>>([]);
+    const [studentsLoading, setStudentsLoading] = React.useState(false);
+    const [studentsError, setStudentsError] = React.useState("");
+
+    // Assign form
+    const [songQuery, setSongQuery] = React.useState("");
+    const [songOptions, setSongOptions] = React.useState<ReadonlyArray<SongListItem>>([]);
+    const [songOptionsLoading, setSongOptionsLoading] = React.useState(false);
+    const [songId, setSongId] = React.useState<number | null>(null);
+    const [selectedStudentIds, setSelectedStudentIds] = React.useState<number[]>([]);
+    const [notes, setNotes] = React.useState("");
+    const [dueDate, setDueDate] = React.useState("");
+
+    // Status
+    const [error, setError] = React.useState("");
+    const [saveOk, setSaveOk] = React.useState("");
+    const [saving, setSaving] = React.useState(false);
+
+    // Abort/seq guards (match Songs page pattern)
+    const listAbortRef = React.useRef<AbortController | null>(null);
+    const listSeqRef = React.useRef(0);
+    const songAbortRef = React.useRef<AbortController | null>(null);
+    const songTimerRef = React.useRef<number | null>(null);
+
+    const isDark = usePrefersDark();
+    const T = React.useMemo(() => themeTokens(isDark), [isDark]);
+    const fieldCss = React.useMemo(() => fieldStyle(isDark), [isDark]);
+
+    // fetch assignments + first song page on mount
+    React.useEffect(() => {
+        void refreshAssignments(null, false);
+        void searchSongs("");
+        return () => {
+            if (listAbortRef.current !== null) {
+                listAbortRef.current.abort();
+            }
+            if (songAbortRef.current !== null) {
+                songAbortRef.current.abort();
+            }
+            if (songTimerRef.current !== null) {
+                window.clearTimeout(songTimerRef.current);
+            }
+        };
+    }, []);
+
+    // fetch students on mount (walk every user page; the list is small)
+    React.useEffect(() => {
+        let ignore = false;
+        setStudentsLoading(true);
+        setStudentsError("");
+        (async () => {
+            const out: UserListItem[] = [];
+            let cursor: string | null = null;
+            do {
+                const page = await fetchUserList(USER_LIST_ENDPOINT, USER_COL.userLastName, "asc", cursor);
+                out.push(...page.items.filter((u) => u.user_role_number === USER_ROLE.student));
+                cursor = page.nextCursor;
+            } while (cursor !== null && !ignore);
+            return out;
+        })()
+            .then((data) => { if (!ignore) { setStudents(data); } })
+            .catch((e) => { if (!ignore) { setStudentsError(e instanceof Error ? e.message : String(e)); } })
+            .finally(() => { if (!ignore) { setStudentsLoading(false); } });
+        return () => { ignore = true; };
+    }, []);
+
+    async function refreshAssignments(
+        userId: number | null,
+        withCompleted: boolean,
+        showSpinner: boolean = true
+    ): Promise<void> {
+        setListError("");
+        if (showSpinner) {
+            setListLoading(true);
+        }
+
+        // cancel any in-flight request
+        if (listAbortRef.current !== null) {
+            listAbortRef.current.abort();
+        }
+
+        // set up new request + sequence
+        const controller = new AbortController();
+        listAbortRef.current = controller;
+        const seq = listSeqRef.current + 1;
+        listSeqRef.current = seq;
+
+        try {
+            const data = await fetchAssignments(
+                {
+                    ...(userId !== null ? { userId } : {}),
+                    includeCompleted: withCompleted,
+                },
+                controller.signal
+            );
+
+            // ignore stale responses
+            if (seq !== listSeqRef.current) {
+                return;
+            }
+            setRows(data);
+        } catch (e: unknown) {
+            const name = (e as { name?: string } | null)?.name ?? "";
+            if (name === "AbortError") {
+                return;
+            }
+            setListError(e instanceof Error ? e.message : String(e));
+            setRows([]);
+        } finally {
+            if (seq === listSeqRef.current) {
+                setListLoading(false);
+            }
+        }
+    }
+
+    // First page of matches is plenty for a picker; refine the search to narrow it
+    async function searchSongs(q: string): Promise<void> {
+        if (songAbortRef.current !== null) {
+            songAbortRef.current.abort();
+        }
+        const controller = new AbortController();
+        songAbortRef.current = controller;
+        setSongOptionsLoading(true);
+
+        try {
+            const page = await fetchSongList(SONG_LIST_ENDPOINT, "song_title", "asc", { q }, null, controller.signal);
+            setSongOptions(page.items);
+        } catch (e: unknown) {
+            const name = (e as { name?: string } | null)?.name ?? "";
+            if (name === "AbortError") {
+                return;
+            }
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            if (songAbortRef.current === controller) {
+                setSongOptionsLoading(false);
+            }
+        }
+    }
+
+    const changeSongQuery = (value: string): void => {
+        setSongQuery(value);
+        if (songTimerRef.current !== null) {
+            window.clearTimeout(songTimerRef.current);
+        }
+        songTimerRef.current = window.setTimeout(() => {
+            songTimerRef.current = null;
+            void searchSongs(value);
+        }, SONG_SEARCH_DEBOUNCE_MS);
+    };
+
+    const toggleStudent = (userId: number): void => {
+        setSaveOk("");
+        setSelectedStudentIds((prev) =>
+            prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]
+        );
+    };
+
+    const toggleAllStudents = (): void => {
+        setSaveOk("");
+        setSelectedStudentIds((prev) =>
+            prev.length === students.length ? [] : students.map((u) => u.user_id)
+        );
+    };
+
+    const changeStudentFilter = (userId: number | null): void => {
+        setStudentFilter(userId);
+        void refreshAssignments(userId, includeCompleted);
+    };
+
+    const toggleIncludeCompleted = (): void => {
+        const next = !includeCompleted;
+        setIncludeCompleted(next);
+        void refreshAssignments(studentFilter, next);
+    };
+
+    const openInNewTab = (id: number): void => {
+        const tabId = Date.now().toString(36);
+        window.open(`/viewer?tab=${tabId}&id=${id}`, "_blank", "noopener,noreferrer");
+    };
+
+    // ---- Assign / Complete ----
+
+    async function onAssign(): Promise<void> {
+        setError("");
+        setSaveOk("");
+
+        if (songId === null) {
+            setError("Pick a song.");
+            return;
+        }
+        if (selectedStudentIds.length === 0) {
+            setError("Pick at least one student.");
+            return;
+        }
+
+        try {
+            setSaving(true);
+            const count = await assignSong({
+                song_id: songId,
+                user_ids: selectedStudentIds,
+                assignment_notes: notes.trim(),
+                due_date: dueDate || null,
+            });
+
+            // Keep the song so it can go to another group; clear the per-group fields
+            setSelectedStudentIds([]);
+            setNotes("");
+            setDueDate("");
+
+            // Refresh the list **silently** (no spinner, no layout dim)
+            await refreshAssignments(studentFilter, includeCompleted, false);
+
+            setSaveOk(count === 1 ? "Assigned to 1 student" : `Assigned to ${count} students`);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    async function onComplete(row: AssignmentItem): Promise<void> {
+        setListError("");
+        setCompletingId(row.assignment_id);
+        try {
+            await completeAssignment(row.assignment_id);
+            await refreshAssignments(studentFilter, includeCompleted, false);
+        } catch (e: unknown) {
+            setListError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setCompletingId(null);
+        }
+    }
+
+    return (
+        <main style={{ maxWidth: TABLE_MIN_PX + 32, margin: "24px auto", padding: "0 16px" }}>
+            {/* ===== ASSIGN FORM (TOP) ===== */}
+            <AdminAssignmentEditPanel
+                songQuery={songQuery}
+                onSongQueryChange={changeSongQuery}
+                songOptions={songOptions}
+                songOptionsLoading={songOptionsLoading}
+                selectedSongId={songId}
+                onSelectSong={(id) => { setSaveOk(""); setSongId(id); }}
+                students={students}
+                studentsLoading={studentsLoading}
+                studentsError={studentsError}
+                selectedStudentIds={selectedStudentIds}
+                onToggleStudent={toggleStudent}
+                onToggleAllStudents={toggleAllStudents}
+                notes={notes}
+                onChangeNotes={(v) => { setNotes(v); }}
+                dueDate={dueDate}
+                onChangeDueDate={(v) => { setDueDate(v); }}
+                errorText={error}
+                okText={saveOk}
+                saving={saving}
+                onAssign={() => { void onAssign(); }}
+                T={T}
+                fieldCss={fieldCss}
+                isDark={isDark}
+            />
+
+            {/* ===== ASSIGNMENT LIST (BELOW FORM) ===== */}
+            <AdminAssignmentListPanel
+                rows={rows}
+                listLoading={listLoading}
+                listError={listError}
+                students={students}
+                studentFilter={studentFilter}
+                onChangeStudentFilter={changeStudentFilter}
+                includeCompleted={includeCompleted}
+                onToggleIncludeCompleted={toggleIncludeCompleted}
+                completingId={completingId}
+                onComplete={(row) => { void onComplete(row); }}
+                onOpen={(row) => { openInNewTab(row.song_id); }}
+                gridCols={GRID_COLS}
+                tableMinPx={TABLE_MIN_PX}
+                rowPx={TABLE_ROW_PX}
+                visibleRowCount={TABLE_ROW_COUNT}
+                T={T}
+                fieldCss={fieldCss}
+            />
+
+            {/* Scoped guardrails against stray global CSS (no `any`) */}
+            <style jsx global>{`
+        /* Edit card: win even against global .card {...}!important */
+        #edit-card {
+          background: ${T.bgCard} !important;
+          color: ${T.fgCard} !important;
+          border: 1px solid ${T.border} !important;
+          border-radius: 8px !important;
+          padding: 16px !important;
+        }
+
+        /* Inputs inside the edit card stay readable in dark mode */
+        #edit-card input,
+        #edit-card select,
+        #edit-card textarea {
+          background: ${isDark ? "#121212" : "#ffffff"} !important;
+          color: ${isDark ? "#ffffff" : "#111111"} !important;
+          border: 1px solid ${T.border} !important;
+        }
+      `}</style>
+        </main>
+    );
+}
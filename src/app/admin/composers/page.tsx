@@ -0,0 +1,296 @@
+// src/app/admin/composers/page.tsx
+"use client";
+
+import React from "react";
+
+import { usePrefersDark, themeTokens, fieldStyle } from "@/lib/theme";
+import AdminComposerEditPanel from "@/components/AdminComposerEditPanel";
+import AdminComposerDuplicatesPanel from "@/components/AdminComposerDuplicatesPanel";
+import AdminComposerListPanel from "@/components/AdminComposerListPanel";
+import type { ComposerDuplicateItem, ComposerItem } from "@/lib/types";
+import { fetchComposers, fetchComposerDuplicates, saveComposer, mergeComposers } from "@/lib/composerFetch";
+
+
+// --- Config ---
+
+//                  Last First Years Songs Spellings
+const GRID_COLS_PX = [170, 170, 110, 70, 330] as const;
+const GRID_COLS: React.CSSProperties["gridTemplateColumns"] = GRID_COLS_PX.map(n => `${n}px`).join(" ");
+const TABLE_MIN_PX = GRID_COLS_PX.reduce((a, b) => a + b, 0);
+const TABLE_ROW_PX = 28;
+const TABLE_ROW_COUNT = 12;
+
+
+// --- Helpers ---
+
+function yearText(y: number | null): string {
+    return y === null ? "" : String(y);
+}
+
+// "" = unknown; anything else must be a whole year
+function parseYear(s: string): number | null | undefined {
+    const t = s.trim();
+    if (t === "") { return null; }
+    const n = Number(t);
+    return Number.isInteger(n) ? n : undefined;
+}
+
+function matchesFilter(c: ComposerItem, needle: string): boolean {
+    if (needle === "") { return true; }
+    const hay = [c.composer_first_name, c.composer_last_name, ...c.alternate_names].join(" ").toLowerCase();
+    return hay.includes(needle);
+}
+
+
+// --- Component ---
+
+export default function AdminComposersPage(): React.ReactElement {
+    // Composer list state
+    const [rows, setRows] = React.useState<ComposerItem[]>([]);
+    const [listLoading, setListLoading] = React.useState(false);
+    const [listError, setListError] = React.useState("");
+    const [filter, setFilter] = React.useState("");
+
+    // Duplicate pairs
+    const [pairs, setPairs] = React.useState<ComposerDuplicateItem[]>([]);
+    const [pairsLoading, setPairsLoading] = React.useState(false);
+    const [pairsError, setPairsError] = React.useState("");
+    const [mergingKey, setMergingKey] = React.useState<string | null>(null);
+
+    // Edit form
+    const [composerId, setComposerId] = React.useState<number | null>(null);
+    const [firstName, setFirstName] = React.useState("");
+    const [lastName, setLastName] = React.useState("");
+    const [birthYear, setBirthYear] = React.useState("");
+    const [deathYear, setDeathYear] = React.useState("");
+    const [alternateNames, setAlternateNames] = React.useState("");
+
+    // Status
+    const [error, setError] = React.useState("");
+    const [saveOk, setSaveOk] = React.useState("");
+    const [saving, setSaving] = React.useState(false);
+
+    const listAbortRef = React.useRef<AbortController | null>(null);
+    const pairsAbortRef = React.useRef<AbortController | null>(null);
+
+    const isDark = usePrefersDark();
+    const T = React.useMemo(() => themeTokens(isDark), [isDark]);
+    const fieldCss = React.useMemo(() => fieldStyle(isDark), [isDark]);
+
+    const composersById = React.useMemo(() => new Map(rows.map((c) => [c.composer_id, c])), [rows]);
+    const visibleRows = React.useMemo(() => {
+        const needle = filter.trim().toLowerCase();
+        return rows.filter((c) => matchesFilter(c, needle));
+    }, [rows, filter]);
+    const selected = composerId === null ? undefined : composersById.get(composerId);
+
+    // fetch composers + duplicate pairs on mount
+    React.useEffect(() => {
+        void refreshComposers();
+        void refreshDuplicates();
+        return () => {
+            if (listAbortRef.current !== null) {
+                listAbortRef.current.abort();
+            }
+            if (pairsAbortRef.current !== null) {
+                pairsAbortRef.current.abort();
+            }
+        };
+    }, []);
+
+    async function refreshComposers(showSpinner: boolean = true): Promise<void> {
+        setListError("");
+        if (showSpinner) {
+            setListLoading(true);
+        }
+        if (listAbortRef.current !== null) {
+            listAbortRef.current.abort();
+        }
+        const controller = new AbortController();
+        listAbortRef.current = controller;
+
+        try {
+            setRows(await fetchComposers(controller.signal));
+        } catch (e: unknown) {
+            const name = (e as { name?: string } | null)?.name ?? "";
+            if (name === "AbortError") {
+                return;
+            }
+            setListError(e instanceof Error ? e.message : String(e));
+        } finally {
+            if (listAbortRef.current === controller) {
+                setListLoading(false);
+            }
+        }
+    }
+
+    async function refreshDuplicates(): Promise<void> {
+        setPairsError("");
+        setPairsLoading(true);
+        if (pairsAbortRef.current !== null) {
+            pairsAbortRef.current.abort();
+        }
+        const controller = new AbortController();
+        pairsAbortRef.current = controller;
+
+        try {
+            setPairs(await fetchComposerDuplicates(controller.signal));
+        } catch (e: unknown) {
+            const name = (e as { name?: string } | null)?.name ?? "";
+            if (name === "AbortError") {
+                return;
+            }
+            setPairsError(e instanceof Error ? e.message : String(e));
+        } finally {
+            if (pairsAbortRef.current === controller) {
+                setPairsLoading(false);
+            }
+        }
+    }
+
+    function loadForm(c: ComposerItem | null): void {
+        setComposerId(c?.composer_id ?? null);
+        setFirstName(c?.composer_first_name ?? "");
+        setLastName(c?.composer_last_name ?? "");
+        setBirthYear(yearText(c?.birth_year ?? null));
+        setDeathYear(yearText(c?.death_year ?? null));
+        setAlternateNames(c?.alternate_names.join("\n") ?? "");
+        setError("");
+        setSaveOk("");
+    }
+
+    // ---- Save / Merge ----
+
+    async function onSave(): Promise<void> {
+        setError("");
+        setSaveOk("");
+        if (composerId === null) {
+            return;
+        }
+
+        const birth = parseYear(birthYear);
+        const death = parseYear(deathYear);
+        if (birth === undefined || death === undefined) {
+            setError("Years must be whole numbers.");
+            return;
+        }
+
+        try {
+            setSaving(true);
+            await saveComposer(composerId, {
+                composer_first_name: firstName.trim(),
+                composer_last_name: lastName.trim(),
+                birth_year: birth,
+                death_year: death,
+                alternate_names: alternateNames.split("\n").map((s) => s.trim()).filter(Boolean),
+            });
+            await Promise.all([refreshComposers(false), refreshDuplicates()]);
+            setSaveOk("Saved");
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    async function onMerge(keep: ComposerItem, merge: ComposerItem): Promise<void> {
+        const keepName = [keep.composer_first_name, keep.composer_last_name].filter(Boolean).join(" ");
+        const mergeName = [merge.composer_first_name, merge.composer_last_name].filter(Boolean).join(" ");
+        const songs = merge.song_count === 1 ? "its 1 song" : `its ${merge.song_count} songs`;
+        if (!window.confirm(`Merge “${mergeName}” into “${keepName}”?\n\n${songs} will be filed under ${keepName}, and “${mergeName}” becomes another spelling.`)) {
+            return;
+        }
+
+        setPairsError("");
+        setMergingKey(`${keep.composer_id}-${merge.composer_id}`);
+        try {
+            await mergeComposers(keep.composer_id, merge.composer_id);
+            if (composerId === merge.composer_id) {
+                loadForm(null);
+            }
+            await Promise.all([refreshComposers(false), refreshDuplicates()]);
+        } catch (e: unknown) {
+            setPairsError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setMergingKey(null);
+        }
+    }
+
+    return (
+        <main style={{ maxWidth: TABLE_MIN_PX + 32, margin: "24px auto", padding: "0 16px" }}>
+            {/* ===== EDIT FORM (TOP) ===== */}
+            <AdminComposerEditPanel
+                composerId={composerId}
+                songCount={selected?.song_count ?? 0}
+                firstName={firstName}
+                onChangeFirstName={(v) => { setSaveOk(""); setFirstName(v); }}
+                lastName={lastName}
+                onChangeLastName={(v) => { setSaveOk(""); setLastName(v); }}
+                birthYear={birthYear}
+                onChangeBirthYear={(v) => { setSaveOk(""); setBirthYear(v); }}
+                deathYear={deathYear}
+                onChangeDeathYear={(v) => { setSaveOk(""); setDeathYear(v); }}
+                alternateNames={alternateNames}
+                onChangeAlternateNames={(v) => { setSaveOk(""); setAlternateNames(v); }}
+                errorText={error}
+                okText={saveOk}
+                saving={saving}
+                onSave={() => { void onSave(); }}
+                onCancel={() => { loadForm(null); }}
+                T={T}
+                fieldCss={fieldCss}
+                isDark={isDark}
+            />
+
+            {/* ===== LIKELY DUPLICATES ===== */}
+            <AdminComposerDuplicatesPanel
+                pairs={pairs}
+                composersById={composersById}
+                loading={pairsLoading}
+                error={pairsError}
+                mergingKey={mergingKey}
+                onMerge={(keep, merge) => { void onMerge(keep, merge); }}
+                onRefresh={() => { void refreshDuplicates(); }}
+                T={T}
+            />
+
+            {/* ===== COMPOSER LIST ===== */}
+            <AdminComposerListPanel
+                rows={visibleRows}
+                listLoading={listLoading}
+                listError={listError}
+                filter={filter}
+                onChangeFilter={setFilter}
+                selectedId={composerId}
+                onPick={(row) => { loadForm(row); }}
+                gridCols={GRID_COLS}
+                tableMinPx={TABLE_MIN_PX}
+                rowPx={TABLE_ROW_PX}
+                visibleRowCount={TABLE_ROW_COUNT}
+                T={T}
+                fieldCss={fieldCss}
+            />
+
+            {/* Scoped guardrails against stray global CSS (no `any`) */}
+            <style jsx global>{`
+        /* Edit card: win even against global .card {...}!important */
+        #edit-card {
+          background: ${T.bgCard} !important;
+          color: ${T.fgCard} !important;
+          border: 1px solid ${T.border} !important;
+          border-radius: 8px !important;
+          padding: 16px !important;
+        }
+
+        /* Inputs inside the edit card stay readable in dark mode */
+        #edit-card input,
+        #edit-card select,
+        #edit-card textarea {
+          background: ${isDark ? "#121212" : "#ffffff"} !important;
+          color: ${isDark ? "#ffffff" : "#111111"} !important;
+          border: 1px solid ${T.border} !important;
+        }
+      `}</style>
+        </main>
+    );
+}
@@ -12,10 +12,30 @@ export default function AdminHubPage(): React.ReactElement {
     window.open("/admin/songs", "_blank", "noopener,noreferrer");
   }
 
+  function goImport(): void {
+    window.open("/admin/songs/import", "_blank", "noopener,noreferrer");
+  }
+
   function goUsers(): void {
     window.open("/admin/users", "_blank", "noopener,noreferrer");
   }
 
+  function goAssignments(): void {
+    window.open("/admin/assignments", "_blank", "noopener,noreferrer");
+  }
+
+  function goComposers(): void {
+    window.open("/admin/composers", "_blank", "noopener,noreferrer");
+  }
+
+  function goTrash(): void {
+    window.open("/admin/trash", "_blank", "noopener,noreferrer");
+  }
+
+  function goActivity(): void {
+    window.open("/admin/activity", "_blank", "noopener,noreferrer");
+  }
+
   return (
     <main
       id="admin-hub"
@@ -34,10 +54,36 @@ export default function AdminHubPage(): React.ReactElement {
         Songs
       </button>
 
+      <button id="hub-import-btn" type="button" onClick={goImport}>
+        Bulk Import
+      </button>
+
       <button id="hub-users-btn" type="button" onClick={goUsers}>
         Users
       </button>
 
+      <button id="hub-assignments-btn" type="button" onClick={goAssignments}>
+        Assignments
+      </button>
+
+      <button id="hub-composers-btn" type="button" onClick={goComposers}>
+        Composers
+      </button>
+
+      <button id="hub-trash-btn" type="button" onClick={goTrash}>
+        Trash
+      </button>
+
+      <button id="hub-activity-btn" type="button" onClick={goActivity}>
+        Activity
+      </button>
+
+      <form method="post" action="/auth/signout">
+        <button id="hub-signout-btn" type="submit">
+          Sign out
+        </button>
+      </form>
+
       {/* Scoped guardrails against stray global CSS (use !important to beat resets) */}
       <style jsx global>{`
         #admin-hub {
@@ -47,7 +93,13 @@ export default function AdminHubPage(): React.ReactElement {
 
         /* Base style for both hub buttons */
         #hub-songs-btn,
-        #hub-users-btn {
+        #hub-import-btn,
+        #hub-users-btn,
+        #hub-assignments-btn,
+        #hub-composers-btn,
+        #hub-trash-btn,
+        #hub-activity-btn,
+        #hub-signout-btn {
           border-radius: 12px !important;
           border: 1px solid ${T.border} !important;
           padding: 10px 18px !important;
@@ -0,0 +1,437 @@
+// src/app/admin/songs/import/page.tsx
+"use client";
+
+import React from "react";
+
+import { usePrefersDark, themeTokens, fieldStyle } from "@/lib/theme";
+import AdminSongImportGrid, { type ImportRow, type ImportRowField } from "@/components/AdminSongImportGrid";
+import { SONG_COL, SONG_BATCH_MAX_ITEMS } from "@/lib/songCols";
+import { fetchSkillLevels, type SkillLevel } from "@/lib/skillLevelFetch";
+import { submitSongBatch } from "@/lib/songBatchFetch";
+import {
+    bytesToBase64,
+    expandImportFiles,
+    extractMetadataAndXml,
+    filesFromDataTransfer,
+    scoreKind,
+    splitComposer,
+    toMxlFileName,
+    xmlToMxl,
+} from "@/lib/songFileClient";
+
+
+// --- Config ---
+
+//                  File Title First Last Level Status ×
+const GRID_COLS_PX = [200, 240, 130, 130, 120, 190, 20] as const;
+const GRID_COLS: React.CSSProperties["gridTemplateColumns"] = GRID_COLS_PX.map(n => `${n}px`).join(" ");
+const TABLE_MIN_PX = GRID_COLS_PX.reduce((a, b) => a + b, 0) + 6 * (GRID_COLS_PX.length - 1) + 20;
+const TABLE_ROW_PX = 32;
+const TABLE_ROW_COUNT = 14;
+
+// Keep each request body well under typical serverless limits (~4.5 MB)
+const BATCH_MAX_BASE64_CHARS = 3_000_000;
+
+const ACCEPT = ".mxl,.musicxml,.xml,.zip,application/vnd.recordare.musicxml+xml,application/vnd.recordare.musicxml,application/zip";
+
+
+// --- Helpers ---
+
+/** Why a row cannot be submitted yet ("" = OK) */
+function rowProblem(r: ImportRow): string {
+    if (!r.title.trim()) { return "Title is required"; }
+    if (!r.composerFirst.trim()) { return "Composer first name is required"; }
+    if (!r.composerLast.trim()) { return "Composer last name is required"; }
+    if (!r.level) { return "Pick a skill level"; }
+    return "";
+}
+
+/** Ready rows, plus failed ones the admin may have fixed */
+function isSubmittable(r: ImportRow): boolean {
+    return (r.state === "ready" || r.state === "conflict" || r.state === "invalid" || r.state === "failed")
+        && rowProblem(r) === "";
+}
+
+
+// --- Component ---
+
+export default function AdminSongImportPage(): React.ReactElement {
+    const [rows, setRows] = React.useState<ImportRow[]>([]);
+    const rowsRef = React.useRef<ImportRow[]>([]);
+    rowsRef.current = rows;
+    const keySeqRef = React.useRef(0);
+
+    const [levels, setLevels] = React.useState<SkillLevel[]>([]);
+    const [levelsError, setLevelsError] = React.useState("");
+
+    const [reading, setReading] = React.useState(false);
+    const [importing, setImporting] = React.useState(false);
+    const [dragOver, setDragOver] = React.useState(false);
+    const [notice, setNotice] = React.useState("");
+    const [error, setError] = React.useState("");
+
+    const filesInputRef = React.useRef<HTMLInputElement>(null);
+    const folderInputRef = React.useRef<HTMLInputElement>(null);
+
+    const isDark = usePrefersDark();
+    const T = React.useMemo(() => themeTokens(isDark), [isDark]);
+    const fieldCss = React.useMemo(() => fieldStyle(isDark), [isDark]);
+
+    // fetch skill levels once (do NOT default-select)
+    React.useEffect(() => {
+        let ignore = false;
+        fetchSkillLevels()
+            .then((data) => { if (!ignore) { setLevels(data); } })
+            .catch((e) => { if (!ignore) { setLevelsError(e instanceof Error ? e.message : String(e)); } });
+        return () => { ignore = true; };
+    }, []);
+
+    // `webkitdirectory` is not in React's input typings
+    React.useEffect(() => {
+        folderInputRef.current?.setAttribute("webkitdirectory", "");
+    }, []);
+
+    const patchRow = (key: string, patch: Partial<ImportRow>): void => {
+        setRows((prev) => prev.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+    };
+
+    // ---- Add files ----
+
+    async function addFiles(files: ReadonlyArray<File>): Promise<void> {
+        if (files.length === 0) { return; }
+        setError("");
+        setNotice("");
+        setReading(true);
+
+        try {
+            const { scores, skipped } = await expandImportFiles(files);
+
+            // One row per .mxl name: the songs table requires unique file names
+            const taken = new Set(rowsRef.current.map((r) => r.fileName));
+            const duplicates: string[] = [];
+            const added: { row: ImportRow; file: File }[] = [];
+            for (const f of scores) {
+                const fileName = toMxlFileName(f.name);
+                if (taken.has(fileName)) {
+                    duplicates.push(f.name);
+                    continue;
+                }
+                taken.add(fileName);
+                keySeqRef.current += 1;
+                added.push({
+                    file: f,
+                    row: {
+                        key: `r${keySeqRef.current}`,
+                        sourceName: f.name,
+                        fileName,
+                        title: "",
+                        composerFirst: "",
+                        composerLast: "",
+                        level: "",
+                        xmlText: "",
+                        state: "parsing",
+                        message: "",
+                        songId: null,
+                    },
+                });
+            }
+
+            const notes: string[] = [];
+            if (skipped.length > 0) {
+                notes.push(`Skipped ${skipped.length} non-score file${skipped.length === 1 ? "" : "s"}`);
+            }
+            if (duplicates.length > 0) {
+                notes.push(`Skipped ${duplicates.length} duplicate file name${duplicates.length === 1 ? "" : "s"}: ${duplicates.slice(0, 5).join(", ")}${duplicates.length > 5 ? "…" : ""}`);
+            }
+            setNotice(notes.join(". "));
+
+            setRows((prev) => [...prev, ...added.map((a) => a.row)]);
+
+            // Parse one at a time; hundreds of scores in parallel would stall the tab
+            for (const { row, file } of added) {
+                try {
+                    const meta = await extractMetadataAndXml(file, scoreKind(file.name));
+                    const composer = splitComposer(meta.composer);
+                    patchRow(row.key, {
+                        title: meta.title,
+                        composerFirst: composer.first,
+                        composerLast: composer.last,
+                        xmlText: meta.xmlText,
+                        state: "ready",
+                    });
+                } catch (e: unknown) {
+                    patchRow(row.key, { state: "parse_error", message: e instanceof Error ? e.message : String(e) });
+                }
+            }
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setReading(false);
+        }
+    }
+
+    const onPickFiles: React.ChangeEventHandler<HTMLInputElement> = (e) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = ""; // allow picking the same files again
+        void addFiles(files);
+    };
+
+    const onDrop = (e: React.DragEvent<HTMLDivElement>): void => {
+        e.preventDefault();
+        setDragOver(false);
+        if (reading || importing) { return; }
+        const dt = e.dataTransfer;
+        void filesFromDataTransfer(dt)
+            .then((files) => addFiles(files))
+            .catch((err: unknown) => { setError(err instanceof Error ? err.message : String(err)); });
+    };
+
+    // ---- Edit ----
+
+    const changeField = (key: string, field: ImportRowField, value: string): void => {
+        setRows((prev) => prev.map((r) => {
+            if (r.key !== key) { return r; }
+            const next = { ...r, [field]: value };
+            // An edit is the fix for a rejected row: drop the stale server message
+            if (r.state === "conflict" || r.state === "invalid" || r.state === "failed") {
+                next.message = "";
+            }
+            return next;
+        }));
+    };
+
+    const setLevelForAll = (value: string): void => {
+        if (!value) { return; }
+        setRows((prev) => prev.map((r) => (r.state === "saved" ? r : { ...r, level: value })));
+    };
+
+    const removeRow = (key: string): void => {
+        setRows((prev) => prev.filter((r) => r.key !== key));
+    };
+
+    // ---- Import ----
+
+    async function onImport(): Promise<void> {
+        const queue = rowsRef.current.filter(isSubmittable);
+        if (queue.length === 0) { return; }
+
+        setError("");
+        setImporting(true);
+
+        let chunk: { key: string; payload: Record<string, unknown> }[] = [];
+        let chunkChars = 0;
+
+        const flush = async (): Promise<void> => {
+            if (chunk.length === 0) { return; }
+            const sending = chunk;
+            chunk = [];
+            chunkChars = 0;
+            try {
+                const results = await submitSongBatch(sending.map((c) => c.payload));
+                results.forEach((res, i) => {
+                    const key = sending[i]!.key;
+                    if (res.status === 200) {
+                        patchRow(key, { state: "saved", message: "", songId: res.song_id });
+                    } else if (res.status === 409) {
+                        patchRow(key, { state: "conflict", message: res.message ?? res.error ?? "" });
+                    } else if (res.status === 400 || res.status === 413) {
+                        patchRow(key, { state: "invalid", message: res.message ?? res.error ?? "" });
+                    } else {
+                        patchRow(key, { state: "failed", message: res.message ?? res.error ?? `HTTP ${res.status}` });
+                    }
+                });
+            } catch (e: unknown) {
+                const message = e instanceof Error ? e.message : String(e);
+                for (const c of sending) {
+                    patchRow(c.key, { state: "failed", message });
+                }
+            }
+        };
+
+        try {
+            for (const r of queue) {
+                patchRow(r.key, { state: "saving", message: "" });
+                try {
+                    // Same re-pack as the single-song editor: XML → .mxl (ZIP) → base64
+                    const base64 = bytesToBase64(await xmlToMxl(r.xmlText, r.fileName));
+                    if (chunk.length > 0 && chunkChars + base64.length > BATCH_MAX_BASE64_CHARS) {
+                        await flush();
+                    }
+                    chunk.push({
+                        key: r.key,
+                        payload: {
+                            [SONG_COL.songTitle]: r.title.trim(),
+                            [SONG_COL.composerFirstName]: r.composerFirst.trim(),
+                            [SONG_COL.composerLastName]: r.composerLast.trim(),
+                            [SONG_COL.skillLevelNumber]: Number(r.level),
+                            [SONG_COL.fileName]: r.fileName,
+                            [SONG_COL.songMxl]: base64,
+                        },
+                    });
+                    chunkChars += base64.length;
+                    if (chunk.length >= SONG_BATCH_MAX_ITEMS) {
+                        await flush();
+                    }
+                } catch (e: unknown) {
+                    patchRow(r.key, { state: "failed", message: e instanceof Error ? e.message : String(e) });
+                }
+            }
+            await flush();
+        } finally {
+            setImporting(false);
+        }
+    }
+
+    // ---- Derived ----
+
+    const counts = React.useMemo(() => {
+        const c = { total: rows.length, submittable: 0, needsInfo: 0, saved: 0, conflict: 0, failed: 0 };
+        for (const r of rows) {
+            if (isSubmittable(r)) { c.submittable += 1; }
+            else if (r.state === "ready" || r.state === "invalid" || r.state === "failed" || r.state === "conflict") { c.needsInfo += 1; }
+            if (r.state === "saved") { c.saved += 1; }
+            if (r.state === "conflict") { c.conflict += 1; }
+            if (r.state === "invalid" || r.state === "failed" || r.state === "parse_error") { c.failed += 1; }
+        }
+        return c;
+    }, [rows]);
+
+    // Show why a ready row is not importable yet
+    const displayRows = React.useMemo(
+        () => rows.map((r) => (r.state === "ready" && !r.message ? { ...r, message: rowProblem(r) } : r)),
+        [rows]
+    );
+
+    const busy = reading || importing;
+    const canImport = !busy && counts.submittable > 0;
+
+    const buttonCss: React.CSSProperties = {
+        padding: "8px 12px",
+        border: `1px solid ${T.border}`,
+        borderRadius: 6,
+        background: isDark ? "#1f1f1f" : "#fafafa",
+        color: isDark ? "#fff" : "#111",
+        cursor: "pointer",
+    };
+
+    return (
+        <main style={{ maxWidth: TABLE_MIN_PX + 32, margin: "24px auto", padding: "0 16px" }}>
+            <h1 style={{ fontSize: 20, fontWeight: 600, margin: "0 0 12px" }}>Bulk import</h1>
+
+            {/* ===== DROP ZONE ===== */}
+            <div
+                onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+                onDragLeave={() => { setDragOver(false); }}
+                onDrop={onDrop}
+                style={{
+                    padding: 20,
+                    marginBottom: 12,
+                    border: `2px dashed ${dragOver ? (isDark ? "#90caf9" : "#1976d2") : T.border}`,
+                    borderRadius: 8,
+                    background: T.bgCard,
+                    color: T.fgCard,
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 12,
+                    flexWrap: "wrap",
+                }}
+            >
+                <span style={{ flex: 1, minWidth: 240 }}>
+                    {reading ? "Reading files…" : "Drop .mxl / .musicxml files, folders, or a .zip archive here"}
+                </span>
+                <input ref={filesInputRef} type="file" multiple accept={ACCEPT} onChange={onPickFiles} style={{ display: "none" }} />
+                <input ref={folderInputRef} type="file" multiple onChange={onPickFiles} style={{ display: "none" }} />
+                <button type="button" disabled={busy} onClick={() => { filesInputRef.current?.click(); }} style={buttonCss}>
+                    Choose Files
+                </button>
+                <button type="button" disabled={busy} onClick={() => { folderInputRef.current?.click(); }} style={buttonCss}>
+                    Choose Folder
+                </button>
+            </div>
+
+            {/* ===== TOOLBAR ===== */}
+            <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 8, fontSize: 13, flexWrap: "wrap" }}>
+                <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                    Level for all
+                    <select
+                        value=""
+                        onChange={(e) => { setLevelForAll(e.target.value); }}
+                        disabled={busy || rows.length === 0 || levels.length === 0}
+                        style={{ ...fieldCss, width: 150, appearance: "auto" as const }}
+                    >
+                        <option value="">—</option>
+                        {levels.map((l) => (
+                            <option key={l.number} value={String(l.number)}>{l.name}</option>
+                        ))}
+                    </select>
+                </label>
+
+                <span style={{ flex: 1, minWidth: 0, opacity: 0.85 }}>
+                    {counts.total} file{counts.total === 1 ? "" : "s"}
+                    {counts.saved > 0 && ` · ${counts.saved} imported`}
+                    {counts.conflict > 0 && ` · ${counts.conflict} already exist`}
+                    {counts.failed > 0 && ` · ${counts.failed} failed`}
+                    {counts.needsInfo > 0 && ` · ${counts.needsInfo} need details`}
+                </span>
+
+                <button
+                    type="button"
+                    disabled={busy || counts.saved === 0}
+                    onClick={() => { setRows((prev) => prev.filter((r) => r.state !== "saved")); }}
+                    style={buttonCss}
+                >
+                    Clear Imported
+                </button>
+                <button
+                    type="button"
+                    disabled={busy || rows.length === 0}
+                    onClick={() => { setRows([]); setNotice(""); setError(""); }}
+                    style={buttonCss}
+                >
+                    Clear All
+                </button>
+                <button
+                    type="button"
+                    disabled={!canImport}
+                    onClick={() => { void onImport(); }}
+                    style={{ ...buttonCss, fontWeight: 600, cursor: canImport ? "pointer" : "not-allowed", opacity: canImport ? 1 : 0.5 }}
+                >
+                    {importing ? "Importing…" : `Import ${counts.submittable} Song${counts.submittable === 1 ? "" : "s"}`}
+                </button>
+            </div>
+
+            {levelsError && <p style={{ color: "#ff6b6b", margin: "4px 0 8px" }}>Failed to load skill levels: {levelsError}</p>}
+            {error && <p role="alert" style={{ color: "#ff6b6b", margin: "4px 0 8px" }}>Error: {error}</p>}
+            {notice && <p role="status" style={{ margin: "4px 0 8px", fontSize: 13, opacity: 0.85 }}>{notice}</p>}
+
+            {/* ===== REVIEW GRID ===== */}
+            <AdminSongImportGrid
+                rows={displayRows}
+                levels={levels}
+                busy={busy}
+                onChangeField={changeField}
+                onRemove={removeRow}
+                gridCols={GRID_COLS}
+                tableMinPx={TABLE_MIN_PX}
+                rowPx={TABLE_ROW_PX}
+                visibleRowCount={TABLE_ROW_COUNT}
+                T={T}
+                fieldCss={fieldCss}
+            />
+
+            {/* Scoped guardrails against stray global CSS (no `any`) */}
+            <style jsx global>{`
+        /* Import table header (ensure dark bg/fg) */
+        #import-header {
+          background: ${T.headerBg} !important;
+          color: ${T.headerFg} !important;
+        }
+
+        /* Fill the empty part of the table body (below the last row) */
+        #import-header + div {
+          background: ${T.rowOdd} !important;
+        }
+      `}</style>
+        </main>
+    );
+}
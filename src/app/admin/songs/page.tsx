@@ -6,15 +6,25 @@ import React from "react";
 import { usePrefersDark, themeTokens, fieldStyle } from "@/lib/theme";
 import AdminSongListPanel from "@/components/AdminSongListPanel";
 import AdminSongEditPanel from "@/components/AdminSongEditPanel";
-import type { SongListItem } from "@/lib/types";
+import type { ComposerMatchItem, SongFacetsResponse, SongListItem, SongRevisionItem } from "@/lib/types";
 import { SONG_COL, type SongColToken, DEFAULT_SORT, DEFAULT_DIR } from "@/lib/songCols";
-import { fetchSongList } from "@/lib/songListFetch";
+import {
+    EMPTY_SONG_FACETS,
+    fetchSongFacets,
+    fetchSongList,
+    type SongFacetFilter,
+    type SongFacetName,
+    type SongListFilters,
+} from "@/lib/songListFetch";
+import { fetchSongRevisions, restoreSongRevision } from "@/lib/songRevisionFetch";
+import { matchComposers } from "@/lib/composerFetch";
+import { bytesToBase64, extractMetadataAndXml, stripExt, xmlToMxl } from "@/lib/songFileClient";
 
 
 // --- Config ---
 
-//                  First Last Title Level File
-const GRID_COLS_PX = [140, 140, 260, 100, 440] as const;
+//                  First Last Title Level Key Time File
+const GRID_COLS_PX = [140, 140, 260, 100, 90, 50, 300] as const;
 const GRID_COLS: React.CSSProperties["gridTemplateColumns"] = GRID_COLS_PX.map(n => `${n}px`).join(" ");
 const TABLE_MIN_PX = GRID_COLS_PX.reduce((a, b) => a + b, 0);
 const TABLE_ROW_PX = 28;
@@ -22,6 +32,7 @@ const TABLE_ROW_COUNT = 10;
 
 const SONG_LIST_ENDPOINT = "/api/songlist";
 const SAVE_ENDPOINT = "/api/song";
+const SEARCH_DEBOUNCE_MS = 250;
 const XML_PREVIEW_HEIGHT = 200;
 
 
@@ -32,147 +43,21 @@ type SaveResponse = {
     song_id?: number;
     error?: string;
     message?: string;
+    field?: string; // SONG_COL token the error is about
 };
 
 type Level = { number: number; name: string };
 
 type SortDir = "asc" | "desc";
 
+// What the editor needs to open a song (list rows carry more)
+type SongRowFields = Pick<
+    SongListItem,
+    "song_id" | "song_title" | "composer_first_name" | "composer_last_name" | "skill_level_number" | "file_name" | "tag_names"
+>;
 
-// --- Helpers ---
-
-function firstText(doc: Document, selector: string): string {
-    const el = doc.querySelector(selector);
-    const raw = el?.textContent ?? "";
-    return collapseWs(raw);
-}
-
-function firstNonEmpty(...vals: (string | undefined)[]): string {
-    for (const v of vals) {
-        if (v && v.trim()) {
-            return v.trim();
-        }
-    }
-    return "";
-}
-
-function stripExt(name: string): string {
-    const lower = (name || "").toLowerCase();
-    if (lower.endsWith(".musicxml")) {
-        return name.slice(0, -10);
-    }
-    if (lower.endsWith(".mxl")) {
-        return name.slice(0, -4);
-    }
-    return name;
-}
-
-function collapseWs(s: string): string {
-    let out = "";
-    let inWs = false;
-    for (let i = 0; i < s.length; i++) {
-        const ch = s[i]!;
-        const ws = ch === " " || ch === "\n" || ch === "\r" || ch === "\t" || ch === "\f";
-        if (ws) {
-            if (!inWs) {
-                out += " ";
-                inWs = true;
-            }
-        } else {
-            out += ch;
-            inWs = false;
-        }
-    }
-    return out.trim();
-}
-
-function bytesToBase64(bytes: Uint8Array): string {
-    let s = "";
-    for (let i = 0; i < bytes.length; i++) {
-        s += String.fromCharCode(bytes[i]!);
-    }
-    return btoa(s);
-}
-
-function findRootfilePath(containerXml: string): string {
-    const doc = new DOMParser().parseFromString(containerXml, "application/xml");
-    const el = doc.querySelector("rootfile[full-path], rootfile[path], rootfile[href]");
-    const p = el?.getAttribute("full-path") || el?.getAttribute("path") || el?.getAttribute("href") || "";
-    if (!p) {
-        throw new Error("MXL: META-INF/container.xml rootfile path missing");
-    }
-    return p;
-}
-
-function extractFromMusicXml(xmlText: string, fallbackName: string): { title: string; composer: string } {
-    const doc = new DOMParser().parseFromString(xmlText, "application/xml");
-    if (doc.getElementsByTagName("parsererror").length) {
-        throw new Error("Invalid MusicXML (parsererror)");
-    }
-
-    const songTitle = firstText(doc, "song > song-title");
-    const movementTitle = firstText(doc, "movement-title");
-    const creditWords = firstText(doc, "credit > credit-words");
-    const title = firstNonEmpty(songTitle, movementTitle, creditWords, stripExt(fallbackName));
-
-    const composerTyped = firstText(doc, 'identification > creator[type="composer"]');
-    const anyCreator = firstText(doc, "identification > creator");
-    const composer = firstNonEmpty(composerTyped, anyCreator, "");
-
-    return { title, composer };
-}
-
-async function extractMetadataAndXml(
-    file: File,
-    kind: { isMxl: boolean; isXml: boolean }
-): Promise<{ title: string; composer: string; xmlText: string }> {
-    if (kind.isXml) {
-        const xmlText = await file.text();
-        const meta = extractFromMusicXml(xmlText, file.name);
-        return { ...meta, xmlText };
-    }
-    if (kind.isMxl) {
-        const { unzip } = await import("unzipit");
-        const { entries } = await unzip(await file.arrayBuffer());
-        const container = entries["META-INF/container.xml"];
-        if (!container) {
-            throw new Error("MXL: META-INF/container.xml missing");
-        }
-        const containerXml = await container.text();
-        const rootPath = findRootfilePath(containerXml);
-        const root = entries[rootPath];
-        if (!root) {
-            throw new Error(`MXL: rootfile missing in archive: ${rootPath}`);
-        }
-        const xmlText = await root.text();
-        const meta = extractFromMusicXml(xmlText, file.name);
-        return { ...meta, xmlText };
-    }
-    throw new Error("Unsupported file type");
-}
-
-// Build a proper .mxl (ZIP) from full XML text for saving
-async function xmlToMxl(xmlText: string, innerNameHint: string): Promise<Uint8Array> {
-    const { default: JSZip } = await import("jszip");
-    const zip = new JSZip();
-
-    const base = stripExt(innerNameHint || "score");
-    const innerName = `${base}.musicxml`;
-
-    zip.file(
-        "META-INF/container.xml",
-        `<?xml version="1.0" encoding="UTF-8"?>
-<container xmlns="urn:oasis:names:tc:opendocument:xmlns:container" version="1.0">
-  <rootfiles>
-    <rootfile full-path="${innerName}" media-type="application/vnd.recordare.musicxml+xml"/>
-  </rootfiles>
-</container>`
-    );
-
-    zip.file(innerName, xmlText);
 
-    return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
-}
+// --- Helpers ---
 
 // Accept only the new shape returned by /api/skill-level
 function isLevel(x: unknown): x is Level {
@@ -190,6 +75,7 @@ export default function AdminSongsPage(): React.ReactElement {
     const [file, setFile] = React.useState<File | null>(null);
     const [parsing, setParsing] = React.useState(false);
     const [error, setError] = React.useState("");
+    const [fileError, setFileError] = React.useState(""); // server rejected the MXL itself
     const [saving, setSaving] = React.useState(false);
     const [saveOk, setSaveOk] = React.useState("");
     const [deleting, setDeleting] = React.useState(false);
@@ -203,20 +89,42 @@ export default function AdminSongsPage(): React.ReactElement {
     const [sort, setSort] = React.useState<SongColToken | null>(DEFAULT_SORT);
     const [sortDir, setSortDir] = React.useState<SortDir>(DEFAULT_DIR);
 
+    // Server-side filters; the ref lets refreshSongList see edits made in the same tick
+    const [search, setSearch] = React.useState("");
+    const [selectedLevels, setSelectedLevels] = React.useState<number[]>([]);
+    const [facetFilter, setFacetFilter] = React.useState<SongFacetFilter>({});
+    const [selectedTags, setSelectedTags] = React.useState<string[]>([]);
+    const [facets, setFacets] = React.useState<SongFacetsResponse>(EMPTY_SONG_FACETS);
+    const filtersRef = React.useRef<SongListFilters>({});
+    const searchTimerRef = React.useRef<number | null>(null);
+
+    // Keyset paging: cursor for the next page (null = nothing more to load)
+    const nextCursorRef = React.useRef<string | null>(null);
+    const [hasMore, setHasMore] = React.useState(false);
+    const [loadingMore, setLoadingMore] = React.useState(false);
+
     // fields
     const [title, setTitle] = React.useState("");
     const [composerFirst, setComposerFirst] = React.useState("");
     const [composerLast, setComposerLast] = React.useState("");
+    const [composerSuggestions, setComposerSuggestions] = React.useState<ComposerMatchItem[]>([]);
     const [level, setLevel] = React.useState(""); // holds selected level_number as string
     const [levels, setLevels] = React.useState<Level[]>([]);
     const [levelsLoading, setLevelsLoading] = React.useState(false);
     const [levelsError, setLevelsError] = React.useState("");
     const [fileName, setFileName] = React.useState("");
+    const [tags, setTags] = React.useState<string[]>([]);
     const [xmlPreview, setXmlPreview] = React.useState("");
     const [xmlLoading, setXmlLoading] = React.useState(false);
 
     const [songId, setSongId] = React.useState<number | null>(null);
 
+    // Revision history of the selected song
+    const [revisions, setRevisions] = React.useState<SongRevisionItem[]>([]);
+    const [revisionsLoading, setRevisionsLoading] = React.useState(false);
+    const [revisionsError, setRevisionsError] = React.useState("");
+    const [restoringRevisionId, setRestoringRevisionId] = React.useState<number | null>(null);
+
     const [statusTick, setStatusTick] = React.useState(0);
 
     const fileInputRef = React.useRef<HTMLInputElement>(null);
@@ -224,13 +132,15 @@ export default function AdminSongsPage(): React.ReactElement {
     const listSeqRef = React.useRef(0);
     const mxlAbortRef = React.useRef<AbortController | null>(null);
     const mxlSeqRef = React.useRef(0);
+    const revisionsAbortRef = React.useRef<AbortController | null>(null);
 
     const isDark = usePrefersDark();
     const T = React.useMemo(() => themeTokens(isDark), [isDark]);        // memoize tokens
 
     const fieldCss = React.useMemo(() => fieldStyle(isDark), [isDark]);
 
-    // Fast lookup for duplicates: file_name -> song_id (exact, case-sensitive)
+    // Fast lookup for duplicates among the rows loaded so far: file_name -> song_id (exact, case-sensitive).
+    // The list is paged, so this is only a head start; the save route still rejects duplicates (409).
     const fileNameToIdRef = React.useRef<Map<string, number>>(new Map());
 
     // fetch skill levels once (do NOT default-select)
@@ -282,6 +192,19 @@ export default function AdminSongsPage(): React.ReactElement {
         };
     }, []);
 
+    // Filter choices follow the catalog, so reload them after every save/restore/delete
+    const loadFacets = React.useCallback(async (): Promise<void> => {
+        try {
+            setFacets(await fetchSongFacets());
+        } catch {
+            setFacets(EMPTY_SONG_FACETS); // selects just hide
+        }
+    }, []);
+
+    React.useEffect(() => {
+        void loadFacets();
+    }, [loadFacets]);
+
     // fetch list on mount
     React.useEffect(() => {
         void refreshSongList();
@@ -292,6 +215,9 @@ export default function AdminSongsPage(): React.ReactElement {
             if (mxlAbortRef.current !== null) {
                 mxlAbortRef.current.abort();
             }
+            if (searchTimerRef.current !== null) {
+                window.clearTimeout(searchTimerRef.current);
+            }
         };
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
@@ -305,6 +231,8 @@ export default function AdminSongsPage(): React.ReactElement {
         if (showSpinner) {
             setListLoading(true);
         }
+        nextCursorRef.current = null;
+        setHasMore(false);
 
         // cancel any in-flight request
         if (listAbortRef.current !== null) {
@@ -320,12 +248,16 @@ export default function AdminSongsPage(): React.ReactElement {
         try {
             const effSort = overrideSort ?? sort;
             const effDir: SortDir = overrideDir ?? sortDir;
+            const filters = filtersRef.current;
+            const filtered = !!filters.q?.trim() || (filters.levels?.length ?? 0) > 0;
 
             // shared fetch + normalize
             const data = await fetchSongList(
                 SONG_LIST_ENDPOINT,
                 effSort,            // SongColToken | null → string | null OK
                 effDir,             // "asc" | "desc"
+                filters,
+                null,               // first page
                 controller.signal
             );
 
@@ -335,11 +267,14 @@ export default function AdminSongsPage(): React.ReactElement {
             }
 
             // set table rows
-            setRows(data);
-
-            // rebuild duplicate-check map (file_name → song_id)
-            const m = new Map<string, number>();
-            for (const row of data) {
+            setRows(data.items);
+            nextCursorRef.current = data.nextCursor;
+            setHasMore(data.nextCursor !== null);
+
+            // rebuild duplicate-check map (file_name → song_id);
+            // a filtered list is partial, so only add to what we already know
+            const m = filtered ? new Map(fileNameToIdRef.current) : new Map<string, number>();
+            for (const row of data.items) {
                 if (row.file_name) {
                     m.set(row.file_name, row.song_id);
                 }
@@ -366,13 +301,151 @@ export default function AdminSongsPage(): React.ReactElement {
         void refreshSongList(key, nextDir);
     };
 
-    const loadSongRow = async (item: SongListItem): Promise<void> => {
+    // Append the next page; a refresh (new sort/filter) aborts it and wins
+    const loadMoreSongs = async (): Promise<void> => {
+        const cursor = nextCursorRef.current;
+        if (cursor === null || loadingMore || listLoading) {
+            return;
+        }
+        const seq = listSeqRef.current;
+        const controller = new AbortController();
+        listAbortRef.current = controller;
+        setLoadingMore(true);
+
+        try {
+            const page = await fetchSongList(
+                SONG_LIST_ENDPOINT,
+                sort,
+                sortDir,
+                filtersRef.current,
+                cursor,
+                controller.signal
+            );
+            if (seq !== listSeqRef.current) {
+                return;
+            }
+            setRows((prev) => [...prev, ...page.items]);
+            nextCursorRef.current = page.nextCursor;
+            setHasMore(page.nextCursor !== null);
+
+            for (const row of page.items) {
+                if (row.file_name) {
+                    fileNameToIdRef.current.set(row.file_name, row.song_id);
+                }
+            }
+        } catch (e: unknown) {
+            const name = (e as { name?: string } | null)?.name ?? "";
+            if (name === "AbortError") {
+                return;
+            }
+            setListError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    const applyFilters = (next: SongListFilters, debounce: boolean): void => {
+        filtersRef.current = next;
+        if (searchTimerRef.current !== null) {
+            window.clearTimeout(searchTimerRef.current);
+            searchTimerRef.current = null;
+        }
+        if (debounce) {
+            searchTimerRef.current = window.setTimeout(() => {
+                searchTimerRef.current = null;
+                void refreshSongList();
+            }, SEARCH_DEBOUNCE_MS);
+        } else {
+            void refreshSongList();
+        }
+    };
+
+    const changeSearch = (text: string): void => {
+        setSearch(text);
+        applyFilters({ ...filtersRef.current, q: text }, true);
+    };
+
+    const toggleLevel = (n: number): void => {
+        const next = selectedLevels.includes(n)
+            ? selectedLevels.filter((x) => x !== n)
+            : [...selectedLevels, n].sort((a, b) => a - b);
+        setSelectedLevels(next);
+        applyFilters({ ...filtersRef.current, levels: next }, false);
+    };
+
+    const changeFacet = (name: SongFacetName, value: string): void => {
+        setFacetFilter((prev) => ({ ...prev, [name]: value }));
+        applyFilters({ ...filtersRef.current, [name]: value }, false);
+    };
+
+    const toggleTag = (tag: string): void => {
+        const next = selectedTags.includes(tag)
+            ? selectedTags.filter((t) => t !== tag)
+            : [...selectedTags, tag];
+        setSelectedTags(next);
+        applyFilters({ ...filtersRef.current, tags: next }, false);
+    };
+
+    const clearFilters = (): void => {
+        setSearch("");
+        setSelectedLevels([]);
+        setFacetFilter({});
+        setSelectedTags([]);
+        applyFilters({}, false);
+    };
+
+    // Tags already in the catalog keep their spelling ("jazz" → "Jazz"); duplicates are ignored
+    const addTag = (value: string): void => {
+        const name = value.trim().replace(/\s+/g, " ");
+        if (!name) { return; }
+        const lower = name.toLowerCase();
+        if (tags.some((t) => t.toLowerCase() === lower)) { return; }
+        const known = facets.tags.find((t) => t.toLowerCase() === lower);
+        setTags([...tags, known ?? name]);
+    };
+
+    // null clears the history (new file picked, song deleted)
+    const loadRevisions = async (id: number | null): Promise<void> => {
+        if (revisionsAbortRef.current !== null) {
+            revisionsAbortRef.current.abort();
+            revisionsAbortRef.current = null;
+        }
+        setRevisionsError("");
+        if (id === null) {
+            setRevisions([]);
+            setRevisionsLoading(false);
+            return;
+        }
+
+        const controller = new AbortController();
+        revisionsAbortRef.current = controller;
+        setRevisionsLoading(true);
+        try {
+            const items = await fetchSongRevisions(id, controller.signal);
+            setRevisions(items);
+        } catch (e: unknown) {
+            const name = (e as { name?: string } | null)?.name ?? "";
+            if (name === "AbortError") {
+                return;
+            }
+            setRevisions([]);
+            setRevisionsError(e instanceof Error ? e.message : String(e));
+        } finally {
+            if (revisionsAbortRef.current === controller) {
+                setRevisionsLoading(false);
+            }
+        }
+    };
+
+    const loadSongRow = async (item: SongRowFields): Promise<void> => {
 
         let seq = 0;
         try {
             setError("");
+            setFileError("");
             setSaveOk("");
             setSongId(item.song_id);
+            setComposerSuggestions([]);
 
             setFile(null);
             setXmlPreview("");
@@ -392,6 +465,8 @@ export default function AdminSongsPage(): React.ReactElement {
             setComposerLast(item.composer_last_name || "");
             setLevel(item.skill_level_number ? String(item.skill_level_number) : "");
             setFileName(item.file_name || "");
+            setTags([...item.tag_names]);
+            void loadRevisions(item.song_id);
 
             const res = await fetch(`/api/song/${item.song_id}`, { cache: "no-store", signal: controller.signal });
             if (!res.ok) {
@@ -472,17 +547,66 @@ export default function AdminSongsPage(): React.ReactElement {
         }
     }, [songId]);
 
+    const previewRevision = (songRevisionId: number): void => {
+        if (songId !== null) {
+            const tabId = Date.now().toString(36);
+            window.open(`/viewer?tab=${tabId}&id=${songId}&revision=${songRevisionId}`, "_blank", "noopener,noreferrer");
+        }
+    };
+
+    const restoreRevision = async (songRevisionId: number): Promise<void> => {
+        if (songId === null) { return; }
+        const rev = revisions.find((r) => r.song_revision_id === songRevisionId);
+        if (!rev) { return; }
+
+        const confirmed = window.confirm(
+            `Restore revision #${songRevisionId} (${rev.file_name})? The current MXL stays in the history.`
+        );
+        if (!confirmed) { return; }
+
+        setError("");
+        setSaveOk("");
+        setRestoringRevisionId(songRevisionId);
+        try {
+            await restoreSongRevision(songId, songRevisionId);
+
+            // Silent list refresh, then reload the editor (XML + history) from the restored bytes
+            await refreshSongList(undefined, undefined, false);
+            void loadFacets();
+            await loadSongRow({
+                song_id: songId,
+                song_title: title,
+                composer_first_name: composerFirst,
+                composer_last_name: composerLast,
+                skill_level_number: Number(level),
+                file_name: rev.file_name,
+                tag_names: tags,
+            });
+
+            setSaveOk(`Restored revision #${songRevisionId}`);
+            setStatusTick((t) => t + 1);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setRestoringRevisionId(null);
+        }
+    };
+
     const onPick: React.ChangeEventHandler<HTMLInputElement> = async (e) => {
         setError("");
+        setFileError("");
         setSaveOk("");
         setParsing(false);
         setSongId(null);
         setTitle("");
         setComposerFirst("");
         setComposerLast("");
+        setComposerSuggestions([]);
         setLevel(""); // force a fresh selection for each file
         setFileName("");
+        setTags([]);
         setXmlPreview("");
+        void loadRevisions(null);
 
         const f = e.target.files?.[0] ?? null;
         if (!f) {
@@ -520,6 +644,14 @@ export default function AdminSongsPage(): React.ReactElement {
             setComposerFirst(meta.composer || "");
             setComposerLast("");
             setXmlPreview(meta.xmlText || "");
+
+            // Offer existing spellings so "J.S. Bach" lands on the Bach already in the catalog;
+            // a failed lookup just means no suggestions
+            if (meta.composer) {
+                matchComposers(meta.composer)
+                    .then((items) => { setComposerSuggestions(items); })
+                    .catch(() => { setComposerSuggestions([]); });
+            }
         } catch (err) {
             setError(err instanceof Error ? err.message : String(err));
         } finally {
@@ -552,6 +684,7 @@ export default function AdminSongsPage(): React.ReactElement {
 
     const onSave = async (): Promise<void> => {
         setError("");
+        setFileError("");
         setSaveOk("");
 
         if (!file) {
@@ -643,6 +776,7 @@ export default function AdminSongsPage(): React.ReactElement {
                 [SONG_COL.skillLevelNumber]: Number(level),
                 [SONG_COL.fileName]: outFileName,
                 [SONG_COL.songMxl]: base64,
+                [SONG_COL.tagNames]: tags,
             };
 
             const res = await fetch(SAVE_ENDPOINT, {
@@ -659,7 +793,12 @@ export default function AdminSongsPage(): React.ReactElement {
 
             if (!res.ok) {
                 const message = (json && (json.message || json.error)) || (await res.text()) || `Save failed (HTTP ${res.status})`;
-                setError(message);
+                if (json?.field === SONG_COL.songMxl) {
+                    setFileError(json.error ? `${message} (${json.error})` : message);
+                    setError("The file was rejected.");
+                } else {
+                    setError(message);
+                }
                 return;
             }
 
@@ -667,6 +806,7 @@ export default function AdminSongsPage(): React.ReactElement {
 
             if (json && typeof json.song_id === "number" && Number.isFinite(json.song_id)) {
                 setSongId(json.song_id);
+                void loadRevisions(json.song_id);
             }
 
             // Reset the hidden file input so the same file can be picked again if needed
@@ -676,6 +816,7 @@ export default function AdminSongsPage(): React.ReactElement {
 
             // Refresh the list **silently** (no spinner, no layout dim)
             await refreshSongList(undefined, undefined, false);
+            void loadFacets();
 
             // Make sure saving state is cleared before we show the success text
             setSaving(false);
@@ -700,7 +841,7 @@ export default function AdminSongsPage(): React.ReactElement {
             return;
         }
 
-        const confirmed = window.confirm("Delete this song? This cannot be undone.");
+        const confirmed = window.confirm("Delete this song? It moves to the Trash, where it can be restored until it is purged.");
         if (!confirmed) { return; }
 
         try {
@@ -735,9 +876,11 @@ export default function AdminSongsPage(): React.ReactElement {
 
             // Success: keep field values, but set userId to null
             setSongId(null);
+            void loadRevisions(null);
 
             // Silent list refresh (also rebuilds dup map)
             await refreshSongList(undefined, undefined, false);
+            void loadFacets();
 
             // Feedback
             setError("");
@@ -769,6 +912,20 @@ export default function AdminSongsPage(): React.ReactElement {
                 sort={sort}
                 sortDir={sortDir}
                 onToggleSort={toggleSort}
+                search={search}
+                onSearchChange={changeSearch}
+                levels={levels}
+                selectedLevels={selectedLevels}
+                onToggleLevel={toggleLevel}
+                facets={facets}
+                facetFilter={facetFilter}
+                onFacetChange={changeFacet}
+                selectedTags={selectedTags}
+                onToggleTag={toggleTag}
+                onClearFilters={clearFilters}
+                hasMore={hasMore}
+                loadingMore={loadingMore}
+                onLoadMore={() => { void loadMoreSongs(); }}
                 onRowClick={(row) => { void loadSongRow(row); }}
                 gridCols={GRID_COLS}
                 tableMinPx={TABLE_MIN_PX}
@@ -783,6 +940,7 @@ export default function AdminSongsPage(): React.ReactElement {
                 title={title}
                 composerFirst={composerFirst}
                 composerLast={composerLast}
+                composerSuggestions={composerSuggestions}
                 level={level}
                 levels={levels}
                 levelsLoading={levelsLoading}
@@ -792,6 +950,7 @@ export default function AdminSongsPage(): React.ReactElement {
                 xmlLoading={xmlLoading}
                 parsing={parsing}
                 errorText={error}
+                fileErrorText={fileError}
                 saveOkText={saveOk}
                 statusTick={statusTick}
 
@@ -803,13 +962,30 @@ export default function AdminSongsPage(): React.ReactElement {
                 deleting={deleting}
                 onDelete={onDelete}
 
+                /* revision history */
+                revisions={revisions}
+                revisionsLoading={revisionsLoading}
+                revisionsError={revisionsError}
+                restoringRevisionId={restoringRevisionId}
+                onPreviewRevision={previewRevision}
+                onRestoreRevision={(id) => { void restoreRevision(id); }}
+
 
                 /* handlers */
                 onChangeTitle={(v) => { setTitle(v); }}
                 onChangeComposerFirst={(v) => { setComposerFirst(v); }}
                 onChangeComposerLast={(v) => { setComposerLast(v); }}
+                onUseComposer={(c) => {
+                    setComposerFirst(c.composer_first_name);
+                    setComposerLast(c.composer_last_name);
+                    setComposerSuggestions([]);
+                }}
                 onChangeLevel={(v) => { setLevel(v); }}
                 onChangeXml={(v) => { setXmlPreview(v); }}
+                tags={tags}
+                tagOptions={facets.tags}
+                onAddTag={addTag}
+                onRemoveTag={(tag) => { setTags((prev) => prev.filter((t) => t !== tag)); }}
                 onPick={onPick}
                 onSave={onSave}
                 onOpenViewer={openViewer}
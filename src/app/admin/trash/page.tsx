@@ -0,0 +1,167 @@
+// src/app/admin/trash/page.tsx
+"use client";
+
+import React from "react";
+
+import { usePrefersDark, themeTokens, fieldStyle } from "@/lib/theme";
+import AdminTrashListPanel from "@/components/AdminTrashListPanel";
+import type { TrashItem } from "@/lib/types";
+import { TRASH_RETENTION_DAYS, type TrashItemType } from "@/lib/trashPolicy";
+import { fetchTrash, restoreTrashItem, deleteTrashItem, purgeTrash } from "@/lib/trashFetch";
+
+
+// --- Config ---
+
+//                  Type Name Details Deleted Purged Actions
+const GRID_COLS_PX = [60, 220, 260, 150, 150, 190] as const;
+const GRID_COLS: React.CSSProperties["gridTemplateColumns"] = GRID_COLS_PX.map(n => `${n}px`).join(" ");
+const TABLE_MIN_PX = GRID_COLS_PX.reduce((a, b) => a + b, 0);
+const TABLE_ROW_PX = 32;
+const TABLE_ROW_COUNT = 15;
+
+
+// --- Component ---
+
+export default function AdminTrashPage(): React.ReactElement {
+    const [rows, setRows] = React.useState<TrashItem[]>([]);
+    const [retentionDays, setRetentionDays] = React.useState(TRASH_RETENTION_DAYS);
+    const [listLoading, setListLoading] = React.useState(false);
+    const [listError, setListError] = React.useState("");
+    const [typeFilter, setTypeFilter] = React.useState<TrashItemType | null>(null);
+
+    const [busyKey, setBusyKey] = React.useState<string | null>(null);
+    const [purging, setPurging] = React.useState(false);
+    const [okText, setOkText] = React.useState("");
+
+    const listAbortRef = React.useRef<AbortController | null>(null);
+
+    const isDark = usePrefersDark();
+    const T = React.useMemo(() => themeTokens(isDark), [isDark]);
+    const fieldCss = React.useMemo(() => fieldStyle(isDark), [isDark]);
+
+    const visibleRows = React.useMemo(
+        () => (typeFilter === null ? rows : rows.filter((r) => r.item_type === typeFilter)),
+        [rows, typeFilter]
+    );
+
+    // fetch the Trash on mount
+    React.useEffect(() => {
+        void refreshTrash();
+        return () => {
+            if (listAbortRef.current !== null) {
+                listAbortRef.current.abort();
+            }
+        };
+    }, []);
+
+    async function refreshTrash(showSpinner: boolean = true): Promise<void> {
+        setListError("");
+        if (showSpinner) {
+            setListLoading(true);
+        }
+        if (listAbortRef.current !== null) {
+            listAbortRef.current.abort();
+        }
+        const controller = new AbortController();
+        listAbortRef.current = controller;
+
+        try {
+            const data = await fetchTrash(controller.signal);
+            setRows(data.items);
+            setRetentionDays(data.retention_days);
+        } catch (e: unknown) {
+            const name = (e as { name?: string } | null)?.name ?? "";
+            if (name === "AbortError") {
+                return;
+            }
+            setListError(e instanceof Error ? e.message : String(e));
+        } finally {
+            if (listAbortRef.current === controller) {
+                setListLoading(false);
+            }
+        }
+    }
+
+    // ---- Restore / Delete / Purge ----
+
+    async function onRestore(row: TrashItem): Promise<void> {
+        setListError("");
+        setOkText("");
+        setBusyKey(`${row.item_type}-${row.item_id}`);
+        try {
+            await restoreTrashItem(row.item_type, row.item_id);
+            await refreshTrash(false);
+            setOkText(`Restored “${row.item_name}”`);
+        } catch (e: unknown) {
+            setListError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setBusyKey(null);
+        }
+    }
+
+    async function onDeleteForever(row: TrashItem): Promise<void> {
+        const what = row.item_type === "song"
+            ? "this song, its file history, markings and assignments"
+            : "this user and their setlists, markings and assignments";
+        if (!window.confirm(`Delete “${row.item_name}” for good?\n\nThis removes ${what}. It cannot be undone.`)) {
+            return;
+        }
+
+        setListError("");
+        setOkText("");
+        setBusyKey(`${row.item_type}-${row.item_id}`);
+        try {
+            await deleteTrashItem(row.item_type, row.item_id);
+            await refreshTrash(false);
+            setOkText(`Deleted “${row.item_name}”`);
+        } catch (e: unknown) {
+            setListError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setBusyKey(null);
+        }
+    }
+
+    async function onPurgeExpired(): Promise<void> {
+        if (!window.confirm(`Delete everything that has been in the Trash for more than ${retentionDays} days? This cannot be undone.`)) {
+            return;
+        }
+
+        setListError("");
+        setOkText("");
+        setPurging(true);
+        try {
+            const purged = await purgeTrash();
+            await refreshTrash(false);
+            setOkText(purged === 0 ? "Nothing was due" : `Purged ${purged} ${purged === 1 ? "item" : "items"}`);
+        } catch (e: unknown) {
+            setListError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setPurging(false);
+        }
+    }
+
+    return (
+        <main style={{ maxWidth: TABLE_MIN_PX + 32, margin: "24px auto", padding: "0 16px" }}>
+            <AdminTrashListPanel
+                rows={visibleRows}
+                listLoading={listLoading}
+                listError={listError}
+                retentionDays={retentionDays}
+                typeFilter={typeFilter}
+                onChangeTypeFilter={setTypeFilter}
+                busyKey={busyKey}
+                onRestore={(row) => { void onRestore(row); }}
+                onDeleteForever={(row) => { void onDeleteForever(row); }}
+                purging={purging}
+                onPurgeExpired={() => { void onPurgeExpired(); }}
+                okText={okText}
+                gridCols={GRID_COLS}
+                tableMinPx={TABLE_MIN_PX}
+                rowPx={TABLE_ROW_PX}
+                visibleRowCount={TABLE_ROW_COUNT}
+                T={T}
+                fieldCss={fieldCss}
+            />
+        </main>
+    );
+}
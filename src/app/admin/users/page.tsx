@@ -48,6 +48,11 @@ export default function AdminUsersPage(): React.ReactElement {
     const [sort, setSort] = React.useState<UserColToken | null>(DEFAULT_SORT);
     const [sortDir, setSortDir] = React.useState<SortDir>(DEFAULT_DIR);
 
+    // Keyset paging: cursor for the next page (null = nothing more to load)
+    const nextCursorRef = React.useRef<string | null>(null);
+    const [hasMore, setHasMore] = React.useState(false);
+    const [loadingMore, setLoadingMore] = React.useState(false);
+
     // Edit fields (manual entry; no files/XML)
     const [userId, setUserId] = React.useState<number | null>(null);
     const [userName, setUserName] = React.useState("");
@@ -107,6 +112,8 @@ export default function AdminUsersPage(): React.ReactElement {
         if (showSpinner) {
             setListLoading(true);
         }
+        nextCursorRef.current = null;
+        setHasMore(false);
 
         // cancel any in-flight request
         if (listAbortRef.current !== null) {
@@ -128,6 +135,7 @@ export default function AdminUsersPage(): React.ReactElement {
                 USER_LIST_ENDPOINT,
                 effSort,           // UserColToken | null → string | null OK
                 effDir,            // "asc" | "desc"
+                null,              // first page
                 controller.signal
             );
 
@@ -137,7 +145,9 @@ export default function AdminUsersPage(): React.ReactElement {
             }
 
             // set table rows
-            setRows(data);
+            setRows(data.items);
+            nextCursorRef.current = data.nextCursor;
+            setHasMore(data.nextCursor !== null);
         } catch (e: unknown) {
             const name = (e as { name?: string } | null)?.name ?? "";
             if (name === "AbortError") {
@@ -159,6 +169,36 @@ export default function AdminUsersPage(): React.ReactElement {
         void refreshUserList(key, nextDir);
     };
 
+    // Append the next page; a refresh (new sort) aborts it and wins
+    async function loadMoreUsers(): Promise<void> {
+        const cursor = nextCursorRef.current;
+        if (cursor === null || loadingMore || listLoading) {
+            return;
+        }
+        const seq = listSeqRef.current;
+        const controller = new AbortController();
+        listAbortRef.current = controller;
+        setLoadingMore(true);
+
+        try {
+            const page = await fetchUserList(USER_LIST_ENDPOINT, sort, sortDir, cursor, controller.signal);
+            if (seq !== listSeqRef.current) {
+                return;
+            }
+            setRows((prev) => [...prev, ...page.items]);
+            nextCursorRef.current = page.nextCursor;
+            setHasMore(page.nextCursor !== null);
+        } catch (e: unknown) {
+            const name = (e as { name?: string } | null)?.name ?? "";
+            if (name === "AbortError") {
+                return;
+            }
+            setListError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setLoadingMore(false);
+        }
+    }
+
     // Selecting a row fills the form (mirrors Songs' loadSongRow shape)
     async function loadUserRow(item: UserListItem): Promise<void> {
         setError("");
@@ -305,7 +345,7 @@ export default function AdminUsersPage(): React.ReactElement {
             return;
         }
 
-        const confirmed = window.confirm("Delete this user? This cannot be undone.");
+        const confirmed = window.confirm("Delete this user? They can no longer sign in; the account moves to the Trash, where it can be restored until it is purged.");
         if (!confirmed) {
             return;
         }
@@ -371,6 +411,9 @@ export default function AdminUsersPage(): React.ReactElement {
                 sortDir={sortDir}
                 onToggleSort={toggleSort}
                 onRowClick={(row) => { void loadUserRow(row); }}
+                hasMore={hasMore}
+                loadingMore={loadingMore}
+                onLoadMore={() => { void loadMoreUsers(); }}
                 gridCols={GRID_COLS}
                 tableMinPx={TABLE_MIN_PX}
                 rowPx={TABLE_ROW_PX}
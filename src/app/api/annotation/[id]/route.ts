@@ -0,0 +1,56 @@
+// src/app/api/annotation/[id]/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import { sessionFromHeaders } from "@/lib/sessionUser";
+import { parsePositiveId } from "@/lib/routeParams";
+
+type OkResponse = { ok: true; annotation_id: number };
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+/* =========================
+   DELETE /api/annotation/:id
+   Only the user who made the marking can remove it
+   ========================= */
+
+export async function DELETE(
+    req: NextRequest,
+    ctx: { params: Promise<{ id: string }> } // Next.js 15
+): Promise<NextResponse<OkResponse | ErrResponse>> {
+    try {
+        const session = sessionFromHeaders(req.headers);
+        if (!session) {
+            return err("unauthorized", 401);
+        }
+
+        const { id } = await ctx.params;
+        const annotationId = parsePositiveId(id);
+        if (annotationId === null) {
+            return err("invalid_id", 400, { message: "annotation_id must be a positive integer." });
+        }
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("annotation_delete", { p_user_id: session.userId, p_annotation_id: annotationId });
+        if (error) {
+            return err(error.message ?? "RPC annotation_delete failed", 500);
+        }
+
+        const deleted = typeof data === "number" ? data : Number(data ?? 0);
+        if (deleted < 1) {
+            return err("not_found", 404, { message: "No marking with that id for this user." });
+        }
+        return NextResponse.json<OkResponse>({ ok: true, annotation_id: annotationId }, { status: 200 });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
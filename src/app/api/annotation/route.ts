@@ -0,0 +1,174 @@
+// src/app/api/annotation/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import { sessionFromHeaders } from "@/lib/sessionUser";
+import { parsePositiveId } from "@/lib/routeParams";
+import type { AnnotationItem, AnnotationListResponse } from "@/lib/types";
+import { z } from "zod";
+
+/* =========================
+   Response helpers / types
+   ========================= */
+
+type CreatedResponse = { ok: true; annotation_id: number };
+type ClearedResponse = { ok: true; count: number };
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+/* =========================
+   Validation
+   ========================= */
+
+// Fractions of the anchor box; a stroke may wander a few boxes away from where it started
+const Coord = z.number().min(-20).max(20);
+
+const Anchor = {
+    song_id: z.number().int().positive({ message: "song_id must be a positive integer" }),
+    measure_number: z.number().int().min(0, "measure_number must be 0 or more"),
+    part_id: z.string().trim().min(1, "part_id is required").max(100),
+    staff_number: z.number().int().min(1).max(16).optional().default(1),
+};
+
+const CreateSchema = z.discriminatedUnion("annotation_kind", [
+    z.object({
+        annotation_kind: z.literal("stroke"),
+        ...Anchor,
+        annotation_data: z.object({
+            points: z.array(z.tuple([Coord, Coord])).min(1, "A stroke needs at least one point").max(2000, "Stroke is too long"),
+        }),
+    }),
+    z.object({
+        annotation_kind: z.literal("text"),
+        ...Anchor,
+        annotation_data: z.object({
+            x: Coord,
+            y: Coord,
+            text: z.string().trim().min(1, "Text is required").max(200, "Text must be at most 200 characters"),
+        }),
+    }),
+]);
+
+/** song_id query parameter; null when missing or not a positive integer */
+function songIdParam(req: NextRequest): number | null {
+    return parsePositiveId(new URL(req.url).searchParams.get("song_id") ?? "");
+}
+
+/* =========================
+   GET /api/annotation?song_id=
+   The signed-in user's markings on one song, oldest first
+   ========================= */
+
+export async function GET(req: NextRequest): Promise<NextResponse<AnnotationListResponse | ErrResponse>> {
+    try {
+        const session = sessionFromHeaders(req.headers);
+        if (!session) {
+            return err("unauthorized", 401);
+        }
+        const songId = songIdParam(req);
+        if (songId === null) {
+            return err("invalid_song_id", 400, { message: "song_id must be a positive integer." });
+        }
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("annotation_list", { p_song_id: songId, p_user_id: session.userId });
+        if (error) {
+            return err(error.message ?? "RPC annotation_list failed", 500);
+        }
+        const items = (Array.isArray(data) ? data : []) as AnnotationItem[];
+        return NextResponse.json({ items }, { status: 200, headers: { "Cache-Control": "no-store" } });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
+
+/* =========================
+   POST /api/annotation  { song_id, annotation_kind, measure_number, part_id, staff_number, annotation_data }
+   ========================= */
+
+export async function POST(req: NextRequest): Promise<NextResponse<CreatedResponse | ErrResponse>> {
+    try {
+        const session = sessionFromHeaders(req.headers);
+        if (!session) {
+            return err("unauthorized", 401);
+        }
+
+        let raw: unknown;
+        try {
+            raw = await req.json();
+        } catch {
+            return err("Invalid JSON body", 400);
+        }
+        const parsed = CreateSchema.safeParse(raw);
+        if (!parsed.success) {
+            const first = parsed.error.issues[0];
+            return err("invalid_body", 400, { message: first?.message ?? "Invalid request body" });
+        }
+        const input = parsed.data;
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("annotation_insert", {
+                p_song_id: input.song_id,
+                p_user_id: session.userId,
+                p_annotation_kind: input.annotation_kind,
+                p_measure_number: input.measure_number,
+                p_part_id: input.part_id,
+                p_staff_number: input.staff_number,
+                p_annotation_data: input.annotation_data,
+            });
+        if (error) {
+            if (error.code === "23503") {
+                return err("not_found", 404, { message: "song_id not found." });
+            }
+            return err(error.message ?? "RPC annotation_insert failed", 500);
+        }
+
+        const annotationId = typeof data === "number" ? data : Number(data ?? 0);
+        return NextResponse.json<CreatedResponse>({ ok: true, annotation_id: annotationId }, { status: 200 });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
+
+/* =========================
+   DELETE /api/annotation?song_id=
+   Clear all of the signed-in user's markings on one song
+   ========================= */
+
+export async function DELETE(req: NextRequest): Promise<NextResponse<ClearedResponse | ErrResponse>> {
+    try {
+        const session = sessionFromHeaders(req.headers);
+        if (!session) {
+            return err("unauthorized", 401);
+        }
+        const songId = songIdParam(req);
+        if (songId === null) {
+            return err("invalid_song_id", 400, { message: "song_id must be a positive integer." });
+        }
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("annotation_delete", { p_user_id: session.userId, p_song_id: songId });
+        if (error) {
+            return err(error.message ?? "RPC annotation_delete failed", 500);
+        }
+        return NextResponse.json<ClearedResponse>(
+            { ok: true, count: typeof data === "number" ? data : Number(data ?? 0) },
+            { status: 200 }
+        );
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
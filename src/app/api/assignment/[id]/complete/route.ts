@@ -0,0 +1,59 @@
+// src/app/api/assignment/[id]/complete/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import { sessionFromHeaders } from "@/lib/sessionUser";
+import { USER_ROLE } from "@/lib/accessPolicy";
+
+type OkResponse = { ok: true; assignment_id: number };
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+/* =========================
+   POST /api/assignment/:id/complete
+   Students may only complete their own assignments; admins may complete any.
+   ========================= */
+
+export async function POST(
+    req: NextRequest,
+    ctx: { params: Promise<{ id: string }> } // Next.js 15
+): Promise<NextResponse<OkResponse | ErrResponse>> {
+    try {
+        const session = sessionFromHeaders(req.headers);
+        if (!session) {
+            return err("unauthorized", 401);
+        }
+
+        const { id } = await ctx.params;
+        if (!/^\d+$/.test(id)) {
+            return err("invalid_id", 400, { message: "assignment_id must be a positive integer." });
+        }
+        const assignmentId = Number(id);
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("assignment_complete", {
+                p_assignment_id: assignmentId,
+                p_user_id: session.roleNumber === USER_ROLE.admin ? null : session.userId,
+            });
+        if (error) {
+            return err(error.message ?? "RPC assignment_complete failed", 500);
+        }
+
+        const updated = typeof data === "number" ? data : Number(data ?? 0);
+        if (updated < 1) {
+            return err("not_found", 404, { message: "No open assignment with that id for this user." });
+        }
+        return NextResponse.json<OkResponse>({ ok: true, assignment_id: assignmentId }, { status: 200 });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
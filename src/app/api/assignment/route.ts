@@ -0,0 +1,129 @@
+// src/app/api/assignment/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import { sessionFromHeaders } from "@/lib/sessionUser";
+import { USER_ROLE } from "@/lib/accessPolicy";
+import type { AssignmentItem, AssignmentListResponse } from "@/lib/types";
+import { z } from "zod";
+
+/* =========================
+   Response helpers / types
+   ========================= */
+
+type OkResponse = { ok: true; count: number };
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function ok(body: OkResponse, status = 200): NextResponse<OkResponse> {
+    return NextResponse.json<OkResponse>(body, { status });
+}
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+/* =========================
+   Validation
+   ========================= */
+
+const AssignSchema = z.object({
+    song_id: z.number().int().positive({ message: "song_id must be a positive integer" }),
+    user_ids: z.array(z.number().int().positive()).min(1, "Pick at least one student").max(500),
+    assignment_notes: z.string().trim().max(2000, "Notes must be at most 2000 characters").optional().default(""),
+    due_date: z.iso.date({ message: "due_date must be YYYY-MM-DD" }).nullable().optional().default(null),
+});
+
+/* =========================
+   GET /api/assignment[?user_id=&mine=1&include_completed=1]
+   Students always get their own rows; admins get everyone's unless they
+   filter by student (user_id) or ask for their own (mine=1).
+   ========================= */
+
+export async function GET(req: NextRequest): Promise<NextResponse<AssignmentListResponse | ErrResponse>> {
+    try {
+        const session = sessionFromHeaders(req.headers);
+        if (!session) {
+            return err("unauthorized", 401);
+        }
+
+        const url = new URL(req.url);
+        let userId: number | null = null;
+        if (session.roleNumber === USER_ROLE.admin && url.searchParams.get("mine") !== "1") {
+            const raw = url.searchParams.get("user_id");
+            if (raw !== null) {
+                if (!/^\d+$/.test(raw)) {
+                    return err("invalid_user_id", 400, { message: "user_id must be a positive integer." });
+                }
+                userId = Number(raw);
+            }
+        } else {
+            userId = session.userId;
+        }
+        const includeCompleted = ["1", "true"].includes(url.searchParams.get("include_completed") ?? "");
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("assignment_list", {
+                p_user_id: userId,
+                p_include_completed: includeCompleted,
+            });
+        if (error) {
+            return err(error.message ?? "RPC assignment_list failed", 500);
+        }
+        const items = (Array.isArray(data) ? data : []) as AssignmentItem[];
+        return NextResponse.json({ items }, { status: 200, headers: { "Cache-Control": "no-store" } });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
+
+/* =========================
+   POST /api/assignment  (admin: assign a song to students)
+   Re-assigning an open (song, student) pair updates its notes and due date.
+   ========================= */
+
+export async function POST(req: NextRequest): Promise<NextResponse<OkResponse | ErrResponse>> {
+    try {
+        const session = sessionFromHeaders(req.headers);
+        if (!session) {
+            return err("unauthorized", 401);
+        }
+
+        const raw = (await req.json()) as unknown;
+        const parsed = AssignSchema.safeParse(raw);
+        if (!parsed.success) {
+            const first = parsed.error.issues[0];
+            return err("invalid_body", 400, { message: first?.message ?? "Invalid request body" });
+        }
+        const input = parsed.data;
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("assignment_assign", {
+                p_song_id: input.song_id,
+                p_user_ids: Array.from(new Set(input.user_ids)),
+                p_assignment_notes: input.assignment_notes,
+                p_due_date: input.due_date,
+                p_assigned_by_user_id: session.userId,
+            });
+
+        if (error) {
+            if (error.code === "P0002" || error.code === "23503") {
+                return err("not_found", 404, { message: "song_id not found." });
+            }
+            if (error.code === "22023") {
+                return err("invalid_students", 400, { message: error.message });
+            }
+            return err(error.message ?? "RPC assignment_assign failed", 500);
+        }
+
+        return ok({ ok: true, count: typeof data === "number" ? data : Number(data ?? 0) }, 200);
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
@@ -0,0 +1,35 @@
+// src/app/api/audit/actors/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import type { AuditActorItem, AuditActorListResponse } from "@/lib/types";
+
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+/* =========================
+   GET /api/audit/actors
+   Everyone who has made an audited change, by user name (the Activity page's actor filter)
+   ========================= */
+
+export async function GET(): Promise<NextResponse<AuditActorListResponse | ErrResponse>> {
+    try {
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("audit_actor_list");
+        if (error) {
+            return err(error.message ?? "RPC audit_actor_list failed", 500);
+        }
+        const items = (Array.isArray(data) ? data : []) as AuditActorItem[];
+        return NextResponse.json({ items }, { status: 200, headers: { "Cache-Control": "no-store" } });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
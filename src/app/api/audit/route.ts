@@ -0,0 +1,88 @@
+// src/app/api/audit/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import { decodeListCursor, toListPage, LIST_LIMIT_DEFAULT, LIST_LIMIT_MAX, type ListCursor } from "@/lib/listCursor";
+import type { AuditItem, AuditListResponse } from "@/lib/types";
+
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+// Newest first is the only order, so cursors carry no sort
+const CURSOR_SORT = "";
+const CURSOR_DIR = "desc";
+
+const positiveInt = z.coerce.number().int().positive();
+const instant = z.string().refine((s) => !Number.isNaN(Date.parse(s)), "must be an ISO date-time");
+
+const QuerySchema = z.object({
+    entity_type: z.enum(["song", "user"], { message: "entity_type must be \"song\" or \"user\"" }).optional(),
+    entity_id: positiveInt.optional(),
+    actor_user_id: positiveInt.optional(),
+    from: instant.optional(),   // inclusive
+    to: instant.optional(),     // exclusive
+    limit: z.coerce.number().int().min(1).max(LIST_LIMIT_MAX).default(LIST_LIMIT_DEFAULT),
+});
+
+/* =========================
+   GET /api/audit?entity_type=&entity_id=&actor_user_id=&from=&to=&limit=&cursor=
+   Audited changes to songs and users, newest first, one page at a time.
+   from/to are ISO date-times (the page sends local midnights)
+   ========================= */
+
+export async function GET(req: NextRequest): Promise<NextResponse<AuditListResponse | ErrResponse>> {
+    try {
+        const params = req.nextUrl.searchParams;
+        const raw: Record<string, string> = {};
+        for (const key of ["entity_type", "entity_id", "actor_user_id", "from", "to", "limit"]) {
+            const v = params.get(key);
+            if (v !== null && v !== "") { raw[key] = v; }
+        }
+        const parsed = QuerySchema.safeParse(raw);
+        if (!parsed.success) {
+            const first = parsed.error.issues[0];
+            const path = first?.path.join(".") ?? "";
+            return err("invalid_query", 400, { message: first ? `${path ? `${path}: ` : ""}${first.message}` : "Invalid query" });
+        }
+        const q = parsed.data;
+
+        const rawCursor = params.get("cursor");
+        let cursor: ListCursor | null = null;
+        if (rawCursor) {
+            cursor = decodeListCursor(rawCursor);
+            if (!cursor || cursor.sort !== CURSOR_SORT || cursor.dir !== CURSOR_DIR) {
+                return err("invalid_query", 400, { message: "cursor is invalid" });
+            }
+        }
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("audit_list", {
+                p_entity_type: q.entity_type ?? null,
+                p_entity_id: q.entity_id ?? null,
+                p_actor_user_id: q.actor_user_id ?? null,
+                p_from: q.from ?? null,
+                p_to: q.to ?? null,
+                p_limit: q.limit + 1, // one extra row tells us whether another page exists
+                p_after_id: cursor?.id ?? null,
+            });
+        if (error) {
+            return err(error.message ?? "RPC audit_list failed", 500);
+        }
+
+        const rows = (Array.isArray(data) ? data : []) as (AuditItem & { sort_key: string })[];
+        const { items, nextCursor } = toListPage(rows, q.limit, (r) => r.audit_id, CURSOR_SORT, CURSOR_DIR);
+        return NextResponse.json({ items, nextCursor }, { status: 200, headers: { "Cache-Control": "no-store" } });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
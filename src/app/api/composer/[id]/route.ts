@@ -0,0 +1,102 @@
+// src/app/api/composer/[id]/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import { parsePositiveId } from "@/lib/routeParams";
+import { auditContextFromRequest } from "@/lib/auditContext";
+
+type OkResponse = { ok: true; composer_id: number };
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+const ALTERNATE_NAMES_MAX = 20;
+const YEAR_MIN = 800;
+const YEAR_MAX = 2200;
+
+const year = z.number().int().min(YEAR_MIN, `Years must be between ${YEAR_MIN} and ${YEAR_MAX}`).max(YEAR_MAX, `Years must be between ${YEAR_MIN} and ${YEAR_MAX}`).nullable();
+
+const SaveSchema = z.object({
+    composer_first_name: z.string().trim().max(100, "composer_first_name must be at most 100 characters").default(""),
+    composer_last_name: z.string().trim().min(1, "composer_last_name is required").max(100, "composer_last_name must be at most 100 characters"),
+    birth_year: year.default(null),
+    death_year: year.default(null),
+    alternate_names: z.array(z.string().trim().min(1).max(200, "Alternate names must be at most 200 characters"))
+        .max(ALTERNATE_NAMES_MAX, `At most ${ALTERNATE_NAMES_MAX} alternate names`)
+        .default([]),
+}).refine((v) => v.birth_year === null || v.death_year === null || v.birth_year <= v.death_year, {
+    message: "death_year can't be before birth_year",
+});
+
+/* =========================
+   PUT /api/composer/:id  { composer_first_name, composer_last_name, birth_year, death_year, alternate_names }
+   A rename is copied onto the composer's songs
+   ========================= */
+
+export async function PUT(
+    req: NextRequest,
+    ctx: { params: Promise<{ id: string }> } // Next.js 15
+): Promise<NextResponse<OkResponse | ErrResponse>> {
+    try {
+        const { id } = await ctx.params;
+        const composerId = parsePositiveId(id);
+        if (composerId === null) {
+            return err("invalid_id", 400, { message: "composer_id must be a positive integer." });
+        }
+
+        let raw: unknown;
+        try {
+            raw = await req.json();
+        } catch {
+            return err("Invalid JSON body", 400);
+        }
+
+        const parsed = SaveSchema.safeParse(raw);
+        if (!parsed.success) {
+            const first = parsed.error.issues[0];
+            return err("invalid_body", 400, { message: first?.message ?? "Invalid request body" });
+        }
+        const input = parsed.data;
+
+        // Same spelling twice (any case) is one entry
+        const seen = new Set<string>();
+        const alternates = input.alternate_names.filter((n) => {
+            const key = n.toLowerCase();
+            if (seen.has(key)) { return false; }
+            seen.add(key);
+            return true;
+        });
+
+        const { error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("composer_save", {
+                p_composer_id: composerId,
+                p_composer_first_name: input.composer_first_name,
+                p_composer_last_name: input.composer_last_name,
+                p_birth_year: input.birth_year,
+                p_death_year: input.death_year,
+                p_alternate_names: alternates,
+                p_audit: auditContextFromRequest(req),
+            });
+        if (error) {
+            if (error.code === "P0002") {
+                return err("not_found", 404, { message: "No composer with that id." });
+            }
+            if (error.code === "23505") {
+                return err("conflict", 409, { message: "Another composer already has this name; merge the two instead." });
+            }
+            return err(error.message ?? "RPC composer_save failed", 500);
+        }
+        return NextResponse.json<OkResponse>({ ok: true, composer_id: composerId }, { status: 200 });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
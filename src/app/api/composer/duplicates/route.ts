@@ -0,0 +1,44 @@
+// src/app/api/composer/duplicates/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import type { ComposerDuplicateItem, ComposerDuplicateListResponse } from "@/lib/types";
+
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+const DEFAULT_MIN_SIMILARITY = 0.5;
+
+/* =========================
+   GET /api/composer/duplicates?min_similarity=0.5
+   Pairs of composers that are probably the same person, strongest matches first
+   ========================= */
+
+export async function GET(req: NextRequest): Promise<NextResponse<ComposerDuplicateListResponse | ErrResponse>> {
+    try {
+        const rawMin = req.nextUrl.searchParams.get("min_similarity");
+        const minSimilarity = rawMin === null || rawMin === "" ? DEFAULT_MIN_SIMILARITY : Number(rawMin);
+        if (!Number.isFinite(minSimilarity) || minSimilarity <= 0 || minSimilarity > 1) {
+            return err("invalid_query", 400, { message: "min_similarity must be a number in (0, 1]." });
+        }
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("composer_duplicate_list", { p_min_similarity: minSimilarity });
+        if (error) {
+            return err(error.message ?? "RPC composer_duplicate_list failed", 500);
+        }
+        const items = (Array.isArray(data) ? data : []) as ComposerDuplicateItem[];
+        return NextResponse.json({ items }, { status: 200, headers: { "Cache-Control": "no-store" } });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
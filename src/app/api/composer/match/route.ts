@@ -0,0 +1,46 @@
+// src/app/api/composer/match/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import type { ComposerMatchItem, ComposerMatchResponse } from "@/lib/types";
+
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+const NAME_MAX_LEN = 200;
+
+/* =========================
+   GET /api/composer/match?name=J.S.%20Bach
+   Existing composers for the creator text of an uploaded score, best first
+   ========================= */
+
+export async function GET(req: NextRequest): Promise<NextResponse<ComposerMatchResponse | ErrResponse>> {
+    try {
+        const name = (req.nextUrl.searchParams.get("name") ?? "").trim();
+        if (name.length > NAME_MAX_LEN) {
+            return err("invalid_query", 400, { message: `name must be at most ${NAME_MAX_LEN} characters.` });
+        }
+        if (name === "") {
+            return NextResponse.json({ items: [] }, { status: 200, headers: { "Cache-Control": "no-store" } });
+        }
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("composer_match", { p_name: name });
+        if (error) {
+            return err(error.message ?? "RPC composer_match failed", 500);
+        }
+        const items = (Array.isArray(data) ? data : []) as ComposerMatchItem[];
+        return NextResponse.json({ items }, { status: 200, headers: { "Cache-Control": "no-store" } });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
@@ -0,0 +1,68 @@
+// src/app/api/composer/merge/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import { auditContextFromRequest } from "@/lib/auditContext";
+
+type OkResponse = { ok: true; composer_id: number; songs_moved: number };
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+const MergeSchema = z.object({
+    keep_composer_id: z.number().int().positive({ message: "keep_composer_id must be a positive integer" }),
+    merge_composer_id: z.number().int().positive({ message: "merge_composer_id must be a positive integer" }),
+}).refine((v) => v.keep_composer_id !== v.merge_composer_id, { message: "Pick two different composers to merge." });
+
+/* =========================
+   POST /api/composer/merge  { keep_composer_id, merge_composer_id }
+   Moves the merged composer's songs to the kept one, keeps its spellings as alternates, and deletes it
+   ========================= */
+
+export async function POST(req: NextRequest): Promise<NextResponse<OkResponse | ErrResponse>> {
+    try {
+        let raw: unknown;
+        try {
+            raw = await req.json();
+        } catch {
+            return err("Invalid JSON body", 400);
+        }
+
+        const parsed = MergeSchema.safeParse(raw);
+        if (!parsed.success) {
+            const first = parsed.error.issues[0];
+            return err("invalid_body", 400, { message: first?.message ?? "Invalid request body" });
+        }
+        const input = parsed.data;
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("composer_merge", {
+                p_keep_composer_id: input.keep_composer_id,
+                p_merge_composer_id: input.merge_composer_id,
+                p_audit: auditContextFromRequest(req),
+            });
+        if (error) {
+            if (error.code === "P0002") {
+                return err("not_found", 404, { message: "One of the composers was not found." });
+            }
+            if (error.code === "23505") {
+                return err("conflict", 409, { message: "Both composers have a song with the same title; rename or remove one first." });
+            }
+            return err(error.message ?? "RPC composer_merge failed", 500);
+        }
+
+        const moved = typeof data === "number" ? data : Number(data ?? 0);
+        return NextResponse.json<OkResponse>({ ok: true, composer_id: input.keep_composer_id, songs_moved: moved }, { status: 200 });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
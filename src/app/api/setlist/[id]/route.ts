@@ -0,0 +1,165 @@
+// src/app/api/setlist/[id]/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import { sessionFromHeaders } from "@/lib/sessionUser";
+import { parsePositiveId } from "@/lib/routeParams";
+import { saveSetlist } from "@/lib/setlistSave";
+import type { SetlistDetail, SetlistSongItem } from "@/lib/types";
+
+type OkResponse = { ok: true; setlist_id: number };
+type ErrResponse = { ok: false; error: string; message?: string };
+
+// One row per song; an empty setlist comes back as a single row with null song columns
+type SetlistRow = {
+    setlist_id: number;
+    setlist_name: string;
+    song_position: number | null;
+    song_id: number | null;
+    song_title: string | null;
+    composer_first_name: string | null;
+    composer_last_name: string | null;
+    song_deleted: boolean | null;
+};
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+/* =========================
+   GET /api/setlist/:id
+   One of the signed-in user's setlists with its songs in play order
+   ========================= */
+
+export async function GET(
+    req: NextRequest,
+    ctx: { params: Promise<{ id: string }> } // Next.js 15
+): Promise<NextResponse<SetlistDetail | ErrResponse>> {
+    try {
+        const session = sessionFromHeaders(req.headers);
+        if (!session) {
+            return err("unauthorized", 401);
+        }
+
+        const { id } = await ctx.params;
+        const setlistId = parsePositiveId(id);
+        if (setlistId === null) {
+            return err("invalid_id", 400, { message: "setlist_id must be a positive integer." });
+        }
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("setlist_get", { p_setlist_id: setlistId, p_user_id: session.userId });
+        if (error) {
+            return err(error.message ?? "RPC setlist_get failed", 500);
+        }
+
+        const rows = (Array.isArray(data) ? data : []) as SetlistRow[];
+        const head = rows[0];
+        if (!head) {
+            return err("not_found", 404, { message: "No setlist with that id for this user." });
+        }
+
+        const songs: SetlistSongItem[] = [];
+        for (const r of rows) {
+            if (r.song_position !== null && r.song_id !== null) {
+                songs.push({
+                    song_position: r.song_position,
+                    song_id: r.song_id,
+                    song_title: r.song_title ?? "",
+                    composer_first_name: r.composer_first_name ?? "",
+                    composer_last_name: r.composer_last_name ?? "",
+                    song_deleted: r.song_deleted === true,
+                });
+            }
+        }
+        return NextResponse.json<SetlistDetail>(
+            { setlist_id: head.setlist_id, setlist_name: head.setlist_name, songs },
+            { status: 200, headers: { "Cache-Control": "no-store" } }
+        );
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
+
+/* =========================
+   PUT /api/setlist/:id  { setlist_name, song_ids }
+   Renames the setlist and replaces its songs
+   ========================= */
+
+export async function PUT(
+    req: NextRequest,
+    ctx: { params: Promise<{ id: string }> }
+): Promise<NextResponse<OkResponse | ErrResponse>> {
+    try {
+        const session = sessionFromHeaders(req.headers);
+        if (!session) {
+            return err("unauthorized", 401);
+        }
+
+        const { id } = await ctx.params;
+        const setlistId = parsePositiveId(id);
+        if (setlistId === null) {
+            return err("invalid_id", 400, { message: "setlist_id must be a positive integer." });
+        }
+
+        let raw: unknown;
+        try {
+            raw = await req.json();
+        } catch {
+            return err("Invalid JSON body", 400);
+        }
+
+        const result = await saveSetlist(raw, session.userId, setlistId);
+        if (!result.ok) {
+            return err(result.error, result.status, result.message ? { message: result.message } : undefined);
+        }
+        return NextResponse.json<OkResponse>({ ok: true, setlist_id: result.setlist_id }, { status: 200 });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
+
+/* =========================
+   DELETE /api/setlist/:id
+   ========================= */
+
+export async function DELETE(
+    req: NextRequest,
+    ctx: { params: Promise<{ id: string }> }
+): Promise<NextResponse<OkResponse | ErrResponse>> {
+    try {
+        const session = sessionFromHeaders(req.headers);
+        if (!session) {
+            return err("unauthorized", 401);
+        }
+
+        const { id } = await ctx.params;
+        const setlistId = parsePositiveId(id);
+        if (setlistId === null) {
+            return err("invalid_id", 400, { message: "setlist_id must be a positive integer." });
+        }
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("setlist_delete", { p_setlist_id: setlistId, p_user_id: session.userId });
+        if (error) {
+            return err(error.message ?? "RPC setlist_delete failed", 500);
+        }
+
+        const deleted = typeof data === "number" ? data : Number(data ?? 0);
+        if (deleted < 1) {
+            return err("not_found", 404, { message: "No setlist with that id for this user." });
+        }
+        return NextResponse.json<OkResponse>({ ok: true, setlist_id: setlistId }, { status: 200 });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
@@ -0,0 +1,77 @@
+// src/app/api/setlist/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import { sessionFromHeaders } from "@/lib/sessionUser";
+import { saveSetlist } from "@/lib/setlistSave";
+import type { SetlistItem, SetlistListResponse } from "@/lib/types";
+
+/* =========================
+   Response helpers / types
+   ========================= */
+
+type SavedResponse = { ok: true; setlist_id: number };
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+/* =========================
+   GET /api/setlist
+   The signed-in user's setlists, by name
+   ========================= */
+
+export async function GET(req: NextRequest): Promise<NextResponse<SetlistListResponse | ErrResponse>> {
+    try {
+        const session = sessionFromHeaders(req.headers);
+        if (!session) {
+            return err("unauthorized", 401);
+        }
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("setlist_list", { p_user_id: session.userId });
+        if (error) {
+            return err(error.message ?? "RPC setlist_list failed", 500);
+        }
+        const items = (Array.isArray(data) ? data : []) as SetlistItem[];
+        return NextResponse.json({ items }, { status: 200, headers: { "Cache-Control": "no-store" } });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
+
+/* =========================
+   POST /api/setlist  { setlist_name, song_ids }
+   ========================= */
+
+export async function POST(req: NextRequest): Promise<NextResponse<SavedResponse | ErrResponse>> {
+    try {
+        const session = sessionFromHeaders(req.headers);
+        if (!session) {
+            return err("unauthorized", 401);
+        }
+
+        let raw: unknown;
+        try {
+            raw = await req.json();
+        } catch {
+            return err("Invalid JSON body", 400);
+        }
+
+        const result = await saveSetlist(raw, session.userId, null);
+        if (!result.ok) {
+            return err(result.error, result.status, result.message ? { message: result.message } : undefined);
+        }
+        return NextResponse.json<SavedResponse>({ ok: true, setlist_id: result.setlist_id }, { status: 200 });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
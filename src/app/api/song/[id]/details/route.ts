@@ -0,0 +1,50 @@
+// src/app/api/song/[id]/details/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import { parsePositiveId } from "@/lib/routeParams";
+import type { SongDetails } from "@/lib/types";
+
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+/* =========================
+   GET /api/song/:id/details
+   Catalog fields only (title, composer, level); the MXL itself is at /api/song/:id
+   ========================= */
+
+export async function GET(
+    _req: NextRequest,
+    ctx: { params: Promise<{ id: string }> } // Next.js 15
+): Promise<NextResponse<SongDetails | ErrResponse>> {
+    try {
+        const { id } = await ctx.params;
+        const songId = parsePositiveId(id);
+        if (songId === null) {
+            return err("invalid_id", 400, { message: "song_id must be a positive integer." });
+        }
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("song_get", { p_song_id: songId });
+        if (error) {
+            return err(error.message ?? "RPC song_get failed", 500);
+        }
+
+        const row = Array.isArray(data) && data.length > 0 ? data[0] as SongDetails : null;
+        if (!row) {
+            return err("not_found", 404, { message: "Song not found." });
+        }
+        return NextResponse.json<SongDetails>(row, { status: 200, headers: { "Cache-Control": "no-store" } });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
@@ -0,0 +1,58 @@
+// app/api/song/[id]/revisions/[revisionId]/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import type { NextRequest } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import { badRequest, mxlResponse, notFound, serverError } from "@/lib/mxlResponse";
+import { parsePositiveId } from "@/lib/routeParams";
+
+/* =========================
+   Shared types
+   ========================= */
+
+type Row = {
+    song_mxl: unknown;
+};
+
+/* =========================
+   GET /api/song/[id]/revisions/[revisionId]
+   The MXL as it was in that revision (same ?transpose= as /api/song/[id])
+   ========================= */
+
+export async function GET(
+    req: NextRequest,
+    ctx: { params: Promise<{ id: string; revisionId: string }> }
+): Promise<Response> {
+    try {
+        const { id, revisionId } = await ctx.params;
+
+        const songId = parsePositiveId(id);
+        if (songId === null) {
+            return badRequest("id must be a positive integer");
+        }
+        const songRevisionId = parsePositiveId(revisionId);
+        if (songRevisionId === null) {
+            return badRequest("revisionId must be a positive integer");
+        }
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("song_revision_mxl_get", { p_song_id: songId, p_song_revision_id: songRevisionId });
+
+        if (error) {
+            return serverError(error.message);
+        }
+
+        const row = Array.isArray(data) && data.length > 0 ? data[0] as Row : null;
+        if (!row) {
+            return notFound("Revision not found");
+        }
+
+        return mxlResponse(row.song_mxl, req.nextUrl.searchParams);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : typeof e === "string" ? e : JSON.stringify(e);
+        return serverError(message);
+    }
+}
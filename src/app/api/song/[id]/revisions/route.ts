@@ -0,0 +1,128 @@
+// src/app/api/song/[id]/revisions/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import { sessionFromHeaders } from "@/lib/sessionUser";
+import { decodeSongMxl } from "@/lib/mxlResponse";
+import { parsePositiveId } from "@/lib/routeParams";
+import { extractMxlMetadata } from "@/lib/mxlMetadata";
+import { auditContextFromRequest } from "@/lib/auditContext";
+import type { SongRevisionListResponse } from "@/lib/types";
+import { z } from "zod";
+
+type RestoreOkResponse = { ok: true; song_revision_id: number };
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+const RestoreSchema = z.object({
+    song_revision_id: z.number().int().positive(),
+});
+
+/* =========================
+   GET /api/song/:id/revisions
+   Newest first; the MXL of one revision is at /api/song/:id/revisions/:revisionId
+   ========================= */
+
+export async function GET(
+    _req: NextRequest,
+    ctx: { params: Promise<{ id: string }> } // Next.js 15
+): Promise<NextResponse<SongRevisionListResponse | ErrResponse>> {
+    try {
+        const { id } = await ctx.params;
+        const songId = parsePositiveId(id);
+        if (songId === null) {
+            return err("invalid_id", 400, { message: "song_id must be a positive integer." });
+        }
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("song_revision_list", { p_song_id: songId });
+        if (error) {
+            return err(error.message ?? "RPC song_revision_list failed", 500);
+        }
+
+        const items = (Array.isArray(data) ? data : []) as SongRevisionListResponse["items"];
+        return NextResponse.json<SongRevisionListResponse>({ items }, { status: 200 });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
+
+/* =========================
+   POST /api/song/:id/revisions  { song_revision_id }
+   Restore: the chosen revision becomes the song's MXL again (recorded as a new revision)
+   and the song's metadata columns are re-read from it
+   ========================= */
+
+export async function POST(
+    req: NextRequest,
+    ctx: { params: Promise<{ id: string }> } // Next.js 15
+): Promise<NextResponse<RestoreOkResponse | ErrResponse>> {
+    try {
+        const { id } = await ctx.params;
+        const songId = parsePositiveId(id);
+        if (songId === null) {
+            return err("invalid_id", 400, { message: "song_id must be a positive integer." });
+        }
+
+        let raw: unknown;
+        try {
+            raw = await req.json();
+        } catch {
+            return err("Invalid JSON body", 400);
+        }
+        const parsed = RestoreSchema.safeParse(raw);
+        if (!parsed.success) {
+            return err(parsed.error.issues[0]?.message ?? "Invalid request body", 400);
+        }
+
+        const revision = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("song_revision_mxl_get", { p_song_id: songId, p_song_revision_id: parsed.data.song_revision_id });
+        if (revision.error) {
+            return err(revision.error.message ?? "RPC song_revision_mxl_get failed", 500);
+        }
+        const row = Array.isArray(revision.data) && revision.data.length > 0
+            ? revision.data[0] as { song_mxl: unknown }
+            : null;
+        if (!row) {
+            return err("not_found", 404, { message: "No revision with that id for this song." });
+        }
+        const metadata = extractMxlMetadata(decodeSongMxl(row.song_mxl));
+
+        const session = sessionFromHeaders(req.headers);
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("song_revision_restore", {
+                p_song_id: songId,
+                p_song_revision_id: parsed.data.song_revision_id,
+                p_user_id: session?.userId ?? null,
+                p_metadata: metadata,
+                p_audit: auditContextFromRequest(req),
+            });
+
+        if (error) {
+            if (error.code === "P0002") {
+                return err("not_found", 404, { message: "No revision with that id for this song, or the song is in the Trash." });
+            }
+            if (error.code === "23505") {
+                return err("conflict", 409, { message: "Another song already uses this revision's file name." });
+            }
+            return err(error.message ?? "RPC song_revision_restore failed", 500);
+        }
+
+        const revisionId = typeof data === "number" ? data : Number(data ?? 0);
+        return NextResponse.json<RestoreOkResponse>({ ok: true, song_revision_id: revisionId }, { status: 200 });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
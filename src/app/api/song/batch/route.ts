@@ -0,0 +1,72 @@
+// src/app/api/song/batch/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { SONG_COL, SONG_BATCH_MAX_ITEMS } from "@/lib/songCols";
+import { sessionFromHeaders } from "@/lib/sessionUser";
+import { auditContextFromRequest } from "@/lib/auditContext";
+import { readSongSave, saveSong } from "@/lib/songSave";
+import type { SongBatchItemResult, SongBatchResponse } from "@/lib/types";
+
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+/* =========================
+   POST /api/song/batch  { items: [<same body as POST /api/song>, ...] }
+   Bulk import: every item creates a new song (song_id is ignored).
+   Items are saved one by one and never roll each other back; the response
+   reports each item's outcome in request order (status 200 / 400 / 409 / 500).
+   ========================= */
+
+export async function POST(req: Request): Promise<NextResponse<SongBatchResponse | ErrResponse>> {
+    try {
+        let raw: unknown;
+        try {
+            raw = await req.json();
+        } catch {
+            return err("Invalid JSON body", 400);
+        }
+
+        const items = (raw && typeof raw === "object" ? (raw as Record<string, unknown>).items : undefined) as unknown;
+        if (!Array.isArray(items) || items.length === 0) {
+            return err("invalid_items", 400, { message: "Provide a non-empty items array." });
+        }
+        if (items.length > SONG_BATCH_MAX_ITEMS) {
+            return err("too_many_items", 400, { message: `At most ${SONG_BATCH_MAX_ITEMS} songs per request.` });
+        }
+
+        const uploadedBy = sessionFromHeaders(req.headers)?.userId ?? null;
+        const audit = auditContextFromRequest(req);
+        const results: SongBatchItemResult[] = [];
+
+        for (const item of items) {
+            const fileName = item && typeof item === "object"
+                ? String((item as Record<string, unknown>)[SONG_COL.fileName] ?? "")
+                : "";
+
+            const request = readSongSave(
+                item && typeof item === "object" ? { ...(item as Record<string, unknown>), [SONG_COL.songId]: null } : item
+            );
+            if (!request.ok) {
+                results.push({ file_name: fileName, status: request.status, song_id: null, error: request.error, message: request.message ?? null });
+                continue;
+            }
+
+            const saved = await saveSong(request, uploadedBy, audit);
+            if (!saved.ok) {
+                results.push({ file_name: fileName, status: saved.status, song_id: null, error: saved.error, message: saved.message ?? null });
+                continue;
+            }
+            results.push({ file_name: fileName, status: 200, song_id: saved.song_id, error: null, message: null });
+        }
+
+        return NextResponse.json<SongBatchResponse>({ ok: true, results }, { status: 200 });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
@@ -0,0 +1,44 @@
+// src/app/api/songlist/facets/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import type { SongFacetsResponse } from "@/lib/types";
+
+type Row = { facet: string; facet_value: string; song_count: number };
+
+/* =========================
+   GET /api/songlist/facets
+   Key / time / instrument / tag values in use, for the catalog filters
+   ========================= */
+
+export async function GET(): Promise<NextResponse<SongFacetsResponse | { error: string }>> {
+    try {
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("song_facet_list");
+        if (error) {
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        // Rows arrive grouped by facet, most used value first
+        const rows = (Array.isArray(data) ? data : []) as Row[];
+        const values = (facet: string): string[] =>
+            rows.filter((r) => r.facet === facet).map((r) => r.facet_value);
+
+        return NextResponse.json(
+            {
+                key_signatures: values("key_signature"),
+                time_signatures: values("time_signature"),
+                instruments: values("instrument"),
+                tags: values("tag"),
+            },
+            { status: 200, headers: { "Cache-Control": "no-store" } }
+        );
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return NextResponse.json({ error: msg }, { status: 500 });
+    }
+}
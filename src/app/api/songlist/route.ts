@@ -7,6 +7,7 @@ import type { NextRequest } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import type { SongListItem, SongListResponse } from "@/lib/types";
 import { DB_SCHEMA } from "@/lib/dbSchema";
+import { decodeListCursor, toListPage, LIST_LIMIT_DEFAULT, LIST_LIMIT_MAX, type ListCursor } from "@/lib/listCursor";
 import { z } from "zod";
 
 
@@ -20,7 +21,29 @@ const QuerySchema = z.object({
     dir: z.enum(["asc", "desc"]).optional(),
 });
 
-function parseQuery(req: NextRequest): { sort: string | null; dir: "asc" | "desc" } {
+const SEARCH_MAX_LEN = 200;
+const FACET_MAX_LEN = 100;  // ?key=, ?time=, ?instrument=, each ?tag=
+const TAGS_MAX = 20;
+
+// ?level=3&level=5 or ?level=3,5
+const LevelsSchema = z.array(z.coerce.number().int().min(0).max(32767)).max(50);
+
+const LimitSchema = z.coerce.number().int().min(1).max(LIST_LIMIT_MAX);
+
+type ParsedQuery = {
+    sort: string | null;
+    dir: "asc" | "desc";
+    search: string | null;
+    levels: number[] | null;
+    keySignature: string | null;
+    timeSignature: string | null;
+    instrument: string | null;
+    tags: string[] | null;
+    limit: number;
+    cursor: ListCursor | null;
+};
+
+function parseQuery(req: NextRequest): ParsedQuery | { error: string } {
     const url = new URL(req.url);
     const raw = {
         sort: url.searchParams.get("sort") ?? null,
@@ -34,7 +57,64 @@ function parseQuery(req: NextRequest): { sort: string | null; dir: "asc" | "desc
         if (q.sort) { sort = q.sort; }
         if (q.dir === "asc" || q.dir === "desc") { dir = q.dir; }
     }
-    return { sort, dir };
+
+    const q = (url.searchParams.get("q") ?? "").trim();
+    if (q.length > SEARCH_MAX_LEN) {
+        return { error: `q must be at most ${SEARCH_MAX_LEN} characters` };
+    }
+
+    const levelTokens = url.searchParams.getAll("level")
+        .flatMap((v) => v.split(","))
+        .map((v) => v.trim())
+        .filter((v) => v.length > 0);
+    const levels = LevelsSchema.safeParse(levelTokens);
+    if (!levels.success) {
+        return { error: "level must be a list of skill level numbers" };
+    }
+
+    const facet = (name: string): string | null => {
+        const v = (url.searchParams.get(name) ?? "").trim();
+        return v.length > 0 ? v : null;
+    };
+    const keySignature = facet("key");
+    const timeSignature = facet("time");
+    const instrument = facet("instrument");
+    for (const v of [keySignature, timeSignature, instrument]) {
+        if (v !== null && v.length > FACET_MAX_LEN) {
+            return { error: `key, time and instrument must be at most ${FACET_MAX_LEN} characters` };
+        }
+    }
+
+    // ?tag=Jazz&tag=Scales: songs with both
+    const tags = Array.from(new Set(url.searchParams.getAll("tag").map((v) => v.trim()).filter((v) => v.length > 0)));
+    if (tags.length > TAGS_MAX || tags.some((t) => t.length > FACET_MAX_LEN)) {
+        return { error: `tag takes at most ${TAGS_MAX} values of at most ${FACET_MAX_LEN} characters` };
+    }
+
+    const rawLimit = url.searchParams.get("limit");
+    const limit = rawLimit === null ? LIST_LIMIT_DEFAULT : LimitSchema.safeParse(rawLimit).data;
+    if (limit === undefined) {
+        return { error: `limit must be an integer between 1 and ${LIST_LIMIT_MAX}` };
+    }
+
+    const rawCursor = url.searchParams.get("cursor");
+    const cursor = rawCursor ? decodeListCursor(rawCursor) : null;
+    if (rawCursor && (!cursor || cursor.sort !== (sort ?? "") || cursor.dir !== dir)) {
+        return { error: "cursor is invalid or was issued for a different sort" };
+    }
+
+    return {
+        sort,
+        dir,
+        search: q.length > 0 ? q : null,
+        levels: levels.data.length > 0 ? Array.from(new Set(levels.data)) : null,
+        keySignature,
+        timeSignature,
+        instrument,
+        tags: tags.length > 0 ? tags : null,
+        limit,
+        cursor,
+    };
 }
 
 /* =========================
@@ -43,19 +123,33 @@ function parseQuery(req: NextRequest): { sort: string | null; dir: "asc" | "desc
 
 export async function GET(req: NextRequest): Promise<NextResponse<SongListResponse | { error: string }>> {
     try {
-        const { sort, dir } = parseQuery(req);
+        const query = parseQuery(req);
+        if ("error" in query) {
+            return NextResponse.json({ error: query.error }, { status: 400 });
+        }
+        const { sort, dir, search, levels, keySignature, timeSignature, instrument, tags, limit, cursor } = query;
         const { data, error } = await supabaseAdmin
             .schema(DB_SCHEMA)
             .rpc("song_list", {
                 p_sort_column: sort,
-                p_sort_direction: dir
+                p_sort_direction: dir,
+                p_search: search,
+                p_skill_levels: levels,
+                p_limit: limit + 1, // one extra row tells us whether another page exists
+                p_after_key: cursor?.key ?? null,
+                p_after_id: cursor?.id ?? null,
+                p_key_signature: keySignature,
+                p_time_signature: timeSignature,
+                p_instrument: instrument,
+                p_tags: tags,
             });
         if (error) {
             return NextResponse.json({ error: error.message }, { status: 500 });
         }
-        const items = (Array.isArray(data) ? data : []) as SongListItem[];
+        const rows = (Array.isArray(data) ? data : []) as (SongListItem & { sort_key: string })[];
+        const { items, nextCursor } = toListPage(rows, limit, (r) => r.song_id, sort, dir);
         return NextResponse.json(
-            { items },
+            { items, nextCursor },
             { status: 200, headers: { "Cache-Control": "no-store" } }
         );
     } catch (e) {
@@ -0,0 +1,39 @@
+// src/app/api/trash/purge/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import { auditContextFromRequest } from "@/lib/auditContext";
+import { TRASH_RETENTION_DAYS } from "@/lib/trashPolicy";
+
+type OkResponse = { ok: true; purged: number };
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+/* =========================
+   POST /api/trash/purge
+   Permanently deletes whatever has been in the Trash longer than TRASH_RETENTION_DAYS
+   (the same purge the nightly pg_cron job runs)
+   ========================= */
+
+export async function POST(req: NextRequest): Promise<NextResponse<OkResponse | ErrResponse>> {
+    try {
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("trash_purge", { p_retention_days: TRASH_RETENTION_DAYS, p_audit: auditContextFromRequest(req) });
+        if (error) {
+            return err(error.message ?? "RPC trash_purge failed", 500);
+        }
+        const purged = typeof data === "number" ? data : Number(data ?? 0);
+        return NextResponse.json<OkResponse>({ ok: true, purged }, { status: 200 });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
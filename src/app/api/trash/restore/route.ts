@@ -0,0 +1,62 @@
+// src/app/api/trash/restore/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import { TRASH_ITEM_TYPES } from "@/lib/trashPolicy";
+import { auditContextFromRequest } from "@/lib/auditContext";
+
+type OkResponse = { ok: true; item_type: string; item_id: number };
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+const RestoreSchema = z.object({
+    item_type: z.enum(TRASH_ITEM_TYPES, { message: "item_type must be \"song\" or \"user\"" }),
+    item_id: z.number().int().positive({ message: "item_id must be a positive integer" }),
+});
+
+/* =========================
+   POST /api/trash/restore  { item_type, item_id }
+   Puts a deleted song or user back
+   ========================= */
+
+export async function POST(req: NextRequest): Promise<NextResponse<OkResponse | ErrResponse>> {
+    try {
+        let raw: unknown;
+        try {
+            raw = await req.json();
+        } catch {
+            return err("Invalid JSON body", 400);
+        }
+
+        const parsed = RestoreSchema.safeParse(raw);
+        if (!parsed.success) {
+            const first = parsed.error.issues[0];
+            return err("invalid_body", 400, { message: first?.message ?? "Invalid request body" });
+        }
+        const input = parsed.data;
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("trash_restore", { p_item_type: input.item_type, p_item_id: input.item_id, p_audit: auditContextFromRequest(req) });
+        if (error) {
+            return err(error.message ?? "RPC trash_restore failed", 500);
+        }
+
+        const restored = typeof data === "number" ? data : Number(data ?? 0);
+        if (restored < 1) {
+            return err("not_found", 404, { message: `No ${input.item_type} with that id in the Trash.` });
+        }
+        return NextResponse.json<OkResponse>({ ok: true, item_type: input.item_type, item_id: input.item_id }, { status: 200 });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
@@ -0,0 +1,83 @@
+// src/app/api/trash/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import { parsePositiveId } from "@/lib/routeParams";
+import { auditContextFromRequest } from "@/lib/auditContext";
+import { TRASH_RETENTION_DAYS, isTrashItemType } from "@/lib/trashPolicy";
+import type { TrashItem, TrashListResponse } from "@/lib/types";
+
+type OkResponse = { ok: true; item_type: string; item_id: number };
+type ErrResponse = { ok: false; error: string; message?: string };
+
+function err(message: string, status = 400, extra?: { message?: string }): NextResponse<ErrResponse> {
+    return NextResponse.json<ErrResponse>({ ok: false, error: message, ...(extra ?? {}) }, { status });
+}
+
+/* =========================
+   GET /api/trash
+   Deleted songs and users, most recently deleted first
+   ========================= */
+
+export async function GET(): Promise<NextResponse<TrashListResponse | ErrResponse>> {
+    try {
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("trash_list", { p_retention_days: TRASH_RETENTION_DAYS });
+        if (error) {
+            return err(error.message ?? "RPC trash_list failed", 500);
+        }
+        const items = (Array.isArray(data) ? data : []) as TrashItem[];
+        return NextResponse.json(
+            { items, retention_days: TRASH_RETENTION_DAYS },
+            { status: 200, headers: { "Cache-Control": "no-store" } }
+        );
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
+
+/* =========================
+   DELETE /api/trash?type=song|user&id=<id>
+   Permanently deletes one item that is already in the Trash
+   ========================= */
+
+export async function DELETE(req: NextRequest): Promise<NextResponse<OkResponse | ErrResponse>> {
+    try {
+        const url = new URL(req.url);
+        const itemType = url.searchParams.get("type");
+        if (!isTrashItemType(itemType)) {
+            return err("invalid_type", 400, { message: "type must be \"song\" or \"user\"." });
+        }
+        const itemId = parsePositiveId(url.searchParams.get("id") ?? "");
+        if (itemId === null) {
+            return err("invalid_id", 400, { message: "id must be a positive integer." });
+        }
+
+        const { data, error } = await supabaseAdmin
+            .schema(DB_SCHEMA)
+            .rpc("trash_delete", { p_item_type: itemType, p_item_id: itemId, p_audit: auditContextFromRequest(req) });
+        if (error) {
+            if (error.code === "23503") {
+                return err("constraint_violation", 409, {
+                    message: `Cannot delete: this ${itemType} is referenced by other records.`,
+                });
+            }
+            return err(error.message ?? "RPC trash_delete failed", 500);
+        }
+
+        const deleted = typeof data === "number" ? data : Number(data ?? 0);
+        if (deleted < 1) {
+            return err("not_found", 404, { message: `No ${itemType} with that id in the Trash.` });
+        }
+        return NextResponse.json<OkResponse>({ ok: true, item_type: itemType, item_id: itemId }, { status: 200 });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(msg, 500);
+    }
+}
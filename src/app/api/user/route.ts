@@ -7,6 +7,7 @@ import type { NextRequest } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { USER_COL } from "@/lib/userCols";
 import { DB_SCHEMA } from "@/lib/dbSchema";
+import { auditContextFromRequest } from "@/lib/auditContext";
 import { z } from "zod";
 
 // =========================
@@ -80,10 +81,11 @@ export async function POST(req: Request): Promise<NextResponse<OkResponse | ErrR
                 p_user_first_name: input.user_first_name,
                 p_user_last_name: input.user_last_name,
                 p_user_role_number: input.user_role_number,
+                p_audit: auditContextFromRequest(req),
             });
         if (error) {
             if (error.code === "23505") {
-                return err("conflict", 409, { message: "A user with the same username or email already exists." });
+                return err("conflict", 409, { message: "A user with the same username or email already exists (it may be in the Trash)." });
             }
             if (error.code === "P0002") {
                 return err("not_found", 404, { message: "user_id not found for update." });
@@ -100,6 +102,7 @@ export async function POST(req: Request): Promise<NextResponse<OkResponse | ErrR
 
 // =========================
 // DELETE /api/user?id=<user_id>
+// Soft delete: the user goes to the Trash (/api/trash) and can no longer sign in
 // =========================
 export async function DELETE(req: NextRequest): Promise<NextResponse<OkResponse | ErrResponse>> {
     try {
@@ -116,18 +119,14 @@ export async function DELETE(req: NextRequest): Promise<NextResponse<OkResponse
             .schema(DB_SCHEMA)
             .rpc("user_delete", {
                 p_user_id: idNum,
+                p_audit: auditContextFromRequest(req),
             });
         if (error) {
-            if (error.code === "23503") {
-                return err("constraint_violation", 409, {
-                    message: "Cannot delete: this user is referenced by other records.",
-                });
-            }
             return err(error.message ?? "RPC user_delete failed", 500);
         }
         const deletedCount = typeof data === "number" ? data : Number(data ?? 0);
         if (deletedCount < 1) {
-            return err("not_found", 404, { message: "user_id not found." });
+            return err("not_found", 404, { message: "user_id not found (or already in the Trash)." });
         }
         return ok({ ok: true, user_id: idNum }, 200);
     } catch (e) {
@@ -7,6 +7,7 @@ import type { NextRequest } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import type { UserListItem, UserListResponse } from "@/lib/types";
 import { DB_SCHEMA } from "@/lib/dbSchema";
+import { decodeListCursor, toListPage, LIST_LIMIT_DEFAULT, LIST_LIMIT_MAX, type ListCursor } from "@/lib/listCursor";
 import { z } from "zod";
 
 
@@ -20,7 +21,16 @@ const QuerySchema = z.object({
     dir: z.enum(["asc", "desc"]).optional(),
 });
 
-function parseQuery(req: NextRequest): { sort: string | null; dir: "asc" | "desc" } {
+const LimitSchema = z.coerce.number().int().min(1).max(LIST_LIMIT_MAX);
+
+type ParsedQuery = {
+    sort: string | null;
+    dir: "asc" | "desc";
+    limit: number;
+    cursor: ListCursor | null;
+};
+
+function parseQuery(req: NextRequest): ParsedQuery | { error: string } {
     const url = new URL(req.url);
     const raw = {
         sort: url.searchParams.get("sort") ?? null,
@@ -34,23 +44,44 @@ function parseQuery(req: NextRequest): { sort: string | null; dir: "asc" | "desc
         if (q.sort) { sort = q.sort; }
         if (q.dir === "asc" || q.dir === "desc") { dir = q.dir; }
     }
-    return { sort, dir };
+
+    const rawLimit = url.searchParams.get("limit");
+    const limit = rawLimit === null ? LIST_LIMIT_DEFAULT : LimitSchema.safeParse(rawLimit).data;
+    if (limit === undefined) {
+        return { error: `limit must be an integer between 1 and ${LIST_LIMIT_MAX}` };
+    }
+
+    const rawCursor = url.searchParams.get("cursor");
+    const cursor = rawCursor ? decodeListCursor(rawCursor) : null;
+    if (rawCursor && (!cursor || cursor.sort !== (sort ?? "") || cursor.dir !== dir)) {
+        return { error: "cursor is invalid or was issued for a different sort" };
+    }
+
+    return { sort, dir, limit, cursor };
 }
 
 export async function GET(req: NextRequest): Promise<NextResponse<UserListResponse | { error: string }>> {
     try {
-        const { sort, dir } = parseQuery(req);
+        const query = parseQuery(req);
+        if ("error" in query) {
+            return NextResponse.json({ error: query.error }, { status: 400 });
+        }
+        const { sort, dir, limit, cursor } = query;
         const { data, error } = await supabaseAdmin
             .schema(DB_SCHEMA)
             .rpc("user_list", {
                 p_sort_column: sort,
                 p_sort_direction: dir,
+                p_limit: limit + 1, // one extra row tells us whether another page exists
+                p_after_key: cursor?.key ?? null,
+                p_after_id: cursor?.id ?? null,
             });
         if (error) {
             return NextResponse.json({ error: error.message }, { status: 500 });
         }
-        const items = (Array.isArray(data) ? data : []) as UserListItem[];
-        return NextResponse.json({ items }, { status: 200, headers: { "Cache-Control": "no-store" } });
+        const rows = (Array.isArray(data) ? data : []) as (UserListItem & { sort_key: string })[];
+        const { items, nextCursor } = toListPage(rows, limit, (r) => r.user_id, sort, dir);
+        return NextResponse.json({ items, nextCursor }, { status: 200, headers: { "Cache-Control": "no-store" } });
     } catch (e) {
         const msg = e instanceof Error ? e.message : String(e);
         return NextResponse.json({ error: msg }, { status: 500 });
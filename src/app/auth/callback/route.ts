@@ -0,0 +1,29 @@
+// src/app/auth/callback/route.ts
+// Magic-link landing: exchange the PKCE code for a session cookie, then continue to ?next=.
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { createSupabaseRouteClient } from "@/lib/supabaseServer";
+import { safeNextPath } from "@/lib/authRedirect";
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+    const url = req.nextUrl;
+    const next = safeNextPath(url.searchParams.get("next"));
+    const code = url.searchParams.get("code");
+
+    if (code) {
+        const supabase = await createSupabaseRouteClient(url.hostname);
+        const { error } = await supabase.auth.exchangeCodeForSession(code);
+        if (!error) {
+            return NextResponse.redirect(new URL(next, req.url));
+        }
+        console.error("[auth/callback] exchangeCodeForSession failed:", error.message);
+    }
+
+    const login = new URL("/login", req.url);
+    login.searchParams.set("next", next);
+    login.searchParams.set("error", "link_invalid");
+    return NextResponse.redirect(login);
+}
@@ -0,0 +1,14 @@
+// src/app/auth/signout/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { createSupabaseRouteClient } from "@/lib/supabaseServer";
+
+// POST only, so a cross-site <img> or link can't sign anyone out
+export async function POST(req: NextRequest): Promise<NextResponse> {
+    const supabase = await createSupabaseRouteClient(req.nextUrl.hostname);
+    await supabase.auth.signOut();
+    return NextResponse.redirect(new URL("/", req.url), { status: 303 });
+}
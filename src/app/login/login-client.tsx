@@ -0,0 +1,162 @@
+// src/app/login/login-client.tsx
+"use client";
+
+import React from "react";
+import { useSearchParams } from "next/navigation";
+
+import { usePrefersDark, themeTokens, fieldStyle } from "@/lib/theme";
+import { getSupabaseBrowser } from "@/lib/supabaseClient";
+import { safeNextPath } from "@/lib/authRedirect";
+
+
+// --- Config ---
+
+const ERROR_TEXT: Readonly<Record<string, string>> = {
+  forbidden: "Your account doesn’t have access to that page. Sign in with a different account.",
+  link_invalid: "That sign-in link is invalid or has expired. Request a new one.",
+};
+
+
+// --- Component ---
+
+export default function LoginClient(): React.ReactElement {
+  const isDark = usePrefersDark();
+  const T = React.useMemo(() => themeTokens(isDark), [isDark]);
+  const fieldCss = React.useMemo(() => fieldStyle(isDark), [isDark]);
+
+  const params = useSearchParams();
+  const next = safeNextPath(params.get("next"));
+  const initialError = ERROR_TEXT[params.get("error") ?? ""] ?? "";
+
+  const [email, setEmail] = React.useState("");
+  const [password, setPassword] = React.useState("");
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState(initialError);
+  const [notice, setNotice] = React.useState("");
+  const [signedInAs, setSignedInAs] = React.useState<string | null>(null);
+
+  // Show who is signed in (e.g. after a "forbidden" bounce)
+  React.useEffect(() => {
+    let cancelled = false;
+    getSupabaseBrowser().auth.getUser()
+      .then(({ data }) => { if (!cancelled) { setSignedInAs(data.user?.email ?? null); } })
+      .catch(() => { /* treat as signed out */ });
+    return () => { cancelled = true; };
+  }, []);
+
+  const signInWithPassword = async (e: React.FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+    setError("");
+    setNotice("");
+    setBusy(true);
+    try {
+      const { error: authError } = await getSupabaseBrowser().auth.signInWithPassword({
+        email: email.trim(),
+        password,
+      });
+      if (authError) {
+        setError(authError.message);
+        return;
+      }
+      // Full navigation so the middleware sees the new session cookie
+      window.location.assign(next);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sendMagicLink = async (): Promise<void> => {
+    setError("");
+    setNotice("");
+    if (!email.trim()) {
+      setError("Enter your email address first.");
+      return;
+    }
+    setBusy(true);
+    try {
+      const callback = new URL("/auth/callback", window.location.origin);
+      callback.searchParams.set("next", next);
+      const { error: authError } = await getSupabaseBrowser().auth.signInWithOtp({
+        email: email.trim(),
+        options: { emailRedirectTo: callback.toString() },
+      });
+      if (authError) {
+        setError(authError.message);
+        return;
+      }
+      setNotice(`Check ${email.trim()} for a sign-in link.`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <main
+      style={{
+        minHeight: "100vh",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: T.bg,
+        color: T.fg,
+        padding: 16,
+      }}
+    >
+      <form
+        onSubmit={(e) => { void signInWithPassword(e); }}
+        style={{
+          width: 360,
+          maxWidth: "100%",
+          display: "grid",
+          gap: 12,
+          padding: 20,
+          borderRadius: 10,
+          border: `1px solid ${T.border}`,
+          background: T.bgCard,
+          color: T.fgCard,
+        }}
+      >
+        <h1 style={{ margin: 0, fontSize: 20, fontWeight: 600 }}>Sign in</h1>
+
+        {signedInAs && (
+          <p style={{ margin: 0, fontSize: 13, opacity: 0.8 }}>
+            Signed in as {signedInAs}.
+          </p>
+        )}
+
+        <label style={{ display: "grid", gap: 4, fontSize: 13 }}>
+          Email
+          <input
+            type="email"
+            autoComplete="email"
+            required
+            value={email}
+            onChange={(e) => { setEmail(e.currentTarget.value); }}
+            style={fieldCss}
+          />
+        </label>
+
+        <label style={{ display: "grid", gap: 4, fontSize: 13 }}>
+          Password
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => { setPassword(e.currentTarget.value); }}
+            style={fieldCss}
+          />
+        </label>
+
+        {error && <p role="alert" style={{ margin: 0, color: "#ff6b6b", fontSize: 13 }}>{error}</p>}
+        {notice && <p role="status" style={{ margin: 0, color: "#2e7d32", fontSize: 13 }}>{notice}</p>}
+
+        <button type="submit" disabled={busy || !email.trim() || !password} style={{ ...fieldCss, cursor: "pointer", fontWeight: 600 }}>
+          Sign in
+        </button>
+        <button type="button" disabled={busy} onClick={() => { void sendMagicLink(); }} style={{ ...fieldCss, cursor: "pointer" }}>
+          Email me a sign-in link
+        </button>
+      </form>
+    </main>
+  );
+}
@@ -0,0 +1,9 @@
+// src/app/login/page.tsx
+
+import LoginClient from "./login-client";
+
+export const dynamic = "force-dynamic";
+
+export default function LoginPage() {
+  return <LoginClient />;
+}
@@ -4,23 +4,36 @@
 import React from "react";
 import Link from "next/link";
 
-import { usePrefersDark, themeTokens } from "@/lib/theme";
+import { usePrefersDark, themeTokens, fieldStyle } from "@/lib/theme";
 import SongListPanel from "@/components/SongListPanel";
-import type { SongListItem } from "@/lib/types";
+import MyAssignmentsPanel from "@/components/MyAssignmentsPanel";
+import MySetlistsPanel, { type SetlistDraft } from "@/components/MySetlistsPanel";
+import type { AssignmentItem, SetlistItem, SongFacetsResponse, SongListItem } from "@/lib/types";
 import { type SongColToken, DEFAULT_SORT, DEFAULT_DIR } from "@/lib/songCols";
-import { fetchSongList } from "@/lib/songListFetch";
+import {
+  EMPTY_SONG_FACETS,
+  fetchSongFacets,
+  fetchSongList,
+  type SongFacetFilter,
+  type SongFacetName,
+  type SongListFilters,
+} from "@/lib/songListFetch";
+import { fetchSkillLevels, type SkillLevel } from "@/lib/skillLevelFetch";
+import { AssignmentFetchError, completeAssignment, fetchAssignments } from "@/lib/assignmentFetch";
+import { SetlistFetchError, deleteSetlist, fetchSetlist, fetchSetlists, saveSetlist } from "@/lib/setlistFetch";
 
 
 // --- Config ---
 
-//                  First Last Title Level
-const GRID_COLS_PX = [140, 140, 260, 120] as const;
+//                  First Last Title Level Key Time
+const GRID_COLS_PX = [130, 130, 240, 110, 100, 60] as const;
 const GRID_COLS: React.CSSProperties["gridTemplateColumns"] = GRID_COLS_PX.map((n) => `${n}px`).join(" ");
 const TABLE_MIN_PX = GRID_COLS_PX.reduce((a, b) => a + b, 0);
 const TABLE_ROW_PX = 40;
 const TABLE_ROW_COUNT = 12;
 
 const SONG_LIST_ENDPOINT = "/api/songlist";
+const SEARCH_DEBOUNCE_MS = 250;
 
 
 // --- Types ---
@@ -44,6 +57,40 @@ export default function HomePage(): React.ReactElement {
   const [sort, setSort] = React.useState<SongColToken | null>(DEFAULT_SORT);
   const [sortDir, setSortDir] = React.useState<SortDir>(DEFAULT_DIR);
 
+  // Server-side filters; the ref lets refreshSongList see edits made in the same tick
+  const [search, setSearch] = React.useState("");
+  const [selectedLevels, setSelectedLevels] = React.useState<number[]>([]);
+  const [levels, setLevels] = React.useState<SkillLevel[]>([]);
+  const [facetFilter, setFacetFilter] = React.useState<SongFacetFilter>({});
+  const [selectedTags, setSelectedTags] = React.useState<string[]>([]);
+  const [facets, setFacets] = React.useState<SongFacetsResponse>(EMPTY_SONG_FACETS);
+  const filtersRef = React.useRef<SongListFilters>({});
+  const searchTimerRef = React.useRef<number | null>(null);
+
+  // Keyset paging: cursor for the next page (null = nothing more to load)
+  const nextCursorRef = React.useRef<string | null>(null);
+  const [hasMore, setHasMore] = React.useState(false);
+  const [loadingMore, setLoadingMore] = React.useState(false);
+
+  // Signed-in student's open assignments (null = signed out / not a student: panel hidden)
+  const [assignments, setAssignments] = React.useState<AssignmentItem[] | null>(null);
+  const [assignmentsLoading, setAssignmentsLoading] = React.useState(false);
+  const [assignmentsError, setAssignmentsError] = React.useState("");
+  const [completingId, setCompletingId] = React.useState<number | null>(null);
+
+  // Signed-in user's setlists (null = signed out: panel hidden) and the open editor
+  const [setlists, setSetlists] = React.useState<SetlistItem[] | null>(null);
+  const [setlistsLoading, setSetlistsLoading] = React.useState(false);
+  const [setlistsError, setSetlistsError] = React.useState("");
+  const [setlistBusyId, setSetlistBusyId] = React.useState<number | null>(null);
+  const [setlistDraft, setSetlistDraft] = React.useState<SetlistDraft | null>(null);
+  const [setlistSaving, setSetlistSaving] = React.useState(false);
+  const [setlistSongQuery, setSetlistSongQuery] = React.useState("");
+  const [setlistSongOptions, setSetlistSongOptions] = React.useState<ReadonlyArray<SongListItem>>([]);
+  const [setlistSongOptionsLoading, setSetlistSongOptionsLoading] = React.useState(false);
+  const setlistSongAbortRef = React.useRef<AbortController | null>(null);
+  const setlistSongTimerRef = React.useRef<number | null>(null);
+
   // Fetch lifecycle management
   const listAbortRef = React.useRef<AbortController | null>(null);
   const listSeqRef = React.useRef(0);
@@ -59,6 +106,8 @@ export default function HomePage(): React.ReactElement {
       if (showSpinner) {
         setListLoading(true);
       }
+      nextCursorRef.current = null;
+      setHasMore(false);
 
       // cancel any in-flight request
       if (listAbortRef.current !== null) {
@@ -80,6 +129,8 @@ export default function HomePage(): React.ReactElement {
           SONG_LIST_ENDPOINT,
           effSort,            // SongColToken | null is compatible with string | null
           effDir,             // "asc" | "desc"
+          filtersRef.current,
+          null,               // first page
           controller.signal
         );
 
@@ -88,7 +139,9 @@ export default function HomePage(): React.ReactElement {
           return;
         }
 
-        setRows(data);
+        setRows(data.items);
+        nextCursorRef.current = data.nextCursor;
+        setHasMore(data.nextCursor !== null);
       } catch (e: unknown) {
         // swallow aborts; surface other errors
         const name = (e as { name?: string } | null)?.name ?? "";
@@ -113,10 +166,276 @@ export default function HomePage(): React.ReactElement {
       if (listAbortRef.current !== null) {
         listAbortRef.current.abort();
       }
+      if (searchTimerRef.current !== null) {
+        window.clearTimeout(searchTimerRef.current);
+      }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const loadAssignments = React.useCallback(async (): Promise<void> => {
+    setAssignmentsLoading(true);
+    setAssignmentsError("");
+    try {
+      setAssignments(await fetchAssignments({ mine: true }));
+    } catch (e: unknown) {
+      // 401/403: signed out, or an account without assignments (Guest)
+      if (e instanceof AssignmentFetchError && (e.status === 401 || e.status === 403)) {
+        setAssignments(null);
+        return;
+      }
+      setAssignmentsError(e instanceof Error ? e.message : String(e));
+      setAssignments((prev) => prev ?? []);
+    } finally {
+      setAssignmentsLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    void loadAssignments();
+  }, [loadAssignments]);
+
+  const markAssignmentDone = async (a: AssignmentItem): Promise<void> => {
+    setCompletingId(a.assignment_id);
+    try {
+      await completeAssignment(a.assignment_id);
+      setAssignments((prev) => prev?.filter((x) => x.assignment_id !== a.assignment_id) ?? null);
+    } catch (e: unknown) {
+      setAssignmentsError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setCompletingId(null);
+    }
+  };
+
+  const loadSetlists = React.useCallback(async (): Promise<void> => {
+    setSetlistsLoading(true);
+    setSetlistsError("");
+    try {
+      setSetlists(await fetchSetlists());
+    } catch (e: unknown) {
+      // 401/403: signed out
+      if (e instanceof SetlistFetchError && (e.status === 401 || e.status === 403)) {
+        setSetlists(null);
+        return;
+      }
+      setSetlistsError(e instanceof Error ? e.message : String(e));
+      setSetlists((prev) => prev ?? []);
+    } finally {
+      setSetlistsLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    void loadSetlists();
+    return () => {
+      setlistSongAbortRef.current?.abort();
+      if (setlistSongTimerRef.current !== null) {
+        window.clearTimeout(setlistSongTimerRef.current);
+      }
+    };
+  }, [loadSetlists]);
+
+  // First page of matches is plenty for a picker; refine the search to narrow it
+  const searchSetlistSongs = async (q: string): Promise<void> => {
+    setlistSongAbortRef.current?.abort();
+    const controller = new AbortController();
+    setlistSongAbortRef.current = controller;
+    setSetlistSongOptionsLoading(true);
+    try {
+      const page = await fetchSongList(SONG_LIST_ENDPOINT, "song_title", "asc", { q }, null, controller.signal);
+      setSetlistSongOptions(page.items);
+    } catch (e: unknown) {
+      const name = (e as { name?: string } | null)?.name ?? "";
+      if (name === "AbortError") {
+        return;
+      }
+      setSetlistsError(e instanceof Error ? e.message : String(e));
+    } finally {
+      if (setlistSongAbortRef.current === controller) {
+        setSetlistSongOptionsLoading(false);
+      }
+    }
+  };
+
+  const changeSetlistSongQuery = (value: string): void => {
+    setSetlistSongQuery(value);
+    if (setlistSongTimerRef.current !== null) {
+      window.clearTimeout(setlistSongTimerRef.current);
+    }
+    setlistSongTimerRef.current = window.setTimeout(() => {
+      setlistSongTimerRef.current = null;
+      if (value.trim()) {
+        void searchSetlistSongs(value);
+      } else {
+        setSetlistSongOptions([]);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+  };
+
+  const closeSetlistEditor = (): void => {
+    setSetlistDraft(null);
+    setSetlistSongQuery("");
+    setSetlistSongOptions([]);
+  };
+
+  const editSetlist = async (s: SetlistItem): Promise<void> => {
+    setSetlistBusyId(s.setlist_id);
+    setSetlistsError("");
+    try {
+      const detail = await fetchSetlist(s.setlist_id);
+      setSetlistDraft({ setlist_id: detail.setlist_id, setlist_name: detail.setlist_name, songs: detail.songs });
+    } catch (e: unknown) {
+      setSetlistsError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSetlistBusyId(null);
+    }
+  };
+
+  const moveSetlistSong = (index: number, dir: 1 | -1): void => {
+    setSetlistDraft((prev) => {
+      if (!prev) { return prev; }
+      const songs = [...prev.songs];
+      const a = songs[index];
+      const b = songs[index + dir];
+      if (!a || !b) { return prev; }
+      songs[index] = b;
+      songs[index + dir] = a;
+      return { ...prev, songs };
+    });
+  };
+
+  const saveSetlistDraft = async (): Promise<void> => {
+    if (!setlistDraft) { return; }
+    setSetlistSaving(true);
+    setSetlistsError("");
+    try {
+      await saveSetlist(setlistDraft.setlist_id, setlistDraft.setlist_name.trim(), setlistDraft.songs.map((s) => s.song_id));
+      closeSetlistEditor();
+      await loadSetlists();
+    } catch (e: unknown) {
+      setSetlistsError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSetlistSaving(false);
+    }
+  };
+
+  const removeSetlist = async (s: SetlistItem): Promise<void> => {
+    if (!window.confirm(`Delete the setlist “${s.setlist_name}”? The songs themselves are not affected.`)) {
+      return;
+    }
+    setSetlistBusyId(s.setlist_id);
+    setSetlistsError("");
+    try {
+      await deleteSetlist(s.setlist_id);
+      setSetlists((prev) => prev?.filter((x) => x.setlist_id !== s.setlist_id) ?? null);
+    } catch (e: unknown) {
+      setSetlistsError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSetlistBusyId(null);
+    }
+  };
+
+  // Level chips and key/time/instrument selects (filter only; a failed load just hides them)
+  React.useEffect(() => {
+    let cancelled = false;
+    fetchSkillLevels()
+      .then((l) => { if (!cancelled) { setLevels(l); } })
+      .catch(() => { if (!cancelled) { setLevels([]); } });
+    fetchSongFacets()
+      .then((f) => { if (!cancelled) { setFacets(f); } })
+      .catch(() => { if (!cancelled) { setFacets(EMPTY_SONG_FACETS); } });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Append the next page; a refresh (new sort/filter) aborts it and wins
+  const loadMoreSongs = async (): Promise<void> => {
+    const cursor = nextCursorRef.current;
+    if (cursor === null || loadingMore || listLoading) {
+      return;
+    }
+    const seq = listSeqRef.current;
+    const controller = new AbortController();
+    listAbortRef.current = controller;
+    setLoadingMore(true);
+
+    try {
+      const page = await fetchSongList(
+        SONG_LIST_ENDPOINT,
+        sort,
+        sortDir,
+        filtersRef.current,
+        cursor,
+        controller.signal
+      );
+      if (seq !== listSeqRef.current) {
+        return;
+      }
+      setRows((prev) => [...prev, ...page.items]);
+      nextCursorRef.current = page.nextCursor;
+      setHasMore(page.nextCursor !== null);
+    } catch (e: unknown) {
+      const name = (e as { name?: string } | null)?.name ?? "";
+      if (name === "AbortError") {
+        return;
+      }
+      setListError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const applyFilters = (next: SongListFilters, debounce: boolean): void => {
+    filtersRef.current = next;
+    if (searchTimerRef.current !== null) {
+      window.clearTimeout(searchTimerRef.current);
+      searchTimerRef.current = null;
+    }
+    if (debounce) {
+      searchTimerRef.current = window.setTimeout(() => {
+        searchTimerRef.current = null;
+        void refreshSongList();
+      }, SEARCH_DEBOUNCE_MS);
+    } else {
+      void refreshSongList();
+    }
+  };
+
+  const changeSearch = (text: string): void => {
+    setSearch(text);
+    applyFilters({ ...filtersRef.current, q: text }, true);
+  };
+
+  const toggleLevel = (n: number): void => {
+    const next = selectedLevels.includes(n)
+      ? selectedLevels.filter((x) => x !== n)
+      : [...selectedLevels, n].sort((a, b) => a - b);
+    setSelectedLevels(next);
+    applyFilters({ ...filtersRef.current, levels: next }, false);
+  };
+
+  const changeFacet = (name: SongFacetName, value: string): void => {
+    setFacetFilter((prev) => ({ ...prev, [name]: value }));
+    applyFilters({ ...filtersRef.current, [name]: value }, false);
+  };
+
+  const toggleTag = (tag: string): void => {
+    const next = selectedTags.includes(tag)
+      ? selectedTags.filter((t) => t !== tag)
+      : [...selectedTags, tag];
+    setSelectedTags(next);
+    applyFilters({ ...filtersRef.current, tags: next }, false);
+  };
+
+  const clearFilters = (): void => {
+    setSearch("");
+    setSelectedLevels([]);
+    setFacetFilter({});
+    setSelectedTags([]);
+    applyFilters({}, false);
+  };
+
   const toggleSort = (key: SongColToken): void => {
     const nextDir: SortDir =
       sort === key ? (sortDir === "asc" ? "desc" : "asc") : "asc";
@@ -131,6 +450,12 @@ export default function HomePage(): React.ReactElement {
     window.open(url, "_blank", "noopener,noreferrer");
   };
 
+  const openSetlistInNewTab = (setlistId: number): void => {
+    const tabId = Date.now().toString(36);
+    const url = `/viewer?tab=${tabId}&setlist=${setlistId}`;
+    window.open(url, "_blank", "noopener,noreferrer");
+  };
+
   return (
     <main className="mx-auto max-w-2xl p-6 space-y-6">
       {/* Top-right Admin button */}
@@ -164,6 +489,58 @@ export default function HomePage(): React.ReactElement {
         Music Portal
       </h1>
 
+      {assignments !== null && (
+        <section style={{ marginTop: 24 }}>
+          <MyAssignmentsPanel
+            items={assignments}
+            loading={assignmentsLoading}
+            error={assignmentsError}
+            completingId={completingId}
+            onOpen={(a) => { openInNewTab(a.song_id); }}
+            onComplete={(a) => { void markAssignmentDone(a); }}
+            width={TABLE_MIN_PX}
+            T={T}
+          />
+        </section>
+      )}
+
+      {setlists !== null && (
+        <section style={{ marginTop: 24 }}>
+          <MySetlistsPanel
+            items={setlists}
+            loading={setlistsLoading}
+            error={setlistsError}
+            busyId={setlistBusyId}
+            onOpen={(s) => { openSetlistInNewTab(s.setlist_id); }}
+            onEdit={(s) => { void editSetlist(s); }}
+            onDelete={(s) => { void removeSetlist(s); }}
+            onNew={() => { setSetlistDraft({ setlist_id: null, setlist_name: "", songs: [] }); }}
+            draft={setlistDraft}
+            onDraftNameChange={(value) => { setSetlistDraft((prev) => (prev ? { ...prev, setlist_name: value } : prev)); }}
+            onMoveSong={moveSetlistSong}
+            onRemoveSong={(index) => {
+              setSetlistDraft((prev) => (prev ? { ...prev, songs: prev.songs.filter((_, i) => i !== index) } : prev));
+            }}
+            songQuery={setlistSongQuery}
+            onSongQueryChange={changeSetlistSongQuery}
+            songOptions={setlistSongOptions}
+            songOptionsLoading={setlistSongOptionsLoading}
+            onAddSong={(song) => {
+              const { song_id, song_title, composer_first_name, composer_last_name } = song;
+              setSetlistDraft((prev) => (prev
+                ? { ...prev, songs: [...prev.songs, { song_id, song_title, composer_first_name, composer_last_name, song_deleted: false }] }
+                : prev));
+            }}
+            saving={setlistSaving}
+            onSave={() => { void saveSetlistDraft(); }}
+            onCancel={closeSetlistEditor}
+            width={TABLE_MIN_PX}
+            T={T}
+            fieldCss={fieldStyle(isDark)}
+          />
+        </section>
+      )}
+
       <section style={{ marginTop: 24 }}>
         <SongListPanel
           rows={rows}
@@ -172,6 +549,20 @@ export default function HomePage(): React.ReactElement {
           sort={sort}
           sortDir={sortDir}
           onToggleSort={toggleSort}
+          search={search}
+          onSearchChange={changeSearch}
+          levels={levels}
+          selectedLevels={selectedLevels}
+          onToggleLevel={toggleLevel}
+          facets={facets}
+          facetFilter={facetFilter}
+          onFacetChange={changeFacet}
+          selectedTags={selectedTags}
+          onToggleTag={toggleTag}
+          onClearFilters={clearFilters}
+          hasMore={hasMore}
+          loadingMore={loadingMore}
+          onLoadMore={() => { void loadMoreSongs(); }}
           onRowClick={(row) => { openInNewTab(row.song_id); }}
           gridCols={GRID_COLS}
           tableMinPx={TABLE_MIN_PX}
@@ -1,8 +1,13 @@
 // src/app/viewer/viewer-client.tsx
 "use client";
 
+import { useEffect, useMemo, useState } from "react";
 import { useSearchParams } from "next/navigation";
-import ScoreViewer from "@/components/ScoreViewer";
+import ScoreViewer, { type PrintHeader } from "@/components/ScoreViewer";
+import SetlistViewer from "@/components/SetlistViewer";
+import { parsePdfOptions } from "@/lib/scorePdf";
+import { fetchSongDetails } from "@/lib/songDetailsFetch";
+import type { SongDetails } from "@/lib/types";
 
 function isPositiveIntString(v: string | null): v is string {
   return v !== null && /^\d+$/.test(v);
@@ -12,8 +17,62 @@ export default function ViewerClient(): React.ReactElement {
   const params = useSearchParams();
   const id = isPositiveIntString(params.get("id")) ? params.get("id")! : undefined;
 
+  // Deep links: ?measure=32 opens at bar 32, ?page=3 at page 3
+  const measureParam = params.get("measure");
+  const pageParam = params.get("page");
+  const initialMeasure = measureParam !== null && /^\d+$/.test(measureParam) ? Number(measureParam) : undefined;
+  const initialPage = isPositiveIntString(pageParam) && Number(pageParam) > 0 ? Number(pageParam) : undefined;
+
+  // ?setlist=4&pos=2 plays a setlist in order, starting at its second song
+  const setlistParam = params.get("setlist");
+  const setlistId = isPositiveIntString(setlistParam) ? setlistParam : undefined;
+  const posParam = params.get("pos");
+  const setlistPos = isPositiveIntString(posParam) && Number(posParam) > 0 ? Number(posParam) : undefined;
+
+  // ?revision=7 previews an older upload (admin only; see /api/song/[id]/revisions)
+  const revisionParam = params.get("revision");
+  const revision = isPositiveIntString(revisionParam) ? revisionParam : undefined;
+
+  // ?print=1 stacks every page for the browser's print dialog; ?paper=a4&orientation=landscape&margin=wide
+  const printMode = params.get("print") === "1";
+  const paperParam = params.get("paper");
+  const orientationParam = params.get("orientation");
+  const marginParam = params.get("margin");
+  const printPaper = useMemo(
+    () => parsePdfOptions({ paper: paperParam, orientation: orientationParam, margin: marginParam }),
+    [paperParam, orientationParam, marginParam]
+  );
+
+  // Title / composer / level for the printed header
+  const [details, setDetails] = useState<SongDetails | null>(null);
+  useEffect(() => {
+    if (!printMode || id === undefined) { return; }
+    const controller = new AbortController();
+    fetchSongDetails(id, controller.signal)
+      .then(setDetails)
+      .catch(() => { setDetails(null); });
+    return () => controller.abort();
+  }, [printMode, id]);
+
+  const printHeader = useMemo<PrintHeader | undefined>(() => {
+    if (!details) { return undefined; }
+    return {
+      title: details.song_title,
+      composer: `${details.composer_first_name} ${details.composer_last_name}`.trim(),
+      level: details.skill_level_name,
+    };
+  }, [details]);
+
   // Build the canonical, same-origin API URL from the id
-  const src = id !== undefined ? `/api/song/${id}` : undefined;
+  const src = id === undefined
+    ? undefined
+    : revision !== undefined
+      ? `/api/song/${id}/revisions/${revision}`
+      : `/api/song/${id}`;
+
+  if (setlistId !== undefined) {
+    return <SetlistViewer setlistId={setlistId} startPosition={setlistPos} />;
+  }
 
   if (src === undefined) {
     return (
@@ -32,7 +91,15 @@ export default function ViewerClient(): React.ReactElement {
         minHeight: 0,
       }}
     >
-      <ScoreViewer src={src} />
+      <ScoreViewer
+        src={src}
+        songId={id}
+        initialMeasure={initialMeasure}
+        initialPage={initialPage}
+        printMode={printMode}
+        printPaper={printPaper}
+        printHeader={printHeader}
+      />
     </div>
   );
 }
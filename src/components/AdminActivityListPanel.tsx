@@ -0,0 +1,304 @@
+// src/components/AdminActivityListPanel.tsx
+"use client";
+
+import React from "react";
+import type { AuditActorItem, AuditEntityType, AuditItem } from "@/lib/types";
+import type { ThemeTokens } from "@/lib/theme";
+import { formatDateTime } from "@/lib/dateUtils";
+
+type Props = {
+    rows: ReadonlyArray<AuditItem>;
+    listLoading: boolean;
+    listError: string;
+    hasMore: boolean;
+    loadingMore: boolean;
+    onLoadMore(): void;
+
+    // Filters
+    entityFilter: AuditEntityType | null;
+    onChangeEntityFilter(value: AuditEntityType | null): void;
+    actors: ReadonlyArray<AuditActorItem>;
+    actorFilter: number | null;
+    onChangeActorFilter(value: number | null): void;
+    fromDate: string;   // yyyy-mm-dd, "" = open
+    toDate: string;     // yyyy-mm-dd (inclusive), "" = open
+    onChangeFromDate(value: string): void;
+    onChangeToDate(value: string): void;
+
+    // Row details
+    expandedId: number | null;
+    onToggleRow(row: AuditItem): void;
+
+    // Layout / theming
+    gridCols: React.CSSProperties["gridTemplateColumns"];
+    tableMinPx: number;
+    rowPx: number;
+    visibleRowCount: number;
+    T: ThemeTokens;
+    fieldCss: React.CSSProperties;
+};
+
+type FieldChange = { field: string; before: unknown; after: unknown };
+
+// Bookkeeping columns that change on every write and only add noise to the diff
+const IGNORED_FIELDS: ReadonlySet<string> = new Set(["updated_datetime"]);
+
+const ACTION_LABELS: Readonly<Record<string, string>> = {
+    song_upsert: "Saved",
+    song_delete: "Moved to Trash",
+    song_revision_restore: "Revision restored",
+    user_upsert: "Saved",
+    user_delete: "Moved to Trash",
+    composer_save: "Composer renamed",
+    composer_merge: "Composers merged",
+    trash_restore: "Restored",
+    trash_delete: "Deleted forever",
+    trash_purge: "Purged",
+};
+
+// Start fetching the next page this many rows before the end of the list
+const LOAD_MORE_AHEAD_ROWS = 5;
+
+const cell: React.CSSProperties = { overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" };
+
+function actionLabel(row: AuditItem): string {
+    if (row.before_data === null && row.after_data !== null) { return "Created"; }
+    return ACTION_LABELS[row.audit_action] ?? row.audit_action;
+}
+
+/** Fields whose value differs between the before and after snapshots, in snapshot order */
+function changedFields(row: AuditItem): FieldChange[] {
+    const before = row.before_data ?? {};
+    const after = row.after_data ?? {};
+    const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    const out: FieldChange[] = [];
+    for (const field of fields) {
+        if (IGNORED_FIELDS.has(field)) { continue; }
+        if (JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)) {
+            out.push({ field, before: before[field] ?? null, after: after[field] ?? null });
+        }
+    }
+    return out;
+}
+
+function showValue(v: unknown): string {
+    if (v === null || v === undefined || v === "") { return "—"; }
+    return typeof v === "string" ? v : JSON.stringify(v);
+}
+
+export default function AdminActivityListPanel(props: Props): React.ReactElement {
+    const {
+        rows,
+        listLoading,
+        listError,
+        hasMore,
+        loadingMore,
+        onLoadMore,
+        entityFilter,
+        onChangeEntityFilter,
+        actors,
+        actorFilter,
+        onChangeActorFilter,
+        fromDate,
+        toDate,
+        onChangeFromDate,
+        onChangeToDate,
+        expandedId,
+        onToggleRow,
+        gridCols,
+        tableMinPx,
+        rowPx,
+        visibleRowCount,
+        T,
+        fieldCss,
+    } = props;
+
+    return (
+        <section aria-label="Activity" style={{ marginTop: 8 }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 12, margin: "0 0 8px", flexWrap: "wrap" }}>
+                <select
+                    value={entityFilter ?? ""}
+                    onChange={(e) => { onChangeEntityFilter(e.target.value === "song" || e.target.value === "user" ? e.target.value : null); }}
+                    aria-label="Filter by entity"
+                    style={{ ...fieldCss, width: 160, appearance: "auto" as const }}
+                >
+                    <option value="">Songs and users</option>
+                    <option value="song">Songs</option>
+                    <option value="user">Users</option>
+                </select>
+                <select
+                    value={actorFilter ?? ""}
+                    onChange={(e) => { onChangeActorFilter(e.target.value === "" ? null : Number(e.target.value)); }}
+                    aria-label="Filter by actor"
+                    style={{ ...fieldCss, width: 200, appearance: "auto" as const }}
+                >
+                    <option value="">Anyone</option>
+                    {actors.map((a) => (
+                        <option key={a.user_id} value={a.user_id}>
+                            {a.user_name}
+                        </option>
+                    ))}
+                </select>
+                <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 13 }}>
+                    From
+                    <input
+                        type="date"
+                        value={fromDate}
+                        max={toDate || undefined}
+                        onChange={(e) => { onChangeFromDate(e.target.value); }}
+                        style={{ ...fieldCss, width: 150 }}
+                    />
+                </label>
+                <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 13 }}>
+                    To
+                    <input
+                        type="date"
+                        value={toDate}
+                        min={fromDate || undefined}
+                        onChange={(e) => { onChangeToDate(e.target.value); }}
+                        style={{ ...fieldCss, width: 150 }}
+                    />
+                </label>
+            </div>
+
+            {listError && (
+                <p style={{ color: "#ff6b6b", margin: "4px 0 8px" }}>
+                    Error: {listError}
+                </p>
+            )}
+
+            <div style={{ width: "100%", overflowX: "auto" }}>
+                <div
+                    style={{
+                        width: tableMinPx,
+                        maxWidth: "100%",
+                        margin: "0 auto",
+                        border: `1px solid ${T.border}`,
+                        borderRadius: 6,
+                        overflow: "hidden",
+                        background: T.bgCard,
+                    }}
+                >
+                    <div
+                        style={{
+                            display: "grid",
+                            gridTemplateColumns: gridCols,
+                            width: tableMinPx,
+                            padding: "8px 10px",
+                            background: T.headerBg,
+                            color: T.headerFg,
+                            borderBottom: `1px solid ${T.border}`,
+                            fontWeight: 600,
+                            fontSize: 13,
+                        }}
+                    >
+                        <div>When</div>
+                        <div>Actor</div>
+                        <div>Action</div>
+                        <div>Entity</div>
+                        <div>Changes</div>
+                    </div>
+
+                    <div
+                        style={{
+                            maxHeight: rowPx * visibleRowCount,
+                            minHeight: rowPx * Math.min(visibleRowCount, 3),
+                            overflowY: "auto",
+                            opacity: listLoading ? 0.7 : 1,
+                            transition: "opacity 120ms linear",
+                        }}
+                        aria-busy={listLoading || loadingMore}
+                        onScroll={(e: React.UIEvent<HTMLDivElement>) => {
+                            const el = e.currentTarget;
+                            if (hasMore && !loadingMore && el.scrollTop + el.clientHeight >= el.scrollHeight - rowPx * LOAD_MORE_AHEAD_ROWS) {
+                                onLoadMore();
+                            }
+                        }}
+                    >
+                        {rows.map((r, idx) => {
+                            const changes = changedFields(r);
+                            const expanded = expandedId === r.audit_id;
+                            const entity = `${r.entity_type === "song" ? "Song" : "User"} #${r.entity_id}${r.entity_name ? ` · ${r.entity_name}` : ""}`;
+                            const summary = r.before_data === null || r.after_data === null
+                                ? "—"
+                                : changes.map((c) => c.field).join(", ") || "No changes";
+                            return (
+                                <div key={r.audit_id} style={{ borderBottom: `1px solid ${T.border}`, background: idx % 2 === 0 ? T.rowEven : T.rowOdd, color: T.rowFg }}>
+                                    <button
+                                        type="button"
+                                        onClick={() => { onToggleRow(r); }}
+                                        aria-expanded={expanded}
+                                        title={expanded ? "Hide details" : "Show the changed values and request details"}
+                                        style={{
+                                            display: "grid",
+                                            gridTemplateColumns: gridCols,
+                                            width: tableMinPx,
+                                            padding: "0 10px",
+                                            border: "none",
+                                            background: "transparent",
+                                            color: "inherit",
+                                            font: "inherit",
+                                            fontSize: 13,
+                                            textAlign: "left",
+                                            alignItems: "center",
+                                            height: rowPx,
+                                            cursor: "pointer",
+                                        }}
+                                    >
+                                        <div style={cell}>{formatDateTime(r.inserted_datetime)}</div>
+                                        <div style={cell}>{r.actor_user_name ?? (r.actor_user_id === null ? "—" : `#${r.actor_user_id}`)}</div>
+                                        <div style={cell} title={r.audit_action}>{actionLabel(r)}</div>
+                                        <div style={cell} title={entity}>{entity}</div>
+                                        <div style={cell} title={summary}>{summary}</div>
+                                    </button>
+
+                                    {expanded && (
+                                        <div style={{ padding: "6px 10px 10px", fontSize: 12, display: "grid", gap: 6 }}>
+                                            {changes.length > 0 && (
+                                                <table style={{ borderCollapse: "collapse", width: "100%", tableLayout: "fixed" }}>
+                                                    <thead>
+                                                        <tr style={{ textAlign: "left" }}>
+                                                            <th style={{ width: 180, padding: "2px 6px" }}>Field</th>
+                                                            <th style={{ padding: "2px 6px" }}>Before</th>
+                                                            <th style={{ padding: "2px 6px" }}>After</th>
+                                                        </tr>
+                                                    </thead>
+                                                    <tbody>
+                                                        {changes.map((c) => (
+                                                            <tr key={c.field} style={{ borderTop: `1px solid ${T.border}`, verticalAlign: "top" }}>
+                                                                <td style={{ padding: "2px 6px", fontFamily: "monospace" }}>{c.field}</td>
+                                                                <td style={{ padding: "2px 6px", wordBreak: "break-word" }}>{showValue(c.before)}</td>
+                                                                <td style={{ padding: "2px 6px", wordBreak: "break-word" }}>{showValue(c.after)}</td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                            )}
+                                            <div style={{ opacity: 0.8, wordBreak: "break-word" }}>
+                                                {r.request_method ?? "—"} {r.request_path ?? ""}
+                                                {" · IP "}{r.request_ip ?? "unknown"}
+                                                {r.user_agent && <> · {r.user_agent}</>}
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+
+                        {loadingMore && (
+                            <p style={{ margin: 0, padding: "8px 10px", fontSize: 13, color: T.rowFg, opacity: 0.75 }}>
+                                Loading more…
+                            </p>
+                        )}
+
+                        {!listLoading && !listError && rows.length === 0 && (
+                            <p style={{ margin: 0, padding: "12px 10px", fontSize: 13, color: T.rowFg, opacity: 0.75 }}>
+                                No activity matches these filters.
+                            </p>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </section>
+    );
+}
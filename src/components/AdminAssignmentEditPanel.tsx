@@ -0,0 +1,215 @@
+// src/components/AdminAssignmentEditPanel.tsx
+"use client";
+
+import React from "react";
+import type { SongListItem, UserListItem } from "@/lib/types";
+import type { ThemeTokens } from "@/lib/theme";
+
+type Props = {
+    // Song picker (server search)
+    songQuery: string;
+    onSongQueryChange(value: string): void;
+    songOptions: ReadonlyArray<SongListItem>;
+    songOptionsLoading: boolean;
+    selectedSongId: number | null;
+    onSelectSong(songId: number | null): void;
+
+    // Students
+    students: ReadonlyArray<UserListItem>;
+    studentsLoading: boolean;
+    studentsError: string;
+    selectedStudentIds: ReadonlyArray<number>;
+    onToggleStudent(userId: number): void;
+    onToggleAllStudents(): void;
+
+    // Details
+    notes: string;
+    onChangeNotes(value: string): void;
+    dueDate: string; // YYYY-MM-DD or ""
+    onChangeDueDate(value: string): void;
+
+    // Status / actions
+    errorText: string;
+    okText: string;
+    saving: boolean;
+    onAssign(): void;
+
+    T: ThemeTokens;
+    fieldCss: React.CSSProperties;
+    isDark: boolean;
+};
+
+function songLabel(s: SongListItem): string {
+    const composer = [s.composer_first_name, s.composer_last_name].filter(Boolean).join(" ");
+    return `${s.song_title}${composer ? ` — ${composer}` : ""} (${s.skill_level_name})`;
+}
+
+function studentLabel(u: UserListItem): string {
+    const name = [u.user_first_name, u.user_last_name].filter(Boolean).join(" ");
+    return name ? `${name} (${u.user_name})` : u.user_name;
+}
+
+export default function AdminAssignmentEditPanel(props: Props): React.ReactElement {
+    const {
+        songQuery,
+        onSongQueryChange,
+        songOptions,
+        songOptionsLoading,
+        selectedSongId,
+        onSelectSong,
+        students,
+        studentsLoading,
+        studentsError,
+        selectedStudentIds,
+        onToggleStudent,
+        onToggleAllStudents,
+        notes,
+        onChangeNotes,
+        dueDate,
+        onChangeDueDate,
+        errorText,
+        okText,
+        saving,
+        onAssign,
+        T,
+        fieldCss,
+        isDark,
+    } = props;
+
+    const canAssign = selectedSongId !== null && selectedStudentIds.length > 0 && !saving;
+    const allSelected = students.length > 0 && selectedStudentIds.length === students.length;
+
+    return (
+        <section aria-label="Assign a song" style={{ marginTop: 8, background: "transparent" }}>
+            <div
+                id="edit-card"
+                key={isDark ? "dark" : "light"}
+                data-theme={isDark ? "dark" : "light"}
+                style={{
+                    padding: 16,
+                    border: `1px solid ${T.border}`,
+                    borderRadius: 8,
+                    background: T.bgCard,
+                    color: T.fgCard,
+                }}
+            >
+                <div
+                    style={{
+                        display: "grid",
+                        gridTemplateColumns: "120px 1fr",
+                        rowGap: 10,
+                        columnGap: 12,
+                    }}
+                >
+                    <label style={{ alignSelf: "start", fontWeight: 600, paddingTop: 8 }}>Song</label>
+                    <div style={{ display: "grid", gap: 6 }}>
+                        <input
+                            type="search"
+                            value={songQuery}
+                            onChange={(e) => { onSongQueryChange(e.target.value); }}
+                            placeholder="Search title or composer…"
+                            aria-label="Search songs"
+                            style={fieldCss}
+                        />
+                        <select
+                            size={6}
+                            value={selectedSongId === null ? "" : String(selectedSongId)}
+                            onChange={(e) => { onSelectSong(e.target.value ? Number(e.target.value) : null); }}
+                            aria-label="Song"
+                            aria-busy={songOptionsLoading}
+                            style={{ ...fieldCss, height: "auto" }}
+                        >
+                            {songOptions.map((s) => (
+                                <option key={s.song_id} value={String(s.song_id)}>
+                                    {songLabel(s)}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <label style={{ alignSelf: "start", fontWeight: 600, paddingTop: 4 }}>Students</label>
+                    <div>
+                        {studentsError && (
+                            <div style={{ color: "#b00020" }}>Failed to load students: {studentsError}</div>
+                        )}
+                        {studentsLoading && <div style={{ opacity: 0.75 }}>Loading…</div>}
+                        {!studentsLoading && !studentsError && students.length === 0 && (
+                            <div style={{ opacity: 0.75 }}>No users have the Student role yet.</div>
+                        )}
+                        {students.length > 0 && (
+                            <div style={{ display: "grid", gap: 4 }}>
+                                <label style={{ display: "flex", alignItems: "center", gap: 6, fontStyle: "italic" }}>
+                                    <input type="checkbox" checked={allSelected} onChange={onToggleAllStudents} />
+                                    All students
+                                </label>
+                                <div
+                                    style={{
+                                        display: "grid",
+                                        gridTemplateColumns: "repeat(auto-fill, minmax(220px, 1fr))",
+                                        gap: 4,
+                                        maxHeight: 180,
+                                        overflowY: "auto",
+                                    }}
+                                >
+                                    {students.map((u) => (
+                                        <label
+                                            key={u.user_id}
+                                            style={{ display: "flex", alignItems: "center", gap: 6, whiteSpace: "nowrap" }}
+                                        >
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedStudentIds.includes(u.user_id)}
+                                                onChange={() => { onToggleStudent(u.user_id); }}
+                                            />
+                                            <span style={{ overflow: "hidden", textOverflow: "ellipsis" }}>{studentLabel(u)}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    <label style={{ alignSelf: "center", fontWeight: 600 }}>Due date</label>
+                    <input
+                        type="date"
+                        value={dueDate}
+                        onChange={(e) => { onChangeDueDate(e.target.value); }}
+                        style={{ ...fieldCss, width: 180 }}
+                    />
+
+                    <label style={{ alignSelf: "start", fontWeight: 600, paddingTop: 8 }}>Notes</label>
+                    <textarea
+                        value={notes}
+                        onChange={(e) => { onChangeNotes(e.target.value); }}
+                        rows={3}
+                        maxLength={2000}
+                        placeholder="What to practice, tempo goals, sections…"
+                        style={{ ...fieldCss, resize: "vertical" }}
+                    />
+                </div>
+
+                <div style={{ display: "flex", alignItems: "center", gap: 12, marginTop: 14 }}>
+                    <button
+                        type="button"
+                        onClick={onAssign}
+                        disabled={!canAssign}
+                        style={{
+                            padding: "8px 16px",
+                            borderRadius: 6,
+                            border: `1px solid ${T.border}`,
+                            background: T.panelBg,
+                            color: T.fg,
+                            font: "inherit",
+                            cursor: canAssign ? "pointer" : "not-allowed",
+                            opacity: canAssign ? 1 : 0.6,
+                        }}
+                    >
+                        {saving ? "Assigning…" : `Assign${selectedStudentIds.length > 1 ? ` to ${selectedStudentIds.length} students` : ""}`}
+                    </button>
+                    {errorText && <span role="alert" style={{ color: "#b00020" }}>{errorText}</span>}
+                    {okText && <span role="status" style={{ color: "#2e7d32" }}>{okText}</span>}
+                </div>
+            </div>
+        </section>
+    );
+}
@@ -0,0 +1,193 @@
+// src/components/AdminAssignmentListPanel.tsx
+"use client";
+
+import React from "react";
+import type { AssignmentItem, UserListItem } from "@/lib/types";
+import type { ThemeTokens } from "@/lib/theme";
+import { formatDateTime } from "@/lib/dateUtils";
+
+type Props = {
+    rows: ReadonlyArray<AssignmentItem>;
+    listLoading: boolean;
+    listError: string;
+
+    // Filters
+    students: ReadonlyArray<UserListItem>;
+    studentFilter: number | null;
+    onChangeStudentFilter(userId: number | null): void;
+    includeCompleted: boolean;
+    onToggleIncludeCompleted(): void;
+
+    // Row actions
+    completingId: number | null;
+    onComplete(row: AssignmentItem): void;
+    onOpen(row: AssignmentItem): void;
+
+    // Layout / theming
+    gridCols: React.CSSProperties["gridTemplateColumns"];
+    tableMinPx: number;
+    rowPx: number;
+    visibleRowCount: number;
+    T: ThemeTokens;
+    fieldCss: React.CSSProperties;
+};
+
+const cell: React.CSSProperties = { overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" };
+
+export default function AdminAssignmentListPanel(props: Props): React.ReactElement {
+    const {
+        rows,
+        listLoading,
+        listError,
+        students,
+        studentFilter,
+        onChangeStudentFilter,
+        includeCompleted,
+        onToggleIncludeCompleted,
+        completingId,
+        onComplete,
+        onOpen,
+        gridCols,
+        tableMinPx,
+        rowPx,
+        visibleRowCount,
+        T,
+        fieldCss,
+    } = props;
+
+    return (
+        <section aria-label="Assignments" style={{ marginTop: 24 }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 12, margin: "0 0 8px" }}>
+                <select
+                    value={studentFilter === null ? "" : String(studentFilter)}
+                    onChange={(e) => { onChangeStudentFilter(e.target.value ? Number(e.target.value) : null); }}
+                    aria-label="Filter by student"
+                    style={{ ...fieldCss, width: 260, appearance: "auto" as const }}
+                >
+                    <option value="">All students</option>
+                    {students.map((u) => (
+                        <option key={u.user_id} value={String(u.user_id)}>
+                            {[u.user_first_name, u.user_last_name].filter(Boolean).join(" ") || u.user_name}
+                        </option>
+                    ))}
+                </select>
+                <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 13 }}>
+                    <input type="checkbox" checked={includeCompleted} onChange={onToggleIncludeCompleted} />
+                    Show completed
+                </label>
+            </div>
+
+            {listError && (
+                <p style={{ color: "#ff6b6b", margin: "4px 0 8px" }}>
+                    Error: {listError}
+                </p>
+            )}
+
+            <div style={{ width: "100%", overflowX: "auto" }}>
+                <div
+                    style={{
+                        width: tableMinPx,
+                        maxWidth: "100%",
+                        margin: "0 auto",
+                        border: `1px solid ${T.border}`,
+                        borderRadius: 6,
+                        overflow: "hidden",
+                        background: T.bgCard,
+                    }}
+                >
+                    <div
+                        style={{
+                            display: "grid",
+                            gridTemplateColumns: gridCols,
+                            width: tableMinPx,
+                            padding: "8px 10px",
+                            background: T.headerBg,
+                            color: T.headerFg,
+                            borderBottom: `1px solid ${T.border}`,
+                            fontWeight: 600,
+                            fontSize: 13,
+                        }}
+                    >
+                        <div>Student</div>
+                        <div>Song</div>
+                        <div>Due</div>
+                        <div>Notes</div>
+                        <div>Status</div>
+                    </div>
+
+                    <div
+                        style={{
+                            height: rowPx * visibleRowCount,
+                            overflowY: rows.length > visibleRowCount ? "auto" : "hidden",
+                            opacity: listLoading ? 0.7 : 1,
+                            transition: "opacity 120ms linear",
+                        }}
+                        aria-busy={listLoading}
+                    >
+                        {rows.map((r, idx) => (
+                            <div
+                                key={r.assignment_id}
+                                style={{
+                                    display: "grid",
+                                    gridTemplateColumns: gridCols,
+                                    width: tableMinPx,
+                                    padding: "0 10px",
+                                    borderBottom: `1px solid ${T.border}`,
+                                    fontSize: 13,
+                                    alignItems: "center",
+                                    background: idx % 2 === 0 ? T.rowEven : T.rowOdd,
+                                    color: T.rowFg,
+                                    height: rowPx,
+                                }}
+                            >
+                                <div style={cell}>
+                                    {[r.user_first_name, r.user_last_name].filter(Boolean).join(" ") || r.user_name}
+                                </div>
+                                <div style={cell}>
+                                    <button
+                                        type="button"
+                                        onClick={() => { onOpen(r); }}
+                                        title="Open in a new tab"
+                                        style={{
+                                            background: "transparent",
+                                            border: "none",
+                                            padding: 0,
+                                            color: "inherit",
+                                            font: "inherit",
+                                            textDecoration: "underline",
+                                            cursor: "pointer",
+                                        }}
+                                    >
+                                        {r.song_title}
+                                    </button>
+                                </div>
+                                <div style={cell}>{r.due_date ?? "—"}</div>
+                                <div style={cell} title={r.assignment_notes}>{r.assignment_notes || "—"}</div>
+                                <div style={cell}>
+                                    {r.completed_datetime ? (
+                                        <span title={formatDateTime(r.completed_datetime)}>Done</span>
+                                    ) : (
+                                        <button
+                                            type="button"
+                                            onClick={() => { onComplete(r); }}
+                                            disabled={completingId !== null}
+                                            style={{ font: "inherit", fontSize: 12, cursor: "pointer" }}
+                                        >
+                                            {completingId === r.assignment_id ? "Saving…" : "Mark done"}
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+
+                        {!listLoading && !listError && rows.length === 0 && (
+                            <p style={{ margin: 0, padding: "12px 10px", fontSize: 13, color: T.rowFg, opacity: 0.75 }}>
+                                No assignments.
+                            </p>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </section>
+    );
+}
@@ -0,0 +1,143 @@
+// src/components/AdminComposerDuplicatesPanel.tsx
+"use client";
+
+import React from "react";
+import type { ComposerDuplicateItem, ComposerDuplicateReason, ComposerItem } from "@/lib/types";
+import type { ThemeTokens } from "@/lib/theme";
+
+type Props = {
+    pairs: ReadonlyArray<ComposerDuplicateItem>;
+    composersById: ReadonlyMap<number, ComposerItem>;
+    loading: boolean;
+    error: string;
+    mergingKey: string | null;   // `${keepId}-${mergeId}` while that merge runs
+    onMerge(keep: ComposerItem, merge: ComposerItem): void;
+    onRefresh(): void;
+    T: ThemeTokens;
+};
+
+const REASON_LABEL: Record<ComposerDuplicateReason, string> = {
+    alternate_name: "listed as another spelling",
+    same_last_name: "same last name and initial",
+    similar_name: "similar name",
+};
+
+function describe(c: ComposerItem): string {
+    const name = [c.composer_first_name, c.composer_last_name].filter(Boolean).join(" ");
+    const years = c.birth_year !== null || c.death_year !== null
+        ? ` (${c.birth_year ?? "?"}–${c.death_year ?? ""})`
+        : "";
+    return `${name}${years} · ${c.song_count} ${c.song_count === 1 ? "song" : "songs"}`;
+}
+
+export default function AdminComposerDuplicatesPanel(props: Props): React.ReactElement {
+    const { pairs, composersById, loading, error, mergingKey, onMerge, onRefresh, T } = props;
+
+    const smallBtn: React.CSSProperties = {
+        height: 26,
+        padding: "0 10px",
+        borderRadius: 6,
+        border: `1px solid ${T.border}`,
+        background: T.bgCard,
+        color: T.fgCard,
+        fontSize: 12,
+        cursor: "pointer",
+        whiteSpace: "nowrap",
+    };
+
+    return (
+        <section
+            aria-label="Likely duplicates"
+            style={{
+                marginTop: 24,
+                border: `1px solid ${T.border}`,
+                borderRadius: 6,
+                background: T.bgCard,
+                color: T.fgCard,
+            }}
+        >
+            <h2
+                style={{
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "space-between",
+                    margin: 0,
+                    padding: "8px 10px",
+                    fontSize: 14,
+                    fontWeight: 600,
+                    background: T.headerBg,
+                    color: T.headerFg,
+                    borderBottom: `1px solid ${T.border}`,
+                    borderRadius: "6px 6px 0 0",
+                }}
+            >
+                Likely duplicates
+                <button type="button" onClick={onRefresh} disabled={loading} style={smallBtn}>
+                    {loading ? "Checking…" : "Check again"}
+                </button>
+            </h2>
+
+            {error && (
+                <p style={{ color: "#ff6b6b", margin: 0, padding: "8px 10px", fontSize: 13 }}>
+                    Error: {error}
+                </p>
+            )}
+
+            {!loading && !error && pairs.length === 0 && (
+                <p style={{ margin: 0, padding: "10px", fontSize: 13, opacity: 0.75 }}>
+                    No likely duplicates.
+                </p>
+            )}
+
+            <ul style={{ listStyle: "none", margin: 0, padding: 0, maxHeight: 280, overflowY: "auto" }}>
+                {pairs.map((p, idx) => {
+                    const a = composersById.get(p.composer_id_a);
+                    const b = composersById.get(p.composer_id_b);
+                    if (!a || !b) { return null; }   // one side was merged away since the check
+                    return (
+                        <li
+                            key={`${p.composer_id_a}-${p.composer_id_b}`}
+                            style={{
+                                display: "grid",
+                                gridTemplateColumns: "1fr auto",
+                                gap: "4px 10px",
+                                alignItems: "center",
+                                padding: "8px 10px",
+                                background: idx % 2 === 0 ? T.rowEven : T.rowOdd,
+                                color: T.rowFg,
+                                borderTop: idx === 0 ? "none" : `1px solid ${T.border}`,
+                                fontSize: 13,
+                            }}
+                        >
+                            <div style={{ minWidth: 0 }}>
+                                <div>{describe(a)}</div>
+                                <div>{describe(b)}</div>
+                                <div style={{ fontSize: 12, opacity: 0.75 }}>
+                                    {REASON_LABEL[p.match_reason]} · {Math.round(p.name_similarity * 100)}% alike
+                                </div>
+                            </div>
+                            <div style={{ display: "grid", gap: 4 }}>
+                                {[[a, b], [b, a]].map(([keep, merge]) => {
+                                    if (!keep || !merge) { return null; }
+                                    const key = `${keep.composer_id}-${merge.composer_id}`;
+                                    return (
+                                        <button
+                                            key={key}
+                                            type="button"
+                                            onClick={() => { onMerge(keep, merge); }}
+                                            disabled={mergingKey !== null}
+                                            title={`Move ${merge.composer_last_name}'s songs to ${keep.composer_last_name} and remove the other entry`}
+                                            style={smallBtn}
+                                        >
+                                            {mergingKey === key ? "Merging…" : `Keep ${[keep.composer_first_name, keep.composer_last_name].filter(Boolean).join(" ")}`}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </section>
+    );
+}
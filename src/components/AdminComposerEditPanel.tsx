@@ -0,0 +1,177 @@
+// src/components/AdminComposerEditPanel.tsx
+"use client";
+
+import React from "react";
+import type { ThemeTokens } from "@/lib/theme";
+
+type Props = {
+    composerId: number | null;   // null = nothing picked yet
+    songCount: number;
+
+    firstName: string;
+    onChangeFirstName(value: string): void;
+    lastName: string;
+    onChangeLastName(value: string): void;
+    birthYear: string;   // "" = unknown
+    onChangeBirthYear(value: string): void;
+    deathYear: string;
+    onChangeDeathYear(value: string): void;
+    alternateNames: string;   // one spelling per line
+    onChangeAlternateNames(value: string): void;
+
+    // Status / actions
+    errorText: string;
+    okText: string;
+    saving: boolean;
+    onSave(): void;
+    onCancel(): void;
+
+    T: ThemeTokens;
+    fieldCss: React.CSSProperties;
+    isDark: boolean;
+};
+
+export default function AdminComposerEditPanel(props: Props): React.ReactElement {
+    const {
+        composerId,
+        songCount,
+        firstName,
+        onChangeFirstName,
+        lastName,
+        onChangeLastName,
+        birthYear,
+        onChangeBirthYear,
+        deathYear,
+        onChangeDeathYear,
+        alternateNames,
+        onChangeAlternateNames,
+        errorText,
+        okText,
+        saving,
+        onSave,
+        onCancel,
+        T,
+        fieldCss,
+        isDark,
+    } = props;
+
+    const editing = composerId !== null;
+    const canSave = editing && lastName.trim().length > 0 && !saving;
+
+    const btn: React.CSSProperties = {
+        padding: "8px 16px",
+        borderRadius: 6,
+        border: `1px solid ${T.border}`,
+        background: T.panelBg,
+        color: T.fg,
+        font: "inherit",
+    };
+
+    return (
+        <section aria-label="Edit composer" style={{ marginTop: 8, background: "transparent" }}>
+            <div
+                id="edit-card"
+                key={isDark ? "dark" : "light"}
+                data-theme={isDark ? "dark" : "light"}
+                style={{
+                    padding: 16,
+                    border: `1px solid ${T.border}`,
+                    borderRadius: 8,
+                    background: T.bgCard,
+                    color: T.fgCard,
+                }}
+            >
+                {!editing ? (
+                    <p style={{ margin: 0, opacity: 0.75 }}>
+                        Pick a composer below to edit it, or merge a likely duplicate pair.
+                    </p>
+                ) : (
+                    <>
+                        <div
+                            style={{
+                                display: "grid",
+                                gridTemplateColumns: "120px 1fr",
+                                rowGap: 10,
+                                columnGap: 12,
+                            }}
+                        >
+                            <label htmlFor="composer-first" style={{ alignSelf: "center", fontWeight: 600 }}>First name</label>
+                            <input
+                                id="composer-first"
+                                type="text"
+                                value={firstName}
+                                onChange={(e) => { onChangeFirstName(e.target.value); }}
+                                maxLength={100}
+                                placeholder="Johann Sebastian"
+                                style={fieldCss}
+                            />
+
+                            <label htmlFor="composer-last" style={{ alignSelf: "center", fontWeight: 600 }}>Last name</label>
+                            <input
+                                id="composer-last"
+                                type="text"
+                                value={lastName}
+                                onChange={(e) => { onChangeLastName(e.target.value); }}
+                                maxLength={100}
+                                placeholder="Bach"
+                                style={fieldCss}
+                            />
+
+                            <label style={{ alignSelf: "center", fontWeight: 600 }}>Years</label>
+                            <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                                <input
+                                    type="number"
+                                    value={birthYear}
+                                    onChange={(e) => { onChangeBirthYear(e.target.value); }}
+                                    aria-label="Birth year"
+                                    placeholder="Born"
+                                    style={{ ...fieldCss, width: 100 }}
+                                />
+                                <span>–</span>
+                                <input
+                                    type="number"
+                                    value={deathYear}
+                                    onChange={(e) => { onChangeDeathYear(e.target.value); }}
+                                    aria-label="Death year"
+                                    placeholder="Died"
+                                    style={{ ...fieldCss, width: 100 }}
+                                />
+                            </div>
+
+                            <label htmlFor="composer-alternates" style={{ alignSelf: "start", fontWeight: 600, paddingTop: 8 }}>Other spellings</label>
+                            <textarea
+                                id="composer-alternates"
+                                value={alternateNames}
+                                onChange={(e) => { onChangeAlternateNames(e.target.value); }}
+                                rows={3}
+                                placeholder={"One per line, e.g.\nJ.S. Bach"}
+                                style={{ ...fieldCss, resize: "vertical" }}
+                            />
+                        </div>
+
+                        <p style={{ margin: "10px 0 0", fontSize: 12, opacity: 0.75 }}>
+                            Uploads whose creator matches one of these spellings are filed under this composer.
+                            {songCount > 0 && ` Renaming updates ${songCount === 1 ? "its 1 song" : `all ${songCount} of its songs`}.`}
+                        </p>
+
+                        <div style={{ display: "flex", alignItems: "center", gap: 12, marginTop: 14 }}>
+                            <button
+                                type="button"
+                                onClick={onSave}
+                                disabled={!canSave}
+                                style={{ ...btn, cursor: canSave ? "pointer" : "not-allowed", opacity: canSave ? 1 : 0.6 }}
+                            >
+                                {saving ? "Saving…" : "Save"}
+                            </button>
+                            <button type="button" onClick={onCancel} disabled={saving} style={{ ...btn, cursor: "pointer" }}>
+                                Cancel
+                            </button>
+                            {errorText && <span role="alert" style={{ color: "#b00020" }}>{errorText}</span>}
+                            {okText && <span role="status" style={{ color: "#2e7d32" }}>{okText}</span>}
+                        </div>
+                    </>
+                )}
+            </div>
+        </section>
+    );
+}
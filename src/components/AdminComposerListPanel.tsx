@@ -0,0 +1,161 @@
+// src/components/AdminComposerListPanel.tsx
+"use client";
+
+import React from "react";
+import type { ComposerItem } from "@/lib/types";
+import type { ThemeTokens } from "@/lib/theme";
+
+type Props = {
+    rows: ReadonlyArray<ComposerItem>;
+    listLoading: boolean;
+    listError: string;
+    filter: string;
+    onChangeFilter(value: string): void;
+    selectedId: number | null;
+    onPick(row: ComposerItem): void;
+
+    // Layout / theming
+    gridCols: React.CSSProperties["gridTemplateColumns"];
+    tableMinPx: number;
+    rowPx: number;
+    visibleRowCount: number;
+    T: ThemeTokens;
+    fieldCss: React.CSSProperties;
+};
+
+const cell: React.CSSProperties = { overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" };
+
+function years(c: ComposerItem): string {
+    if (c.birth_year === null && c.death_year === null) { return "—"; }
+    return `${c.birth_year ?? "?"}–${c.death_year ?? ""}`;
+}
+
+export default function AdminComposerListPanel(props: Props): React.ReactElement {
+    const {
+        rows,
+        listLoading,
+        listError,
+        filter,
+        onChangeFilter,
+        selectedId,
+        onPick,
+        gridCols,
+        tableMinPx,
+        rowPx,
+        visibleRowCount,
+        T,
+        fieldCss,
+    } = props;
+
+    return (
+        <section aria-label="Composers" style={{ marginTop: 24 }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 12, margin: "0 0 8px" }}>
+                <input
+                    type="search"
+                    value={filter}
+                    onChange={(e) => { onChangeFilter(e.target.value); }}
+                    placeholder="Filter by name or spelling…"
+                    aria-label="Filter composers"
+                    style={{ ...fieldCss, width: 260 }}
+                />
+                <span style={{ fontSize: 13, opacity: 0.75 }}>{rows.length} {rows.length === 1 ? "composer" : "composers"}</span>
+            </div>
+
+            {listError && (
+                <p style={{ color: "#ff6b6b", margin: "4px 0 8px" }}>
+                    Error: {listError}
+                </p>
+            )}
+
+            <div style={{ width: "100%", overflowX: "auto" }}>
+                <div
+                    style={{
+                        width: tableMinPx,
+                        maxWidth: "100%",
+                        margin: "0 auto",
+                        border: `1px solid ${T.border}`,
+                        borderRadius: 6,
+                        overflow: "hidden",
+                        background: T.bgCard,
+                    }}
+                >
+                    <div
+                        style={{
+                            display: "grid",
+                            gridTemplateColumns: gridCols,
+                            width: tableMinPx,
+                            padding: "8px 10px",
+                            background: T.headerBg,
+                            color: T.headerFg,
+                            borderBottom: `1px solid ${T.border}`,
+                            fontWeight: 600,
+                            fontSize: 13,
+                        }}
+                    >
+                        <div>Last name</div>
+                        <div>First name</div>
+                        <div>Years</div>
+                        <div>Songs</div>
+                        <div>Other spellings</div>
+                    </div>
+
+                    <div
+                        style={{
+                            height: rowPx * visibleRowCount,
+                            overflowY: rows.length > visibleRowCount ? "auto" : "hidden",
+                            opacity: listLoading ? 0.7 : 1,
+                            transition: "opacity 120ms linear",
+                        }}
+                        aria-busy={listLoading}
+                    >
+                        {rows.map((r, idx) => {
+                            const selected = r.composer_id === selectedId;
+                            return (
+                                <div
+                                    key={r.composer_id}
+                                    role="button"
+                                    tabIndex={0}
+                                    aria-pressed={selected}
+                                    onClick={() => { onPick(r); }}
+                                    onKeyDown={(e) => {
+                                        if (e.key === "Enter" || e.key === " ") {
+                                            e.preventDefault();
+                                            onPick(r);
+                                        }
+                                    }}
+                                    style={{
+                                        display: "grid",
+                                        gridTemplateColumns: gridCols,
+                                        width: tableMinPx,
+                                        padding: "0 10px",
+                                        borderBottom: `1px solid ${T.border}`,
+                                        fontSize: 13,
+                                        alignItems: "center",
+                                        background: selected ? T.headerBg : idx % 2 === 0 ? T.rowEven : T.rowOdd,
+                                        color: selected ? T.headerFg : T.rowFg,
+                                        height: rowPx,
+                                        cursor: "pointer",
+                                    }}
+                                >
+                                    <div style={cell}>{r.composer_last_name}</div>
+                                    <div style={cell}>{r.composer_first_name || "—"}</div>
+                                    <div style={cell}>{years(r)}</div>
+                                    <div style={cell}>{r.song_count}</div>
+                                    <div style={cell} title={r.alternate_names.join(", ")}>
+                                        {r.alternate_names.length > 0 ? r.alternate_names.join(", ") : "—"}
+                                    </div>
+                                </div>
+                            );
+                        })}
+
+                        {!listLoading && !listError && rows.length === 0 && (
+                            <p style={{ margin: 0, padding: "12px 10px", fontSize: 13, color: T.rowFg, opacity: 0.75 }}>
+                                No composers.
+                            </p>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </section>
+    );
+}
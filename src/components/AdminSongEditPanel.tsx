@@ -2,6 +2,8 @@
 "use client";
 
 import React from "react";
+import type { ComposerMatchItem, SongRevisionItem } from "@/lib/types";
+import { formatDateTime } from "@/lib/dateUtils";
 
 type Level = { number: number; name: string };
 
@@ -10,15 +12,19 @@ type Props = {
     title: string;
     composerFirst: string;
     composerLast: string;
+    composerSuggestions: ReadonlyArray<ComposerMatchItem>; // existing composers for the uploaded file's creator
     level: string; // selected level_number as string
     levels: ReadonlyArray<Level>;
     levelsLoading: boolean;
     levelsError: string;
     fileName: string;
+    tags: ReadonlyArray<string>;
+    tagOptions: ReadonlyArray<string>; // tags already in the catalog, for autocomplete
     xml: string;
     xmlLoading: boolean;
     parsing: boolean;
     errorText: string;
+    fileErrorText: string; // why the server rejected the MXL; shown under File Name
     saveOkText: string;
     statusTick: number;
 
@@ -29,17 +35,27 @@ type Props = {
     canDelete: boolean;
     deleting: boolean;
 
+    // Revision history of the selected song (newest first)
+    revisions: ReadonlyArray<SongRevisionItem>;
+    revisionsLoading: boolean;
+    revisionsError: string;
+    restoringRevisionId: number | null;
 
     // Handlers (controlled updates)
     onChangeTitle(value: string): void;
     onChangeComposerFirst(value: string): void;
     onChangeComposerLast(value: string): void;
+    onUseComposer(composer: ComposerMatchItem): void;
     onChangeLevel(value: string): void;
     onChangeXml(value: string): void;
+    onAddTag(tag: string): void;
+    onRemoveTag(tag: string): void;
     onPick: React.ChangeEventHandler<HTMLInputElement>;
     onSave(): void;
     onOpenViewer(): void;
     onDelete(): void;
+    onPreviewRevision(songRevisionId: number): void;
+    onRestoreRevision(songRevisionId: number): void;
 
     // Refs
     fileInputRef: React.RefObject<HTMLInputElement | null>;
@@ -56,15 +72,19 @@ export default function AdminSongEditPanel(props: Props): React.ReactElement {
         title,
         composerFirst,
         composerLast,
+        composerSuggestions,
         level,
         levels,
         levelsLoading,
         levelsError,
         fileName,
+        tags,
+        tagOptions,
         xml,
         xmlLoading,
         parsing,
         errorText,
+        fileErrorText,
         saveOkText,
         statusTick,
 
@@ -74,15 +94,25 @@ export default function AdminSongEditPanel(props: Props): React.ReactElement {
         canDelete,
         deleting,
 
+        revisions,
+        revisionsLoading,
+        revisionsError,
+        restoringRevisionId,
+
         onChangeTitle,
         onChangeComposerFirst,
         onChangeComposerLast,
+        onUseComposer,
         onChangeLevel,
         onChangeXml,
+        onAddTag,
+        onRemoveTag,
         onPick,
         onSave,
         onOpenViewer,
         onDelete,
+        onPreviewRevision,
+        onRestoreRevision,
 
         fileInputRef,
 
@@ -92,6 +122,16 @@ export default function AdminSongEditPanel(props: Props): React.ReactElement {
         xmlPreviewHeight,
     } = props;
 
+    // Text being typed into the tag box; Enter or a comma turns it into a tag
+    const [tagDraft, setTagDraft] = React.useState("");
+
+    const commitTag = (): void => {
+        if (tagDraft.trim()) {
+            onAddTag(tagDraft);
+        }
+        setTagDraft("");
+    };
+
     return (
         <section aria-label="Edit panel" style={{ marginTop: 8, background: "transparent" }}>
             <div
@@ -143,6 +183,37 @@ export default function AdminSongEditPanel(props: Props): React.ReactElement {
                         />
                     </div>
 
+                    {composerSuggestions.length > 0 && (
+                        <div style={{ gridColumn: "2", display: "flex", flexWrap: "wrap", alignItems: "center", gap: 6, fontSize: 12 }}>
+                            <span style={{ opacity: 0.8 }}>Already in the catalog:</span>
+                            {composerSuggestions.map((c) => {
+                                const name = [c.composer_first_name, c.composer_last_name].filter(Boolean).join(" ");
+                                const years = c.birth_year !== null || c.death_year !== null
+                                    ? ` (${c.birth_year ?? "?"}–${c.death_year ?? ""})`
+                                    : "";
+                                return (
+                                    <button
+                                        key={c.composer_id}
+                                        type="button"
+                                        onClick={() => { onUseComposer(c); }}
+                                        title="Use this composer's name"
+                                        style={{
+                                            padding: "2px 8px",
+                                            borderRadius: 10,
+                                            border: `1px solid ${T.border}`,
+                                            background: "transparent",
+                                            color: "inherit",
+                                            font: "inherit",
+                                            cursor: "pointer",
+                                        }}
+                                    >
+                                        {name}{years}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+
                     <label style={{ alignSelf: "center", fontWeight: 600 }}>Skill Level</label>
                     <select
                         value={level}
@@ -166,8 +237,88 @@ export default function AdminSongEditPanel(props: Props): React.ReactElement {
                         </div>
                     )}
 
+                    <label style={{ alignSelf: "center", fontWeight: 600 }}>Tags</label>
+                    <div
+                        style={{
+                            ...fieldCss,
+                            display: "flex",
+                            flexWrap: "wrap",
+                            alignItems: "center",
+                            gap: 4,
+                            padding: "4px 6px",
+                        }}
+                    >
+                        {tags.map((tag) => (
+                            <span
+                                key={tag}
+                                style={{
+                                    display: "inline-flex",
+                                    alignItems: "center",
+                                    gap: 2,
+                                    height: 24,
+                                    padding: "0 4px 0 8px",
+                                    borderRadius: 4,
+                                    border: `1px solid ${T.border}`,
+                                    fontSize: 12,
+                                }}
+                            >
+                                {tag}
+                                <button
+                                    type="button"
+                                    onClick={() => { onRemoveTag(tag); }}
+                                    aria-label={`Remove tag ${tag}`}
+                                    style={{ border: "none", background: "transparent", color: "inherit", cursor: "pointer", padding: "0 2px" }}
+                                >
+                                    ×
+                                </button>
+                            </span>
+                        ))}
+                        <input
+                            type="text"
+                            value={tagDraft}
+                            list="song-tag-options"
+                            onChange={(e) => {
+                                const v = e.target.value;
+                                if (v.includes(",")) {
+                                    v.split(",").forEach((part) => { if (part.trim()) { onAddTag(part); } });
+                                    setTagDraft("");
+                                } else {
+                                    setTagDraft(v);
+                                }
+                            }}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter") {
+                                    e.preventDefault();
+                                    commitTag();
+                                } else if (e.key === "Backspace" && tagDraft === "" && tags.length > 0) {
+                                    onRemoveTag(tags[tags.length - 1]!);
+                                }
+                            }}
+                            onBlur={commitTag}
+                            placeholder={tags.length === 0 ? "e.g. Baroque, Jazz, Sight-reading" : ""}
+                            aria-label="Add tag"
+                            maxLength={50}
+                            style={{ flex: "1 1 120px", minWidth: 80, border: "none", outline: "none", background: "transparent", color: "inherit", font: "inherit" }}
+                        />
+                        <datalist id="song-tag-options">
+                            {tagOptions.filter((o) => !tags.includes(o)).map((o) => <option key={o} value={o} />)}
+                        </datalist>
+                    </div>
+
                     <label style={{ alignSelf: "center", fontWeight: 600 }}>File Name</label>
-                    <input type="text" value={fileName} readOnly style={fieldCss} />
+                    <input
+                        type="text"
+                        value={fileName}
+                        readOnly
+                        aria-invalid={fileErrorText ? true : undefined}
+                        aria-describedby={fileErrorText ? "song-file-error" : undefined}
+                        style={fileErrorText ? { ...fieldCss, borderColor: "#ff6b6b" } : fieldCss}
+                    />
+                    {fileErrorText && (
+                        <div id="song-file-error" role="alert" style={{ gridColumn: 2, color: "#ff6b6b", fontSize: 13, marginTop: -4 }}>
+                            {fileErrorText}
+                        </div>
+                    )}
 
                     <label style={{ alignSelf: "start", fontWeight: 600, paddingTop: 6 }}>MusicXML</label>
                     <textarea
@@ -298,11 +449,104 @@ export default function AdminSongEditPanel(props: Props): React.ReactElement {
                             cursor: canDelete ? "pointer" : "not-allowed",
                             opacity: canDelete ? 1 : 0.5,
                         }}
-                        title={canDelete ? "Delete this song permanently" : "Delete unavailable"}
+                        title={canDelete ? "Move this song to the Trash" : "Delete unavailable"}
                     >
                         {deleting ? "Deleting…" : "Delete Song"}
                     </button>
                 </div>
+
+                {(revisionsLoading || revisionsError || revisions.length > 0) && (
+                    <div style={{ marginTop: 16 }}>
+                        <div style={{ fontWeight: 600, marginBottom: 6 }}>History</div>
+
+                        {revisionsError && (
+                            <div style={{ color: "#b00020", marginBottom: 6 }}>
+                                Failed to load history: {revisionsError}
+                            </div>
+                        )}
+                        {revisionsLoading && revisions.length === 0 && (
+                            <div style={{ opacity: 0.75 }}>Loading…</div>
+                        )}
+
+                        <ul
+                            aria-label="Revision history"
+                            style={{
+                                listStyle: "none",
+                                margin: 0,
+                                padding: 0,
+                                maxHeight: 180,
+                                overflowY: "auto",
+                                border: revisions.length > 0 ? `1px solid ${T.border}` : "none",
+                                borderRadius: 6,
+                            }}
+                        >
+                            {revisions.map((r, idx) => {
+                                const busy = restoringRevisionId !== null;
+                                const detail = [
+                                    r.uploaded_by_user_name ?? "unknown uploader",
+                                    `${Math.max(1, Math.round(r.mxl_bytes / 1024))} KB`,
+                                    r.restored_from_revision_id !== null ? `restored from #${r.restored_from_revision_id}` : "",
+                                ].filter(Boolean).join(" · ");
+                                return (
+                                    <li
+                                        key={r.song_revision_id}
+                                        style={{
+                                            display: "flex",
+                                            alignItems: "center",
+                                            gap: 10,
+                                            padding: "6px 8px",
+                                            borderTop: idx === 0 ? "none" : `1px solid ${T.border}`,
+                                            fontSize: 13,
+                                        }}
+                                    >
+                                        <span style={{ whiteSpace: "nowrap", fontVariantNumeric: "tabular-nums" }}>
+                                            #{r.song_revision_id} · {formatDateTime(r.inserted_datetime)}
+                                        </span>
+                                        <span
+                                            title={`${r.file_name} — ${detail}`}
+                                            style={{ flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", opacity: 0.8 }}
+                                        >
+                                            {r.file_name} — {detail}
+                                        </span>
+                                        {r.is_current && <span style={{ fontWeight: 600 }}>Current</span>}
+                                        <button
+                                            type="button"
+                                            onClick={() => { onPreviewRevision(r.song_revision_id); }}
+                                            style={{
+                                                padding: "2px 8px",
+                                                border: `1px solid ${T.border}`,
+                                                borderRadius: 6,
+                                                background: isDark ? "#1f1f1f" : "#fafafa",
+                                                color: isDark ? "#fff" : "#111",
+                                                cursor: "pointer",
+                                            }}
+                                        >
+                                            Preview
+                                        </button>
+                                        {!r.is_current && (
+                                            <button
+                                                type="button"
+                                                onClick={() => { onRestoreRevision(r.song_revision_id); }}
+                                                disabled={busy}
+                                                style={{
+                                                    padding: "2px 8px",
+                                                    border: `1px solid ${T.border}`,
+                                                    borderRadius: 6,
+                                                    background: isDark ? "#1f1f1f" : "#fafafa",
+                                                    color: isDark ? "#fff" : "#111",
+                                                    cursor: busy ? "not-allowed" : "pointer",
+                                                    opacity: busy ? 0.5 : 1,
+                                                }}
+                                            >
+                                                {restoringRevisionId === r.song_revision_id ? "Restoring…" : "Restore"}
+                                            </button>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </div>
+                )}
             </div>
         </section>
     );
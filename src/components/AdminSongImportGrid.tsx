@@ -0,0 +1,222 @@
+// src/components/AdminSongImportGrid.tsx
+"use client";
+
+import React from "react";
+import type { ThemeTokens } from "@/lib/theme";
+import type { SkillLevel } from "@/lib/skillLevelFetch";
+
+export type ImportRowState =
+    | "parsing"
+    | "ready"
+    | "parse_error"
+    | "saving"
+    | "saved"
+    | "conflict"
+    | "invalid"
+    | "failed";
+
+export type ImportRow = {
+    key: string;
+    sourceName: string;     // as dropped (archive entries keep their own name)
+    fileName: string;       // .mxl name the song is saved under
+    title: string;
+    composerFirst: string;
+    composerLast: string;
+    level: string;          // skill_level_number as string ("" = not chosen)
+    xmlText: string;
+    state: ImportRowState;
+    message: string;
+    songId: number | null;
+};
+
+export type ImportRowField = "title" | "composerFirst" | "composerLast" | "level";
+
+type Props = {
+    rows: ReadonlyArray<ImportRow>;
+    levels: ReadonlyArray<SkillLevel>;
+    busy: boolean;
+
+    onChangeField(key: string, field: ImportRowField, value: string): void;
+    onRemove(key: string): void;
+
+    gridCols: React.CSSProperties["gridTemplateColumns"];
+    tableMinPx: number;
+    rowPx: number;
+    visibleRowCount: number;
+    T: ThemeTokens;
+    fieldCss: React.CSSProperties;
+};
+
+const STATE_LABEL: Readonly<Record<ImportRowState, string>> = {
+    parsing: "Reading…",
+    ready: "Ready",
+    parse_error: "Unreadable",
+    saving: "Saving…",
+    saved: "Imported",
+    conflict: "Already exists",
+    invalid: "Invalid",
+    failed: "Failed",
+};
+
+const STATE_COLOR: Readonly<Partial<Record<ImportRowState, string>>> = {
+    parse_error: "#ff6b6b",
+    saved: "#2e7d32",
+    conflict: "#e6a100",
+    invalid: "#ff6b6b",
+    failed: "#ff6b6b",
+};
+
+const cell: React.CSSProperties = { overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" };
+
+export default function AdminSongImportGrid(props: Props): React.ReactElement {
+    const {
+        rows,
+        levels,
+        busy,
+        onChangeField,
+        onRemove,
+        gridCols,
+        tableMinPx,
+        rowPx,
+        visibleRowCount,
+        T,
+        fieldCss,
+    } = props;
+
+    const inputCss: React.CSSProperties = { ...fieldCss, height: rowPx - 6, padding: "0 6px", fontSize: 13, width: "100%", minWidth: 0 };
+
+    return (
+        <div style={{ width: "100%", overflowX: "auto" }}>
+            <div
+                style={{
+                    width: tableMinPx,
+                    maxWidth: "100%",
+                    margin: "0 auto",
+                    border: `1px solid ${T.border}`,
+                    borderRadius: 6,
+                    overflow: "hidden",
+                    background: T.bgCard,
+                }}
+            >
+                <div
+                    id="import-header"
+                    style={{
+                        display: "grid",
+                        gridTemplateColumns: gridCols,
+                        columnGap: 6,
+                        width: tableMinPx,
+                        padding: "8px 10px",
+                        background: T.headerBg,
+                        color: T.headerFg,
+                        borderBottom: `1px solid ${T.border}`,
+                        fontWeight: 600,
+                        fontSize: 13,
+                    }}
+                >
+                    <div>File</div>
+                    <div>Title</div>
+                    <div>Composer First</div>
+                    <div>Composer Last</div>
+                    <div>Level</div>
+                    <div>Status</div>
+                    <div />
+                </div>
+
+                <div
+                    style={{
+                        height: rowPx * visibleRowCount,
+                        overflowY: rows.length > visibleRowCount ? "auto" : "hidden",
+                    }}
+                >
+                    {rows.map((r, idx) => {
+                        const locked = busy || r.state === "parsing" || r.state === "saving" || r.state === "saved" || r.state === "parse_error";
+                        return (
+                            <div
+                                key={r.key}
+                                style={{
+                                    display: "grid",
+                                    gridTemplateColumns: gridCols,
+                                    columnGap: 6,
+                                    width: tableMinPx,
+                                    padding: "0 10px",
+                                    borderBottom: `1px solid ${T.border}`,
+                                    fontSize: 13,
+                                    alignItems: "center",
+                                    background: idx % 2 === 0 ? T.rowEven : T.rowOdd,
+                                    color: T.rowFg,
+                                    height: rowPx,
+                                }}
+                            >
+                                <div style={cell} title={r.sourceName === r.fileName ? r.fileName : `${r.sourceName} → ${r.fileName}`}>
+                                    {r.fileName}
+                                </div>
+                                <input
+                                    aria-label={`Title for ${r.fileName}`}
+                                    value={r.title}
+                                    disabled={locked}
+                                    onChange={(e) => { onChangeField(r.key, "title", e.target.value); }}
+                                    style={inputCss}
+                                />
+                                <input
+                                    aria-label={`Composer first name for ${r.fileName}`}
+                                    value={r.composerFirst}
+                                    disabled={locked}
+                                    onChange={(e) => { onChangeField(r.key, "composerFirst", e.target.value); }}
+                                    style={inputCss}
+                                />
+                                <input
+                                    aria-label={`Composer last name for ${r.fileName}`}
+                                    value={r.composerLast}
+                                    disabled={locked}
+                                    onChange={(e) => { onChangeField(r.key, "composerLast", e.target.value); }}
+                                    style={inputCss}
+                                />
+                                <select
+                                    aria-label={`Skill level for ${r.fileName}`}
+                                    value={r.level}
+                                    disabled={locked}
+                                    onChange={(e) => { onChangeField(r.key, "level", e.target.value); }}
+                                    style={{ ...inputCss, appearance: "auto" as const }}
+                                >
+                                    <option value="">—</option>
+                                    {levels.map((l) => (
+                                        <option key={l.number} value={String(l.number)}>{l.name}</option>
+                                    ))}
+                                </select>
+                                <div
+                                    style={{ ...cell, color: STATE_COLOR[r.state] }}
+                                    title={r.message || STATE_LABEL[r.state]}
+                                >
+                                    {STATE_LABEL[r.state]}{r.message ? `: ${r.message}` : ""}
+                                </div>
+                                <button
+                                    type="button"
+                                    onClick={() => { onRemove(r.key); }}
+                                    disabled={busy || r.state === "saving"}
+                                    aria-label={`Remove ${r.fileName}`}
+                                    title="Remove from this import"
+                                    style={{
+                                        background: "transparent",
+                                        border: "none",
+                                        color: "inherit",
+                                        cursor: busy ? "not-allowed" : "pointer",
+                                        fontSize: 15,
+                                        padding: 0,
+                                    }}
+                                >
+                                    ×
+                                </button>
+                            </div>
+                        );
+                    })}
+
+                    {rows.length === 0 && (
+                        <p style={{ margin: 0, padding: "12px 10px", fontSize: 13, color: T.rowFg, opacity: 0.75 }}>
+                            Drop .mxl / .musicxml files, a folder, or a .zip of them above.
+                        </p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
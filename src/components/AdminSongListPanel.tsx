@@ -3,8 +3,10 @@
 
 import React from "react";
 import { SONG_COL, type SongColToken } from "@/lib/songCols";
-import type { SongListItem } from "@/lib/types";
+import type { SongFacetsResponse, SongListItem } from "@/lib/types";
+import type { SongFacetFilter, SongFacetName } from "@/lib/songListFetch";
 import SortHeaderButton from "@/components/common/SortHeaderButton";
+import SongListFilterBar from "@/components/common/SongListFilterBar";
 import type { ThemeTokens } from "@/lib/theme";
 
 type SortDir = "asc" | "desc";
@@ -20,9 +22,27 @@ type Props = {
     sortDir: SortDir;
     onToggleSort(col: SongColToken): void;
 
+    // Filtering (server-side; empty = no filter)
+    search: string;
+    onSearchChange(text: string): void;
+    levels: ReadonlyArray<{ number: number; name: string }>;
+    selectedLevels: ReadonlyArray<number>;
+    onToggleLevel(levelNumber: number): void;
+    facets: SongFacetsResponse;
+    facetFilter: SongFacetFilter;
+    onFacetChange(name: SongFacetName, value: string): void;
+    selectedTags: ReadonlyArray<string>;
+    onToggleTag(tag: string): void;
+    onClearFilters(): void;
+
     // Row selection
     onRowClick(row: SongListItem): void;
 
+    // Paging (keyset; more rows load as the body nears its bottom)
+    hasMore: boolean;
+    loadingMore: boolean;
+    onLoadMore(): void;
+
     // Layout / theming (kept identical to AdminPage constants)
     gridCols: React.CSSProperties["gridTemplateColumns"];
     tableMinPx: number;
@@ -31,6 +51,9 @@ type Props = {
     T: ThemeTokens;
 };
 
+// Start fetching the next page this many rows before the end
+const LOAD_MORE_AHEAD_ROWS = 5;
+
 export default function AdminSongListPanel(props: Props): React.ReactElement {
     const {
         rows,
@@ -39,7 +62,21 @@ export default function AdminSongListPanel(props: Props): React.ReactElement {
         sort,
         sortDir,
         onToggleSort,
+        search,
+        onSearchChange,
+        levels,
+        selectedLevels,
+        onToggleLevel,
+        facets,
+        facetFilter,
+        onFacetChange,
+        selectedTags,
+        onToggleTag,
+        onClearFilters,
         onRowClick,
+        hasMore,
+        loadingMore,
+        onLoadMore,
         gridCols,
         tableMinPx,
         rowPx,
@@ -49,6 +86,22 @@ export default function AdminSongListPanel(props: Props): React.ReactElement {
 
     return (
         <section aria-label="Songs" style={{ marginTop: 0 }}>
+            <SongListFilterBar
+                search={search}
+                onSearchChange={onSearchChange}
+                levels={levels}
+                selectedLevels={selectedLevels}
+                onToggleLevel={onToggleLevel}
+                facets={facets}
+                facetFilter={facetFilter}
+                onFacetChange={onFacetChange}
+                selectedTags={selectedTags}
+                onToggleTag={onToggleTag}
+                onClearFilters={onClearFilters}
+                width={tableMinPx}
+                T={T}
+            />
+
             {listError && (
                 <p style={{ color: "#ff6b6b", margin: "4px 0 8px" }}>
                     Error: {listError}
@@ -132,6 +185,8 @@ export default function AdminSongListPanel(props: Props): React.ReactElement {
                             onToggle={onToggleSort}
                             label="Skill Level"
                         />
+                        <div>Key</div>
+                        <div>Time</div>
                         <SortHeaderButton<SongColToken>
                             col={SONG_COL.fileName}
                             curSort={sort}
@@ -151,7 +206,13 @@ export default function AdminSongListPanel(props: Props): React.ReactElement {
                             opacity: listLoading ? 0.7 : 1,
                             transition: "opacity 120ms linear",
                         }}
-                        aria-busy={listLoading}
+                        aria-busy={listLoading || loadingMore}
+                        onScroll={(e: React.UIEvent<HTMLDivElement>) => {
+                            const el = e.currentTarget;
+                            if (hasMore && !loadingMore && el.scrollTop + el.clientHeight >= el.scrollHeight - rowPx * LOAD_MORE_AHEAD_ROWS) {
+                                onLoadMore();
+                            }
+                        }}
                     >
                         {rows.map((r, idx) => {
                             const bg = (idx % 2 === 0) ? T.rowEven : T.rowOdd;
@@ -192,12 +253,28 @@ export default function AdminSongListPanel(props: Props): React.ReactElement {
                                         {r.song_title}
                                     </div>
                                     <div>{r.skill_level_name}</div>
+                                    <div style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                                        {r.key_signature || "\u2014"}
+                                    </div>
+                                    <div>{r.time_signature || "\u2014"}</div>
                                     <div style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
                                         {r.file_name || "\u2014"}
                                     </div>
                                 </div>
                             );
                         })}
+
+                        {loadingMore && (
+                            <p style={{ margin: 0, padding: "8px 10px", fontSize: 13, color: T.rowFg, opacity: 0.75 }}>
+                                Loading more…
+                            </p>
+                        )}
+
+                        {!listLoading && !listError && rows.length === 0 && (
+                            <p style={{ margin: 0, padding: "12px 10px", fontSize: 13, color: T.rowFg, opacity: 0.75 }}>
+                                {search.trim() || selectedLevels.length > 0 || selectedTags.length > 0 || Object.values(facetFilter).some((v) => v) ? "No songs match these filters." : "No songs yet."}
+                            </p>
+                        )}
                     </div>
                 </div>
             </div>
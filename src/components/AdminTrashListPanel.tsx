@@ -0,0 +1,193 @@
+// src/components/AdminTrashListPanel.tsx
+"use client";
+
+import React from "react";
+import type { TrashItem } from "@/lib/types";
+import type { ThemeTokens } from "@/lib/theme";
+import type { TrashItemType } from "@/lib/trashPolicy";
+import { formatDateTime } from "@/lib/dateUtils";
+
+type Props = {
+    rows: ReadonlyArray<TrashItem>;
+    listLoading: boolean;
+    listError: string;
+    retentionDays: number;
+
+    // Filter
+    typeFilter: TrashItemType | null;
+    onChangeTypeFilter(value: TrashItemType | null): void;
+
+    // Actions
+    busyKey: string | null;   // `${item_type}-${item_id}` while it is restored or deleted
+    onRestore(row: TrashItem): void;
+    onDeleteForever(row: TrashItem): void;
+    purging: boolean;
+    onPurgeExpired(): void;
+    okText: string;
+
+    // Layout / theming
+    gridCols: React.CSSProperties["gridTemplateColumns"];
+    tableMinPx: number;
+    rowPx: number;
+    visibleRowCount: number;
+    T: ThemeTokens;
+    fieldCss: React.CSSProperties;
+};
+
+const cell: React.CSSProperties = { overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" };
+
+export default function AdminTrashListPanel(props: Props): React.ReactElement {
+    const {
+        rows,
+        listLoading,
+        listError,
+        retentionDays,
+        typeFilter,
+        onChangeTypeFilter,
+        busyKey,
+        onRestore,
+        onDeleteForever,
+        purging,
+        onPurgeExpired,
+        okText,
+        gridCols,
+        tableMinPx,
+        rowPx,
+        visibleRowCount,
+        T,
+        fieldCss,
+    } = props;
+
+    const smallBtn: React.CSSProperties = { font: "inherit", fontSize: 12, cursor: "pointer" };
+    const now = Date.now();
+
+    return (
+        <section aria-label="Trash" style={{ marginTop: 8 }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 12, margin: "0 0 8px" }}>
+                <select
+                    value={typeFilter ?? ""}
+                    onChange={(e) => { onChangeTypeFilter(e.target.value === "song" || e.target.value === "user" ? e.target.value : null); }}
+                    aria-label="Filter by type"
+                    style={{ ...fieldCss, width: 160, appearance: "auto" as const }}
+                >
+                    <option value="">Songs and users</option>
+                    <option value="song">Songs</option>
+                    <option value="user">Users</option>
+                </select>
+                <span style={{ flex: 1, fontSize: 13, opacity: 0.75 }}>
+                    Deleted items are purged for good {retentionDays} days after deletion.
+                </span>
+                {okText && <span role="status" style={{ color: "#2e7d32", fontSize: 13 }}>{okText}</span>}
+                <button type="button" onClick={onPurgeExpired} disabled={purging || busyKey !== null} style={smallBtn}>
+                    {purging ? "Purging…" : "Purge expired now"}
+                </button>
+            </div>
+
+            {listError && (
+                <p style={{ color: "#ff6b6b", margin: "4px 0 8px" }}>
+                    Error: {listError}
+                </p>
+            )}
+
+            <div style={{ width: "100%", overflowX: "auto" }}>
+                <div
+                    style={{
+                        width: tableMinPx,
+                        maxWidth: "100%",
+                        margin: "0 auto",
+                        border: `1px solid ${T.border}`,
+                        borderRadius: 6,
+                        overflow: "hidden",
+                        background: T.bgCard,
+                    }}
+                >
+                    <div
+                        style={{
+                            display: "grid",
+                            gridTemplateColumns: gridCols,
+                            width: tableMinPx,
+                            padding: "8px 10px",
+                            background: T.headerBg,
+                            color: T.headerFg,
+                            borderBottom: `1px solid ${T.border}`,
+                            fontWeight: 600,
+                            fontSize: 13,
+                        }}
+                    >
+                        <div>Type</div>
+                        <div>Name</div>
+                        <div>Details</div>
+                        <div>Deleted</div>
+                        <div>Purged after</div>
+                        <div />
+                    </div>
+
+                    <div
+                        style={{
+                            height: rowPx * visibleRowCount,
+                            overflowY: rows.length > visibleRowCount ? "auto" : "hidden",
+                            opacity: listLoading ? 0.7 : 1,
+                            transition: "opacity 120ms linear",
+                        }}
+                        aria-busy={listLoading}
+                    >
+                        {rows.map((r, idx) => {
+                            const key = `${r.item_type}-${r.item_id}`;
+                            const expired = new Date(r.purge_datetime).getTime() <= now;
+                            return (
+                                <div
+                                    key={key}
+                                    style={{
+                                        display: "grid",
+                                        gridTemplateColumns: gridCols,
+                                        width: tableMinPx,
+                                        padding: "0 10px",
+                                        borderBottom: `1px solid ${T.border}`,
+                                        fontSize: 13,
+                                        alignItems: "center",
+                                        background: idx % 2 === 0 ? T.rowEven : T.rowOdd,
+                                        color: T.rowFg,
+                                        height: rowPx,
+                                    }}
+                                >
+                                    <div style={cell}>{r.item_type === "song" ? "Song" : "User"}</div>
+                                    <div style={cell} title={r.item_name}>{r.item_name}</div>
+                                    <div style={cell} title={r.item_detail}>{r.item_detail || "—"}</div>
+                                    <div style={cell}>{formatDateTime(r.deleted_datetime)}</div>
+                                    <div style={{ ...cell, color: expired ? "#b00020" : undefined }}>
+                                        {expired ? "Due now" : formatDateTime(r.purge_datetime)}
+                                    </div>
+                                    <div style={{ display: "flex", gap: 6, justifyContent: "flex-end" }}>
+                                        <button
+                                            type="button"
+                                            onClick={() => { onRestore(r); }}
+                                            disabled={busyKey !== null || purging}
+                                            style={smallBtn}
+                                        >
+                                            {busyKey === key ? "…" : "Restore"}
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => { onDeleteForever(r); }}
+                                            disabled={busyKey !== null || purging}
+                                            title="Delete now; this cannot be undone"
+                                            style={smallBtn}
+                                        >
+                                            Delete forever
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+
+                        {!listLoading && !listError && rows.length === 0 && (
+                            <p style={{ margin: 0, padding: "12px 10px", fontSize: 13, color: T.rowFg, opacity: 0.75 }}>
+                                The Trash is empty.
+                            </p>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </section>
+    );
+}
@@ -221,7 +221,7 @@ export default function AdminUserEditPanel(props: Props): React.ReactElement {
                             cursor: canDelete ? "pointer" : "not-allowed",
                             opacity: canDelete ? 1 : 0.5,
                         }}
-                        title={canDelete ? "Delete this user permanently" : "Delete unavailable"}
+                        title={canDelete ? "Move this user to the Trash" : "Delete unavailable"}
                     >
                         {deleting ? "Deleting…" : "Delete User"}
                     </button>
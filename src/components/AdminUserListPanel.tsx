@@ -24,6 +24,11 @@ type Props = {
   // Row selection
   onRowClick(row: UserListItem): void;
 
+  // Paging (keyset; more rows load as the body nears its bottom)
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore(): void;
+
   // Layout / theming (kept identical to AdminPage constants)
   gridCols: React.CSSProperties["gridTemplateColumns"];
   tableMinPx: number;
@@ -32,6 +37,9 @@ type Props = {
   T: ThemeTokens;
 };
 
+// Start fetching the next page this many rows before the end
+const LOAD_MORE_AHEAD_ROWS = 5;
+
 export default function AdminUserListPanel(props: Props): React.ReactElement {
   const {
     rows,
@@ -41,6 +49,9 @@ export default function AdminUserListPanel(props: Props): React.ReactElement {
     sortDir,
     onToggleSort,
     onRowClick,
+    hasMore,
+    loadingMore,
+    onLoadMore,
     gridCols,
     tableMinPx,
     rowPx,
@@ -159,7 +170,13 @@ export default function AdminUserListPanel(props: Props): React.ReactElement {
               opacity: listLoading ? 0.7 : 1,
               transition: "opacity 120ms linear",
             }}
-            aria-busy={listLoading}
+            aria-busy={listLoading || loadingMore}
+            onScroll={(e: React.UIEvent<HTMLDivElement>) => {
+              const el = e.currentTarget;
+              if (hasMore && !loadingMore && el.scrollTop + el.clientHeight >= el.scrollHeight - rowPx * LOAD_MORE_AHEAD_ROWS) {
+                onLoadMore();
+              }
+            }}
           >
             {rows.map((r, idx) => {
               const bg = (idx % 2 === 0) ? T.rowEven : T.rowOdd;
@@ -210,6 +227,12 @@ export default function AdminUserListPanel(props: Props): React.ReactElement {
                   </div>                </div>
               );
             })}
+
+            {loadingMore && (
+              <p style={{ margin: 0, padding: "8px 10px", fontSize: 13, color: T.rowFg, opacity: 0.75 }}>
+                Loading more…
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,156 @@
+// src/components/MyAssignmentsPanel.tsx
+"use client";
+
+import React from "react";
+import type { AssignmentItem } from "@/lib/types";
+import type { ThemeTokens } from "@/lib/theme";
+
+type Props = {
+    items: ReadonlyArray<AssignmentItem>;
+    loading: boolean;
+    error: string;
+    completingId: number | null;
+
+    onOpen(item: AssignmentItem): void;
+    onComplete(item: AssignmentItem): void;
+
+    width: number;   // match the song table below
+    T: ThemeTokens;
+};
+
+/** "YYYY-MM-DD" → local date label; past-due when before today */
+function dueLabel(due: string | null): { text: string; overdue: boolean } {
+    if (!due) {
+        return { text: "No due date", overdue: false };
+    }
+    const [y, m, d] = due.split("-").map(Number);
+    const date = new Date(y ?? 0, (m ?? 1) - 1, d ?? 1);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return {
+        text: `Due ${date.toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })}`,
+        overdue: date < today,
+    };
+}
+
+export default function MyAssignmentsPanel(props: Props): React.ReactElement {
+    const { items, loading, error, completingId, onOpen, onComplete, width, T } = props;
+
+    return (
+        <section
+            aria-label="My assignments"
+            style={{
+                width,
+                maxWidth: "100%",
+                margin: "0 auto",
+                border: `1px solid ${T.border}`,
+                borderRadius: 6,
+                background: T.bgCard,
+                color: T.fgCard,
+            }}
+        >
+            <h2
+                style={{
+                    margin: 0,
+                    padding: "8px 10px",
+                    fontSize: 14,
+                    fontWeight: 600,
+                    background: T.headerBg,
+                    color: T.headerFg,
+                    borderBottom: `1px solid ${T.border}`,
+                    borderRadius: "6px 6px 0 0",
+                }}
+            >
+                My assignments
+            </h2>
+
+            {error && (
+                <p style={{ color: "#ff6b6b", margin: 0, padding: "8px 10px", fontSize: 13 }}>
+                    Error: {error}
+                </p>
+            )}
+
+            {!error && !loading && items.length === 0 && (
+                <p style={{ margin: 0, padding: "10px", fontSize: 13, opacity: 0.75 }}>
+                    Nothing assigned right now.
+                </p>
+            )}
+
+            {loading && items.length === 0 && (
+                <p style={{ margin: 0, padding: "10px", fontSize: 13, opacity: 0.75 }}>Loading…</p>
+            )}
+
+            <ul style={{ listStyle: "none", margin: 0, padding: 0 }}>
+                {items.map((a, idx) => {
+                    const due = dueLabel(a.due_date);
+                    const composer = [a.composer_first_name, a.composer_last_name].filter(Boolean).join(" ");
+                    return (
+                        <li
+                            key={a.assignment_id}
+                            style={{
+                                display: "flex",
+                                alignItems: "center",
+                                gap: 10,
+                                padding: "8px 10px",
+                                background: idx % 2 === 0 ? T.rowEven : T.rowOdd,
+                                color: T.rowFg,
+                                borderTop: idx === 0 ? "none" : `1px solid ${T.border}`,
+                                fontSize: 13,
+                            }}
+                        >
+                            <button
+                                type="button"
+                                onClick={() => { onOpen(a); }}
+                                title="Open in a new tab"
+                                style={{
+                                    flex: 1,
+                                    minWidth: 0,
+                                    textAlign: "left",
+                                    background: "transparent",
+                                    border: "none",
+                                    padding: 0,
+                                    color: "inherit",
+                                    font: "inherit",
+                                    cursor: "pointer",
+                                }}
+                            >
+                                <div style={{ fontWeight: 600, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                                    {a.song_title}
+                                    {composer && <span style={{ fontWeight: 400, opacity: 0.8 }}> — {composer}</span>}
+                                </div>
+                                {a.assignment_notes && (
+                                    <div style={{ opacity: 0.8, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                                        {a.assignment_notes}
+                                    </div>
+                                )}
+                            </button>
+
+                            <span style={{ whiteSpace: "nowrap", color: due.overdue ? "#e53935" : undefined }}>
+                                {due.text}
+                            </span>
+
+                            <button
+                                type="button"
+                                onClick={() => { onComplete(a); }}
+                                disabled={completingId !== null}
+                                style={{
+                                    height: 26,
+                                    padding: "0 10px",
+                                    borderRadius: 6,
+                                    border: `1px solid ${T.border}`,
+                                    background: T.bgCard,
+                                    color: T.fgCard,
+                                    fontSize: 12,
+                                    cursor: completingId !== null ? "wait" : "pointer",
+                                    whiteSpace: "nowrap",
+                                }}
+                            >
+                                {completingId === a.assignment_id ? "Saving…" : "Mark done"}
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+        </section>
+    );
+}
@@ -0,0 +1,321 @@
+// src/components/MySetlistsPanel.tsx
+"use client";
+
+import React from "react";
+import type { SetlistItem, SetlistSongItem, SongListItem } from "@/lib/types";
+import type { ThemeTokens } from "@/lib/theme";
+
+// Setlist being created (setlist_id null) or edited; songs are in play order
+export type SetlistDraft = {
+    setlist_id: number | null;
+    setlist_name: string;
+    songs: ReadonlyArray<Omit<SetlistSongItem, "song_position">>;
+};
+
+type Props = {
+    items: ReadonlyArray<SetlistItem>;
+    loading: boolean;
+    error: string;
+    busyId: number | null;   // setlist being loaded for editing or deleted
+
+    onOpen(item: SetlistItem): void;
+    onEdit(item: SetlistItem): void;
+    onDelete(item: SetlistItem): void;
+    onNew(): void;
+
+    // Editor (null = closed)
+    draft: SetlistDraft | null;
+    onDraftNameChange(value: string): void;
+    onMoveSong(index: number, dir: 1 | -1): void;
+    onRemoveSong(index: number): void;
+    songQuery: string;
+    onSongQueryChange(value: string): void;
+    songOptions: ReadonlyArray<SongListItem>;
+    songOptionsLoading: boolean;
+    onAddSong(song: SongListItem): void;
+    saving: boolean;
+    onSave(): void;
+    onCancel(): void;
+
+    width: number;   // match the song table below
+    T: ThemeTokens;
+    fieldCss: React.CSSProperties;
+};
+
+function composerName(s: { composer_first_name: string; composer_last_name: string }): string {
+    return [s.composer_first_name, s.composer_last_name].filter(Boolean).join(" ");
+}
+
+export default function MySetlistsPanel(props: Props): React.ReactElement {
+    const {
+        items,
+        loading,
+        error,
+        busyId,
+        onOpen,
+        onEdit,
+        onDelete,
+        onNew,
+        draft,
+        onDraftNameChange,
+        onMoveSong,
+        onRemoveSong,
+        songQuery,
+        onSongQueryChange,
+        songOptions,
+        songOptionsLoading,
+        onAddSong,
+        saving,
+        onSave,
+        onCancel,
+        width,
+        T,
+        fieldCss,
+    } = props;
+
+    const smallBtn: React.CSSProperties = {
+        height: 26,
+        padding: "0 10px",
+        borderRadius: 6,
+        border: `1px solid ${T.border}`,
+        background: T.bgCard,
+        color: T.fgCard,
+        fontSize: 12,
+        cursor: "pointer",
+        whiteSpace: "nowrap",
+    };
+
+    const canSave = draft !== null && draft.setlist_name.trim().length > 0 && !saving;
+
+    return (
+        <section
+            aria-label="My setlists"
+            style={{
+                width,
+                maxWidth: "100%",
+                margin: "0 auto",
+                border: `1px solid ${T.border}`,
+                borderRadius: 6,
+                background: T.bgCard,
+                color: T.fgCard,
+            }}
+        >
+            <h2
+                style={{
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "space-between",
+                    margin: 0,
+                    padding: "8px 10px",
+                    fontSize: 14,
+                    fontWeight: 600,
+                    background: T.headerBg,
+                    color: T.headerFg,
+                    borderBottom: `1px solid ${T.border}`,
+                    borderRadius: "6px 6px 0 0",
+                }}
+            >
+                My setlists
+                {draft === null && (
+                    <button type="button" onClick={onNew} style={smallBtn}>
+                        New setlist
+                    </button>
+                )}
+            </h2>
+
+            {error && (
+                <p style={{ color: "#ff6b6b", margin: 0, padding: "8px 10px", fontSize: 13 }}>
+                    Error: {error}
+                </p>
+            )}
+
+            {draft !== null && (
+                <div style={{ display: "grid", gap: 8, padding: 10, fontSize: 13, borderBottom: `1px solid ${T.border}` }}>
+                    <input
+                        type="text"
+                        value={draft.setlist_name}
+                        onChange={(e) => { onDraftNameChange(e.target.value); }}
+                        placeholder="Setlist name (e.g. Spring recital)"
+                        aria-label="Setlist name"
+                        maxLength={200}
+                        style={fieldCss}
+                    />
+
+                    {draft.songs.length === 0 && (
+                        <div style={{ opacity: 0.75 }}>No songs yet; search below to add some.</div>
+                    )}
+                    <ol style={{ margin: 0, paddingLeft: 24, display: "grid", gap: 4 }}>
+                        {draft.songs.map((s, idx) => {
+                            const composer = composerName(s);
+                            return (
+                                <li key={`${idx}-${s.song_id}`}>
+                                    <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                                        <span
+                                            title={s.song_deleted ? "In the Trash: skipped when playing, back in place if restored" : undefined}
+                                            style={{ flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", opacity: s.song_deleted ? 0.6 : 1 }}
+                                        >
+                                            {s.song_title}
+                                            {composer && <span style={{ opacity: 0.8 }}> — {composer}</span>}
+                                            {s.song_deleted && <em> (in the Trash)</em>}
+                                        </span>
+                                        <button
+                                            type="button"
+                                            onClick={() => { onMoveSong(idx, -1); }}
+                                            disabled={idx === 0}
+                                            aria-label="Move up"
+                                            style={smallBtn}
+                                        >
+                                            ↑
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => { onMoveSong(idx, 1); }}
+                                            disabled={idx === draft.songs.length - 1}
+                                            aria-label="Move down"
+                                            style={smallBtn}
+                                        >
+                                            ↓
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => { onRemoveSong(idx); }}
+                                            aria-label="Remove"
+                                            style={smallBtn}
+                                        >
+                                            ✕
+                                        </button>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ol>
+
+                    <input
+                        type="search"
+                        value={songQuery}
+                        onChange={(e) => { onSongQueryChange(e.target.value); }}
+                        placeholder="Add a song: search title or composer…"
+                        aria-label="Search songs to add"
+                        style={fieldCss}
+                    />
+                    {songOptions.length > 0 && (
+                        <ul
+                            aria-busy={songOptionsLoading}
+                            style={{ listStyle: "none", margin: 0, padding: 0, maxHeight: 160, overflowY: "auto", border: `1px solid ${T.border}`, borderRadius: 6 }}
+                        >
+                            {songOptions.map((s, idx) => {
+                                const composer = composerName(s);
+                                return (
+                                    <li key={s.song_id}>
+                                        <button
+                                            type="button"
+                                            onClick={() => { onAddSong(s); }}
+                                            title="Add to the end of the setlist"
+                                            style={{
+                                                display: "block",
+                                                width: "100%",
+                                                textAlign: "left",
+                                                padding: "4px 8px",
+                                                border: "none",
+                                                background: idx % 2 === 0 ? T.rowEven : T.rowOdd,
+                                                color: T.rowFg,
+                                                font: "inherit",
+                                                cursor: "pointer",
+                                            }}
+                                        >
+                                            + {s.song_title}
+                                            {composer && <span style={{ opacity: 0.8 }}> — {composer}</span>}
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+
+                    <div style={{ display: "flex", justifyContent: "flex-end", gap: 6 }}>
+                        <button type="button" onClick={onCancel} disabled={saving} style={smallBtn}>
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={onSave}
+                            disabled={!canSave}
+                            style={{ ...smallBtn, fontWeight: 600, cursor: canSave ? "pointer" : "not-allowed" }}
+                        >
+                            {saving ? "Saving…" : "Save setlist"}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {!error && !loading && items.length === 0 && draft === null && (
+                <p style={{ margin: 0, padding: "10px", fontSize: 13, opacity: 0.75 }}>
+                    No setlists yet. Group songs in play order for a recital or lesson.
+                </p>
+            )}
+
+            {loading && items.length === 0 && (
+                <p style={{ margin: 0, padding: "10px", fontSize: 13, opacity: 0.75 }}>Loading…</p>
+            )}
+
+            <ul style={{ listStyle: "none", margin: 0, padding: 0 }}>
+                {items.map((s, idx) => (
+                    <li
+                        key={s.setlist_id}
+                        style={{
+                            display: "flex",
+                            alignItems: "center",
+                            gap: 10,
+                            padding: "8px 10px",
+                            background: idx % 2 === 0 ? T.rowEven : T.rowOdd,
+                            color: T.rowFg,
+                            borderTop: idx === 0 ? "none" : `1px solid ${T.border}`,
+                            fontSize: 13,
+                        }}
+                    >
+                        <button
+                            type="button"
+                            onClick={() => { onOpen(s); }}
+                            disabled={s.song_count === 0}
+                            title="Play in a new tab"
+                            style={{
+                                flex: 1,
+                                minWidth: 0,
+                                textAlign: "left",
+                                background: "transparent",
+                                border: "none",
+                                padding: 0,
+                                color: "inherit",
+                                font: "inherit",
+                                cursor: s.song_count === 0 ? "default" : "pointer",
+                                overflow: "hidden",
+                                textOverflow: "ellipsis",
+                                whiteSpace: "nowrap",
+                            }}
+                        >
+                            <span style={{ fontWeight: 600 }}>{s.setlist_name}</span>
+                            <span style={{ opacity: 0.8 }}> — {s.song_count} {s.song_count === 1 ? "song" : "songs"}</span>
+                        </button>
+
+                        <button
+                            type="button"
+                            onClick={() => { onEdit(s); }}
+                            disabled={busyId !== null || draft !== null}
+                            style={smallBtn}
+                        >
+                            {busyId === s.setlist_id && draft === null ? "…" : "Edit"}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => { onDelete(s); }}
+                            disabled={busyId !== null || draft !== null}
+                            style={smallBtn}
+                        >
+                            Delete
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </section>
+    );
+}
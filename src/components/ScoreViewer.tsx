@@ -2,8 +2,54 @@
 // src/components/ScoreViewer.tsx
 "use client";
 
-import React, { useCallback, useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { OpenSheetMusicDisplay } from "opensheetmusicdisplay";
+import ViewerControls, {
+  TEMPO_MAX_PCT,
+  TEMPO_MIN_PCT,
+  type AnnotateTool,
+  type LoopPick,
+  type PageTurn,
+  type PlayState,
+  type SpreadLayout,
+  type TurnMode,
+  type ViewerPart,
+} from "@/components/ViewerControls";
+import {
+  buildPlaybackTimeline,
+  createScoreSynth,
+  resolveLoopSpan,
+  stepIndexAt,
+  timelineEndSec,
+  type LoopRange,
+  type LoopSpan,
+  type PlaybackStep,
+  type ScoreSynth,
+} from "@/lib/scorePlayback";
+import {
+  DEFAULT_PDF_OPTIONS,
+  downloadPdf,
+  pageCssRule,
+  parsePdfOptions,
+  pdfFileName,
+  pdfPageBox,
+  PX_PER_PT,
+  renderScorePdf,
+  standaloneSvgMarkup,
+  type PdfExportOptions,
+  type SvgSlice,
+} from "@/lib/scorePdf";
+import {
+  activeKeyMap,
+  actionForKey,
+  DEFAULT_PAGE_KEYS,
+  parsePageKeyPref,
+  type PageKeyPref,
+} from "@/lib/pageTurnKeys";
+import { withTransposeParam } from "@/lib/transposePresets";
+import { readSongPref, readViewerPref, writeSongPref, writeViewerPref } from "@/lib/viewerPrefs";
+import { clearAnnotations, createAnnotation, deleteAnnotation, fetchAnnotations } from "@/lib/annotationFetch";
+import type { AnnotationItem } from "@/lib/types";
 
 /* ---------- Props & Types ---------- */
 
@@ -17,8 +63,26 @@ interface Props {
   debugShowAllMeasureNumbers?: boolean; // default: false (dev aid)
   /** show HUD/guide overlays (default: false) */
   debugOverlays?: boolean;
+  /** song_id, used to remember per-song viewer choices (e.g. hidden parts) */
+  songId?: number | string;
+  /** open at the page holding this measure number (wins over initialPage) */
+  initialMeasure?: number;
+  /** open at this 1-based page */
+  initialPage?: number;
+  /** open at the last page (setlist mode, paging back into the previous song) */
+  initialAtEnd?: boolean;
+  /** paging past the last page (1) or before the first (-1) calls this instead of wrapping around */
+  onPageEnd?: (dir: 1 | -1) => void;
+  /** print layout: every page stacked with header/footer for the browser's print dialog */
+  printMode?: boolean;
+  /** paper for print mode (default: Letter portrait, ½ in margins) */
+  printPaper?: PdfExportOptions;
+  /** running header in print mode */
+  printHeader?: PrintHeader;
 }
 
+export interface PrintHeader { title: string; composer: string; level: string }
+
 interface Band { top: number; bottom: number; height: number }
 
 // Type: function stored in a ref
@@ -1030,6 +1094,697 @@ function computePageStarts(
 }
 
 
+/** The score SVG and its unit-scale box, top relative to `outer` (same frame as the bands) */
+function svgGeometry(outer: HTMLDivElement): { svg: SVGSVGElement; top: number; width: number; height: number } | null {
+  return withSvgAtUnitScale(outer, (svg) => {
+    const r = svg.getBoundingClientRect();
+    return { svg, top: r.top - outer.getBoundingClientRect().top, width: r.width, height: r.height };
+  });
+}
+
+
+/** Page slices (SVG-local px) for starts[]: cut just above the next page's first system, or past the last */
+function pageSlices(bands: Band[], starts: number[], pageHeightPx: number, svgTop: number): SvgSlice[] {
+  return starts.map((startIdx, p) => {
+    const top = Math.ceil(bands[startIdx]!.top);
+    const nextIdx = starts[p + 1];
+    const lastBottom = Math.ceil(bands[(nextIdx ?? bands.length) - 1]!.bottom);
+    const bottom = nextIdx !== undefined
+      ? Math.max(lastBottom, Math.min(Math.floor(bands[nextIdx]!.top) - 1, top + pageHeightPx))
+      : lastBottom + REFLOW.MASK_BOTTOM_SAFETY_PX;
+    return { top: top - svgTop, height: Math.max(1, bottom - top) };
+  });
+}
+
+
+/* ---------- Print mode ---------- */
+
+// Running header / footer heights inside each printed page (CSS px)
+const PRINT = {
+  HEADER_PX: 40,
+  FOOTER_PX: 24,
+  SAFETY_PX: 4,   // keeps rounding from spilling a page onto a second sheet
+} as const;
+
+interface PrintLayout {
+  markup: string;          // the score SVG, once; every page shows a window of it
+  scale: number;           // SVG px → printed px
+  slices: SvgSlice[];
+}
+
+// Everything that only makes sense on an interactive screen
+const PRINT_HIDDEN_LAYERS = [
+  "[data-viewer-mask='1']",
+  "[data-viewer-bottomcutter='1']",
+  "[data-viewer-topcutter='1']",
+  "[data-viewer-looplayer='1']",
+  "[data-viewer-playcursor='1']",
+  "[data-viewer-debug='1']",
+  "[data-viewer-hud='1']",
+  "[data-viewer-edgelines='1']",
+].join(", ");
+
+
+/* ---------- Playback cursor helpers ---------- */
+
+// Audio scheduling: how far ahead we hand notes to the synth, and how often we look
+const PLAYBACK = {
+  LOOKAHEAD_SEC: 0.15,
+  TICK_MS: 25,
+  START_DELAY_SEC: 0.08,   // small lead so the first note isn't clipped
+} as const;
+
+interface NoteBox { left: number; top: number; right: number; bottom: number }
+
+/** Union of the engraved notes under the OSMD cursor, relative to `outer`.
+ *  Call inside withSvgAtUnitScale so Y is in band (unit-scale) coordinates. */
+function cursorNotesBox(
+  outer: HTMLDivElement,
+  cursor: OpenSheetMusicDisplay["cursor"]
+): NoteBox | null {
+  type HasSvgG = { getSVGGElement?: () => SVGGElement | null | undefined };
+  const hostRect = outer.getBoundingClientRect();
+
+  let box: NoteBox | null = null;
+  let gNotes: unknown[] = [];
+  try { gNotes = cursor.GNotesUnderCursor() ?? []; } catch { return null; }
+
+  for (const gn of gNotes) {
+    const el = (gn as HasSvgG | null)?.getSVGGElement?.();
+    if (!el) { continue; }
+    const r = el.getBoundingClientRect();
+    if (!Number.isFinite(r.top) || r.width <= 0 || r.height <= 0) { continue; }
+
+    const left = r.left - hostRect.left;
+    const top = r.top - hostRect.top;
+    const right = r.right - hostRect.left;
+    const bottom = r.bottom - hostRect.top;
+    box = box
+      ? {
+        left: Math.min(box.left, left),
+        top: Math.min(box.top, top),
+        right: Math.max(box.right, right),
+        bottom: Math.max(box.bottom, bottom),
+      }
+      : { left, top, right, bottom };
+  }
+  return box;
+}
+
+/** Band that contains y (or the first band below it); -1 when there are no bands */
+function bandIndexForY(bands: Band[], y: number): number {
+  if (!bands.length) { return -1; }
+  for (let i = 0; i < bands.length; i++) {
+    if (y <= bands[i]!.bottom) { return i; }
+  }
+  return bands.length - 1;
+}
+
+/** Page whose band range contains bandIdx */
+function pageIndexForBand(starts: number[], bandIdx: number): number {
+  let p = 0;
+  for (let i = 0; i < starts.length; i++) {
+    if (starts[i]! <= bandIdx) { p = i; } else { break; }
+  }
+  return p;
+}
+
+function drawPlayCursor(
+  outer: HTMLDivElement,
+  rect: { left: number; top: number; width: number; height: number }
+): void {
+  let el = outer.querySelector<HTMLDivElement>("[data-viewer-playcursor='1']");
+  if (!el) {
+    el = document.createElement("div");
+    el.dataset.viewerPlaycursor = "1";
+    Object.assign(el.style, {
+      position: "absolute",
+      background: "rgba(25,118,210,0.18)",
+      borderLeft: "2px solid rgba(25,118,210,0.85)",
+      borderRadius: "2px",
+      pointerEvents: "none",
+      zIndex: "5", // under the cutters (6) and mask (10) so it never shows past the page
+    } as CSSStyleDeclaration);
+    outer.appendChild(el);
+  }
+  el.style.display = "block";
+  el.style.left = `${Math.round(rect.left)}px`;
+  el.style.top = `${Math.round(rect.top)}px`;
+  el.style.width = `${Math.max(4, Math.round(rect.width))}px`;
+  el.style.height = `${Math.max(4, Math.round(rect.height))}px`;
+}
+
+function clearPlayCursor(outer: HTMLDivElement): void {
+  const el = outer.querySelector<HTMLDivElement>("[data-viewer-playcursor='1']");
+  if (el) { el.style.display = "none"; }
+}
+
+/** Measure number (OSMD `g.vf-measure` id) under a client point, ignoring masked-off music */
+function measureNumberAtPoint(outer: HTMLDivElement, clientX: number, clientY: number): number | null {
+  const mask = outer.querySelector<HTMLDivElement>("[data-viewer-mask='1']");
+  if (mask) {
+    const m = mask.getBoundingClientRect();
+    if (clientY >= m.top && clientX >= m.left && clientX <= m.right) { return null; }
+  }
+
+  // Includes the right-hand page's copy in a spread; its measures only count inside its clip
+  const measures = outer.querySelectorAll<SVGGElement>("g.vf-measure");
+  for (const g of Array.from(measures)) {
+    const clip = g.closest("[data-viewer-spreadpage='1']");
+    if (clip) {
+      const c = clip.getBoundingClientRect();
+      if (clientY < c.top || clientY > c.bottom || clientX < c.left || clientX > c.right) { continue; }
+    }
+    const r = g.getBoundingClientRect();
+    if (clientX >= r.left && clientX <= r.right && clientY >= r.top && clientY <= r.bottom) {
+      const n = Number(g.id);
+      if (Number.isFinite(n)) { return n; }
+    }
+  }
+  return null;
+}
+
+/** Measure number → index of the first system band it appears in (unit-scale scan) */
+function scanMeasureBands(outer: HTMLDivElement, bands: Band[]): Map<number, number> {
+  const map = new Map<number, number>();
+  if (!bands.length) { return map; }
+  const hostTop = outer.getBoundingClientRect().top;
+
+  withSvgAtUnitScale(outer, (root) => {
+    for (const g of Array.from(root.querySelectorAll<SVGGElement>("g.vf-measure"))) {
+      const n = Number(g.id);
+      if (!Number.isFinite(n)) { continue; }
+      const r = g.getBoundingClientRect();
+      if (!(r.height > 0)) { continue; }
+      const bandIdx = bandIndexForY(bands, (r.top + r.bottom) / 2 - hostTop);
+      const prev = map.get(n);
+      if (bandIdx >= 0 && (prev === undefined || bandIdx < prev)) {
+        map.set(n, bandIdx);
+      }
+    }
+  });
+  return map;
+}
+
+/** Tint the measures of the A/B loop. Boxes are in unit-scale (band) coordinates;
+ *  the layer follows the SVG's page translate (see applyPage). */
+function drawLoopLayer(outer: HTMLDivElement, loop: LoopRange | null): void {
+  outer.querySelectorAll("[data-viewer-looplayer='1']").forEach((n) => n.remove());
+  const svg = getSvg(outer);
+  if (!loop || !svg) { return; }
+
+  const hostRect = outer.getBoundingClientRect();
+  const boxes = withSvgAtUnitScale(outer, (root) =>
+    Array.from(root.querySelectorAll<SVGGElement>("g.vf-measure"))
+      .filter((g) => {
+        const n = Number(g.id);
+        return Number.isFinite(n) && n >= loop.startMeasure && n <= loop.endMeasure;
+      })
+      .map((g) => g.getBoundingClientRect())
+      .filter((r) => r.width > 0 && r.height > 0)
+      .map((r) => ({
+        left: r.left - hostRect.left,
+        top: r.top - hostRect.top,
+        width: r.width,
+        height: r.height,
+      }))
+  ) ?? [];
+  if (!boxes.length) { return; }
+
+  const layer = document.createElement("div");
+  layer.dataset.viewerLooplayer = "1";
+  Object.assign(layer.style, {
+    position: "absolute",
+    left: "0",
+    top: "0",
+    width: "0",
+    height: "0",
+    overflow: "visible",
+    pointerEvents: "none",
+    zIndex: "4",
+    transformOrigin: "top left",
+    transform: svg.style.transform,
+  } as CSSStyleDeclaration);
+
+  for (const b of boxes) {
+    const d = document.createElement("div");
+    Object.assign(d.style, {
+      position: "absolute",
+      left: `${Math.round(b.left)}px`,
+      top: `${Math.round(b.top)}px`,
+      width: `${Math.round(b.width)}px`,
+      height: `${Math.round(b.height)}px`,
+      background: "rgba(255,193,7,0.18)",
+    } as CSSStyleDeclaration);
+    layer.appendChild(d);
+  }
+  outer.appendChild(layer);
+  syncSpreadOverlays(outer);
+}
+
+/* ---------- Two-page spread ---------- */
+
+// Book layout: page N is the live SVG in the left column, N+1 a copy of it in the right one
+const SPREAD = {
+  MIN_ASPECT: 1.3,      // wrapper width / height at which "auto" goes two-up
+  MIN_COLUMN_W: 480,    // …as long as each page stays at least this wide
+  GUTTER_PX: 24,
+} as const;
+
+function spreadColumnWidth(outerW: number): number {
+  return Math.max(1, Math.floor((outerW - SPREAD.GUTTER_PX) / 2));
+}
+
+function wantsSpread(outer: HTMLDivElement, layout: SpreadLayout): boolean {
+  if (layout === "single") { return false; }
+  const w = outer.clientWidth;
+  const h = outer.clientHeight;
+  const colW = spreadColumnWidth(w);
+  if (layout === "spread") { return colW >= REFLOW.MIN_LAYOUT_W; }
+  return colW >= SPREAD.MIN_COLUMN_W && h > 0 && w / h >= SPREAD.MIN_ASPECT;
+}
+
+/** How far below its first system page p is shown: just above the next page's first system
+ *  (so nothing peeks), or a safety pad past the last system on the final page; at most pageH. */
+function pageMaskTop(bands: Band[], starts: number[], p: number, pageH: number): number {
+  const ySnap = Math.ceil(bands[starts[p] ?? 0]?.top ?? 0);
+  const nextStartIndex = p + 1 < starts.length ? starts[p + 1]! : -1;
+  if (nextStartIndex >= 0) {
+    const nextTopRel = bands[nextStartIndex]!.top - ySnap;
+    return Math.min(pageH, Math.max(0, Math.floor(nextTopRel) - 1));
+  }
+  const lastRel = bands[bands.length - 1]!.bottom - ySnap;
+  return Math.min(pageH, Math.max(0, Math.ceil(lastRel) + REFLOW.MASK_BOTTOM_SAFETY_PX));
+}
+
+/**
+ * Right-hand page of the spread: a copy of the live SVG (rebuilt when `generation` changes),
+ * translated like applyPage translates the original and clipped at that page's mask line.
+ * null removes it.
+ */
+function drawSpreadPage(
+  outer: HTMLDivElement,
+  page: { generation: number; translateY: number; heightPx: number } | null
+): void {
+  let clip = outer.querySelector<HTMLDivElement>("[data-viewer-spreadpage='1']");
+  const svg = getSvg(outer); // the live one: the host comes first in the wrapper
+  if (!page || !svg) {
+    clip?.remove();
+    return;
+  }
+
+  const colW = spreadColumnWidth(outer.clientWidth);
+  if (!clip) {
+    clip = document.createElement("div");
+    clip.dataset.viewerSpreadpage = "1";
+    Object.assign(clip.style, {
+      position: "absolute",
+      top: "0",
+      overflow: "hidden",
+      background: "#fff",
+      pointerEvents: "none",
+      zIndex: "3", // above the host, under the loop layer (4), cursor (5), cutters (6)
+    } as CSSStyleDeclaration);
+    outer.appendChild(clip);
+  }
+  clip.style.left = `${colW + SPREAD.GUTTER_PX}px`;
+  clip.style.width = `${colW}px`;
+  clip.style.height = `${Math.max(0, Math.floor(page.heightPx))}px`;
+
+  let shift = clip.firstElementChild as HTMLDivElement | null;
+  if (!shift || clip.dataset.viewerGen !== String(page.generation)) {
+    const at = withSvgAtUnitScale(outer, (s) => {
+      const r = s.getBoundingClientRect();
+      const o = outer.getBoundingClientRect();
+      return { left: r.left - o.left, top: r.top - o.top };
+    }) ?? { left: 0, top: 0 };
+
+    const copy = svg.cloneNode(true) as SVGSVGElement;
+    Object.assign(copy.style, {
+      position: "absolute",
+      left: `${at.left}px`,
+      top: `${at.top}px`,
+      transform: "none",
+      willChange: "auto",
+    } as CSSStyleDeclaration);
+
+    shift = document.createElement("div");
+    Object.assign(shift.style, {
+      position: "absolute",
+      left: "0",
+      top: "0",
+      width: "0",
+      height: "0",
+      overflow: "visible",
+    } as CSSStyleDeclaration);
+    shift.appendChild(copy);
+    clip.replaceChildren(shift);
+    clip.dataset.viewerGen = String(page.generation);
+  }
+  shift.style.transform = `translateY(${page.translateY}px)`;
+  syncSpreadOverlays(outer);
+}
+
+// Layers drawn over the music in unit-scale coordinates (they follow the SVG's page translate)
+const MUSIC_OVERLAYS = ["[data-viewer-looplayer='1']", "[data-viewer-annotationlayer='1']"] as const;
+
+/** Mirror the A/B loop tint and the markings onto the right-hand page (same unit-scale boxes, page's own translate) */
+function syncSpreadOverlays(outer: HTMLDivElement): void {
+  const shift = outer.querySelector<HTMLDivElement>("[data-viewer-spreadpage='1'] > div");
+  if (!shift) { return; }
+  for (const sel of MUSIC_OVERLAYS) {
+    shift.querySelectorAll(sel).forEach((n) => n.remove());
+
+    const layer = outer.querySelector<HTMLDivElement>(`:scope > ${sel}`);
+    if (!layer) { continue; }
+    const copy = layer.cloneNode(true) as HTMLDivElement;
+    copy.style.transform = "none";
+    shift.appendChild(copy);
+  }
+}
+
+/* ---------- Annotations ---------- */
+
+// Markings are stored against (measure, part, staff) with positions as fractions of that staff's
+// box in the measure, so they land on the same notes after reflow, zoom or a different screen.
+// OSMD draws one g.vf-measure per staff per measure, staves top to bottom; the n-th one of a
+// measure is the n-th staff of the visible parts.
+
+interface StaffKey { partId: string; staffNumber: number }
+
+function visibleStaffKeys(osmd: OpenSheetMusicDisplay): StaffKey[] {
+  const out: StaffKey[] = [];
+  for (const inst of osmd.Sheet?.Instruments ?? []) {
+    if (!inst.Visible) { continue; }
+    inst.Staves.forEach((staff, i) => {
+      if (staff.Visible) { out.push({ partId: inst.IdString, staffNumber: i + 1 }); }
+    });
+  }
+  return out;
+}
+
+interface AnnotationAnchor { measure: number; partId: string; staffNumber: number; rect: DOMRect }
+
+/** Is this point on music the viewer currently shows (not under the mask, inside the right page's clip)? */
+function isShownMusicPoint(outer: HTMLDivElement, g: Element, x: number, y: number): boolean {
+  const mask = outer.querySelector<HTMLDivElement>("[data-viewer-mask='1']");
+  if (mask && !g.closest("[data-viewer-spreadpage='1']")) {
+    const m = mask.getBoundingClientRect();
+    if (y >= m.top && x >= m.left && x <= m.right) { return false; }
+  }
+  const clip = g.closest("[data-viewer-spreadpage='1']");
+  if (clip) {
+    const c = clip.getBoundingClientRect();
+    if (y < c.top || y > c.bottom || x < c.left || x > c.right) { return false; }
+  }
+  return true;
+}
+
+/** The staff (in a measure) a marking at this client point belongs to: the one under it, else the nearest shown */
+function annotationAnchorAt(
+  outer: HTMLDivElement,
+  keys: StaffKey[],
+  clientX: number,
+  clientY: number
+): AnnotationAnchor | null {
+  let best: AnnotationAnchor | null = null;
+  let bestDist = Infinity;
+  for (const svg of Array.from(outer.querySelectorAll("svg"))) {
+    const seen = new Map<number, number>(); // measure → staves passed so far in this svg
+    for (const g of Array.from(svg.querySelectorAll<SVGGElement>("g.vf-measure"))) {
+      const measure = Number(g.id);
+      if (!Number.isFinite(measure)) { continue; }
+      const staffIdx = seen.get(measure) ?? 0;
+      seen.set(measure, staffIdx + 1);
+
+      const key = keys[staffIdx];
+      const r = g.getBoundingClientRect();
+      if (!key || !(r.width > 0) || !(r.height > 0)) { continue; }
+      const cx = Math.max(r.left, Math.min(clientX, r.right));
+      const cy = Math.max(r.top, Math.min(clientY, r.bottom));
+      if (!isShownMusicPoint(outer, g, cx, cy)) { continue; }
+
+      const dist = Math.hypot(clientX - cx, clientY - cy);
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = { measure, partId: key.partId, staffNumber: key.staffNumber, rect: r };
+      }
+    }
+  }
+  return best;
+}
+
+const ANNOTATION_STYLE = {
+  COLOR: "#c62828",
+  STROKE_W: 0.05,   // × staff box height
+  FONT_SIZE: 0.55,  // × staff box height
+} as const;
+
+/** Draw the markings over the live SVG. Boxes are in unit-scale (band) coordinates;
+ *  the layer follows the SVG's page translate (see applyPage), like the loop tint. */
+function drawAnnotationLayer(outer: HTMLDivElement, items: ReadonlyArray<AnnotationItem>, keys: StaffKey[]): void {
+  outer.querySelectorAll("[data-viewer-annotationlayer='1']").forEach((n) => n.remove());
+  const svg = getSvg(outer);
+  if (!svg || !items.length) {
+    syncSpreadOverlays(outer);
+    return;
+  }
+
+  // "measure:part:staff" → unit-scale box of that staff in that measure
+  const hostRect = outer.getBoundingClientRect();
+  const boxes = withSvgAtUnitScale(outer, (root) => {
+    const map = new Map<string, { left: number; top: number; width: number; height: number }>();
+    const seen = new Map<number, number>();
+    for (const g of Array.from(root.querySelectorAll<SVGGElement>("g.vf-measure"))) {
+      const measure = Number(g.id);
+      if (!Number.isFinite(measure)) { continue; }
+      const staffIdx = seen.get(measure) ?? 0;
+      seen.set(measure, staffIdx + 1);
+      const key = keys[staffIdx];
+      const r = g.getBoundingClientRect();
+      if (!key || !(r.width > 0) || !(r.height > 0)) { continue; }
+      map.set(`${measure}:${key.partId}:${key.staffNumber}`, {
+        left: r.left - hostRect.left,
+        top: r.top - hostRect.top,
+        width: r.width,
+        height: r.height,
+      });
+    }
+    return map;
+  });
+  if (!boxes) { return; }
+
+  const NS = "http://www.w3.org/2000/svg";
+  const layer = document.createElement("div");
+  layer.dataset.viewerAnnotationlayer = "1";
+  Object.assign(layer.style, {
+    position: "absolute",
+    left: "0",
+    top: "0",
+    width: "0",
+    height: "0",
+    overflow: "visible",
+    pointerEvents: "none",
+    zIndex: "4",
+    transformOrigin: "top left",
+    transform: svg.style.transform,
+  } as CSSStyleDeclaration);
+  const canvas = document.createElementNS(NS, "svg");
+  canvas.setAttribute("width", "1");
+  canvas.setAttribute("height", "1");
+  canvas.style.overflow = "visible";
+  canvas.style.position = "absolute";
+  layer.appendChild(canvas);
+
+  // Markings on a hidden part (or a measure that isn't drawn) simply don't show
+  for (const a of items) {
+    const box = boxes.get(`${a.measure_number}:${a.part_id}:${a.staff_number}`);
+    if (!box) { continue; }
+    const px = (x: number) => (box.left + x * box.width).toFixed(1);
+    const py = (y: number) => (box.top + y * box.height).toFixed(1);
+    const d = a.annotation_data;
+
+    if (a.annotation_kind === "stroke" && d.points?.length) {
+      const path = document.createElementNS(NS, "path");
+      const pts = d.points.length === 1 ? [d.points[0]!, d.points[0]!] : d.points;
+      path.setAttribute("d", pts.map(([x, y], i) => `${i ? "L" : "M"}${px(x)} ${py(y)}`).join(" "));
+      path.setAttribute("fill", "none");
+      path.setAttribute("stroke", ANNOTATION_STYLE.COLOR);
+      path.setAttribute("stroke-width", String(Math.max(1.5, box.height * ANNOTATION_STYLE.STROKE_W)));
+      path.setAttribute("stroke-linecap", "round");
+      path.setAttribute("stroke-linejoin", "round");
+      path.dataset.annotationId = String(a.annotation_id);
+      canvas.appendChild(path);
+    } else if (a.annotation_kind === "text" && d.text && d.x !== undefined && d.y !== undefined) {
+      const text = document.createElementNS(NS, "text");
+      text.setAttribute("x", px(d.x));
+      text.setAttribute("y", py(d.y));
+      text.setAttribute("fill", ANNOTATION_STYLE.COLOR);
+      text.setAttribute("font-size", String(Math.max(10, box.height * ANNOTATION_STYLE.FONT_SIZE)));
+      text.setAttribute("font-family", "system-ui, sans-serif");
+      text.setAttribute("font-style", "italic");
+      text.textContent = d.text;
+      text.dataset.annotationId = String(a.annotation_id);
+      canvas.appendChild(text);
+    }
+  }
+  outer.appendChild(layer);
+  syncSpreadOverlays(outer);
+}
+
+/** Markings drawn within a few px of a client point (the eraser's target), topmost last */
+function annotationIdsAtPoint(outer: HTMLDivElement, clientX: number, clientY: number): number[] {
+  const SLOP_PX = 6;
+  const out: number[] = [];
+  for (const el of Array.from(outer.querySelectorAll<SVGGraphicsElement>("[data-viewer-annotationlayer='1'] [data-annotation-id]"))) {
+    const r = el.getBoundingClientRect();
+    if (!isShownMusicPoint(outer, el, clientX, clientY)) { continue; }
+    if (
+      clientX >= r.left - SLOP_PX && clientX <= r.right + SLOP_PX &&
+      clientY >= r.top - SLOP_PX && clientY <= r.bottom + SLOP_PX
+    ) {
+      out.push(Number(el.dataset.annotationId));
+    }
+  }
+  return out;
+}
+
+/** In-progress pencil stroke, in outer-relative client px (dropped once the stroke is saved) */
+function drawDraftStroke(outer: HTMLDivElement, points: ReadonlyArray<readonly [number, number]> | null): void {
+  let el = outer.querySelector<SVGSVGElement>(":scope > [data-viewer-annotationdraft='1']");
+  if (!points || !points.length) {
+    el?.remove();
+    return;
+  }
+  const NS = "http://www.w3.org/2000/svg";
+  if (!el) {
+    el = document.createElementNS(NS, "svg");
+    el.dataset.viewerAnnotationdraft = "1";
+    Object.assign(el.style, {
+      position: "absolute",
+      left: "0",
+      top: "0",
+      width: "100%",
+      height: "100%",
+      pointerEvents: "none",
+      zIndex: "7", // over the cutters while drawing
+    } as CSSStyleDeclaration);
+    const path = document.createElementNS(NS, "path");
+    path.setAttribute("fill", "none");
+    path.setAttribute("stroke", ANNOTATION_STYLE.COLOR);
+    path.setAttribute("stroke-width", "2");
+    path.setAttribute("stroke-linecap", "round");
+    path.setAttribute("stroke-linejoin", "round");
+    el.appendChild(path);
+    outer.appendChild(el);
+  }
+  const o = outer.getBoundingClientRect();
+  el.firstElementChild?.setAttribute(
+    "d",
+    points.map(([x, y], i) => `${i ? "L" : "M"}${(x - o.left).toFixed(1)} ${(y - o.top).toFixed(1)}`).join(" ")
+  );
+}
+
+/* ---------- Half-page turn ---------- */
+
+// A half turn shows the end of page p at the top of the screen and the start of p + 1 under it,
+// so a performer can read on while the rest of the next page is still to come
+
+/** First system of page p reaching into the lower half of its music (the half-turn view starts there);
+ *  null on the last page or a page with a single system */
+function halfTurnStart(bands: Band[], starts: number[], p: number): number | null {
+  const s = starts[p];
+  const next = starts[p + 1];
+  if (s === undefined || next === undefined || next - s < 2) { return null; }
+  const mid = (bands[s]!.top + bands[next - 1]!.bottom) / 2;
+  for (let i = s + 1; i < next; i++) {
+    if (bands[i]!.bottom > mid) { return i; }
+  }
+  return next - 1;
+}
+
+/** Mask line and last whole system for a view starting at band `from`, filled with as many systems as fit in pageH */
+function halfTurnView(bands: Band[], from: number, pageH: number): { maskTop: number; lastIdx: number } {
+  const ySnap = Math.ceil(bands[from]?.top ?? 0);
+  for (let i = from + 1; i < bands.length; i++) {
+    if (bands[i]!.bottom - ySnap > pageH) {
+      return { maskTop: Math.min(pageH, Math.max(0, Math.floor(bands[i]!.top - ySnap) - 1)), lastIdx: i - 1 };
+    }
+  }
+  const lastRel = bands[bands.length - 1]!.bottom - ySnap;
+  return {
+    maskTop: Math.min(pageH, Math.max(0, Math.ceil(lastRel) + REFLOW.MASK_BOTTOM_SAFETY_PX)),
+    lastIdx: bands.length - 1,
+  };
+}
+
+/* ---------- Part visibility ---------- */
+
+// OSMD builds one Instrument per <score-part>; IdString is the score-part id
+function listScoreParts(osmd: OpenSheetMusicDisplay): ViewerPart[] {
+  const insts = osmd.Sheet?.Instruments ?? [];
+  return insts.map((inst) => ({
+    id: inst.IdString,
+    name: (inst.Name || "").trim() || inst.IdString,
+    visible: inst.Visible,
+  }));
+}
+
+// Shared cookie (not localStorage): the viewer opens on a fresh sandbox subdomain each time
+const HIDDEN_PARTS_PREF = "viewer_hidden_parts";
+
+function readHiddenParts(songId: number | string | undefined): string[] {
+  if (songId === undefined) { return []; }
+  const v = readSongPref(HIDDEN_PARTS_PREF, songId);
+  return Array.isArray(v) ? v.filter((x): x is string => typeof x === "string") : [];
+}
+
+function writeHiddenParts(songId: number | string | undefined, ids: string[]): void {
+  if (songId === undefined) { return; }
+  writeSongPref(HIDDEN_PARTS_PREF, songId, ids.length ? ids : null);
+}
+
+// Last paper/orientation/margins chosen for PDF export (all songs)
+const PDF_OPTIONS_PREF = "viewer_pdf_options";
+
+// Spread layout (auto / one page / two pages) and pages per turn (all songs)
+const SPREAD_PREF = "viewer_spread";
+
+type SpreadPref = { layout: SpreadLayout; turnBy: PageTurn };
+
+function readSpreadPref(): SpreadPref {
+  const v = readViewerPref(SPREAD_PREF);
+  const o = v && typeof v === "object" ? v as Record<string, unknown> : {};
+  const layout: SpreadLayout = o.layout === "single" || o.layout === "spread" ? o.layout : "auto";
+  const turnBy: PageTurn = o.turnBy === 1 ? 1 : 2;
+  return { layout, turnBy };
+}
+
+// Full or half page turns in single-page layout (all songs)
+const TURN_MODE_PREF = "viewer_turn_mode";
+
+// Page-turn keys: keyboard / pedal profile and the learned custom map (all songs)
+const PAGE_KEYS_PREF = "viewer_page_keys";
+
+/** Hide the stored parts on a freshly loaded sheet (always keeps one part visible) */
+function applyHiddenParts(osmd: OpenSheetMusicDisplay, hidden: string[]): void {
+  const insts = osmd.Sheet?.Instruments ?? [];
+  if (!insts.length) { return; }
+  const hide = new Set(hidden);
+  const anyLeft = insts.some((inst) => !hide.has(inst.IdString));
+  for (const inst of insts) {
+    inst.Visible = anyLeft ? !hide.has(inst.IdString) : true;
+  }
+}
+
+/** Events from the toolbar or form fields must not page the score */
+function isControlTarget(t: EventTarget | null): boolean {
+  if (!(t instanceof Element)) { return false; }
+  if (t.closest("[data-viewer-controls='1']")) { return true; }
+  return ["INPUT", "SELECT", "TEXTAREA", "BUTTON"].includes(t.tagName);
+}
+
+
 function hasZoomProp(o: unknown): o is { Zoom: number } {
   if (typeof o !== "object" || o === null) { return false; }
   const maybe = o as { Zoom?: unknown };
@@ -1109,6 +1864,14 @@ export default function ScoreViewer({
   topGutterPx = 3,
   debugShowAllMeasureNumbers = false,
   debugOverlays = false,
+  songId,
+  initialMeasure,
+  initialPage,
+  initialAtEnd = false,
+  onPageEnd,
+  printMode = false,
+  printPaper = DEFAULT_PDF_OPTIONS,
+  printHeader,
 }: Props) {
   // turn overlays on/off per prop (off by default)
   DEBUG_BANDS = !!debugOverlays;
@@ -1122,6 +1885,84 @@ export default function ScoreViewer({
   const pageIdxRef = useRef<number>(0);
   const readyRef = useRef<boolean>(false);
 
+  // Two-page spread: chosen layout + turn size (remembered), and whether the current layout is two-up
+  const [spreadPref, setSpreadPref] = useState<SpreadPref>({ layout: "auto", turnBy: 2 });
+  const spreadPrefRef = useRef<SpreadPref>(spreadPref);
+  const [spreadActive, setSpreadActive] = useState<boolean>(false);
+  const spreadRef = useRef<boolean>(false);
+  const layoutGenRef = useRef<number>(0); // bumped per OSMD render; the right-hand page copy follows it
+  const measureBandsRef = useRef<Map<number, number>>(new Map());
+
+  // Half-page turns (single-page layout only) and the systems the current view shows
+  const [turnMode, setTurnMode] = useState<TurnMode>("full");
+  const turnModeRef = useRef<TurnMode>("full");
+  const viewRef = useRef<{ first: number; last: number; half: boolean }>({ first: 0, last: 0, half: false });
+
+  // Which keys turn pages (read by the key handler, edited from the controls)
+  const [pageKeys, setPageKeys] = useState<PageKeyPref>(DEFAULT_PAGE_KEYS);
+  const pageKeysRef = useRef<PageKeyPref>(DEFAULT_PAGE_KEYS);
+
+  // Read the stored spread / turn choices before the first layout
+  useEffect(() => {
+    const pref = readSpreadPref();
+    spreadPrefRef.current = pref;
+    setSpreadPref(pref);
+    const mode: TurnMode = readViewerPref(TURN_MODE_PREF) === "half" ? "half" : "full";
+    turnModeRef.current = mode;
+    setTurnMode(mode);
+    const keys = parsePageKeyPref(readViewerPref(PAGE_KEYS_PREF));
+    pageKeysRef.current = keys;
+    setPageKeys(keys);
+  }, []);
+
+  // Page indicator (half = a half turn after `page`) + measure range for the jump controls
+  const [pageInfo, setPageInfo] = useState<{ page: number; pages: number; half: boolean }>({ page: 0, pages: 1, half: false });
+  const [measureRange, setMeasureRange] = useState<{ min: number; max: number } | null>(null);
+
+  // Playback (audio clock + OSMD cursor position)
+  const [playState, setPlayState] = useState<PlayState>("stopped");
+  const timelineRef = useRef<PlaybackStep[] | null>(null);
+  const timelineEndRef = useRef<number>(0);
+  const synthRef = useRef<ScoreSynth | null>(null);
+  const playTimerRef = useRef<number | null>(null);
+  const playAnchorRef = useRef<number>(0);     // audio time at which score time 0 sounds
+  const playheadSecRef = useRef<number>(0);    // score time to resume from
+  const nextSchedIdxRef = useRef<number>(0);   // next timeline step to hand to the synth
+  const shownStepRef = useRef<number>(-1);     // step the cursor overlay shows (-1 = redraw)
+  const cursorPosRef = useRef<number>(-1);     // cursor.next() count since reset (-1 = unknown)
+
+  // Practice: tempo multiplier + A/B loop (bounds kept as measure numbers)
+  const [tempoPct, setTempoPct] = useState<number>(100);
+  const tempoRef = useRef<number>(1);
+  const [loop, setLoop] = useState<LoopRange | null>(null);
+  const loopRef = useRef<LoopRange | null>(null);
+  const loopSpanRef = useRef<LoopSpan | null>(null);
+  const [loopPick, setLoopPick] = useState<LoopPick>("off");
+  const loopPickRef = useRef<LoopPick>("off");
+
+  // Markings (the signed-in user's, per song); null = unavailable (signed out, no song id, print)
+  const [annotations, setAnnotations] = useState<AnnotationItem[] | null>(null);
+  const annotationsRef = useRef<AnnotationItem[]>([]);
+  const [annotateTool, setAnnotateTool] = useState<AnnotateTool>("off");
+  const annotateToolRef = useRef<AnnotateTool>("off");
+  const [annotationError, setAnnotationError] = useState<string | null>(null);
+  const draftStrokeRef = useRef<{ pointerId: number; points: [number, number][] } | null>(null);
+  const tempAnnotationIdRef = useRef<number>(-1); // local ids (< 0) until the server's come back
+  const loopFirstPickRef = useRef<number | null>(null);
+
+  // Transposition is done server-side (/api/song/[id]?transpose=), so it only applies to API sources.
+  // Remember which src it was chosen for so a new song starts at concert pitch.
+  const canTranspose = src.startsWith("/api/song/");
+  const [transposeFor, setTransposeFor] = useState<{ src: string; semitones: number }>({ src, semitones: 0 });
+  const transpose = canTranspose && transposeFor.src === src ? transposeFor.semitones : 0;
+  // Parts (<score-part>) of the loaded score and their visibility
+  const [parts, setParts] = useState<ViewerPart[]>([]);
+
+  const loadSrc = useMemo(
+    () => (transpose !== 0 ? withTransposeParam(src, transpose) : src),
+    [src, transpose]
+  );
+
   const DEFAULT_BUSY_MSG = "Please wait…";
 
   // Busy lock (blocks input while OSMD works)
@@ -1137,6 +1978,10 @@ export default function ScoreViewer({
   const busyRef = useRef(false);
   useEffect(() => { busyRef.current = busy; }, [busy]);
 
+  // Latest onPageEnd for the paging handlers (they are not rebuilt when it changes)
+  const onPageEndRef = useRef(onPageEnd);
+  useEffect(() => { onPageEndRef.current = onPageEnd; }, [onPageEnd]);
+
   // Stable per-instance ID (for perf marks), plus a monotonic per-run sequence elsewhere
   const instanceIdRef = useRef<string>(`viewer-${Math.random().toString(36).slice(2, 8)}`);
   const perfSeqRef = useRef(0);
@@ -1213,7 +2058,12 @@ export default function ScoreViewer({
       applyZoomFromRef();
       const zf = Math.min(3, Math.max(0.5, zoomFactorRef.current || 1));
 
-      const hostW = Math.max(1, Math.floor(outer.clientWidth));
+      // A spread lays each page out at column width (print mode is always one column)
+      const spread = !printMode && wantsSpread(outer, spreadPrefRef.current.layout);
+      spreadRef.current = spread;
+      setSpreadActive(spread);
+
+      const hostW = Math.max(1, Math.floor(spread ? spreadColumnWidth(outer.clientWidth) : outer.clientWidth));
       const rawLayoutW = Math.max(1, Math.floor(hostW / zf));
 
       const widthNudge = REFLOW.WIDTH_NUDGE;
@@ -1264,7 +2114,7 @@ export default function ScoreViewer({
         if (svg) { svg.style.transformOrigin = prevSvgTO; }
       }
     },
-    [applyZoomFromRef, nextPerfUID]
+    [applyZoomFromRef, nextPerfUID, printMode]
   );
 
   const hideBusy = useCallback(() => {
@@ -1387,9 +2237,10 @@ export default function ScoreViewer({
 
 
   // Apply the chosen page to the viewport: translate the SVG to its start and mask/cut to hide any next-page peek.
+  // `half` shows the half turn after the page instead (ignored in a spread or where the page has none).
   // May recompute page starts and re-apply to preserve whole systems; bounded recursion prevents oscillation.
   const applyPage = useCallback(
-    (pageIdx: number): void => {
+    (pageIdx: number, half = false): void => {
       const outer = wrapRef.current;
       if (!outer) { return; }
 
@@ -1408,8 +2259,13 @@ export default function ScoreViewer({
         const p = Math.max(0, Math.min(pageIdx, pages - 1));
         pageIdxRef.current = p;
 
-        // Start band for this page
-        const startIndex = starts[p] ?? 0;
+        // Start band for this page (a half turn starts part way down it)
+        const halfStart = half && !spreadRef.current ? halfTurnStart(bands, starts, p) : null;
+        const isHalf = halfStart !== null;
+        setPageInfo((prev) => (
+          prev.page === p && prev.pages === pages && prev.half === isHalf ? prev : { page: p, pages, half: isHalf }
+        ));
+        const startIndex = halfStart ?? starts[p] ?? 0;
         const startBand = bands[startIndex];
         if (!startBand) { return; }
 
@@ -1422,27 +2278,25 @@ export default function ScoreViewer({
         svg.style.transformOrigin = "top left";
         svg.style.willChange = "transform";
 
+        // Loop highlight and markings ride along with the music (the spread page keeps its own copies)
+        for (const sel of MUSIC_OVERLAYS) {
+          const layer = outer.querySelector<HTMLDivElement>(`:scope > ${sel}`);
+          if (layer) { layer.style.transform = svg.style.transform; }
+        }
+
         // Height available to show content
         const hVisible = visiblePageHeight(outer);
         const PAGE_H = hVisible;
 
-        // Last band we want to *show* on this page (based only on starts[])
-        const lastIdxThisPage = nextStartIndex >= 0 ? nextStartIndex - 1 : (bands.length - 1);
-
         // --- MASK: cut exactly at the next system’s top, or just past the last on final page
-        let maskTopWithinMusicPx = PAGE_H;
-        if (nextStartIndex >= 0) {
-          // Non-last page: stop just above the next system so nothing peeks
-          const nextTopRel = bands[nextStartIndex]!.top - ySnap;
-          maskTopWithinMusicPx = Math.min(PAGE_H, Math.max(0, Math.floor(nextTopRel) - 1));
-        } else {
-          // Last page: allow a safety pad to avoid shaving hairpins/slurs
-          const lastRel = bands[lastIdxThisPage]!.bottom - ySnap;
-          maskTopWithinMusicPx = Math.min(
-            PAGE_H,
-            Math.max(0, Math.ceil(lastRel) + REFLOW.MASK_BOTTOM_SAFETY_PX)
-          );
-        }
+        // (a half turn fills the screen with whatever whole systems fit)
+        const halfView = isHalf ? halfTurnView(bands, startIndex, PAGE_H) : null;
+        const maskTopWithinMusicPx = halfView ? halfView.maskTop : pageMaskTop(bands, starts, p, PAGE_H);
+        viewRef.current = {
+          first: startIndex,
+          last: halfView ? halfView.lastIdx : (nextStartIndex >= 0 ? nextStartIndex - 1 : bands.length - 1),
+          half: isHalf,
+        };
 
         // Breadcrumbs for debugging
         outer.dataset.viewerPage = String(p);
@@ -1471,6 +2325,10 @@ export default function ScoreViewer({
         }
         mask.style.top = `${Math.max(0, topGutterPx) + maskTopWithinMusicPx}px`;
 
+        // In a spread the mask only covers the left page; the right page clips itself
+        const spread = spreadRef.current;
+        mask.style.right = spread ? `calc(100% - ${spreadColumnWidth(outer.clientWidth)}px)` : "0";
+
         let bottomCutter = outer.querySelector<HTMLDivElement>("[data-viewer-bottomcutter='1']");
         const needsMask = maskTopWithinMusicPx < hVisible;
 
@@ -1518,6 +2376,18 @@ export default function ScoreViewer({
         }
         topCutter.style.height = `${Math.max(0, topGutterPx)}px`;
 
+        // Right-hand page of a spread: page p + 1 under the same translate/mask rules (blank after the last page)
+        if (spread) {
+          const rightStart = p + 1 < pages ? bands[starts[p + 1]!] : undefined;
+          drawSpreadPage(outer, {
+            generation: layoutGenRef.current,
+            translateY: rightStart ? -Math.ceil(rightStart.top) + Math.max(0, topGutterPx) : 0,
+            heightPx: rightStart ? Math.max(0, topGutterPx) + pageMaskTop(bands, starts, p + 1, PAGE_H) : 0,
+          });
+        } else {
+          drawSpreadPage(outer, null);
+        }
+
         // Optional debug overlay
         if (debugOverlays) {
           debugDrawBands(outer, bands, {
@@ -1602,7 +2472,10 @@ export default function ScoreViewer({
         const uid = nextPerfUID(outer.dataset.viewerRun);
         await perfBlockAsync(
           uid,
-          async () => { await renderViewer(outer, osmd); },
+          async () => {
+            await renderViewer(outer, osmd);
+            layoutGenRef.current += 1;
+          },
           (ms) => {
             outer.dataset.viewerRenderMs = String(ms);
             void logStep(`renderViewer() runtime: ${ms}ms`, { outer });
@@ -1775,6 +2648,24 @@ export default function ScoreViewer({
       systemBandsRef.current = bands;
       pageIdxRef.current = 0;
 
+      // render() rebuilt the OSMD cursor; the playback overlay must re-seek and redraw
+      cursorPosRef.current = -1;
+      shownStepRef.current = -1;
+
+      // New SVG → re-measure the loop highlight and the markings (applyPage below sets their translate)
+      drawLoopLayer(outer, loopRef.current);
+      drawAnnotationLayer(outer, annotationsRef.current, visibleStaffKeys(osmd));
+
+      // Measure → band map for "go to measure"
+      const measureBands = scanMeasureBands(outer, bands);
+      measureBandsRef.current = measureBands;
+      if (measureBands.size) {
+        const nums = Array.from(measureBands.keys());
+        setMeasureRange({ min: Math.min(...nums), max: Math.max(...nums) });
+      } else {
+        setMeasureRange(null);
+      }
+
       await perfBlockAsync(
         nextPerfUID(outer.dataset.viewerRun),
         async () => {
@@ -1802,6 +2693,13 @@ export default function ScoreViewer({
 
     // Prevent overlap
     if (repaginationRunningRef.current) { return; }
+
+    // A height change can cross the spread aspect threshold: that re-lays out at the new column width
+    if (!printMode && wantsSpread(outer, spreadPrefRef.current.layout) !== spreadRef.current) {
+      void logStep("repag: spread switch → width reflow", { outer });
+      setTimeout(() => { reflowFnRef.current(); }, 0);
+      return;
+    }
     repaginationRunningRef.current = true;
 
     const prevFuncTag = outer.dataset.viewerFunc ?? "";
@@ -1829,6 +2727,7 @@ export default function ScoreViewer({
 
       pageStartIdxsRef.current = starts;
       outer.dataset.viewerPages = String(starts.length);
+      shownStepRef.current = -1;
 
       // Optional diagnostics: compact page map
       if (isPagDiagOn()) {
@@ -1878,7 +2777,7 @@ export default function ScoreViewer({
       repaginationRunningRef.current = false;
       outer.dataset.viewerFunc = prevFuncTag;
     }
-  }, [applyPage, visiblePageHeight, nextPerfUID]);
+  }, [applyPage, visiblePageHeight, nextPerfUID, printMode]);
 
 
   // keep ref pointing to latest repagination callback
@@ -2020,7 +2919,9 @@ export default function ScoreViewer({
   }, []);
 
   // Reflow only for actual zoom; never start immediately, just queue safely.
+  // (Print mode lays out at a fixed paper width, so zoom never re-fits it.)
   useEffect(() => {
+    if (printMode) { return; }
     const vv = typeof window !== "undefined" ? window.visualViewport : undefined;
 
     let lastScale = vv?.scale ?? 1;
@@ -2097,7 +2998,623 @@ export default function ScoreViewer({
       window.clearInterval(t);
       if (kick !== null) { window.clearTimeout(kick); }
     };
-  }, [computeZoomFactor]);
+  }, [computeZoomFactor, printMode]);
+
+  /* ---------- Playback ---------- */
+
+  // Seek the OSMD cursor to timeline step idx, draw our overlay there and turn the page if needed.
+  // (OSMD's own cursor image ignores our system packing/translate, so we draw from note rects.)
+  const moveCursorTo = useCallback((idx: number): void => {
+    const outer = wrapRef.current;
+    const cursor = osmdRef.current?.cursor;
+    if (!outer || !cursor) { return; }
+
+    if (cursorPosRef.current < 0 || idx < cursorPosRef.current) {
+      cursor.reset();
+      cursorPosRef.current = 0;
+    }
+    while (cursorPosRef.current < idx && !cursor.Iterator.EndReached) {
+      cursor.next();
+      cursorPosRef.current += 1;
+    }
+    shownStepRef.current = idx;
+
+    // Rest-only / hidden-part steps: leave the overlay where it is
+    const box = withSvgAtUnitScale(outer, () => cursorNotesBox(outer, cursor));
+    if (!box) { return; }
+
+    const bands = systemBandsRef.current;
+    const bandIdx = bandIndexForY(bands, (box.top + box.bottom) / 2);
+    const band = bands[bandIdx];
+    if (!band) { return; }
+
+    const starts = pageStartIdxsRef.current;
+    const page = pageIndexForBand(starts, bandIdx);
+    if (spreadRef.current) {
+      // Turning by two waits until the cursor leaves the right page; turning by one
+      // brings the page being played to the left as soon as it's reached
+      const lastLeft = Math.max(0, starts.length - 2);
+      const cur = pageIdxRef.current;
+      const target = Math.min(page, lastLeft);
+      const visible = page === cur || page === cur + 1;
+      if (spreadPrefRef.current.turnBy === 2 ? !visible : target !== cur) {
+        applyPage(target);
+      }
+    } else if (turnModeRef.current === "half") {
+      // Stay while the view shows the cursor's system; else the view that has it nearest the top
+      const view = viewRef.current;
+      if (bandIdx < view.first || bandIdx > view.last) {
+        const h = halfTurnStart(bands, starts, page);
+        applyPage(page, h !== null && bandIdx >= h);
+      }
+    } else if (page !== pageIdxRef.current) {
+      applyPage(page);
+    }
+
+    const onRight = spreadRef.current && page === pageIdxRef.current + 1;
+    const startBand = bands[onRight ? starts[page] ?? 0 : viewRef.current.first];
+    const ty = -Math.ceil(startBand?.top ?? 0) + Math.max(0, topGutterPx);
+    const tx = onRight ? spreadColumnWidth(outer.clientWidth) + SPREAD.GUTTER_PX : 0;
+    drawPlayCursor(outer, {
+      left: box.left - 4 + tx,
+      top: band.top + ty,
+      width: box.right - box.left + 8,
+      height: band.height,
+    });
+  }, [applyPage, topGutterPx]);
+
+  // Stop the scheduler and cut sound; leaves playhead/cursor alone
+  const haltScheduler = useCallback((): void => {
+    if (playTimerRef.current !== null) {
+      window.clearInterval(playTimerRef.current);
+      playTimerRef.current = null;
+    }
+    synthRef.current?.silence();
+  }, []);
+
+  const stopPlayback = useCallback((): void => {
+    haltScheduler();
+    playheadSecRef.current = 0;
+    shownStepRef.current = -1;
+
+    const outer = wrapRef.current;
+    if (outer) { clearPlayCursor(outer); }
+    try {
+      osmdRef.current?.cursor?.reset();
+      cursorPosRef.current = 0;
+    } catch {
+      cursorPosRef.current = -1;
+    }
+    setPlayState("stopped");
+  }, [haltScheduler]);
+
+  const pausePlayback = useCallback((): void => {
+    const synth = synthRef.current;
+    if (playTimerRef.current === null || !synth) { return; }
+    playheadSecRef.current = Math.max(0, (synth.now() - playAnchorRef.current) * tempoRef.current);
+    haltScheduler();
+    setPlayState("paused");
+  }, [haltScheduler]);
+
+  const refreshLoopSpan = useCallback((): void => {
+    const steps = timelineRef.current;
+    const range = loopRef.current;
+    loopSpanRef.current = steps && range
+      ? resolveLoopSpan(steps, range, timelineEndRef.current)
+      : null;
+  }, []);
+
+  const startPlayback = useCallback(async (): Promise<void> => {
+    const outer = wrapRef.current;
+    const osmd = osmdRef.current;
+    if (!outer || !osmd || !readyRef.current || busyRef.current) { return; }
+    if (playTimerRef.current !== null) { return; }
+
+    if (!timelineRef.current) {
+      const steps = perfBlock(
+        nextPerfUID(outer.dataset.viewerRun),
+        () => buildPlaybackTimeline(osmd),
+        (ms) => { void logStep(`buildPlaybackTimeline() runtime: ${ms}ms`, { outer }); }
+      );
+      timelineRef.current = steps;
+      timelineEndRef.current = timelineEndSec(steps);
+      cursorPosRef.current = 0; // the walk leaves the cursor reset
+      await logStep(`timeline steps: ${steps.length} end: ${timelineEndRef.current.toFixed(2)}s`, { outer });
+    }
+    const steps = timelineRef.current;
+    if (!steps.length) { return; }
+    refreshLoopSpan();
+
+    if (!synthRef.current) {
+      try {
+        synthRef.current = createScoreSynth();
+      } catch (e) {
+        console.warn("[ScoreViewer] playback unavailable:", (e as Error).message);
+        return;
+      }
+    }
+    const synth = synthRef.current;
+    await synth.resume();
+
+    // Finished last time → start over
+    if (playheadSecRef.current >= timelineEndRef.current) {
+      playheadSecRef.current = 0;
+    }
+
+    // Inside an active loop, always start from A unless we're already between A and B
+    const span0 = loopSpanRef.current;
+    if (span0 && (playheadSecRef.current < span0.startSec || playheadSecRef.current >= span0.endSec)) {
+      playheadSecRef.current = span0.startSec;
+    }
+
+    const from = playheadSecRef.current;
+    playAnchorRef.current = synth.now() + PLAYBACK.START_DELAY_SEC - from / tempoRef.current;
+    nextSchedIdxRef.current = from > 0 ? stepIndexAt(steps, from - 1e-6) + 1 : 0;
+    shownStepRef.current = -1;
+
+    const tick = () => {
+      const now = synth.now();
+      const rate = tempoRef.current;
+      const span = loopSpanRef.current;
+
+      // A/B loop: past B → restart the clock at A
+      if (span && (now - playAnchorRef.current) * rate >= span.endSec) {
+        synth.silence();
+        playAnchorRef.current = now - span.startSec / rate;
+        nextSchedIdxRef.current = span.startIdx;
+      }
+      const anchor = playAnchorRef.current;
+
+      // Hand upcoming notes to the synth (never past B while looping)
+      const limit = span ? span.endIdx : steps.length;
+      while (nextSchedIdxRef.current < limit) {
+        const step = steps[nextSchedIdxRef.current]!;
+        const when = anchor + step.timeSec / rate;
+        if (when > now + PLAYBACK.LOOKAHEAD_SEC) { break; }
+        synth.play(step.notes, Math.max(when, now), rate);
+        nextSchedIdxRef.current += 1;
+      }
+
+      // Follow along visually (skipped while a reflow owns the DOM)
+      const t = (now - anchor) * rate;
+      const idx = stepIndexAt(steps, t);
+      if (idx >= 0 && idx !== shownStepRef.current && !busyRef.current) {
+        moveCursorTo(idx);
+      }
+
+      if (!span && nextSchedIdxRef.current >= steps.length && t >= timelineEndRef.current) {
+        stopPlayback();
+      }
+    };
+
+    playTimerRef.current = window.setInterval(tick, PLAYBACK.TICK_MS);
+    setPlayState("playing");
+    tick();
+  }, [moveCursorTo, stopPlayback, refreshLoopSpan, nextPerfUID]);
+
+  // Change the tempo multiplier; while playing, re-anchor so the score position doesn't jump
+  const changeTempo = useCallback((pct: number): void => {
+    const clamped = Math.max(TEMPO_MIN_PCT, Math.min(TEMPO_MAX_PCT, Math.round(pct)));
+    const next = clamped / 100;
+    const prev = tempoRef.current;
+
+    const synth = synthRef.current;
+    if (synth && playTimerRef.current !== null) {
+      const now = synth.now();
+      const t = (now - playAnchorRef.current) * prev;
+      playAnchorRef.current = now - t / next;
+    }
+    tempoRef.current = next;
+    setTempoPct(clamped);
+  }, []);
+
+  const setPick = useCallback((p: LoopPick): void => {
+    loopPickRef.current = p;
+    setLoopPick(p);
+  }, []);
+
+  const commitLoop = useCallback((range: LoopRange | null): void => {
+    loopRef.current = range;
+    setLoop(range);
+    refreshLoopSpan();
+    const outer = wrapRef.current;
+    if (outer) { drawLoopLayer(outer, range); }
+  }, [refreshLoopSpan]);
+
+  const toggleLoopPick = useCallback((): void => {
+    if (loopPickRef.current !== "off") {
+      // Cancel: fall back to whatever loop was committed before
+      loopFirstPickRef.current = null;
+      setPick("off");
+      const outer = wrapRef.current;
+      if (outer) { drawLoopLayer(outer, loopRef.current); }
+      return;
+    }
+    setPick("start");
+  }, [setPick]);
+
+  const clearLoop = useCallback((): void => {
+    loopFirstPickRef.current = null;
+    setPick("off");
+    commitLoop(null);
+  }, [setPick, commitLoop]);
+
+  // While picking, a click on a measure sets A, then B
+  const onScoreClick = useCallback((e: React.MouseEvent<HTMLDivElement>): void => {
+    const pick = loopPickRef.current;
+    const outer = wrapRef.current;
+    if (pick === "off" || !outer || busyRef.current) { return; }
+    if (isControlTarget(e.target)) { return; }
+
+    const m = measureNumberAtPoint(outer, e.clientX, e.clientY);
+    if (m === null) { return; }
+
+    if (pick === "start") {
+      loopFirstPickRef.current = m;
+      drawLoopLayer(outer, { startMeasure: m, endMeasure: m });
+      setPick("end");
+      return;
+    }
+
+    const a = loopFirstPickRef.current ?? m;
+    loopFirstPickRef.current = null;
+    setPick("off");
+    commitLoop({ startMeasure: Math.min(a, m), endMeasure: Math.max(a, m) });
+  }, [setPick, commitLoop]);
+
+  /* ---------- Annotations ---------- */
+
+  const loadAnnotations = useCallback(async (signal?: AbortSignal): Promise<void> => {
+    if (songId === undefined || printMode) {
+      setAnnotations(null);
+      return;
+    }
+    try {
+      setAnnotations(await fetchAnnotations(songId, signal));
+    } catch {
+      if (!signal?.aborted) { setAnnotations(null); }
+    }
+  }, [songId, printMode]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void loadAnnotations(controller.signal);
+    return () => controller.abort();
+  }, [loadAnnotations]);
+
+  // Redraw whenever the set changes (layout changes redraw from layoutViewer)
+  useEffect(() => {
+    annotationsRef.current = annotations ?? [];
+    if (annotations === null && annotateToolRef.current !== "off") {
+      annotateToolRef.current = "off";
+      setAnnotateTool("off");
+    }
+    const outer = wrapRef.current;
+    const osmd = osmdRef.current;
+    if (outer && osmd && systemBandsRef.current.length) {
+      drawAnnotationLayer(outer, annotationsRef.current, visibleStaffKeys(osmd));
+    }
+  }, [annotations]);
+
+  // Shown at once; swapped for the saved row, or taken back with an error if saving fails
+  const addAnnotation = useCallback((
+    input: Pick<AnnotationItem, "annotation_kind" | "measure_number" | "part_id" | "staff_number" | "annotation_data">
+  ): void => {
+    if (songId === undefined) { return; }
+    const tempId = tempAnnotationIdRef.current;
+    tempAnnotationIdRef.current -= 1;
+    const songIdNum = Number(songId);
+    setAnnotations((prev) => prev && [
+      ...prev,
+      { ...input, annotation_id: tempId, song_id: songIdNum, inserted_datetime: new Date().toISOString() },
+    ]);
+    setAnnotationError(null);
+
+    createAnnotation({ ...input, song_id: songIdNum })
+      .then((id) => {
+        setAnnotations((prev) => prev && prev.map((a) => (a.annotation_id === tempId ? { ...a, annotation_id: id } : a)));
+      })
+      .catch(() => {
+        setAnnotations((prev) => prev && prev.filter((a) => a.annotation_id !== tempId));
+        setAnnotationError("Could not save the marking.");
+      });
+  }, [songId]);
+
+  // Only saved markings can be removed (an unsaved one has no server id yet)
+  const removeAnnotation = useCallback((annotationId: number): void => {
+    if (annotationId <= 0) { return; }
+    setAnnotations((prev) => prev && prev.filter((a) => a.annotation_id !== annotationId));
+    setAnnotationError(null);
+    deleteAnnotation(annotationId).catch(() => {
+      setAnnotationError("Could not remove the marking.");
+      void loadAnnotations();
+    });
+  }, [loadAnnotations]);
+
+  const undoAnnotation = useCallback((): void => {
+    const last = [...annotationsRef.current].reverse().find((a) => a.annotation_id > 0);
+    if (last) { removeAnnotation(last.annotation_id); }
+  }, [removeAnnotation]);
+
+  const clearAllAnnotations = useCallback((): void => {
+    if (songId === undefined || !annotationsRef.current.length) { return; }
+    if (!window.confirm("Remove all of your markings on this score?")) { return; }
+    setAnnotations([]);
+    setAnnotationError(null);
+    clearAnnotations(songId).catch(() => {
+      setAnnotationError("Could not clear the markings.");
+      void loadAnnotations();
+    });
+  }, [songId, loadAnnotations]);
+
+  const changeAnnotateTool = useCallback((tool: AnnotateTool): void => {
+    annotateToolRef.current = tool;
+    setAnnotateTool(tool);
+    setAnnotationError(null);
+    if (tool !== "off" && loopPickRef.current !== "off") { toggleLoopPick(); } // one click mode at a time
+  }, [toggleLoopPick]);
+
+  // Pencil: press, drag, release. Text and eraser act on the press.
+  const onAnnotatePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>): void => {
+    const tool = annotateToolRef.current;
+    const outer = wrapRef.current;
+    const osmd = osmdRef.current;
+    if (tool === "off" || !outer || !osmd || !readyRef.current || busyRef.current) { return; }
+    if (loopPickRef.current !== "off" || e.button !== 0 || isControlTarget(e.target)) { return; }
+    e.preventDefault();
+
+    if (tool === "pen") {
+      outer.setPointerCapture(e.pointerId);
+      draftStrokeRef.current = { pointerId: e.pointerId, points: [[e.clientX, e.clientY]] };
+      drawDraftStroke(outer, draftStrokeRef.current.points);
+      return;
+    }
+
+    if (tool === "eraser") {
+      const hits = annotationIdsAtPoint(outer, e.clientX, e.clientY);
+      const top = hits[hits.length - 1];
+      if (top !== undefined) { removeAnnotation(top); }
+      return;
+    }
+
+    const anchor = annotationAnchorAt(outer, visibleStaffKeys(osmd), e.clientX, e.clientY);
+    if (!anchor) { return; }
+    const text = window.prompt("Text or fingering to place here")?.trim();
+    if (!text) { return; }
+    addAnnotation({
+      annotation_kind: "text",
+      measure_number: anchor.measure,
+      part_id: anchor.partId,
+      staff_number: anchor.staffNumber,
+      annotation_data: {
+        x: (e.clientX - anchor.rect.left) / anchor.rect.width,
+        y: (e.clientY - anchor.rect.top) / anchor.rect.height,
+        text: text.slice(0, 200),
+      },
+    });
+  }, [addAnnotation, removeAnnotation]);
+
+  const onAnnotatePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>): void => {
+    const draft = draftStrokeRef.current;
+    const outer = wrapRef.current;
+    if (!draft || draft.pointerId !== e.pointerId || !outer) { return; }
+    const last = draft.points[draft.points.length - 1]!;
+    if (Math.hypot(e.clientX - last[0], e.clientY - last[1]) < 2 || draft.points.length >= 2000) { return; }
+    draft.points.push([e.clientX, e.clientY]);
+    drawDraftStroke(outer, draft.points);
+  }, []);
+
+  // The stroke belongs to the staff it started on; its points become fractions of that staff's box
+  const onAnnotatePointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>): void => {
+    const draft = draftStrokeRef.current;
+    const outer = wrapRef.current;
+    const osmd = osmdRef.current;
+    if (!draft || draft.pointerId !== e.pointerId || !outer) { return; }
+    draftStrokeRef.current = null;
+    drawDraftStroke(outer, null);
+    if (e.type === "pointercancel" || !osmd) { return; }
+
+    const [x0, y0] = draft.points[0]!;
+    const anchor = annotationAnchorAt(outer, visibleStaffKeys(osmd), x0, y0);
+    if (!anchor) { return; }
+    const r = anchor.rect;
+    const frac = (v: number) => Math.round(Math.max(-20, Math.min(20, v)) * 10000) / 10000;
+    addAnnotation({
+      annotation_kind: "stroke",
+      measure_number: anchor.measure,
+      part_id: anchor.partId,
+      staff_number: anchor.staffNumber,
+      annotation_data: {
+        points: draft.points.map(([x, y]): [number, number] => [frac((x - r.left) / r.width), frac((y - r.top) / r.height)]),
+      },
+    });
+  }, [addAnnotation]);
+
+  // New score (or new transposition) → drop the old timeline
+  useEffect(() => {
+    return () => {
+      stopPlayback();
+      timelineRef.current = null;
+    };
+  }, [loadSrc, stopPlayback]);
+
+  // Show/hide one part, then re-render through the width reflow path
+  const togglePart = useCallback((partId: string): void => {
+    const osmd = osmdRef.current;
+    if (!osmd || !readyRef.current || busyRef.current) { return; }
+
+    const insts = osmd.Sheet?.Instruments ?? [];
+    const inst = insts.find((i) => i.IdString === partId);
+    if (!inst) { return; }
+    if (inst.Visible && insts.filter((i) => i.Visible).length <= 1) { return; } // keep one
+
+    inst.Visible = !inst.Visible;
+
+    // Hidden parts drop out of the cursor walk → rebuild the timeline on next play
+    pausePlayback();
+    timelineRef.current = null;
+
+    setParts(listScoreParts(osmd));
+    writeHiddenParts(songId, insts.filter((i) => !i.Visible).map((i) => i.IdString));
+
+    void reflowViewer();
+  }, [pausePlayback, reflowViewer, songId]);
+
+  // PDF export: paper choice is remembered; pages come from the same system bands as the viewer
+  const [pdfOptions, setPdfOptions] = useState<PdfExportOptions>(() => parsePdfOptions(null));
+  useEffect(() => {
+    setPdfOptions(parsePdfOptions(readViewerPref(PDF_OPTIONS_PREF)));
+  }, []);
+
+  const changePdfOptions = useCallback((opts: PdfExportOptions): void => {
+    setPdfOptions(opts);
+    writeViewerPref(PDF_OPTIONS_PREF, opts);
+  }, []);
+
+  // Spread layout changes the column width → width reflow; the turn size only affects paging
+  const changeSpreadLayout = useCallback((layout: SpreadLayout): void => {
+    const pref = { ...spreadPrefRef.current, layout };
+    spreadPrefRef.current = pref;
+    setSpreadPref(pref);
+    writeViewerPref(SPREAD_PREF, pref);
+    if (readyRef.current && !busyRef.current && wrapRef.current && wantsSpread(wrapRef.current, layout) !== spreadRef.current) {
+      void reflowViewer();
+    }
+  }, [reflowViewer]);
+
+  const changeTurnBy = useCallback((turnBy: PageTurn): void => {
+    const pref = { ...spreadPrefRef.current, turnBy };
+    spreadPrefRef.current = pref;
+    setSpreadPref(pref);
+    writeViewerPref(SPREAD_PREF, pref);
+  }, []);
+
+  const changePageKeys = useCallback((pref: PageKeyPref): void => {
+    pageKeysRef.current = pref;
+    setPageKeys(pref);
+    writeViewerPref(PAGE_KEYS_PREF, pref);
+  }, []);
+
+  // Leaving half turns drops back to the full page the half turn came from
+  const changeTurnMode = useCallback((mode: TurnMode): void => {
+    turnModeRef.current = mode;
+    setTurnMode(mode);
+    writeViewerPref(TURN_MODE_PREF, mode === "half" ? mode : null);
+    if (mode === "full" && viewRef.current.half && readyRef.current) {
+      applyPage(pageIdxRef.current);
+    }
+  }, [applyPage]);
+
+  /** Download the score as a PDF; false if it could not be produced */
+  const exportPdf = useCallback(async (): Promise<boolean> => {
+    const outer = wrapRef.current;
+    const bands = systemBandsRef.current;
+    if (!outer || !readyRef.current || busyRef.current || !bands.length) { return false; }
+
+    await startSpinner("Preparing PDF…");
+    try {
+      const geo = svgGeometry(outer);
+      if (!geo || geo.width <= 0) { return false; }
+
+      // Printable height in band px: the score is printed at the printable width
+      const box = pdfPageBox(pdfOptions);
+      const pageHeightPx = box.contentHeightPt / (box.contentWidthPt / geo.width);
+      const starts = computePageStarts(outer, bands, pageHeightPx);
+
+      const slices = pageSlices(bands, starts, pageHeightPx, geo.top);
+
+      const title = (osmdRef.current?.Sheet?.TitleString ?? "").trim();
+      const bytes = await renderScorePdf(geo.svg, { width: geo.width, height: geo.height }, slices, pdfOptions, title);
+      downloadPdf(bytes, pdfFileName(title));
+      void logStep(`pdf: pages=${slices.length} bytes=${bytes.length}`, { outer });
+      return true;
+    } catch (e) {
+      void logStep(`pdf:error ${(e as Error)?.message ?? String(e)}`, { outer });
+      return false;
+    } finally {
+      await stopSpinner();
+    }
+  }, [pdfOptions, startSpinner, stopSpinner]);
+
+  // Print mode: printable area in CSS px, and the pages once the score is laid out
+  const printBox = useMemo(() => {
+    const box = pdfPageBox(printPaper);
+    const width = Math.floor(box.contentWidthPt * PX_PER_PT);
+    const height = Math.floor(box.contentHeightPt * PX_PER_PT);
+    return { width, height, bodyHeight: height - PRINT.HEADER_PX - PRINT.FOOTER_PX - PRINT.SAFETY_PX };
+  }, [printPaper]);
+  const [printLayout, setPrintLayout] = useState<PrintLayout | null>(null);
+
+  /** Print mode: break the packed systems into paper pages (never inside a system) */
+  const buildPrintLayout = useCallback((outer: HTMLDivElement): void => {
+    const bands = systemBandsRef.current;
+    const geo = svgGeometry(outer);
+    if (!geo || geo.width <= 0 || !bands.length) {
+      setPrintLayout({ markup: "", scale: 1, slices: [] });
+      return;
+    }
+
+    // OSMD laid out at the paper width, so this is ~1; it absorbs any rounding
+    const scale = printBox.width / geo.width;
+    const pageHeightPx = printBox.bodyHeight / scale;
+    const starts = computePageStarts(outer, bands, pageHeightPx);
+
+    setPrintLayout({
+      markup: standaloneSvgMarkup(geo.svg, { width: geo.width, height: geo.height }),
+      scale,
+      slices: pageSlices(bands, starts, pageHeightPx, geo.top),
+    });
+    void logStep(`print: pages=${starts.length} scale=${scale.toFixed(3)}`, { outer });
+  }, [printBox]);
+
+  /** Jump helpers */
+
+  // Show the page holding measure n (nearest following measure if n isn't engraved); false if none
+  const goToMeasure = useCallback((n: number): boolean => {
+    if (!readyRef.current) { return false; } // (UI is behind the busy blocker anyway)
+    const map = measureBandsRef.current;
+
+    let bandIdx = map.get(n);
+    if (bandIdx === undefined) {
+      let best: number | undefined;
+      for (const m of map.keys()) {
+        if (m >= n && (best === undefined || m < best)) { best = m; }
+      }
+      bandIdx = best !== undefined ? map.get(best) : undefined;
+    }
+    if (bandIdx === undefined) { return false; }
+
+    applyPage(pageIndexForBand(pageStartIdxsRef.current, bandIdx));
+    return true;
+  }, [applyPage]);
+
+  // 1-based page number, clamped
+  const goToPage = useCallback((n: number): void => {
+    if (!readyRef.current) { return; }
+    const pages = pageStartIdxsRef.current.length;
+    if (!pages || !Number.isFinite(n)) { return; }
+    applyPage(Math.max(0, Math.min(Math.floor(n) - 1, pages - 1)));
+  }, [applyPage]);
+
+  // New song → drop the loop too (measure numbers survive a transposition)
+  useEffect(() => {
+    return () => {
+      loopRef.current = null;
+      loopSpanRef.current = null;
+      loopFirstPickRef.current = null;
+      loopPickRef.current = "off";
+      setLoop(null);
+      setLoopPick("off");
+    };
+  }, [src]);
+
+  // Release the audio context on unmount
+  useEffect(() => {
+    return () => {
+      void synthRef.current?.close();
+      synthRef.current = null;
+    };
+  }, []);
 
   /** initViewer
    * One-time boot for the component:
@@ -2197,13 +3714,13 @@ export default function ScoreViewer({
         outer.dataset.viewerPhase = "load";
         await logStep("phase starting", { outer });
 
-        let loadInput: string | Document | ArrayBuffer | Uint8Array = src;
+        let loadInput: string | Document | ArrayBuffer | Uint8Array = loadSrc;
 
-        if (src.startsWith("/api/")) {
+        if (loadSrc.startsWith("/api/")) {
           const ab = await perfBlockAsync(
             nextPerfUID(outer.dataset.viewerRun),
             async () => {
-              const res = await fetch(src, { cache: "no-store" });
+              const res = await fetch(loadSrc, { cache: "no-store" });
               if (!res.ok) { throw new Error(`HTTP ${res.status}`); }
 
               const buf = await withTimeout(res.arrayBuffer(), 12000, "fetch timeout");
@@ -2318,7 +3835,7 @@ export default function ScoreViewer({
           // - If `src` is already a MusicXML XML string, OSMD.load(...) will parse it directly.
           // - (We only take the manual fetch + unzip path for "/api/*" endpoints that return MXL/ZIP content.)
           // In other words: non-API = plain MusicXML, so no special handling here.
-          loadInput = src;
+          loadInput = loadSrc;
         }
 
         await perfBlockAsync(
@@ -2331,6 +3848,10 @@ export default function ScoreViewer({
           }
         );
 
+        // Restore this song's part selection before the first render
+        applyHiddenParts(osmd, readHiddenParts(songId));
+        setParts(listScoreParts(osmd));
+
         await perfBlockAsync(
           nextPerfUID(outer.dataset.viewerRun),
           async () => { await waitForFonts(); },
@@ -2351,7 +3872,12 @@ export default function ScoreViewer({
         // Why: on first load, the browser/UI chrome (URL/tool bars) can settle a frame
         // or two later. This cheap pass does height-only pagination (no OSMD render),
         // resets to page 1, and ensures we’re not showing a split system at the bottom.
-        paginateViewer();
+        // Print mode paginates at the paper height instead.
+        if (printMode) {
+          buildPrintLayout(outer);
+        } else {
+          paginateViewer();
+        }
 
         // Record the dimensions we just handled. The VisualViewport listener compares
         // future vv events against these to decide:
@@ -2366,6 +3892,18 @@ export default function ScoreViewer({
         // This is a one-time toggle per init and is never set in the reflow path.
         readyRef.current = true;
 
+        // Deep link (?measure= / ?page=): jump once the first pagination is final
+        // (print mode shows every page, so there is nothing to jump to)
+        if (!printMode && initialMeasure !== undefined) {
+          if (!goToMeasure(initialMeasure)) {
+            await logStep(`initialMeasure ${initialMeasure} not found`, { outer });
+          }
+        } else if (!printMode && initialPage !== undefined) {
+          goToPage(initialPage);
+        } else if (!printMode && initialAtEnd) {
+          applyPage(Math.max(0, pageStartIdxsRef.current.length - (spreadRef.current ? 2 : 1)));
+        }
+
         // First page is applied and masking is in place — hide the overlay now.
         // In the reflow path the spinner is ended in its `finally` block.
         // because a fatal no-VV path sets busy directly and must keep the overlay visible.
@@ -2418,7 +3956,7 @@ export default function ScoreViewer({
     };
     // Only re-init when source changes.
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [src, debugShowAllMeasureNumbers]);
+  }, [loadSrc, debugShowAllMeasureNumbers]);
 
 
   /** Paging helpers */
@@ -2434,18 +3972,56 @@ export default function ScoreViewer({
 
       const beforePage = pageIdxRef.current;
 
-      // Wrap-around paging:
-      // - last page + forward → page 1
+      // Half turns: page p → its half turn → page p + 1 (pages without a half turn are skipped over)
+      if (!spreadRef.current && turnModeRef.current === "half") {
+        const inHalf = viewRef.current.half;
+        let target: { page: number; half: boolean };
+        if (dir === 1) {
+          target = !inHalf && halfTurnStart(systemBandsRef.current, starts, beforePage) !== null
+            ? { page: beforePage, half: true }
+            : { page: beforePage + 1, half: false };
+        } else if (inHalf) {
+          target = { page: beforePage, half: false };
+        } else {
+          target = { page: beforePage - 1, half: halfTurnStart(systemBandsRef.current, starts, beforePage - 1) !== null };
+        }
+        if ((target.page >= pages || target.page < 0) && onPageEndRef.current) {
+          onPageEndRef.current(dir);
+          return;
+        }
+        if (target.page >= pages) {
+          target = { page: 0, half: false };
+          void logStep("wrap: last→first");
+        } else if (target.page < 0) {
+          target = { page: pages - 1, half: false };
+          void logStep("wrap: first→last");
+        }
+        if (target.page !== beforePage || target.half !== inHalf) { applyPage(target.page, target.half); }
+        return;
+      }
+
+      // A spread shows two pages; a turn moves by one or two of them (user pref)
+      const spread = spreadRef.current;
+      const step = spread ? spreadPrefRef.current.turnBy : 1;
+      const lastLeft = Math.max(0, pages - (spread ? 2 : 1));
+
+      // Wrap-around paging (or hand off to onPageEnd when given):
+      // - last page (visible) + forward → page 1
       // - first page + backward → last page
+      const atEnd = dir === 1 ? beforePage + (spread ? 1 : 0) >= pages - 1 : beforePage === 0;
+      if (atEnd && onPageEndRef.current) {
+        onPageEndRef.current(dir);
+        return;
+      }
       let targetPage: number;
-      if (dir === 1 && beforePage === pages - 1) {
+      if (dir === 1 && beforePage + (spread ? 1 : 0) >= pages - 1) {
         targetPage = 0;
         void logStep("wrap: last→first");
       } else if (dir === -1 && beforePage === 0) {
-        targetPage = pages - 1;
+        targetPage = lastLeft;
         void logStep("wrap: first→last");
       } else {
-        targetPage = Math.max(0, Math.min(beforePage + dir, pages - 1));
+        targetPage = Math.max(0, Math.min(beforePage + dir * step, lastLeft));
       }
 
       if (targetPage === beforePage) { return; }
@@ -2487,8 +4063,9 @@ export default function ScoreViewer({
   const goNext = useCallback(() => tryAdvance(1), [tryAdvance]);
   const goPrev = useCallback(() => tryAdvance(-1), [tryAdvance]);
 
-  // Wheel & keyboard paging (disabled while busy)
+  // Wheel & keyboard paging (disabled while busy; print mode scrolls normally)
   useEffect(() => {
+    if (printMode) { return; }
     const onWheel = (e: WheelEvent) => {
       if (!readyRef.current || busyRef.current) {
         return;
@@ -2508,18 +4085,23 @@ export default function ScoreViewer({
       if (!readyRef.current || busyRef.current) {
         return;
       }
-      if (["PageDown", "ArrowDown", " "].includes(e.key)) {
+      if (isControlTarget(e.target)) {
+        return;
+      }
+      // Keys come from the chosen keyboard / pedal profile
+      const action = actionForKey(activeKeyMap(pageKeysRef.current), e.key);
+      if (action === "next") {
         e.preventDefault();
         goNext();
-      } else if (["PageUp", "ArrowUp"].includes(e.key)) {
+      } else if (action === "prev") {
         e.preventDefault();
         goPrev();
-      } else if (e.key === "Home") {
+      } else if (action === "first") {
         e.preventDefault();
         applyPage(0);
-      } else if (e.key === "End") {
+      } else if (action === "last") {
         e.preventDefault();
-        const last = Math.max(0, pageStartIdxsRef.current.length - 1);
+        const last = Math.max(0, pageStartIdxsRef.current.length - (spreadRef.current ? 2 : 1));
         applyPage(last);
       }
     };
@@ -2530,12 +4112,12 @@ export default function ScoreViewer({
       window.removeEventListener("wheel", onWheel);
       window.removeEventListener("keydown", onKey);
     };
-  }, [applyPage, goNext, goPrev]);
+  }, [applyPage, goNext, goPrev, printMode]);
 
-  // Touch swipe paging (disabled while busy)
+  // Touch swipe paging (disabled while busy; print mode scrolls normally)
   useEffect(() => {
     const outer = wrapRef.current;
-    if (!outer) { return; }
+    if (!outer || printMode) { return; }
 
     let startY = 0;
     let startX = 0;
@@ -2547,7 +4129,10 @@ export default function ScoreViewer({
     const TAP_MAX_MOVE_PX = 12;   // little to no movement
 
     const onTouchStart = (e: TouchEvent) => {
-      if (!readyRef.current || busyRef.current || e.touches.length === 0) {
+      if (!readyRef.current || busyRef.current || e.touches.length === 0 || annotateToolRef.current !== "off") {
+        return;
+      }
+      if (isControlTarget(e.target)) {
         return;
       }
       active = true;
@@ -2578,8 +4163,9 @@ export default function ScoreViewer({
       const dx = t.clientX - startX;
       const dt = performance.now() - startT;  // ← add
 
-      // 1) Tap-to-advance (quick + tiny movement)
+      // 1) Tap-to-advance (quick + tiny movement); while picking a loop the tap selects a measure instead
       if (Math.abs(dx) <= TAP_MAX_MOVE_PX && Math.abs(dy) <= TAP_MAX_MOVE_PX && dt <= TAP_MAX_MS) {
+        if (loopPickRef.current !== "off") { return; }
         goNext();
         return;
       }
@@ -2608,12 +4194,12 @@ export default function ScoreViewer({
       cleanupOuter.removeEventListener("touchmove", onTouchMove);
       cleanupOuter.removeEventListener("touchend", onTouchEnd);
     };
-  }, [goNext, goPrev]);
+  }, [goNext, goPrev, printMode]);
 
   // Recompute pagination when the visual viewport changes (URL bar, IME, orientation, etc.)
   useEffect(() => {
     const vv = typeof window !== "undefined" ? window.visualViewport : undefined;
-    if (!vv) { return; }
+    if (!vv || printMode) { return; }
 
     const handleVVChange = () => {
       if (!readyRef.current) { return; }
@@ -2704,7 +4290,7 @@ export default function ScoreViewer({
         vvTimerRef.current = null;
       }
     };
-  }, []);
+  }, [printMode]);
 
 
   // Auto-clear busy if we linger too long *outside* heavy phases.
@@ -2817,13 +4403,40 @@ export default function ScoreViewer({
       isolation: "isolate",
     };
 
+  // Print mode: paper width; grows with the stacked pages (the hidden OSMD host keeps a screen's height until then)
+  const printOuterStyle: React.CSSProperties = {
+    width: printBox.width,
+    minHeight: printLayout ? undefined : "100vh",
+    margin: "0 auto",
+    position: "relative",
+    overflow: "hidden",
+    background: "#fff",
+    color: "#111",
+    boxSizing: "border-box",
+    isolation: "isolate",
+  };
+
   const hostStyle: React.CSSProperties = {
     position: "absolute",
     inset: 0,
     overflow: "hidden",
     minWidth: 0,
+    // Print mode only measures the live SVG; the pages below show copies of it
+    ...(printMode ? { visibility: "hidden", pointerEvents: "none" } : {}),
   };
 
+  // Print mode CSS: paper size, no interactive layers, one page per sheet
+  const printCss = printMode
+    ? `${pageCssRule(printPaper)}
+[data-viewer-wrapper='1'] :is(${PRINT_HIDDEN_LAYERS}) { display: none !important; }
+@media print {
+  html, body, main { margin: 0 !important; padding: 0 !important; background: #fff !important; }
+  [data-viewer-blocker='1'], [data-viewer-print-chrome='1'] { display: none !important; }
+  [data-viewer-print-page='1'] { margin: 0 !important; border: 0 !important; break-after: page; }
+  [data-viewer-print-page='1']:last-child { break-after: auto; }
+}`
+    : "";
+
   /* ---------- Busy overlay ---------- */
   const blockerStyle: React.CSSProperties = {
     position: "fixed",
@@ -2847,11 +4460,140 @@ export default function ScoreViewer({
       data-viewer-wrapper="1"
       data-viewer-probe="v10-pre"
       className={className}
-      style={{ /* outline: "4px solid fuchsia", */ ...outerStyle, ...style }}
+      style={{
+        /* outline: "4px solid fuchsia", */ ...(printMode ? printOuterStyle : outerStyle), ...style,
+        cursor: loopPick !== "off" || annotateTool === "pen" ? "crosshair"
+          : annotateTool === "text" ? "text"
+            : annotateTool === "eraser" ? "cell"
+              : style?.cursor,
+        // While marking up, touches draw instead of scrolling / swiping pages
+        ...(annotateTool !== "off" ? { touchAction: "none" } : {}),
+      }}
+      onClick={onScoreClick}
+      onPointerDown={onAnnotatePointerDown}
+      onPointerMove={onAnnotatePointerMove}
+      onPointerUp={onAnnotatePointerUp}
+      onPointerCancel={onAnnotatePointerUp}
     >
       {/* OSMD host (SVG goes here) */}
       <div ref={svgHostRef} style={hostStyle} />
 
+      {/* Transport (not in print mode) */}
+      {!printMode && <ViewerControls
+        playState={playState}
+        disabled={busy}
+        onPlay={() => { void startPlayback(); }}
+        onPause={pausePlayback}
+        onStop={stopPlayback}
+        tempoPct={tempoPct}
+        loop={loop}
+        loopPick={loopPick}
+        onTempoChange={changeTempo}
+        onLoopPick={toggleLoopPick}
+        onLoopClear={clearLoop}
+        transpose={transpose}
+        canTranspose={canTranspose}
+        onTransposeChange={(n) => { setTransposeFor({ src, semitones: n }); }}
+        parts={parts}
+        onTogglePart={togglePart}
+        pageNumber={pageInfo.page + 1}
+        pageCount={pageInfo.pages}
+        halfTurnShown={pageInfo.half}
+        measureRange={measureRange}
+        onGoToMeasure={goToMeasure}
+        onGoToPage={goToPage}
+        pdfOptions={pdfOptions}
+        onPdfOptionsChange={changePdfOptions}
+        onExportPdf={exportPdf}
+        spreadLayout={spreadPref.layout}
+        spreadActive={spreadActive}
+        turnBy={spreadPref.turnBy}
+        onSpreadLayoutChange={changeSpreadLayout}
+        onTurnByChange={changeTurnBy}
+        turnMode={turnMode}
+        onTurnModeChange={changeTurnMode}
+        pageKeys={pageKeys}
+        onPageKeysChange={changePageKeys}
+        annotateAvailable={annotations !== null}
+        annotateTool={annotateTool}
+        annotationCount={annotations?.length ?? 0}
+        annotationError={annotationError}
+        onAnnotateToolChange={changeAnnotateTool}
+        onAnnotationUndo={undoAnnotation}
+        onAnnotationsClear={clearAllAnnotations}
+      />}
+
+      {/* Print mode: every page, each with the running header and a page-number footer */}
+      {printMode && printLayout && (
+        <div data-viewer-print="1">
+          <div
+            data-viewer-print-chrome="1"
+            style={{ display: "flex", justifyContent: "flex-end", padding: "8px 0" }}
+          >
+            <button
+              type="button"
+              onClick={() => window.print()}
+              style={{ height: 28, padding: "0 12px", borderRadius: 6, border: "1px solid #bbb", background: "#fafafa", color: "#111", cursor: "pointer" }}
+            >
+              Print
+            </button>
+          </div>
+          {printLayout.slices.map((slice, i) => {
+            // A system taller than the page is shrunk to fit rather than split
+            const k = Math.min(printLayout.scale, printBox.bodyHeight / slice.height);
+            return (
+              <section
+                key={i}
+                data-viewer-print-page="1"
+                style={{
+                  width: printBox.width,
+                  height: printBox.height - PRINT.SAFETY_PX,
+                  marginBottom: 16,
+                  border: "1px solid #ddd",
+                  boxSizing: "border-box",
+                  display: "flex",
+                  flexDirection: "column",
+                  overflow: "hidden",
+                  background: "#fff",
+                }}
+              >
+                <header
+                  style={{
+                    height: PRINT.HEADER_PX,
+                    flex: "none",
+                    display: "flex",
+                    alignItems: "baseline",
+                    justifyContent: "space-between",
+                    gap: 12,
+                    paddingTop: 8,
+                    borderBottom: "1px solid #999",
+                    fontSize: 13,
+                    whiteSpace: "nowrap",
+                    overflow: "hidden",
+                  }}
+                >
+                  <strong style={{ fontSize: 15, overflow: "hidden", textOverflow: "ellipsis" }}>
+                    {printHeader?.title ?? ""}
+                  </strong>
+                  <span>{[printHeader?.composer, printHeader?.level].filter(Boolean).join(" · ")}</span>
+                </header>
+                <div style={{ height: Math.ceil(slice.height * k), flex: "none", position: "relative", overflow: "hidden" }}>
+                  <div
+                    style={{ position: "absolute", left: 0, top: 0, transformOrigin: "top left", transform: `scale(${k}) translateY(${-slice.top}px)` }}
+                    dangerouslySetInnerHTML={{ __html: printLayout.markup }}
+                  />
+                </div>
+                <footer
+                  style={{ height: PRINT.FOOTER_PX, flex: "none", marginTop: "auto", display: "grid", placeItems: "center", fontSize: 11 }}
+                >
+                  Page {i + 1} of {printLayout.slices.length}
+                </footer>
+              </section>
+            );
+          })}
+        </div>
+      )}
+
       {/* Input-blocking overlay while busy (spinner hidden for fatal states) */}
       <div
         aria-busy={fatalReason ? false : busy}
@@ -2859,6 +4601,7 @@ export default function ScoreViewer({
         aria-live={fatalReason ? "assertive" : "polite"}
         aria-atomic="true"
         style={blockerStyle}
+        data-viewer-blocker="1"
         data-viewer-fatal={fatalReason ? "1" : "0"}
         onPointerDown={stopEvent}
         onPointerMove={stopEvent}
@@ -2904,6 +4647,7 @@ export default function ScoreViewer({
       </div>
 
       <style>{`@keyframes viewer-spin { from { transform: rotate(0) } to { transform: rotate(360deg) } }`}</style>
+      {printMode && <style>{printCss}</style>}
     </div>
   );
 }
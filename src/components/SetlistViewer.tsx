@@ -0,0 +1,140 @@
+// src/components/SetlistViewer.tsx
+"use client";
+
+import React from "react";
+import ScoreViewer from "@/components/ScoreViewer";
+import { fetchSetlist } from "@/lib/setlistFetch";
+import type { SetlistDetail } from "@/lib/types";
+
+type Props = {
+    setlistId: string;
+    startPosition?: number; // 1-based song position to open at
+};
+
+// Where the current song opens: its first page, or its last when paging back into it
+type Current = { index: number; atEnd: boolean };
+
+const navStyle: React.CSSProperties = {
+    position: "absolute",
+    left: 8,
+    bottom: 8,
+    zIndex: 20, // same layer as the viewer controls
+    display: "flex",
+    alignItems: "center",
+    gap: 6,
+    maxWidth: "calc(100% - 16px)",
+    padding: "4px 6px",
+    borderRadius: 8,
+    background: "rgba(255,255,255,0.92)",
+    border: "1px solid #ccc",
+    boxShadow: "0 2px 8px rgba(0,0,0,0.15)",
+    fontSize: 13,
+    color: "#111",
+    userSelect: "none",
+};
+
+const btnStyle: React.CSSProperties = {
+    minWidth: 32,
+    height: 28,
+    padding: "0 8px",
+    borderRadius: 6,
+    border: "1px solid #bbb",
+    background: "#fafafa",
+    color: "#111",
+    font: "inherit",
+    cursor: "pointer",
+};
+
+/**
+ * One ScoreViewer per song of a setlist, in order: paging past the last page of a song
+ * opens the first page of the next one, and paging back before page 1 opens the previous
+ * song at its end. The ends of the setlist stay put instead of wrapping.
+ */
+export default function SetlistViewer({ setlistId, startPosition }: Props): React.ReactElement {
+    const [setlist, setSetlist] = React.useState<SetlistDetail | null>(null);
+    const [error, setError] = React.useState("");
+    const [current, setCurrent] = React.useState<Current>({ index: 0, atEnd: false });
+
+    React.useEffect(() => {
+        const controller = new AbortController();
+        setError("");
+        fetchSetlist(setlistId, controller.signal)
+            .then((s) => {
+                // Songs in the Trash keep their place in the setlist but are skipped when playing
+                const songs = s.songs.filter((song) => !song.song_deleted);
+                setSetlist({ ...s, songs });
+                const start = (startPosition ?? 1) - 1;
+                setCurrent({ index: Math.max(0, Math.min(start, songs.length - 1)), atEnd: false });
+            })
+            .catch((e: unknown) => {
+                const name = (e as { name?: string } | null)?.name ?? "";
+                if (name === "AbortError") { return; }
+                setError(e instanceof Error ? e.message : String(e));
+            });
+        return () => controller.abort();
+    }, [setlistId, startPosition]);
+
+    const count = setlist?.songs.length ?? 0;
+
+    const openSong = React.useCallback((index: number, atEnd: boolean): void => {
+        if (index < 0 || index >= count) { return; }
+        setCurrent({ index, atEnd });
+    }, [count]);
+
+    const onPageEnd = React.useCallback((dir: 1 | -1): void => {
+        openSong(current.index + dir, dir === -1);
+    }, [openSong, current.index]);
+
+    if (error) {
+        return <p style={{ color: "crimson" }}>Could not open the setlist: {error}</p>;
+    }
+    if (!setlist) {
+        return <p style={{ opacity: 0.75 }}>Loading setlist…</p>;
+    }
+    const song = setlist.songs[current.index];
+    if (!song) {
+        return <p>The setlist “{setlist.setlist_name}” has no songs yet.</p>;
+    }
+
+    return (
+        <div style={{ position: "relative", background: "#fff", width: "100%", minHeight: 0 }}>
+            <ScoreViewer
+                key={current.index}
+                src={`/api/song/${song.song_id}`}
+                songId={song.song_id}
+                initialAtEnd={current.atEnd}
+                onPageEnd={onPageEnd}
+            />
+
+            <nav aria-label="Setlist" style={navStyle}>
+                <button
+                    type="button"
+                    onClick={() => { openSong(current.index - 1, false); }}
+                    disabled={current.index === 0}
+                    title="Previous song"
+                    aria-label="Previous song"
+                    style={btnStyle}
+                >
+                    ⏮
+                </button>
+                <span style={{ minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                    <strong>{setlist.setlist_name}</strong>
+                    {" · "}
+                    {current.index + 1}/{count}
+                    {" · "}
+                    {song.song_title}
+                </span>
+                <button
+                    type="button"
+                    onClick={() => { openSong(current.index + 1, false); }}
+                    disabled={current.index >= count - 1}
+                    title="Next song"
+                    aria-label="Next song"
+                    style={btnStyle}
+                >
+                    ⏭
+                </button>
+            </nav>
+        </div>
+    );
+}
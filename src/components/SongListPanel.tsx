@@ -3,8 +3,10 @@
 
 import React from "react";
 import { SONG_COL, type SongColToken } from "@/lib/songCols";
-import type { SongListItem } from "@/lib/types";
+import type { SongFacetsResponse, SongListItem } from "@/lib/types";
+import type { SongFacetFilter, SongFacetName } from "@/lib/songListFetch";
 import SortHeaderButton from "@/components/common/SortHeaderButton";
+import SongListFilterBar from "@/components/common/SongListFilterBar";
 import type { ThemeTokens } from "@/lib/theme";
 
 type SortDir = "asc" | "desc";
@@ -20,9 +22,27 @@ type Props = {
     sortDir: SortDir;
     onToggleSort(col: SongColToken): void;
 
+    // Filtering (server-side; empty = no filter)
+    search: string;
+    onSearchChange(text: string): void;
+    levels: ReadonlyArray<{ number: number; name: string }>;
+    selectedLevels: ReadonlyArray<number>;
+    onToggleLevel(levelNumber: number): void;
+    facets: SongFacetsResponse;
+    facetFilter: SongFacetFilter;
+    onFacetChange(name: SongFacetName, value: string): void;
+    selectedTags: ReadonlyArray<string>;
+    onToggleTag(tag: string): void;
+    onClearFilters(): void;
+
     // Row interaction
     onRowClick(row: SongListItem): void;
 
+    // Paging (keyset; more rows load as the body nears its bottom)
+    hasMore: boolean;
+    loadingMore: boolean;
+    onLoadMore(): void;
+
     // Layout / theming
     gridCols: React.CSSProperties["gridTemplateColumns"]; // e.g., "170px 170px 380px 90px"
     tableMinPx: number;                                    // sum of column widths
@@ -31,6 +51,29 @@ type Props = {
     T: ThemeTokens;
 };
 
+// Start fetching the next page this many rows before the end
+const LOAD_MORE_AHEAD_ROWS = 5;
+
+// Tag chips shown after a title; the rest are summarized as "+n"
+const ROW_TAGS_SHOWN = 2;
+
+/** Row tooltip: what the score itself says (tempo, scoring, length, credits) */
+function scoreDetails(r: SongListItem): string {
+    const tempo = [r.tempo_text, r.tempo_bpm !== null ? `\u2669 = ${r.tempo_bpm}` : null].filter(Boolean).join(" ");
+    const length = [
+        r.measure_count !== null ? `${r.measure_count} bars` : null,
+        r.page_count !== null ? `~${r.page_count} ${r.page_count === 1 ? "page" : "pages"}` : null,
+    ].filter(Boolean).join(", ");
+    return [
+        tempo,
+        r.instrument_names.join(", "),
+        length,
+        r.lyricist ? `Lyrics: ${r.lyricist}` : null,
+        r.arranger ? `Arr.: ${r.arranger}` : null,
+        r.copyright,
+    ].filter(Boolean).join("\n");
+}
+
 export default function SongListPanel(props: Props): React.ReactElement {
     const {
         rows,
@@ -39,7 +82,21 @@ export default function SongListPanel(props: Props): React.ReactElement {
         sort,
         sortDir,
         onToggleSort,
+        search,
+        onSearchChange,
+        levels,
+        selectedLevels,
+        onToggleLevel,
+        facets,
+        facetFilter,
+        onFacetChange,
+        selectedTags,
+        onToggleTag,
+        onClearFilters,
         onRowClick,
+        hasMore,
+        loadingMore,
+        onLoadMore,
         gridCols,
         tableMinPx,
         rowPx,
@@ -51,6 +108,22 @@ export default function SongListPanel(props: Props): React.ReactElement {
 
     return (
         <section aria-label="Songs" style={{ marginTop: 0 }}>
+            <SongListFilterBar
+                search={search}
+                onSearchChange={onSearchChange}
+                levels={levels}
+                selectedLevels={selectedLevels}
+                onToggleLevel={onToggleLevel}
+                facets={facets}
+                facetFilter={facetFilter}
+                onFacetChange={onFacetChange}
+                selectedTags={selectedTags}
+                onToggleTag={onToggleTag}
+                onClearFilters={onClearFilters}
+                width={tableMinPx}
+                T={T}
+            />
+
             {/* Inline status line, but keep the table mounted */}
             {listError && (
                 <p style={{ color: "#ff6b6b", margin: "4px 0 8px" }}>
@@ -136,6 +209,8 @@ export default function SongListPanel(props: Props): React.ReactElement {
                             onToggle={onToggleSort}
                             label="Skill Level"
                         />
+                        <div>Key</div>
+                        <div>Time</div>
                     </div>
 
                     {/* Body: fixed height, scrollbar only when needed */}
@@ -148,7 +223,13 @@ export default function SongListPanel(props: Props): React.ReactElement {
                             opacity: listLoading ? 0.7 : 1,
                             transition: "opacity 120ms linear",
                         }}
-                        aria-busy={listLoading}
+                        aria-busy={listLoading || loadingMore}
+                        onScroll={(e: React.UIEvent<HTMLDivElement>) => {
+                            const el = e.currentTarget;
+                            if (hasMore && !loadingMore && el.scrollTop + el.clientHeight >= el.scrollHeight - rowPx * LOAD_MORE_AHEAD_ROWS) {
+                                onLoadMore();
+                            }
+                        }}
                     >
                         {/* Data rows */}
                         {rows.map((r, idx) => {
@@ -179,7 +260,7 @@ export default function SongListPanel(props: Props): React.ReactElement {
                                         height: rowPx,
                                         lineHeight: `${rowPx - 10}px`,
                                     }}
-                                    title="Open in a new tab"
+                                    title={[scoreDetails(r), "Open in a new tab"].filter(Boolean).join("\n\n")}
                                 >
                                     <div style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
                                         {r.composer_first_name || "\u2014"}
@@ -187,13 +268,63 @@ export default function SongListPanel(props: Props): React.ReactElement {
                                     <div style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
                                         {r.composer_last_name || "\u2014"}
                                     </div>
-                                    <div style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
-                                        {r.song_title}
+                                    <div style={{ display: "flex", alignItems: "center", gap: 4, minWidth: 0 }}>
+                                        <span style={{ minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                                            {r.song_title}
+                                        </span>
+                                        {r.tag_names.slice(0, ROW_TAGS_SHOWN).map((tag) => {
+                                            const on = selectedTags.includes(tag);
+                                            return (
+                                                <button
+                                                    key={tag}
+                                                    type="button"
+                                                    onClick={(e) => { e.stopPropagation(); onToggleTag(tag); }}
+                                                    onKeyDown={(e) => { e.stopPropagation(); }}
+                                                    title={on ? `Stop filtering by ${tag}` : `Show only songs tagged ${tag}`}
+                                                    style={{
+                                                        flexShrink: 0,
+                                                        height: 18,
+                                                        padding: "0 6px",
+                                                        borderRadius: 4,
+                                                        border: `1px solid ${on ? "#1976d2" : T.border}`,
+                                                        background: on ? "#1976d2" : T.bgCard,
+                                                        color: on ? "#fff" : T.fgCard,
+                                                        fontSize: 11,
+                                                        lineHeight: "16px",
+                                                        cursor: "pointer",
+                                                        whiteSpace: "nowrap",
+                                                    }}
+                                                >
+                                                    {tag}
+                                                </button>
+                                            );
+                                        })}
+                                        {r.tag_names.length > ROW_TAGS_SHOWN && (
+                                            <span title={r.tag_names.slice(ROW_TAGS_SHOWN).join(", ")} style={{ flexShrink: 0, fontSize: 11, opacity: 0.75 }}>
+                                                +{r.tag_names.length - ROW_TAGS_SHOWN}
+                                            </span>
+                                        )}
                                     </div>
                                     <div>{r.skill_level_name}</div>
+                                    <div style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                                        {r.key_signature || "\u2014"}
+                                    </div>
+                                    <div>{r.time_signature || "\u2014"}</div>
                                 </div>
                             );
                         })}
+
+                        {loadingMore && (
+                            <p style={{ margin: 0, padding: "8px 10px", fontSize: 13, color: T.rowFg, opacity: 0.75 }}>
+                                Loading more…
+                            </p>
+                        )}
+
+                        {!listLoading && !listError && rows.length === 0 && (
+                            <p style={{ margin: 0, padding: "12px 10px", fontSize: 13, color: T.rowFg, opacity: 0.75 }}>
+                                {search.trim() || selectedLevels.length > 0 || selectedTags.length > 0 || Object.values(facetFilter).some((v) => v) ? "No songs match these filters." : "No songs yet."}
+                            </p>
+                        )}
                     </div>
                 </div>
             </div>
@@ -0,0 +1,746 @@
+// src/components/ViewerControls.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+    activeKeyMap,
+    isModifierKey,
+    keyLabel,
+    PAGE_KEY_PROFILES,
+    PAGE_TURN_ACTIONS,
+    withLearnedKey,
+    type PageKeyPref,
+    type PageKeyProfileId,
+    type PageTurnAction,
+} from "@/lib/pageTurnKeys";
+import type { LoopRange } from "@/lib/scorePlayback";
+import { PAPER_SIZES, PDF_MARGINS, type PdfExportOptions, type PdfMargin, type PaperSize } from "@/lib/scorePdf";
+import { TRANSPOSE_MAX, TRANSPOSE_MIN, TRANSPOSE_PRESETS } from "@/lib/transposePresets";
+
+export type PlayState = "stopped" | "playing" | "paused";
+
+// "start"/"end" = waiting for the user to click that loop bound in the score
+export type LoopPick = "off" | "start" | "end";
+
+// What a press on the score does while marking it up ("off" = normal viewing)
+export type AnnotateTool = "off" | "pen" | "text" | "eraser";
+
+// Two-page spread: "auto" goes two-up when the screen is wide enough
+export type SpreadLayout = "auto" | "single" | "spread";
+export type PageTurn = 1 | 2; // pages a turn advances in a spread
+
+// "half": a turn first shows the end of the page over the start of the next one
+export type TurnMode = "full" | "half";
+
+export type ViewerPart = {
+    id: string;       // <score-part id="…">
+    name: string;     // <part-name>
+    visible: boolean;
+};
+
+export const TEMPO_MIN_PCT = 40;
+export const TEMPO_MAX_PCT = 150;
+
+type Props = {
+    playState: PlayState;
+    disabled: boolean;
+
+    // Practice
+    tempoPct: number;
+    loop: LoopRange | null;
+    loopPick: LoopPick;
+
+    onPlay(): void;
+    onPause(): void;
+    onStop(): void;
+    onTempoChange(pct: number): void;
+    onLoopPick(): void;
+    onLoopClear(): void;
+
+    // Transposition (semitones, written pitch)
+    transpose: number;
+    canTranspose: boolean;
+    onTransposeChange(semitones: number): void;
+
+    // Parts
+    parts: ReadonlyArray<ViewerPart>;
+    onTogglePart(partId: string): void;
+
+    // Navigation (1-based page numbers)
+    pageNumber: number;
+    pageCount: number;
+    halfTurnShown: boolean; // view spans pageNumber and the next page
+    measureRange: { min: number; max: number } | null;
+    onGoToMeasure(measure: number): boolean;
+    onGoToPage(page: number): void;
+
+    // Two-page spread (pageNumber is then the left page)
+    spreadLayout: SpreadLayout;
+    spreadActive: boolean;
+    turnBy: PageTurn;
+    onSpreadLayoutChange(layout: SpreadLayout): void;
+    onTurnByChange(turnBy: PageTurn): void;
+
+    // Half-page turns (single-page layout)
+    turnMode: TurnMode;
+    onTurnModeChange(mode: TurnMode): void;
+
+    // Page-turn keys (keyboard or Bluetooth pedal profile, or learned keys)
+    pageKeys: PageKeyPref;
+    onPageKeysChange(pref: PageKeyPref): void;
+
+    // Markings (only when signed in; saved per user and song)
+    annotateAvailable: boolean;
+    annotateTool: AnnotateTool;
+    annotationCount: number;
+    annotationError: string | null;
+    onAnnotateToolChange(tool: AnnotateTool): void;
+    onAnnotationUndo(): void;
+    onAnnotationsClear(): void;
+
+    // PDF export (paper choice is owned by the viewer so it can be remembered)
+    pdfOptions: PdfExportOptions;
+    onPdfOptionsChange(opts: PdfExportOptions): void;
+    onExportPdf(): Promise<boolean>;
+};
+
+const barStyle: React.CSSProperties = {
+    position: "absolute",
+    top: 8,
+    right: 8,
+    zIndex: 20, // above the page mask (10), below the busy blocker (9999)
+    display: "flex",
+    flexWrap: "wrap",
+    justifyContent: "flex-end",
+    maxWidth: "calc(100% - 16px)",
+    alignItems: "center",
+    gap: 6,
+    padding: "4px 6px",
+    borderRadius: 8,
+    background: "rgba(255,255,255,0.92)",
+    border: "1px solid #ccc",
+    boxShadow: "0 2px 8px rgba(0,0,0,0.15)",
+    fontSize: 13,
+    color: "#111",
+    userSelect: "none",
+};
+
+const numberInputStyle: React.CSSProperties = {
+    width: 52,
+    height: 26,
+    padding: "0 4px",
+    borderRadius: 6,
+    border: "1px solid #bbb",
+    background: "#fff",
+    color: "#111",
+    font: "inherit",
+};
+
+const btnStyle: React.CSSProperties = {
+    minWidth: 32,
+    height: 28,
+    padding: "0 8px",
+    borderRadius: 6,
+    border: "1px solid #bbb",
+    background: "#fafafa",
+    color: "#111",
+    font: "inherit",
+    cursor: "pointer",
+};
+
+const popoverStyle: React.CSSProperties = {
+    position: "absolute",
+    top: "calc(100% + 4px)",
+    right: 0,
+    padding: 8,
+    borderRadius: 8,
+    background: "#fff",
+    border: "1px solid #ccc",
+    boxShadow: "0 4px 14px rgba(0,0,0,0.18)",
+    display: "grid",
+    gap: 6,
+};
+
+const fieldStyle: React.CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8,
+    whiteSpace: "nowrap",
+};
+
+export default function ViewerControls(props: Props): React.ReactElement {
+    const {
+        playState,
+        disabled,
+        tempoPct,
+        loop,
+        loopPick,
+        onPlay,
+        onPause,
+        onStop,
+        onTempoChange,
+        onLoopPick,
+        onLoopClear,
+        transpose,
+        canTranspose,
+        onTransposeChange,
+        parts,
+        onTogglePart,
+        pageNumber,
+        pageCount,
+        halfTurnShown,
+        measureRange,
+        onGoToMeasure,
+        onGoToPage,
+        spreadLayout,
+        spreadActive,
+        turnBy,
+        onSpreadLayoutChange,
+        onTurnByChange,
+        turnMode,
+        onTurnModeChange,
+        pageKeys,
+        onPageKeysChange,
+        annotateAvailable,
+        annotateTool,
+        annotationCount,
+        annotationError,
+        onAnnotateToolChange,
+        onAnnotationUndo,
+        onAnnotationsClear,
+        pdfOptions,
+        onPdfOptionsChange,
+        onExportPdf,
+    } = props;
+
+    const [measureText, setMeasureText] = useState<string>("");
+    const [measureMissing, setMeasureMissing] = useState<boolean>(false);
+    const [pageText, setPageText] = useState<string>("");
+
+    function submitMeasure(e: React.FormEvent<HTMLFormElement>): void {
+        e.preventDefault();
+        const n = Number(measureText);
+        if (!Number.isInteger(n) || n < 0) {
+            setMeasureMissing(true);
+            return;
+        }
+        setMeasureMissing(!onGoToMeasure(n));
+    }
+
+    function submitPage(e: React.FormEvent<HTMLFormElement>): void {
+        e.preventDefault();
+        const n = Number(pageText);
+        if (!Number.isInteger(n) || n < 1) { return; }
+        onGoToPage(n);
+        setPageText("");
+    }
+
+    const [partsOpen, setPartsOpen] = useState<boolean>(false);
+    const [pdfOpen, setPdfOpen] = useState<boolean>(false);
+    const [pdfFailed, setPdfFailed] = useState<boolean>(false);
+    const [keysOpen, setKeysOpen] = useState<boolean>(false);
+    const [learning, setLearning] = useState<PageTurnAction | null>(null);
+    const visibleParts = parts.filter((p) => p.visible).length;
+
+    const preset = TRANSPOSE_PRESETS.find((p) => p.semitones === transpose)?.key ?? "custom";
+    const transposeEnabled = !disabled && canTranspose;
+    const stepTranspose = (d: number) => {
+        onTransposeChange(Math.max(TRANSPOSE_MIN, Math.min(TRANSPOSE_MAX, transpose + d)));
+    };
+
+    const isPlaying = playState === "playing";
+
+    // Learn mode: the next key press (from a pedal or the keyboard) becomes the action's key.
+    // Captured on window before the viewer's own handler so it doesn't also turn the page; Escape cancels.
+    useEffect(() => {
+        if (!learning) { return; }
+        const onKey = (e: KeyboardEvent) => {
+            if (isModifierKey(e.key)) { return; }
+            e.preventDefault();
+            e.stopPropagation();
+            if (e.key !== "Escape") {
+                const base = activeKeyMap(pageKeys);
+                onPageKeysChange({ profile: "custom", custom: withLearnedKey(base, learning, e.key) });
+            }
+            setLearning(null);
+            // Off the Learn button, so the pedal can be tried straight away (control targets are ignored)
+            if (document.activeElement instanceof HTMLElement) { document.activeElement.blur(); }
+        };
+        window.addEventListener("keydown", onKey, true);
+        return () => window.removeEventListener("keydown", onKey, true);
+    }, [learning, pageKeys, onPageKeysChange]);
+
+    const keyMap = activeKeyMap(pageKeys);
+
+    async function exportPdf(): Promise<void> {
+        setPdfFailed(false);
+        const ok = await onExportPdf();
+        setPdfFailed(!ok);
+        if (ok) { setPdfOpen(false); }
+    }
+
+    const btn = (enabled: boolean): React.CSSProperties => ({
+        ...btnStyle,
+        opacity: enabled ? 1 : 0.45,
+        cursor: enabled ? "pointer" : "not-allowed",
+    });
+
+    return (
+        <div
+            data-viewer-controls="1"
+            role="toolbar"
+            aria-label="Playback"
+            style={barStyle}
+        >
+            {isPlaying ? (
+                <button
+                    type="button"
+                    title="Pause"
+                    aria-label="Pause"
+                    onClick={onPause}
+                    disabled={disabled}
+                    style={btn(!disabled)}
+                >
+                    ❚❚
+                </button>
+            ) : (
+                <button
+                    type="button"
+                    title={playState === "paused" ? "Resume" : "Play"}
+                    aria-label={playState === "paused" ? "Resume" : "Play"}
+                    onClick={onPlay}
+                    disabled={disabled}
+                    style={btn(!disabled)}
+                >
+                    ▶
+                </button>
+            )}
+
+            <button
+                type="button"
+                title="Stop"
+                aria-label="Stop"
+                onClick={onStop}
+                disabled={disabled || playState === "stopped"}
+                style={btn(!disabled && playState !== "stopped")}
+            >
+                ■
+            </button>
+
+            <label
+                title="Practice tempo"
+                style={{ display: "inline-flex", alignItems: "center", gap: 4, marginLeft: 4 }}
+            >
+                <input
+                    type="range"
+                    min={TEMPO_MIN_PCT}
+                    max={TEMPO_MAX_PCT}
+                    step={5}
+                    value={tempoPct}
+                    disabled={disabled}
+                    onChange={(e) => onTempoChange(Number(e.currentTarget.value))}
+                    aria-label="Tempo percent"
+                    style={{ width: 90 }}
+                />
+                <span style={{ minWidth: 38, textAlign: "right", fontVariantNumeric: "tabular-nums" }}>
+                    {tempoPct}%
+                </span>
+            </label>
+
+            <button
+                type="button"
+                title={
+                    loopPick === "start" ? "Click the first measure of the loop"
+                        : loopPick === "end" ? "Click the last measure of the loop"
+                            : "Pick an A/B loop"
+                }
+                aria-pressed={loopPick !== "off"}
+                onClick={onLoopPick}
+                disabled={disabled}
+                style={{
+                    ...btn(!disabled),
+                    background: loopPick !== "off" ? "#e3f2fd" : btnStyle.background,
+                    borderColor: loopPick !== "off" ? "#1976d2" : "#bbb",
+                }}
+            >
+                {loopPick === "start" ? "Pick A…"
+                    : loopPick === "end" ? "Pick B…"
+                        : loop ? `m.${loop.startMeasure}–${loop.endMeasure}` : "A–B"}
+            </button>
+
+            {(loop || loopPick !== "off") && (
+                <button
+                    type="button"
+                    title="Clear loop"
+                    aria-label="Clear loop"
+                    onClick={onLoopClear}
+                    disabled={disabled}
+                    style={btn(!disabled)}
+                >
+                    ✕
+                </button>
+            )}
+
+            {canTranspose && (
+                <span style={{ display: "inline-flex", alignItems: "center", gap: 4, marginLeft: 4 }}>
+                    <select
+                        value={preset}
+                        disabled={!transposeEnabled}
+                        onChange={(e) => {
+                            const p = TRANSPOSE_PRESETS.find((x) => x.key === e.currentTarget.value);
+                            if (p) { onTransposeChange(p.semitones); }
+                        }}
+                        aria-label="Transpose for instrument"
+                        title="Transpose for instrument"
+                        style={{ ...btnStyle, padding: "0 4px" }}
+                    >
+                        {TRANSPOSE_PRESETS.map((p) => (
+                            <option key={p.key} value={p.key}>{p.label}</option>
+                        ))}
+                        {preset === "custom" && <option value="custom">Custom</option>}
+                    </select>
+                    <button
+                        type="button"
+                        title="Transpose down a semitone"
+                        aria-label="Transpose down a semitone"
+                        onClick={() => stepTranspose(-1)}
+                        disabled={!transposeEnabled || transpose <= TRANSPOSE_MIN}
+                        style={btn(transposeEnabled && transpose > TRANSPOSE_MIN)}
+                    >
+                        ♭
+                    </button>
+                    <span
+                        title="Semitones"
+                        style={{ minWidth: 28, textAlign: "center", fontVariantNumeric: "tabular-nums" }}
+                    >
+                        {transpose > 0 ? `+${transpose}` : String(transpose)}
+                    </span>
+                    <button
+                        type="button"
+                        title="Transpose up a semitone"
+                        aria-label="Transpose up a semitone"
+                        onClick={() => stepTranspose(1)}
+                        disabled={!transposeEnabled || transpose >= TRANSPOSE_MAX}
+                        style={btn(transposeEnabled && transpose < TRANSPOSE_MAX)}
+                    >
+                        ♯
+                    </button>
+                </span>
+            )}
+
+            <form
+                onSubmit={submitMeasure}
+                style={{ display: "inline-flex", alignItems: "center", gap: 4, marginLeft: 4 }}
+            >
+                <input
+                    type="number"
+                    inputMode="numeric"
+                    min={measureRange?.min ?? 0}
+                    max={measureRange?.max}
+                    placeholder="Bar"
+                    value={measureText}
+                    onChange={(e) => { setMeasureText(e.currentTarget.value); setMeasureMissing(false); }}
+                    disabled={disabled || !measureRange}
+                    aria-label="Go to measure"
+                    aria-invalid={measureMissing || undefined}
+                    title={measureRange ? `Go to measure (${measureRange.min}–${measureRange.max})` : "Go to measure"}
+                    style={{ ...numberInputStyle, borderColor: measureMissing ? "crimson" : "#bbb" }}
+                />
+                <button type="submit" disabled={disabled || !measureRange} style={btn(!disabled && !!measureRange)}>
+                    Go
+                </button>
+            </form>
+
+            <form
+                onSubmit={submitPage}
+                style={{ display: "inline-flex", alignItems: "center", gap: 4, marginLeft: 4 }}
+            >
+                <input
+                    type="number"
+                    inputMode="numeric"
+                    min={1}
+                    max={pageCount}
+                    placeholder={(spreadActive || halfTurnShown) && pageNumber < pageCount ? `${pageNumber}–${pageNumber + 1}` : String(pageNumber)}
+                    value={pageText}
+                    onChange={(e) => setPageText(e.currentTarget.value)}
+                    disabled={disabled}
+                    aria-label="Go to page"
+                    title="Go to page"
+                    style={numberInputStyle}
+                />
+                <span style={{ fontVariantNumeric: "tabular-nums" }}>/ {pageCount}</span>
+            </form>
+
+            <select
+                value={spreadLayout}
+                disabled={disabled}
+                onChange={(e) => {
+                    const v = e.currentTarget.value;
+                    onSpreadLayoutChange(v === "single" || v === "spread" ? v : "auto");
+                }}
+                aria-label="Page layout"
+                title="One page, or two side by side (Auto: two when the screen is wide enough)"
+                style={{ ...btnStyle, padding: "0 4px", marginLeft: 4 }}
+            >
+                <option value="auto">Auto</option>
+                <option value="single">One page</option>
+                <option value="spread">Two pages</option>
+            </select>
+            {spreadActive && (
+                <select
+                    value={turnBy}
+                    disabled={disabled}
+                    onChange={(e) => onTurnByChange(e.currentTarget.value === "1" ? 1 : 2)}
+                    aria-label="Pages per turn"
+                    title="How far a page turn moves in a spread"
+                    style={{ ...btnStyle, padding: "0 4px" }}
+                >
+                    <option value={1}>Turn 1 page</option>
+                    <option value={2}>Turn 2 pages</option>
+                </select>
+            )}
+            {!spreadActive && (
+                <select
+                    value={turnMode}
+                    disabled={disabled}
+                    onChange={(e) => onTurnModeChange(e.currentTarget.value === "half" ? "half" : "full")}
+                    aria-label="Page turn"
+                    title="Half turn: show the end of the page above the start of the next one first"
+                    style={{ ...btnStyle, padding: "0 4px" }}
+                >
+                    <option value="full">Full turn</option>
+                    <option value="half">Half turn</option>
+                </select>
+            )}
+
+            {parts.length > 1 && (
+                <span style={{ position: "relative", marginLeft: 4 }}>
+                    <button
+                        type="button"
+                        title="Show or hide parts"
+                        aria-expanded={partsOpen}
+                        aria-haspopup="true"
+                        onClick={() => setPartsOpen((v) => !v)}
+                        disabled={disabled}
+                        style={btn(!disabled)}
+                    >
+                        Parts {visibleParts < parts.length ? `(${visibleParts}/${parts.length})` : ""}
+                    </button>
+                    {partsOpen && (
+                        <div
+                            role="group"
+                            aria-label="Parts"
+                            style={{ ...popoverStyle, minWidth: 180, maxHeight: 260, overflowY: "auto" }}
+                        >
+                            {parts.map((p) => {
+                                // The last visible part can't be hidden
+                                const locked = p.visible && visibleParts <= 1;
+                                return (
+                                    <label
+                                        key={p.id}
+                                        title={locked ? "At least one part must stay visible" : p.name}
+                                        style={{
+                                            display: "flex",
+                                            alignItems: "center",
+                                            gap: 6,
+                                            whiteSpace: "nowrap",
+                                            cursor: disabled || locked ? "not-allowed" : "pointer",
+                                        }}
+                                    >
+                                        <input
+                                            type="checkbox"
+                                            checked={p.visible}
+                                            disabled={disabled || locked}
+                                            onChange={() => onTogglePart(p.id)}
+                                        />
+                                        <span>{p.name}</span>
+                                    </label>
+                                );
+                            })}
+                        </div>
+                    )}
+                </span>
+            )}
+
+            {annotateAvailable && (
+                <span style={{ display: "inline-flex", alignItems: "center", gap: 4, marginLeft: 4 }}>
+                    <select
+                        value={annotateTool}
+                        disabled={disabled}
+                        onChange={(e) => {
+                            const v = e.currentTarget.value;
+                            onAnnotateToolChange(v === "pen" || v === "text" || v === "eraser" ? v : "off");
+                        }}
+                        aria-label="Markings"
+                        title="Mark up the score (only you see your markings)"
+                        style={{ ...btnStyle, padding: "0 4px", borderColor: annotateTool !== "off" ? "#c62828" : "#bbb" }}
+                    >
+                        <option value="off">Markings</option>
+                        <option value="pen">Pencil</option>
+                        <option value="text">Text</option>
+                        <option value="eraser">Eraser</option>
+                    </select>
+                    {annotateTool !== "off" && (
+                        <>
+                            <button
+                                type="button"
+                                title="Remove your last marking"
+                                onClick={onAnnotationUndo}
+                                disabled={disabled || annotationCount === 0}
+                                style={btn(!disabled && annotationCount > 0)}
+                            >
+                                Undo
+                            </button>
+                            <button
+                                type="button"
+                                title="Remove all of your markings on this score"
+                                onClick={onAnnotationsClear}
+                                disabled={disabled || annotationCount === 0}
+                                style={btn(!disabled && annotationCount > 0)}
+                            >
+                                Clear
+                            </button>
+                        </>
+                    )}
+                    {annotationError && (
+                        <span role="alert" style={{ color: "crimson" }}>
+                            {annotationError}
+                        </span>
+                    )}
+                </span>
+            )}
+
+            <span style={{ position: "relative", marginLeft: 4 }}>
+                <button
+                    type="button"
+                    title="Page-turn keys and pedals"
+                    aria-expanded={keysOpen}
+                    aria-haspopup="true"
+                    onClick={() => { setKeysOpen((v) => !v); setLearning(null); }}
+                    disabled={disabled}
+                    style={btn(!disabled)}
+                >
+                    Keys
+                </button>
+                {keysOpen && (
+                    <div
+                        role="group"
+                        aria-label="Page-turn keys"
+                        style={{ ...popoverStyle, minWidth: 240 }}
+                    >
+                        <label style={fieldStyle}>
+                            <span>Profile</span>
+                            <select
+                                value={pageKeys.profile}
+                                disabled={disabled}
+                                onChange={(e) => onPageKeysChange({ ...pageKeys, profile: e.currentTarget.value as PageKeyProfileId })}
+                                style={{ ...btnStyle, padding: "0 4px" }}
+                            >
+                                {(Object.keys(PAGE_KEY_PROFILES) as Exclude<PageKeyProfileId, "custom">[]).map((k) => (
+                                    <option key={k} value={k}>{PAGE_KEY_PROFILES[k].label}</option>
+                                ))}
+                                <option value="custom">Custom (learned)</option>
+                            </select>
+                        </label>
+                        {PAGE_TURN_ACTIONS.map(({ action, label }) => (
+                            <div key={action} style={fieldStyle}>
+                                <span>{label}</span>
+                                <span style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
+                                    <span style={{ color: keyMap[action].length ? "#111" : "#888" }}>
+                                        {keyMap[action].length ? keyMap[action].map(keyLabel).join(" / ") : "—"}
+                                    </span>
+                                    <button
+                                        type="button"
+                                        title={learning === action ? "Press the key or pedal (Esc cancels)" : "Use the next key pressed"}
+                                        onClick={() => setLearning((v) => (v === action ? null : action))}
+                                        disabled={disabled}
+                                        style={btn(!disabled)}
+                                    >
+                                        {learning === action ? "Press a key…" : "Learn"}
+                                    </button>
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </span>
+
+            <span style={{ position: "relative", marginLeft: 4 }}>
+                <button
+                    type="button"
+                    title="Export as PDF"
+                    aria-expanded={pdfOpen}
+                    aria-haspopup="true"
+                    onClick={() => { setPdfOpen((v) => !v); setPdfFailed(false); }}
+                    disabled={disabled}
+                    style={btn(!disabled)}
+                >
+                    PDF
+                </button>
+                {pdfOpen && (
+                    <div
+                        role="group"
+                        aria-label="PDF export"
+                        style={{ ...popoverStyle, minWidth: 200 }}
+                    >
+                        <label style={fieldStyle}>
+                            <span>Paper</span>
+                            <select
+                                value={pdfOptions.paper}
+                                disabled={disabled}
+                                onChange={(e) => onPdfOptionsChange({ ...pdfOptions, paper: e.currentTarget.value as PaperSize })}
+                                style={{ ...btnStyle, padding: "0 4px" }}
+                            >
+                                {(Object.keys(PAPER_SIZES) as PaperSize[]).map((k) => (
+                                    <option key={k} value={k}>{PAPER_SIZES[k].label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label style={fieldStyle}>
+                            <span>Orientation</span>
+                            <select
+                                value={pdfOptions.orientation}
+                                disabled={disabled}
+                                onChange={(e) => onPdfOptionsChange({
+                                    ...pdfOptions,
+                                    orientation: e.currentTarget.value === "landscape" ? "landscape" : "portrait",
+                                })}
+                                style={{ ...btnStyle, padding: "0 4px" }}
+                            >
+                                <option value="portrait">Portrait</option>
+                                <option value="landscape">Landscape</option>
+                            </select>
+                        </label>
+                        <label style={fieldStyle}>
+                            <span>Margins</span>
+                            <select
+                                value={pdfOptions.margin}
+                                disabled={disabled}
+                                onChange={(e) => onPdfOptionsChange({ ...pdfOptions, margin: e.currentTarget.value as PdfMargin })}
+                                style={{ ...btnStyle, padding: "0 4px" }}
+                            >
+                                {(Object.keys(PDF_MARGINS) as PdfMargin[]).map((k) => (
+                                    <option key={k} value={k}>{PDF_MARGINS[k].label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <button
+                            type="button"
+                            onClick={() => { void exportPdf(); }}
+                            disabled={disabled}
+                            style={btn(!disabled)}
+                        >
+                            Download PDF
+                        </button>
+                        {pdfFailed && (
+                            <span role="alert" style={{ color: "crimson" }}>
+                                Could not create the PDF.
+                            </span>
+                        )}
+                    </div>
+                )}
+            </span>
+        </div>
+    );
+}
@@ -0,0 +1,187 @@
+// src/components/common/SongListFilterBar.tsx
+"use client";
+
+import React from "react";
+import type { ThemeTokens } from "@/lib/theme";
+import type { SongFacetFilter, SongFacetName } from "@/lib/songListFetch";
+import type { SongFacetsResponse } from "@/lib/types";
+
+type LevelOption = { number: number; name: string };
+
+// One select per facet; hidden until the catalog has a value for it
+const FACET_SELECTS: ReadonlyArray<{ name: SongFacetName; options: keyof SongFacetsResponse; any: string; label: string }> = [
+    { name: "keySignature", options: "key_signatures", any: "Any key", label: "Key signature" },
+    { name: "timeSignature", options: "time_signatures", any: "Any time", label: "Time signature" },
+    { name: "instrument", options: "instruments", any: "Any instrument", label: "Instrument" },
+];
+
+type Props = {
+    // Free-text search (title + composer); parent debounces the fetch
+    search: string;
+    onSearchChange(text: string): void;
+
+    // Skill level chips (none selected = every level)
+    levels: ReadonlyArray<LevelOption>;
+    selectedLevels: ReadonlyArray<number>;
+    onToggleLevel(levelNumber: number): void;
+
+    // Score metadata selects ("" = any)
+    facets: SongFacetsResponse;
+    facetFilter: SongFacetFilter;
+    onFacetChange(name: SongFacetName, value: string): void;
+
+    // Tag chips (songs must carry every selected tag)
+    selectedTags: ReadonlyArray<string>;
+    onToggleTag(tag: string): void;
+
+    onClearFilters(): void;
+
+    width: number;   // match the table card width
+    T: ThemeTokens;
+};
+
+export default function SongListFilterBar(props: Props): React.ReactElement {
+    const {
+        search,
+        onSearchChange,
+        levels,
+        selectedLevels,
+        onToggleLevel,
+        facets,
+        facetFilter,
+        onFacetChange,
+        selectedTags,
+        onToggleTag,
+        onClearFilters,
+        width,
+        T,
+    } = props;
+
+    const hasFilters = search.trim().length > 0
+        || selectedLevels.length > 0
+        || selectedTags.length > 0
+        || FACET_SELECTS.some((f) => (facetFilter[f.name] ?? "") !== "");
+
+    const chipStyle = (on: boolean): React.CSSProperties => ({
+        height: 26,
+        padding: "0 10px",
+        borderRadius: 13,
+        border: `1px solid ${on ? "#1976d2" : T.border}`,
+        background: on ? "#1976d2" : T.bgCard,
+        color: on ? "#fff" : T.fgCard,
+        fontSize: 12,
+        fontWeight: on ? 600 : 400,
+        cursor: "pointer",
+        whiteSpace: "nowrap",
+    });
+
+    return (
+        <div
+            role="search"
+            style={{
+                width,
+                maxWidth: "100%",
+                margin: "0 auto 8px",
+                display: "flex",
+                flexWrap: "wrap",
+                alignItems: "center",
+                gap: 6,
+            }}
+        >
+            <input
+                type="search"
+                value={search}
+                onChange={(e) => { onSearchChange(e.currentTarget.value); }}
+                placeholder="Search title or composer…"
+                aria-label="Search songs"
+                maxLength={200}
+                style={{
+                    flex: "1 1 200px",
+                    minWidth: 160,
+                    height: 30,
+                    padding: "0 10px",
+                    borderRadius: 6,
+                    border: `1px solid ${T.border}`,
+                    background: T.fieldBg,
+                    color: T.fieldFg,
+                    fontSize: 13,
+                }}
+            />
+
+            <div role="group" aria-label="Skill levels" style={{ display: "flex", flexWrap: "wrap", gap: 4 }}>
+                {levels.map((l) => {
+                    const on = selectedLevels.includes(l.number);
+                    return (
+                        <button
+                            key={l.number}
+                            type="button"
+                            aria-pressed={on}
+                            onClick={() => { onToggleLevel(l.number); }}
+                            style={chipStyle(on)}
+                        >
+                            {l.name}
+                        </button>
+                    );
+                })}
+            </div>
+
+            {FACET_SELECTS.map((f) => {
+                const value = facetFilter[f.name] ?? "";
+                const options = facets[f.options];
+                if (options.length === 0 && value === "") { return null; }
+                return (
+                    <select
+                        key={f.name}
+                        value={value}
+                        onChange={(e) => { onFacetChange(f.name, e.currentTarget.value); }}
+                        aria-label={f.label}
+                        style={{
+                            height: 26,
+                            maxWidth: 160,
+                            padding: "0 6px",
+                            borderRadius: 13,
+                            border: `1px solid ${value ? "#1976d2" : T.border}`,
+                            background: T.fieldBg,
+                            color: T.fieldFg,
+                            fontSize: 12,
+                        }}
+                    >
+                        <option value="">{f.any}</option>
+                        {!options.includes(value) && value !== "" && <option value={value}>{value}</option>}
+                        {options.map((o) => <option key={o} value={o}>{o}</option>)}
+                    </select>
+                );
+            })}
+
+            {(facets.tags.length > 0 || selectedTags.length > 0) && (
+                <div role="group" aria-label="Tags" style={{ display: "flex", flexWrap: "wrap", gap: 4 }}>
+                    {[...selectedTags.filter((t) => !facets.tags.includes(t)), ...facets.tags].map((tag) => {
+                        const on = selectedTags.includes(tag);
+                        return (
+                            <button
+                                key={tag}
+                                type="button"
+                                aria-pressed={on}
+                                onClick={() => { onToggleTag(tag); }}
+                                style={{ ...chipStyle(on), borderRadius: 4 }}
+                            >
+                                {tag}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            {hasFilters && (
+                <button
+                    type="button"
+                    onClick={onClearFilters}
+                    title="Clear search, level, score and tag filters"
+                    style={{ ...chipStyle(false), borderStyle: "dashed" }}
+                >
+                    Clear
+                </button>
+            )}
+        </div>
+    );
+}
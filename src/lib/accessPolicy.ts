@@ -0,0 +1,62 @@
+// src/lib/accessPolicy.ts
+// Which user_role may reach which pages and API routes; enforced by src/middleware.ts.
+// Role numbers mirror the seeded user_role rows in database/*/tables.sql.
+
+export const USER_ROLE = {
+    admin: 1,
+    student: 2,
+    guest: 3,
+} as const;
+
+export type UserRoleNumber = (typeof USER_ROLE)[keyof typeof USER_ROLE];
+
+type AccessRule = Readonly<{
+    path: RegExp;
+    methods: "all" | "mutating";
+    roles: ReadonlyArray<UserRoleNumber>;
+}>;
+
+const MUTATING_METHODS: ReadonlySet<string> = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+// First matching rule wins; requests that match nothing are public
+const ACCESS_RULES: ReadonlyArray<AccessRule> = [
+    // Admin UI and the user directory (emails) are admin-only, reads included
+    { path: /^\/admin(\/|$)/, methods: "all", roles: [USER_ROLE.admin] },
+    { path: /^\/api\/(user|userlist)(\/|$)/, methods: "all", roles: [USER_ROLE.admin] },
+    // Deleted songs and users, until restored or purged
+    { path: /^\/api\/trash(\/|$)/, methods: "all", roles: [USER_ROLE.admin] },
+    // Who changed what (before/after values, request metadata)
+    { path: /^\/api\/audit(\/|$)/, methods: "all", roles: [USER_ROLE.admin] },
+    // Old engravings are an editing aid, not part of the published catalog
+    { path: /^\/api\/song\/\d+\/revisions(\/|$)/, methods: "all", roles: [USER_ROLE.admin] },
+    // Composer upkeep (duplicates, merges, upload suggestions) happens only in the admin pages
+    { path: /^\/api\/composer(\/|$)/, methods: "all", roles: [USER_ROLE.admin] },
+
+    // Assignments: admins assign; students see and complete their own (the route scopes rows)
+    { path: /^\/api\/assignment\/\d+\/complete$/, methods: "mutating", roles: [USER_ROLE.admin, USER_ROLE.student] },
+    { path: /^\/api\/assignment$/, methods: "mutating", roles: [USER_ROLE.admin] },
+    { path: /^\/api\/assignment$/, methods: "all", roles: [USER_ROLE.admin, USER_ROLE.student] },
+
+    // Score markings are private to whoever drew them (the routes scope rows to the session user)
+    { path: /^\/api\/annotation(\/|$)/, methods: "all", roles: [USER_ROLE.admin, USER_ROLE.student, USER_ROLE.guest] },
+    // Setlists likewise belong to the signed-in user
+    { path: /^\/api\/setlist(\/|$)/, methods: "all", roles: [USER_ROLE.admin, USER_ROLE.student, USER_ROLE.guest] },
+
+    // Any other API call that changes data is admin-only unless a rule above allows more
+    { path: /^\/api\//, methods: "mutating", roles: [USER_ROLE.admin] },
+];
+
+/** Roles allowed to make this request, or null when it needs no sign-in */
+export function requiredRoles(pathname: string, method: string): ReadonlyArray<UserRoleNumber> | null {
+    const m = method.toUpperCase();
+    for (const rule of ACCESS_RULES) {
+        if (!rule.path.test(pathname)) { continue; }
+        if (rule.methods === "mutating" && !MUTATING_METHODS.has(m)) { continue; }
+        return rule.roles;
+    }
+    return null;
+}
+
+export function isRoleAllowed(roleNumber: number, roles: ReadonlyArray<UserRoleNumber>): boolean {
+    return (roles as ReadonlyArray<number>).includes(roleNumber);
+}
@@ -0,0 +1,120 @@
+// src/lib/annotationFetch.ts
+import type { AnnotationData, AnnotationItem, AnnotationKind } from "@/lib/types";
+
+const ANNOTATION_ENDPOINT = "/api/annotation";
+
+function normalizeData(v: unknown): AnnotationData {
+    const o = v && typeof v === "object" ? v as Record<string, unknown> : {};
+    const points = Array.isArray(o.points)
+        ? o.points
+            .filter((p): p is [number, number] =>
+                Array.isArray(p) && typeof p[0] === "number" && typeof p[1] === "number")
+            .map((p): readonly [number, number] => [p[0], p[1]])
+        : undefined;
+    return {
+        ...(points ? { points } : {}),
+        ...(typeof o.x === "number" ? { x: o.x } : {}),
+        ...(typeof o.y === "number" ? { y: o.y } : {}),
+        ...(typeof o.text === "string" ? { text: o.text } : {}),
+    };
+}
+
+/** Convert /api/annotation payload into strict AnnotationItem[] */
+export function normalizeAnnotationList(json: unknown): AnnotationItem[] {
+    const items = (json && typeof json === "object"
+        ? (json as Record<string, unknown>).items
+        : []) as unknown;
+
+    const out: AnnotationItem[] = [];
+    if (Array.isArray(items)) {
+        for (const it of items) {
+            if (it && typeof it === "object") {
+                const r = it as Record<string, unknown>;
+                const id = r.annotation_id;
+                const kind = r.annotation_kind;
+                if (typeof id === "number" && Number.isFinite(id) && (kind === "stroke" || kind === "text")) {
+                    out.push({
+                        annotation_id: id,
+                        song_id: Number(r.song_id ?? 0),
+                        annotation_kind: kind,
+                        measure_number: Number(r.measure_number ?? 0),
+                        part_id: String(r.part_id ?? ""),
+                        staff_number: Number(r.staff_number ?? 1),
+                        annotation_data: normalizeData(r.annotation_data),
+                        inserted_datetime: String(r.inserted_datetime ?? ""),
+                    });
+                }
+            }
+        }
+    }
+    return out;
+}
+
+/** HTTP error that keeps the status so callers can tell "signed out" (401) apart */
+export class AnnotationFetchError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = "AnnotationFetchError";
+    }
+}
+
+async function readError(res: Response): Promise<AnnotationFetchError> {
+    let message = `HTTP ${res.status}`;
+    try {
+        const j = (await res.json()) as { message?: unknown; error?: unknown };
+        if (typeof j.message === "string") { message = j.message; }
+        else if (typeof j.error === "string") { message = j.error; }
+    } catch {
+        // keep the status text
+    }
+    return new AnnotationFetchError(message, res.status);
+}
+
+/** The signed-in user's markings on one song */
+export async function fetchAnnotations(songId: number | string, signal?: AbortSignal): Promise<AnnotationItem[]> {
+    const params = new URLSearchParams({ song_id: String(songId) });
+    const res = await fetch(`${ANNOTATION_ENDPOINT}?${params.toString()}`, { cache: "no-store", signal });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+    return normalizeAnnotationList(await res.json());
+}
+
+export type AnnotationInput = {
+    song_id: number;
+    annotation_kind: AnnotationKind;
+    measure_number: number;
+    part_id: string;
+    staff_number: number;
+    annotation_data: AnnotationData;
+};
+
+/** Save one marking; returns its annotation_id */
+export async function createAnnotation(input: AnnotationInput): Promise<number> {
+    const res = await fetch(ANNOTATION_ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+    });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+    const json = (await res.json()) as { annotation_id?: unknown };
+    return typeof json.annotation_id === "number" ? json.annotation_id : 0;
+}
+
+export async function deleteAnnotation(annotationId: number): Promise<void> {
+    const res = await fetch(`${ANNOTATION_ENDPOINT}/${annotationId}`, { method: "DELETE" });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+}
+
+/** Remove every marking the signed-in user made on this song */
+export async function clearAnnotations(songId: number | string): Promise<void> {
+    const params = new URLSearchParams({ song_id: String(songId) });
+    const res = await fetch(`${ANNOTATION_ENDPOINT}?${params.toString()}`, { method: "DELETE" });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+}
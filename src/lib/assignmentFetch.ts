@@ -0,0 +1,109 @@
+// src/lib/assignmentFetch.ts
+import type { AssignmentItem } from "@/lib/types";
+
+const ASSIGNMENT_ENDPOINT = "/api/assignment";
+
+/** Convert /api/assignment payload into strict AssignmentItem[] */
+export function normalizeAssignmentList(json: unknown): AssignmentItem[] {
+    const items = (json && typeof json === "object"
+        ? (json as Record<string, unknown>).items
+        : []) as unknown;
+
+    const out: AssignmentItem[] = [];
+    if (Array.isArray(items)) {
+        for (const it of items) {
+            if (it && typeof it === "object") {
+                const r = it as Record<string, unknown>;
+                const id = r.assignment_id;
+                if (typeof id === "number" && Number.isFinite(id)) {
+                    out.push({
+                        assignment_id: id,
+                        song_id: Number(r.song_id ?? 0),
+                        song_title: String(r.song_title ?? ""),
+                        composer_first_name: String(r.composer_first_name ?? ""),
+                        composer_last_name: String(r.composer_last_name ?? ""),
+                        user_id: Number(r.user_id ?? 0),
+                        user_name: String(r.user_name ?? ""),
+                        user_first_name: String(r.user_first_name ?? ""),
+                        user_last_name: String(r.user_last_name ?? ""),
+                        assignment_notes: String(r.assignment_notes ?? ""),
+                        due_date: typeof r.due_date === "string" ? r.due_date : null,
+                        completed_datetime: typeof r.completed_datetime === "string" ? r.completed_datetime : null,
+                        inserted_datetime: String(r.inserted_datetime ?? ""),
+                    });
+                }
+            }
+        }
+    }
+    return out;
+}
+
+/** HTTP error that keeps the status so callers can tell "signed out" (401) apart */
+export class AssignmentFetchError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = "AssignmentFetchError";
+    }
+}
+
+async function readError(res: Response): Promise<AssignmentFetchError> {
+    let message = `HTTP ${res.status}`;
+    try {
+        const j = (await res.json()) as { message?: unknown; error?: unknown };
+        if (typeof j.message === "string") { message = j.message; }
+        else if (typeof j.error === "string") { message = j.error; }
+    } catch {
+        // keep the status text
+    }
+    return new AssignmentFetchError(message, res.status);
+}
+
+/** Students always get their own; admins get everyone's, one student's (userId), or their own (mine) */
+export async function fetchAssignments(
+    opts: { userId?: number; mine?: boolean; includeCompleted?: boolean } = {},
+    signal?: AbortSignal
+): Promise<AssignmentItem[]> {
+    const params = new URLSearchParams();
+    if (opts.mine) {
+        params.set("mine", "1");
+    }
+    if (opts.userId !== undefined) {
+        params.set("user_id", String(opts.userId));
+    }
+    if (opts.includeCompleted) {
+        params.set("include_completed", "1");
+    }
+    const res = await fetch(`${ASSIGNMENT_ENDPOINT}?${params.toString()}`, { cache: "no-store", signal });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+    return normalizeAssignmentList(await res.json());
+}
+
+export type AssignInput = {
+    song_id: number;
+    user_ids: number[];
+    assignment_notes: string;
+    due_date: string | null;   // YYYY-MM-DD
+};
+
+/** Admin: assign one song to several students; returns rows created or updated */
+export async function assignSong(input: AssignInput): Promise<number> {
+    const res = await fetch(ASSIGNMENT_ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+    });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+    const json = (await res.json()) as { count?: unknown };
+    return typeof json.count === "number" ? json.count : 0;
+}
+
+export async function completeAssignment(assignmentId: number): Promise<void> {
+    const res = await fetch(`${ASSIGNMENT_ENDPOINT}/${assignmentId}/complete`, { method: "POST" });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+}
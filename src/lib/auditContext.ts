@@ -0,0 +1,29 @@
+// src/lib/auditContext.ts
+// Who is making a request and how, passed as p_audit to the functions that write audit_log
+// (song_upsert, song_delete, song_revision_restore, user_upsert, user_delete, composer_save,
+// composer_merge, trash_restore, trash_delete, trash_purge). Server-only.
+import { sessionFromHeaders } from "./sessionUser";
+
+const USER_AGENT_MAX_LEN = 500;
+
+export type AuditContext = Readonly<{
+    actor_user_id: number | null;   // null = no signed-in site_user
+    request_method: string;
+    request_path: string;           // path and query string
+    request_ip: string | null;
+    user_agent: string | null;
+}>;
+
+export function auditContextFromRequest(req: Request): AuditContext {
+    const url = new URL(req.url);
+    // The first x-forwarded-for hop is the client behind Vercel's (or any) proxy
+    const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+    const userAgent = req.headers.get("user-agent");
+    return {
+        actor_user_id: sessionFromHeaders(req.headers)?.userId ?? null,
+        request_method: req.method,
+        request_path: `${url.pathname}${url.search}`,
+        request_ip: forwarded || req.headers.get("x-real-ip") || null,
+        user_agent: userAgent === null ? null : userAgent.slice(0, USER_AGENT_MAX_LEN),
+    };
+}
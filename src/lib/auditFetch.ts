@@ -0,0 +1,134 @@
+// src/lib/auditFetch.ts
+import type { AuditActorItem, AuditEntityType, AuditItem, AuditListResponse } from "@/lib/types";
+import { readNextCursor } from "@/lib/songListFetch";
+
+const AUDIT_ENDPOINT = "/api/audit";
+
+/** Server-side filters for /api/audit (absent = no filter) */
+export type AuditFilters = {
+    entityType?: AuditEntityType;
+    entityId?: number;
+    actorUserId?: number;
+    from?: string;   // ISO instant, inclusive
+    to?: string;     // ISO instant, exclusive
+};
+
+function isEntityType(v: unknown): v is AuditEntityType {
+    return v === "song" || v === "user";
+}
+
+function jsonObject(v: unknown): Record<string, unknown> | null {
+    return v && typeof v === "object" && !Array.isArray(v) ? v as Record<string, unknown> : null;
+}
+
+function stringOrNull(v: unknown): string | null {
+    return typeof v === "string" ? v : null;
+}
+
+/** Convert /api/audit payload into a strict AuditListResponse */
+export function normalizeAuditList(json: unknown): AuditListResponse {
+    const r = json && typeof json === "object" ? json as Record<string, unknown> : {};
+    const items: AuditItem[] = [];
+    if (Array.isArray(r.items)) {
+        for (const it of r.items) {
+            if (it && typeof it === "object") {
+                const a = it as Record<string, unknown>;
+                const id = a.audit_id;
+                if (typeof id === "number" && Number.isFinite(id) && isEntityType(a.entity_type)) {
+                    items.push({
+                        audit_id: id,
+                        audit_action: String(a.audit_action ?? ""),
+                        entity_type: a.entity_type,
+                        entity_id: Number(a.entity_id ?? 0),
+                        entity_name: stringOrNull(a.entity_name),
+                        actor_user_id: typeof a.actor_user_id === "number" ? a.actor_user_id : null,
+                        actor_user_name: stringOrNull(a.actor_user_name),
+                        before_data: jsonObject(a.before_data),
+                        after_data: jsonObject(a.after_data),
+                        request_method: stringOrNull(a.request_method),
+                        request_path: stringOrNull(a.request_path),
+                        request_ip: stringOrNull(a.request_ip),
+                        user_agent: stringOrNull(a.user_agent),
+                        inserted_datetime: String(a.inserted_datetime ?? ""),
+                    });
+                }
+            }
+        }
+    }
+    return { items, nextCursor: readNextCursor(json) };
+}
+
+/** Convert /api/audit/actors payload into strict AuditActorItem[] */
+export function normalizeAuditActors(json: unknown): AuditActorItem[] {
+    const items = (json && typeof json === "object"
+        ? (json as Record<string, unknown>).items
+        : []) as unknown;
+
+    const out: AuditActorItem[] = [];
+    if (Array.isArray(items)) {
+        for (const it of items) {
+            if (it && typeof it === "object") {
+                const r = it as Record<string, unknown>;
+                const id = r.user_id;
+                if (typeof id === "number" && Number.isFinite(id)) {
+                    out.push({
+                        user_id: id,
+                        user_name: String(r.user_name ?? ""),
+                        user_first_name: String(r.user_first_name ?? ""),
+                        user_last_name: String(r.user_last_name ?? ""),
+                    });
+                }
+            }
+        }
+    }
+    return out;
+}
+
+export class AuditFetchError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = "AuditFetchError";
+    }
+}
+
+async function readError(res: Response): Promise<AuditFetchError> {
+    let message = `HTTP ${res.status}`;
+    try {
+        const j = (await res.json()) as { message?: unknown; error?: unknown };
+        if (typeof j.message === "string") { message = j.message; }
+        else if (typeof j.error === "string") { message = j.error; }
+    } catch {
+        // keep the status text
+    }
+    return new AuditFetchError(message, res.status);
+}
+
+/** One page of audited changes, newest first (cursor null = first page) */
+export async function fetchAuditPage(
+    filters: AuditFilters,
+    cursor: string | null = null,
+    signal?: AbortSignal
+): Promise<AuditListResponse> {
+    const params = new URLSearchParams();
+    if (filters.entityType) { params.set("entity_type", filters.entityType); }
+    if (filters.entityId !== undefined) { params.set("entity_id", String(filters.entityId)); }
+    if (filters.actorUserId !== undefined) { params.set("actor_user_id", String(filters.actorUserId)); }
+    if (filters.from) { params.set("from", filters.from); }
+    if (filters.to) { params.set("to", filters.to); }
+    if (cursor !== null) { params.set("cursor", cursor); }
+
+    const res = await fetch(`${AUDIT_ENDPOINT}?${params.toString()}`, { cache: "no-store", signal });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+    return normalizeAuditList(await res.json());
+}
+
+/** Users who have made audited changes, for the actor filter */
+export async function fetchAuditActors(signal?: AbortSignal): Promise<AuditActorItem[]> {
+    const res = await fetch(`${AUDIT_ENDPOINT}/actors`, { cache: "no-store", signal });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+    return normalizeAuditActors(await res.json());
+}
@@ -0,0 +1,9 @@
+// src/lib/authRedirect.ts
+// Post-sign-in redirect target, limited to same-origin paths (no open redirects).
+
+export function safeNextPath(raw: string | null | undefined): string {
+    if (!raw || !raw.startsWith("/") || raw.startsWith("//") || raw.startsWith("/\\")) {
+        return "/";
+    }
+    return raw;
+}
@@ -0,0 +1,168 @@
+// src/lib/composerFetch.ts
+import type { ComposerDuplicateItem, ComposerDuplicateReason, ComposerItem, ComposerMatchItem } from "@/lib/types";
+
+const COMPOSER_ENDPOINT = "/api/composer";
+
+// Values the composer form edits; the name and spellings are trimmed server-side
+export type ComposerSaveInput = {
+    composer_first_name: string;
+    composer_last_name: string;
+    birth_year: number | null;
+    death_year: number | null;
+    alternate_names: string[];
+};
+
+function toYear(v: unknown): number | null {
+    return typeof v === "number" && Number.isInteger(v) ? v : null;
+}
+
+function toStringArray(v: unknown): string[] {
+    return Array.isArray(v) ? v.filter((x): x is string => typeof x === "string") : [];
+}
+
+function rowsOf(json: unknown): unknown[] {
+    const items = json && typeof json === "object" ? (json as Record<string, unknown>).items : [];
+    return Array.isArray(items) ? items : [];
+}
+
+/** Convert /api/composer payload into strict ComposerItem[] */
+export function normalizeComposerList(json: unknown): ComposerItem[] {
+    const out: ComposerItem[] = [];
+    for (const it of rowsOf(json)) {
+        if (it && typeof it === "object") {
+            const r = it as Record<string, unknown>;
+            const id = r.composer_id;
+            if (typeof id === "number" && Number.isFinite(id)) {
+                out.push({
+                    composer_id: id,
+                    composer_first_name: String(r.composer_first_name ?? ""),
+                    composer_last_name: String(r.composer_last_name ?? ""),
+                    birth_year: toYear(r.birth_year),
+                    death_year: toYear(r.death_year),
+                    alternate_names: toStringArray(r.alternate_names),
+                    song_count: Number(r.song_count ?? 0),
+                    updated_datetime: String(r.updated_datetime ?? ""),
+                });
+            }
+        }
+    }
+    return out;
+}
+
+const DUPLICATE_REASONS: ReadonlySet<string> = new Set<ComposerDuplicateReason>(["alternate_name", "same_last_name", "similar_name"]);
+
+/** Convert /api/composer/duplicates payload into strict ComposerDuplicateItem[] */
+export function normalizeComposerDuplicates(json: unknown): ComposerDuplicateItem[] {
+    const out: ComposerDuplicateItem[] = [];
+    for (const it of rowsOf(json)) {
+        if (it && typeof it === "object") {
+            const r = it as Record<string, unknown>;
+            const a = r.composer_id_a;
+            const b = r.composer_id_b;
+            const reason = String(r.match_reason ?? "");
+            if (typeof a === "number" && typeof b === "number" && DUPLICATE_REASONS.has(reason)) {
+                out.push({
+                    composer_id_a: a,
+                    composer_id_b: b,
+                    match_reason: reason as ComposerDuplicateReason,
+                    name_similarity: Number(r.name_similarity ?? 0),
+                });
+            }
+        }
+    }
+    return out;
+}
+
+/** Convert /api/composer/match payload into strict ComposerMatchItem[] */
+export function normalizeComposerMatches(json: unknown): ComposerMatchItem[] {
+    const out: ComposerMatchItem[] = [];
+    for (const it of rowsOf(json)) {
+        if (it && typeof it === "object") {
+            const r = it as Record<string, unknown>;
+            const id = r.composer_id;
+            if (typeof id === "number" && Number.isFinite(id)) {
+                out.push({
+                    composer_id: id,
+                    composer_first_name: String(r.composer_first_name ?? ""),
+                    composer_last_name: String(r.composer_last_name ?? ""),
+                    birth_year: toYear(r.birth_year),
+                    death_year: toYear(r.death_year),
+                    name_similarity: Number(r.name_similarity ?? 0),
+                });
+            }
+        }
+    }
+    return out;
+}
+
+/** HTTP error that keeps the status so callers can tell a name clash (409) apart */
+export class ComposerFetchError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = "ComposerFetchError";
+    }
+}
+
+async function readError(res: Response): Promise<ComposerFetchError> {
+    let message = `HTTP ${res.status}`;
+    try {
+        const j = (await res.json()) as { message?: unknown; error?: unknown };
+        if (typeof j.message === "string") { message = j.message; }
+        else if (typeof j.error === "string") { message = j.error; }
+    } catch {
+        // keep the status text
+    }
+    return new ComposerFetchError(message, res.status);
+}
+
+export async function fetchComposers(signal?: AbortSignal): Promise<ComposerItem[]> {
+    const res = await fetch(COMPOSER_ENDPOINT, { cache: "no-store", signal });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+    return normalizeComposerList(await res.json());
+}
+
+/** Likely duplicate pairs, strongest first */
+export async function fetchComposerDuplicates(signal?: AbortSignal): Promise<ComposerDuplicateItem[]> {
+    const res = await fetch(`${COMPOSER_ENDPOINT}/duplicates`, { cache: "no-store", signal });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+    return normalizeComposerDuplicates(await res.json());
+}
+
+/** Existing composers for a score's creator text (e.g. "J. S. Bach"), best first */
+export async function matchComposers(name: string, signal?: AbortSignal): Promise<ComposerMatchItem[]> {
+    const qs = new URLSearchParams({ name });
+    const res = await fetch(`${COMPOSER_ENDPOINT}/match?${qs.toString()}`, { cache: "no-store", signal });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+    return normalizeComposerMatches(await res.json());
+}
+
+export async function saveComposer(composerId: number, input: ComposerSaveInput): Promise<void> {
+    const res = await fetch(`${COMPOSER_ENDPOINT}/${composerId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+    });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+}
+
+/** Fold mergeId into keepId; returns how many songs moved */
+export async function mergeComposers(keepId: number, mergeId: number): Promise<number> {
+    const res = await fetch(`${COMPOSER_ENDPOINT}/merge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ keep_composer_id: keepId, merge_composer_id: mergeId }),
+    });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+    const json = (await res.json()) as { songs_moved?: unknown };
+    return typeof json.songs_moved === "number" ? json.songs_moved : 0;
+}
@@ -0,0 +1,11 @@
+// src/lib/cookieDomain.ts
+// Cookies that must be visible on every sandbox subdomain (see sandboxUrl.ts)
+// are scoped to the apex domain on production hosts.
+
+const APEX = process.env.NEXT_PUBLIC_APEX_DOMAIN || "";
+
+/** `.apex` when `hostname` is the apex or one of its subdomains; otherwise undefined (host-only) */
+export function apexCookieDomain(hostname: string): string | undefined {
+    if (!APEX) { return undefined; }
+    return hostname === APEX || hostname.endsWith("." + APEX) ? `.${APEX}` : undefined;
+}
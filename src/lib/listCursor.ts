@@ -0,0 +1,65 @@
+// src/lib/listCursor.ts
+// Keyset pagination for /api/songlist, /api/userlist and /api/audit.
+// A cursor is opaque to clients; it records the sort it was issued under so it
+// can't be replayed against a different ordering.
+
+export const LIST_LIMIT_DEFAULT = 50;
+export const LIST_LIMIT_MAX = 200;
+
+type SortDir = "asc" | "desc";
+
+export type ListCursor = {
+    sort: string;   // sort column as requested ("" = server default)
+    dir: SortDir;
+    key: string;    // sort_key of the last row on the previous page
+    id: number;     // row id of that row (tie-breaker)
+};
+
+export function encodeListCursor(c: ListCursor): string {
+    return Buffer.from(JSON.stringify([c.sort, c.dir, c.key, c.id]), "utf8").toString("base64url");
+}
+
+/** Decode a cursor; null if it is malformed */
+export function decodeListCursor(raw: string): ListCursor | null {
+    try {
+        const v = JSON.parse(Buffer.from(raw, "base64url").toString("utf8")) as unknown;
+        if (!Array.isArray(v) || v.length !== 4) { return null; }
+        const [sort, dir, key, id] = v as unknown[];
+        if (
+            typeof sort !== "string" ||
+            (dir !== "asc" && dir !== "desc") ||
+            typeof key !== "string" ||
+            typeof id !== "number" || !Number.isInteger(id)
+        ) {
+            return null;
+        }
+        return { sort, dir, key, id };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Trim a `limit + 1` row fetch to one page and derive the next cursor.
+ * Rows carry the function's `sort_key` column, which is dropped from the items.
+ */
+export function toListPage<T extends { sort_key: string }>(
+    rows: ReadonlyArray<T>,
+    limit: number,
+    idOf: (row: T) => number,
+    sort: string | null,
+    dir: SortDir
+): { items: Omit<T, "sort_key">[]; nextCursor: string | null } {
+    const pageRows = rows.slice(0, limit);
+    const last = pageRows[pageRows.length - 1];
+    const nextCursor = rows.length > limit && last
+        ? encodeListCursor({ sort: sort ?? "", dir, key: last.sort_key, id: idOf(last) })
+        : null;
+
+    const items = pageRows.map((r) => {
+        const item: Partial<T> = { ...r };
+        delete item.sort_key;
+        return item as Omit<T, "sort_key">;
+    });
+    return { items, nextCursor };
+}
@@ -0,0 +1,235 @@
+// src/lib/mxlMetadata.ts
+// Catalog metadata read from a MusicXML score: key, time, tempo, instruments, length, credits.
+// Node runtime only (uses mxlServer).
+import type { Element as XmlElement } from "@xmldom/xmldom";
+import { parseXml, readMxl, type XmlDocument } from "@/lib/mxlServer";
+
+/** Keys match the song columns (SONG_COL tokens); null = not present in the score */
+export type SongMetadata = {
+    key_signature: string | null;      // "G major", "E minor", "D dorian"
+    time_signature: string | null;     // "3/4", "3+2/8"
+    tempo_text: string | null;         // "Allegro moderato"
+    tempo_bpm: number | null;          // quarter notes per minute
+    instrument_names: string[];        // part names, score order
+    measure_count: number | null;
+    page_count: number | null;         // explicit page breaks, else an estimate
+    lyricist: string | null;
+    arranger: string | null;
+    copyright: string | null;
+};
+
+// Engraved scores without page breaks average roughly this many bars per page
+const MEASURES_PER_PAGE_ESTIMATE = 24;
+const TEXT_MAX_LEN = 500;
+
+/* =========================
+   Key names
+   ========================= */
+
+// Tonic for fifths −7..+12 around the circle (major: index fifths + 7)
+const CIRCLE_TONICS = [
+    "Cb", "Gb", "Db", "Ab", "Eb", "Bb", "F", "C", "G", "D",
+    "A", "E", "B", "F#", "C#", "G#", "D#", "A#", "E#", "B#",
+] as const;
+
+// How far each mode's tonic sits from the relative major, in fifths
+const MODE_FIFTHS: Readonly<Record<string, number>> = {
+    major: 0, ionian: 0, minor: 3, aeolian: 3,
+    dorian: 2, phrygian: 4, lydian: -1, mixolydian: 1, locrian: 5,
+};
+
+function keyName(fifths: number, mode: string): string | null {
+    const offset = MODE_FIFTHS[mode];
+    if (offset === undefined || fifths < -7 || fifths > 7) { return null; }
+    const tonic = CIRCLE_TONICS[fifths + offset + 7];
+    return tonic ? `${tonic} ${mode === "ionian" ? "major" : mode === "aeolian" ? "minor" : mode}` : null;
+}
+
+/* =========================
+   DOM helpers
+   ========================= */
+
+function childEls(parent: XmlElement, tag: string): XmlElement[] {
+    const out: XmlElement[] = [];
+    for (let n = parent.firstChild; n; n = n.nextSibling) {
+        if (n.nodeType === 1 && (n as XmlElement).tagName === tag) {
+            out.push(n as XmlElement);
+        }
+    }
+    return out;
+}
+
+function childText(parent: XmlElement, tag: string): string | null {
+    const el = childEls(parent, tag)[0];
+    return el ? collapseWs(el.textContent ?? "") : null;
+}
+
+function collapseWs(s: string): string {
+    return s.replace(/\s+/g, " ").trim();
+}
+
+function clip(s: string | null): string | null {
+    if (!s) { return null; }
+    return s.length > TEXT_MAX_LEN ? s.slice(0, TEXT_MAX_LEN) : s;
+}
+
+function positiveInt(raw: string | null | undefined): number | null {
+    const n = Number((raw ?? "").trim());
+    return Number.isFinite(n) && n > 0 ? Math.round(n) : null;
+}
+
+/** Measures of the first part, in order (partwise: its children; timewise: every measure) */
+function firstPartMeasures(doc: XmlDocument): XmlElement[] {
+    const root = doc.documentElement;
+    if (!root) { return []; }
+    if (root.tagName === "score-timewise") {
+        return childEls(root, "measure");
+    }
+    const part = childEls(root, "part")[0];
+    return part ? childEls(part, "measure") : [];
+}
+
+/** The first part's content of a measure (timewise measures hold every part) */
+function firstPartOf(measure: XmlElement): XmlElement {
+    return measure.parentNode && (measure.parentNode as XmlElement).tagName === "part"
+        ? measure
+        : childEls(measure, "part")[0] ?? measure;
+}
+
+/* =========================
+   Readers
+   ========================= */
+
+function readKey(measures: XmlElement[]): string | null {
+    for (const m of measures) {
+        const key = firstPartOf(m).getElementsByTagName("key")[0];
+        if (!key) { continue; }
+        const fifths = Number(childText(key, "fifths") ?? "");
+        if (!Number.isInteger(fifths)) { return null; }   // non-traditional key
+        return keyName(fifths, (childText(key, "mode") ?? "major").toLowerCase());
+    }
+    return null;
+}
+
+function readTime(measures: XmlElement[]): string | null {
+    for (const m of measures) {
+        const time = firstPartOf(m).getElementsByTagName("time")[0];
+        if (!time) { continue; }
+        const beats = childEls(time, "beats").map((b) => collapseWs(b.textContent ?? ""));
+        const types = childEls(time, "beat-type").map((b) => collapseWs(b.textContent ?? ""));
+        const pairs = beats
+            .map((b, i) => (b && types[i] ? `${b}/${types[i]}` : ""))
+            .filter((p) => p.length > 0);
+        return pairs.length > 0 ? pairs.join("+") : null;   // senza-misura has no beats
+    }
+    return null;
+}
+
+function readTempo(measures: XmlElement[]): { text: string | null; bpm: number | null } {
+    let text: string | null = null;
+    for (const m of measures) {
+        for (const dir of Array.from(firstPartOf(m).getElementsByTagName("direction"))) {
+            const words = Array.from(dir.getElementsByTagName("words"))
+                .map((w) => collapseWs(w.textContent ?? ""))
+                .filter((w) => w.length > 0)
+                .join(" ");
+            const sound = dir.getElementsByTagName("sound")[0];
+            const metronome = dir.getElementsByTagName("metronome")[0];
+            const bpm = positiveInt(sound?.getAttribute("tempo"))
+                ?? (metronome ? positiveInt(childText(metronome, "per-minute")) : null);
+            if (bpm !== null || metronome) {
+                return { text: words || text, bpm };
+            }
+            // Opening words above the staff ("Andante") usually are the tempo, with or without a mark
+            if (text === null && words && m === measures[0] && dir.getAttribute("placement") !== "below") {
+                text = words;
+            }
+        }
+    }
+    return { text, bpm: null };
+}
+
+function readInstruments(doc: XmlDocument): string[] {
+    const names: string[] = [];
+    for (const sp of Array.from(doc.getElementsByTagName("score-part"))) {
+        const name = childText(sp, "part-name")
+            || (sp.getElementsByTagName("instrument-name")[0]?.textContent ?? "").trim();
+        const clean = collapseWs(name);
+        if (clean && !names.includes(clean)) {
+            names.push(clean);
+        }
+    }
+    return names;
+}
+
+function readMeasureCount(measures: XmlElement[]): number | null {
+    // Pickups and split bars are implicit and carry no bar number of their own
+    const numbered = measures.filter((m) => m.getAttribute("implicit") !== "yes").length;
+    const n = numbered > 0 ? numbered : measures.length;
+    return n > 0 ? n : null;
+}
+
+function readPageCount(measures: XmlElement[], measureCount: number | null): number | null {
+    let breaks = 0;
+    for (const m of measures) {
+        for (const p of Array.from(firstPartOf(m).getElementsByTagName("print"))) {
+            if (p.getAttribute("new-page") === "yes") { breaks += 1; }
+        }
+    }
+    if (breaks > 0) { return breaks + 1; }
+    return measureCount === null ? null : Math.max(1, Math.ceil(measureCount / MEASURES_PER_PAGE_ESTIMATE));
+}
+
+function readCredits(doc: XmlDocument): Pick<SongMetadata, "lyricist" | "arranger" | "copyright"> {
+    const ident = doc.getElementsByTagName("identification")[0];
+    if (!ident) { return { lyricist: null, arranger: null, copyright: null }; }
+
+    const creator = (...types: string[]): string | null => {
+        const found = childEls(ident, "creator")
+            .filter((c) => types.includes((c.getAttribute("type") ?? "").toLowerCase()))
+            .map((c) => collapseWs(c.textContent ?? ""))
+            .filter((s) => s.length > 0);
+        return found.length > 0 ? found.join(", ") : null;
+    };
+    const rights = childEls(ident, "rights")
+        .map((r) => collapseWs(r.textContent ?? ""))
+        .filter((s) => s.length > 0);
+
+    return {
+        lyricist: clip(creator("lyricist", "poet")),
+        arranger: clip(creator("arranger")),
+        copyright: clip(rights.length > 0 ? rights.join("; ") : null),
+    };
+}
+
+/* =========================
+   Public API
+   ========================= */
+
+/** Read catalog metadata from a MusicXML document string; throws on malformed XML */
+export function extractMusicXmlMetadata(xmlText: string): SongMetadata {
+    const doc = parseXml(xmlText);
+    const measures = firstPartMeasures(doc);
+    const tempo = readTempo(measures);
+    const measureCount = readMeasureCount(measures);
+
+    return {
+        key_signature: readKey(measures),
+        time_signature: readTime(measures),
+        tempo_text: clip(tempo.text),
+        tempo_bpm: tempo.bpm,
+        instrument_names: readInstruments(doc),
+        measure_count: measureCount,
+        page_count: readPageCount(measures, measureCount),
+        ...readCredits(doc),
+    };
+}
+
+/** Metadata of the score inside an MXL archive, or null when it cannot be read */
+export function extractMxlMetadata(mxl: Uint8Array): SongMetadata | null {
+    try {
+        return extractMusicXmlMetadata(readMxl(mxl).xmlText);
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,143 @@
+// src/lib/mxlResponse.ts
+// Shared by the routes that stream a stored MXL (song_mxl) back to the viewer:
+// /api/song/[id] and /api/song/[id]/revisions/[revisionId]. Node runtime only.
+import { Buffer } from "node:buffer";
+import { transposeMxl } from "@/lib/mxlTranspose";
+import { isValidTranspose, TRANSPOSE_MAX, TRANSPOSE_MIN } from "@/lib/transposePresets";
+
+/* =========================
+   Shared constants
+   ========================= */
+
+const MXL_MIME = "application/vnd.recordare.musicxml+zip" as const;
+// We don't cache since the MXL may be updated during admin edits
+const CACHE_CONTROL_NO_STORE = "no-store" as const;
+
+/* =========================
+   JSON error responses
+   ========================= */
+
+function jsonError(status: number, error: string, message: string): Response {
+    return new Response(JSON.stringify({ ok: false, error, message }), {
+        status,
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+export function badRequest(message: string): Response {
+    return jsonError(400, "bad_request", message);
+}
+export function notFound(message: string): Response {
+    return jsonError(404, "not_found", message);
+}
+export function serverError(message: string): Response {
+    return jsonError(500, "server_error", message);
+}
+
+/* =========================
+   Bytea decoding
+   ========================= */
+
+/** Make a brand-new ArrayBuffer (no SharedArrayBuffer union) */
+function toArrayBuffer(u8: Uint8Array): ArrayBuffer {
+    const out = new Uint8Array(u8.byteLength);
+    out.set(u8);
+    return out.buffer;
+}
+
+/** Normalize Supabase/Postgres bytea-like values to a fresh ArrayBuffer */
+function normalizeToArrayBuffer(raw: unknown): ArrayBuffer {
+    if (raw === null || raw === undefined) {
+        throw new Error("song_mxl is null");
+    }
+
+    if (typeof raw === "string") {
+        // Most common: "\x..." hex string from Postgres bytea
+        if (raw.startsWith("\\x")) {
+            const hex = raw.slice(2);
+            if (hex.length === 0) { throw new Error("song_mxl hex payload is empty"); }
+            const u8 = new Uint8Array(Buffer.from(hex, "hex"));
+            return toArrayBuffer(u8);
+        }
+        // Fallback: base64 string
+        const trimmed = raw.replace(/\s+/g, "");
+        if (trimmed.length === 0) { throw new Error("song_mxl base64 payload is empty"); }
+        const u8 = new Uint8Array(Buffer.from(trimmed, "base64"));
+        return toArrayBuffer(u8);
+    }
+
+    if (raw instanceof Uint8Array) {
+        return toArrayBuffer(raw);
+    }
+
+    if (Array.isArray(raw)) {
+        return toArrayBuffer(Uint8Array.from(raw));
+    }
+
+    throw new Error(`Unsupported song_mxl type: ${typeof raw}`);
+}
+
+/** Decode a song_mxl value to bytes; throws when it is null, empty or of an unknown type */
+export function decodeSongMxl(raw: unknown): Uint8Array {
+    return new Uint8Array(normalizeToArrayBuffer(raw));
+}
+
+/* =========================
+   Query params
+   ========================= */
+
+/** ?transpose=<semitones>: null when absent/0, NaN when invalid */
+function parseTranspose(raw: string | null): number | null {
+    if (raw === null || raw.trim() === "") { return null; }
+    if (!/^[+-]?\d+$/.test(raw.trim())) { return Number.NaN; }
+    const n = Number(raw);
+    if (!isValidTranspose(n)) { return Number.NaN; }
+    return n === 0 ? null : n;
+}
+
+/* =========================
+   Response
+   ========================= */
+
+/**
+ * Stream a song_mxl value back as MXL, honoring ?transpose=-12..12
+ * and ?debug=1 (JSON byte count instead of the file).
+ */
+export function mxlResponse(raw: unknown, searchParams: URLSearchParams): Response {
+    const transpose = parseTranspose(searchParams.get("transpose"));
+    if (transpose !== null && Number.isNaN(transpose)) {
+        return badRequest(`transpose must be an integer from ${TRANSPOSE_MIN} to ${TRANSPOSE_MAX}`);
+    }
+
+    let ab: ArrayBuffer;
+    try {
+        ab = normalizeToArrayBuffer(raw);
+    } catch (e) {
+        const message = e instanceof Error ? e.message : "Failed to decode song_mxl";
+        return serverError(message);
+    }
+
+    if (transpose !== null) {
+        try {
+            ab = toArrayBuffer(transposeMxl(new Uint8Array(ab), transpose));
+        } catch (e) {
+            const message = e instanceof Error ? e.message : "Failed to transpose song_mxl";
+            return serverError(`transpose_failed: ${message}`);
+        }
+    }
+
+    if (searchParams.get("debug") === "1") {
+        return new Response(
+            JSON.stringify({ ok: true, byteLength: ab.byteLength }),
+            { status: 200, headers: { "Content-Type": "application/json" } }
+        );
+    }
+
+    return new Response(ab, {
+        status: 200,
+        headers: {
+            "Content-Type": MXL_MIME,
+            "Cache-Control": CACHE_CONTROL_NO_STORE,
+        },
+    });
+}
@@ -0,0 +1,93 @@
+// src/lib/mxlServer.ts
+// Server-side MXL (zipped MusicXML) helpers. Node runtime only.
+import { unzipSync, zipSync, strFromU8, strToU8, type Zippable } from "fflate";
+import { DOMParser, XMLSerializer, type Document as XmlDocument } from "@xmldom/xmldom";
+
+export type { XmlDocument };
+
+export const MXL_MIMETYPE = "application/vnd.recordare.musicxml" as const;
+export const CONTAINER_PATH = "META-INF/container.xml" as const;
+
+// Every entry gets this timestamp, so re-packing the same files yields the same bytes
+const ZIP_MTIME = new Date(1980, 0, 1);
+
+export type MxlContents = {
+    entries: Record<string, Uint8Array>;  // every file in the archive, uncompressed
+    rootPath: string;                      // container rootfile (the MusicXML score)
+    xmlText: string;                       // decoded rootfile
+};
+
+/* =========================
+   XML
+   ========================= */
+
+/** Parse XML; throws on malformed input (warnings are ignored) */
+export function parseXml(text: string): XmlDocument {
+    const parser = new DOMParser({
+        onError: (level, message) => {
+            if (level !== "warning") {
+                throw new Error(`xml_parse_error: ${String(message).trim()}`);
+            }
+        },
+    });
+    return parser.parseFromString(text, "application/xml");
+}
+
+export function serializeXml(doc: XmlDocument): string {
+    return new XMLSerializer().serializeToString(doc);
+}
+
+/* =========================
+   Zip container
+   ========================= */
+
+/** Resolve the rootfile path from META-INF/container.xml */
+export function findRootfilePath(containerXml: string): string {
+    const doc = parseXml(containerXml);
+    const rootfiles = Array.from(doc.getElementsByTagName("rootfile"));
+    for (const rf of rootfiles) {
+        const p = rf.getAttribute("full-path") || rf.getAttribute("path") || rf.getAttribute("href") || "";
+        if (p) { return p; }
+    }
+    throw new Error("container_missing_rootfile");
+}
+
+/** Unzip an MXL and decode its rootfile */
+export function readMxl(bytes: Uint8Array): MxlContents {
+    let entries: Record<string, Uint8Array>;
+    try {
+        entries = unzipSync(bytes);
+    } catch (e) {
+        throw new Error(`mxl_unzip_failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    const container = entries[CONTAINER_PATH];
+    if (!container) {
+        throw new Error("container_missing");
+    }
+
+    const rootPath = findRootfilePath(strFromU8(container));
+    const root = entries[rootPath];
+    if (!root) {
+        throw new Error(`rootfile_not_found: ${rootPath}`);
+    }
+
+    return { entries, rootPath, xmlText: strFromU8(root) };
+}
+
+/** Zip entries back into an MXL; `mimetype` goes first and stored, per the MusicXML spec (deterministic output) */
+export function writeMxl(entries: Record<string, Uint8Array>): Uint8Array {
+    const files: Zippable = {
+        mimetype: [entries.mimetype ?? strToU8(MXL_MIMETYPE), { level: 0, mtime: ZIP_MTIME }],
+    };
+    for (const [name, data] of Object.entries(entries)) {
+        if (name === "mimetype") { continue; }
+        files[name] = data;
+    }
+    return zipSync(files, { level: 6, mtime: ZIP_MTIME });
+}
+
+/** Copy of `contents` with the rootfile replaced by `xmlText`, re-zipped */
+export function replaceRootXml(contents: MxlContents, xmlText: string): Uint8Array {
+    return writeMxl({ ...contents.entries, [contents.rootPath]: strToU8(xmlText) });
+}
@@ -0,0 +1,74 @@
+// src/lib/mxlTimewise.ts
+// score-timewise → score-partwise, the only layout the viewer (OSMD) reads.
+// Node runtime only (uses mxlServer).
+import { DOMImplementation, type Element as XmlElement } from "@xmldom/xmldom";
+import type { XmlDocument } from "@/lib/mxlServer";
+
+function childEls(parent: XmlElement, tag?: string): XmlElement[] {
+    const out: XmlElement[] = [];
+    for (let n = parent.firstChild; n; n = n.nextSibling) {
+        if (n.nodeType === 1 && (tag === undefined || (n as XmlElement).tagName === tag)) {
+            out.push(n as XmlElement);
+        }
+    }
+    return out;
+}
+
+/**
+ * Regroup a timewise score (measure > part) as partwise (part > measure).
+ * Header elements (work, identification, part-list, …) and every attribute are kept;
+ * parts come out in part-list order, then any id only found in the measures.
+ */
+export function timewiseToPartwise(doc: XmlDocument): XmlDocument {
+    const src = doc.documentElement;
+    if (!src || src.tagName !== "score-timewise") {
+        throw new Error("not_timewise");
+    }
+
+    const out = new DOMImplementation().createDocument(null, "score-partwise", null);
+    const root = out.documentElement!;
+    for (const attr of Array.from(src.attributes)) {
+        root.setAttribute(attr.name, attr.value);
+    }
+
+    const measures = childEls(src, "measure");
+    for (const el of childEls(src)) {
+        if (el.tagName !== "measure") {
+            root.appendChild(out.importNode(el, true));
+        }
+    }
+
+    const partIds: string[] = [];
+    const addId = (id: string | null): void => {
+        if (id && !partIds.includes(id)) { partIds.push(id); }
+    };
+    for (const sp of Array.from(doc.getElementsByTagName("score-part"))) {
+        addId(sp.getAttribute("id"));
+    }
+    for (const m of measures) {
+        for (const p of childEls(m, "part")) {
+            addId(p.getAttribute("id"));
+        }
+    }
+
+    for (const id of partIds) {
+        const part = out.createElement("part");
+        part.setAttribute("id", id);
+        for (const m of measures) {
+            const measure = out.createElement("measure");
+            for (const attr of Array.from(m.attributes)) {
+                measure.setAttribute(attr.name, attr.value);
+            }
+            const source = childEls(m, "part").find((p) => p.getAttribute("id") === id);
+            if (source) {
+                for (let n = source.firstChild; n; n = n.nextSibling) {
+                    measure.appendChild(out.importNode(n, true));
+                }
+            }
+            part.appendChild(measure);
+        }
+        root.appendChild(part);
+    }
+
+    return out;
+}
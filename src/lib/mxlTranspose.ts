@@ -0,0 +1,229 @@
+// src/lib/mxlTranspose.ts
+// Chromatic transposition of MusicXML: pitches, key signatures and chord symbols.
+// Node runtime only (uses mxlServer).
+import type { Element as XmlElement } from "@xmldom/xmldom";
+import { parseXml, readMxl, replaceRootXml, serializeXml, type XmlDocument } from "@/lib/mxlServer";
+
+/* =========================
+   Pitch math
+   ========================= */
+
+const STEPS = ["C", "D", "E", "F", "G", "A", "B"] as const;
+type Step = (typeof STEPS)[number];
+
+// Semitones above C for each natural step
+const NATURAL_SEMIS: Readonly<Record<Step, number>> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+/** A transposition interval: `steps` diatonic steps spanning `semitones` semitones */
+type Interval = { steps: number; semitones: number; fifths: number };
+
+function mod(n: number, m: number): number {
+    return ((n % m) + m) % m;
+}
+
+/**
+ * Spell `semitones` as the interval whose key-signature shift is `fifths`.
+ * One fifth = 7 semitones = 4 diatonic steps; pick the octave that keeps the
+ * diatonic size closest to the chromatic one.
+ */
+function intervalFor(semitones: number, fifths: number): Interval {
+    const base = mod(4 * fifths, 7);
+    let best = base;
+    for (const cand of [base - 14, base - 7, base, base + 7, base + 14]) {
+        if (Math.abs(cand * 12 / 7 - semitones) < Math.abs(best * 12 / 7 - semitones)) {
+            best = cand;
+        }
+    }
+    return { steps: best, semitones, fifths };
+}
+
+/** Key-signature shift for a chromatic transposition, in −6..+5 (7 is its own inverse mod 12) */
+function defaultFifthsShift(semitones: number): number {
+    const f = mod(7 * semitones, 12);
+    return f > 5 ? f - 12 : f;
+}
+
+/** Pick the spelling for a part so its opening key stays within ±6 sharps/flats */
+function intervalForPart(semitones: number, firstFifths: number | null): Interval {
+    let shift = defaultFifthsShift(semitones);
+    if (firstFifths !== null) {
+        const next = firstFifths + shift;
+        if (next > 6) { shift -= 12; }
+        else if (next < -6) { shift += 12; }
+    }
+    return intervalFor(semitones, shift);
+}
+
+type Spelled = { step: Step; alter: number; octave: number };
+
+function transposeSpelled(p: Spelled, iv: Interval): Spelled {
+    const diatonic = p.octave * 7 + STEPS.indexOf(p.step) + iv.steps;
+    const octave = Math.floor(diatonic / 7);
+    const step = STEPS[mod(diatonic, 7)]!;
+
+    const sourceSemis = (p.octave + 1) * 12 + NATURAL_SEMIS[p.step] + p.alter;
+    const naturalTarget = (octave + 1) * 12 + NATURAL_SEMIS[step];
+    let alter = sourceSemis + iv.semitones - naturalTarget;
+
+    // Respell anything past a double accidental onto a neighbouring step
+    if (Math.abs(alter) > 2) {
+        const dir = alter > 0 ? 1 : -1;
+        const di2 = diatonic + dir;
+        const step2 = STEPS[mod(di2, 7)]!;
+        const oct2 = Math.floor(di2 / 7);
+        alter = sourceSemis + iv.semitones - ((oct2 + 1) * 12 + NATURAL_SEMIS[step2]);
+        return { step: step2, alter, octave: oct2 };
+    }
+    return { step, alter, octave };
+}
+
+/* =========================
+   DOM helpers
+   ========================= */
+
+function childEl(parent: XmlElement, tag: string): XmlElement | null {
+    for (let n = parent.firstChild; n; n = n.nextSibling) {
+        if (n.nodeType === 1 && (n as XmlElement).tagName === tag) {
+            return n as XmlElement;
+        }
+    }
+    return null;
+}
+
+function childText(parent: XmlElement, tag: string): string | null {
+    const el = childEl(parent, tag);
+    return el ? (el.textContent ?? "").trim() : null;
+}
+
+/** Set (or create/remove) a simple text child, keeping element order sane */
+function setChildText(
+    doc: XmlDocument,
+    parent: XmlElement,
+    tag: string,
+    value: string | null,
+    insertBefore: XmlElement | null = null
+): void {
+    const el = childEl(parent, tag);
+    if (value === null) {
+        if (el) { parent.removeChild(el); }
+        return;
+    }
+    if (el) {
+        el.textContent = value;
+        return;
+    }
+    const created = doc.createElement(tag);
+    created.textContent = value;
+    parent.insertBefore(created, insertBefore);
+}
+
+function isStep(s: string | null): s is Step {
+    return s !== null && (STEPS as readonly string[]).includes(s);
+}
+
+/** Elements named `tag` inside any of `roots`, in document order */
+function descendants(roots: XmlElement[], tag: string): XmlElement[] {
+    const out: XmlElement[] = [];
+    for (const r of roots) {
+        out.push(...Array.from(r.getElementsByTagName(tag)));
+    }
+    return out;
+}
+
+/* =========================
+   Rewrites
+   ========================= */
+
+function rewritePitch(doc: XmlDocument, pitch: XmlElement, iv: Interval): void {
+    const step = childText(pitch, "step");
+    const octave = Number(childText(pitch, "octave"));
+    if (!isStep(step) || !Number.isFinite(octave)) { return; }
+    const alter = Number(childText(pitch, "alter") ?? 0) || 0;
+
+    const t = transposeSpelled({ step, alter, octave }, iv);
+    setChildText(doc, pitch, "step", t.step);
+    // <alter> sits between <step> and <octave>
+    setChildText(doc, pitch, "alter", t.alter === 0 ? null : String(t.alter), childEl(pitch, "octave"));
+    setChildText(doc, pitch, "octave", String(t.octave));
+
+    // Printed accidentals belong to the old spelling; let the renderer derive new ones
+    const note = pitch.parentNode as XmlElement | null;
+    const acc = note ? childEl(note, "accidental") : null;
+    if (note && acc) { note.removeChild(acc); }
+}
+
+/** <root>/<bass> in <harmony>: {prefix}-step / {prefix}-alter */
+function rewriteChordTone(doc: XmlDocument, el: XmlElement, prefix: "root" | "bass", iv: Interval): void {
+    const step = childText(el, `${prefix}-step`);
+    if (!isStep(step)) { return; }
+    const alter = Number(childText(el, `${prefix}-alter`) ?? 0) || 0;
+
+    const t = transposeSpelled({ step, alter, octave: 4 }, iv);
+    const stepEl = childEl(el, `${prefix}-step`)!;
+    stepEl.textContent = t.step;
+    // Drop any display text (e.g. "B♭") that would contradict the new root
+    stepEl.removeAttribute("text");
+    setChildText(doc, el, `${prefix}-alter`, t.alter === 0 ? null : String(t.alter), stepEl.nextSibling as XmlElement | null);
+}
+
+function rewriteKey(key: XmlElement, iv: Interval): void {
+    const fifthsEl = childEl(key, "fifths");
+    if (!fifthsEl) { return; } // non-traditional keys are left alone
+    const fifths = Number((fifthsEl.textContent ?? "").trim());
+    if (!Number.isFinite(fifths)) { return; }
+
+    let next = fifths + iv.fifths;
+    // Keep mid-piece key changes readable too (C# major → D♭ major, etc.)
+    if (next > 7) { next -= 12; }
+    else if (next < -7) { next += 12; }
+    fifthsEl.textContent = String(next);
+}
+
+/** Group <part> elements by id (partwise: one per id; timewise: one per measure) */
+function partsById(doc: XmlDocument): Map<string, XmlElement[]> {
+    const map = new Map<string, XmlElement[]>();
+    for (const p of Array.from(doc.getElementsByTagName("part"))) {
+        const id = p.getAttribute("id") ?? "";
+        const list = map.get(id);
+        if (list) { list.push(p); } else { map.set(id, [p]); }
+    }
+    return map;
+}
+
+/* =========================
+   Public API
+   ========================= */
+
+/** Transpose a MusicXML document string by `semitones` (written pitch) */
+export function transposeMusicXml(xmlText: string, semitones: number): string {
+    if (semitones === 0) { return xmlText; }
+
+    const doc = parseXml(xmlText);
+    const parts = partsById(doc);
+    if (parts.size === 0) {
+        throw new Error("musicxml_no_parts");
+    }
+
+    for (const roots of parts.values()) {
+        const firstFifthsEl = descendants(roots, "fifths")[0];
+        const firstFifths = firstFifthsEl ? Number((firstFifthsEl.textContent ?? "").trim()) : null;
+        const iv = intervalForPart(
+            semitones,
+            firstFifths !== null && Number.isFinite(firstFifths) ? firstFifths : null
+        );
+
+        for (const pitch of descendants(roots, "pitch")) { rewritePitch(doc, pitch, iv); }
+        for (const key of descendants(roots, "key")) { rewriteKey(key, iv); }
+        for (const root of descendants(roots, "root")) { rewriteChordTone(doc, root, "root", iv); }
+        for (const bass of descendants(roots, "bass")) { rewriteChordTone(doc, bass, "bass", iv); }
+    }
+
+    return serializeXml(doc);
+}
+
+/** Transpose the score inside an MXL archive; returns a new MXL */
+export function transposeMxl(mxl: Uint8Array, semitones: number): Uint8Array {
+    if (semitones === 0) { return mxl; }
+    const contents = readMxl(mxl);
+    return replaceRootXml(contents, transposeMusicXml(contents.xmlText, semitones));
+}
@@ -0,0 +1,286 @@
+// src/lib/mxlValidate.ts
+// Upload gate for score bytes (.mxl or plain MusicXML): size caps, bounded unzip,
+// container + MusicXML checks, then a canonical re-pack. Node runtime only (uses mxlServer).
+import { Unzip, UnzipInflate, strFromU8, strToU8 } from "fflate";
+import {
+    CONTAINER_PATH,
+    MXL_MIMETYPE,
+    findRootfilePath,
+    parseXml,
+    serializeXml,
+    writeMxl,
+    type MxlContents,
+    type XmlDocument,
+} from "@/lib/mxlServer";
+import { timewiseToPartwise } from "@/lib/mxlTimewise";
+
+/* =========================
+   Limits
+   ========================= */
+
+export const MXL_MAX_BYTES = 10 * 1024 * 1024;                 // compressed upload
+export const MXL_MAX_UNCOMPRESSED_BYTES = 64 * 1024 * 1024;    // all entries together, or a plain MusicXML upload
+export const MXL_MAX_ENTRIES = 64;
+
+// Input is fed to the inflater in slices this big, so one step can't expand past ~1 000× of it
+const UNZIP_SLICE_BYTES = 16 * 1024;
+
+const MUSICXML_ROOTS: ReadonlySet<string> = new Set(["score-partwise", "score-timewise"]);
+
+// Rootfile name inside the MXL built from a plain MusicXML upload
+const RAW_ROOTFILE_PATH = "score.musicxml";
+const XML_DECLARATION = `<?xml version="1.0" encoding="UTF-8"?>\n`;
+
+/* =========================
+   Errors
+   ========================= */
+
+export type MxlErrorCode =
+    | "mxl_too_large"
+    | "payload_not_score"
+    | "mxl_unzip_failed"
+    | "mxl_too_many_entries"
+    | "mxl_uncompressed_too_large"
+    | "mxl_container_missing"
+    | "mxl_container_invalid"
+    | "mxl_rootfile_missing"
+    | "mxl_xml_malformed"
+    | "mxl_not_musicxml"
+    | "mxl_no_parts";
+
+/** Rejected upload; `code` goes back to the client as the API `error` */
+export class MxlValidationError extends Error {
+    constructor(readonly code: MxlErrorCode, message: string) {
+        super(message);
+        this.name = "MxlValidationError";
+    }
+
+    /** 413 for the size caps, 400 for everything else */
+    get status(): 400 | 413 {
+        return this.code === "mxl_too_large" || this.code === "mxl_uncompressed_too_large" ? 413 : 400;
+    }
+}
+
+/* =========================
+   Bounded unzip
+   ========================= */
+
+function isZipMagic(u8: Uint8Array): boolean {
+    return (
+        u8.length >= 4 &&
+        u8[0] === 0x50 && // 'P'
+        u8[1] === 0x4b && // 'K'
+        (u8[2] === 0x03 || u8[2] === 0x05 || u8[2] === 0x07) &&
+        (u8[3] === 0x04 || u8[3] === 0x06 || u8[3] === 0x08)
+    );
+}
+
+function concat(chunks: Uint8Array[], size: number): Uint8Array {
+    const out = new Uint8Array(size);
+    let at = 0;
+    for (const c of chunks) {
+        out.set(c, at);
+        at += c.length;
+    }
+    return out;
+}
+
+/**
+ * Unzip while counting what actually comes out (declared sizes in a zip can lie),
+ * aborting as soon as the entry or byte caps are passed.
+ */
+function unzipBounded(bytes: Uint8Array): Record<string, Uint8Array> {
+    const entries: Record<string, Uint8Array> = {};
+    let entryCount = 0;
+    let total = 0;
+    let failure: MxlValidationError | null = null; // fflate may hand our own throw back to ondata
+
+    const unzip = new Unzip((file) => {
+        entryCount += 1;
+        if (entryCount > MXL_MAX_ENTRIES) {
+            throw new MxlValidationError("mxl_too_many_entries", `The archive holds more than ${MXL_MAX_ENTRIES} files.`);
+        }
+
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+        file.ondata = (e, chunk, final) => {
+            if (e) {
+                throw failure ?? new MxlValidationError("mxl_unzip_failed", `Could not unzip ${file.name}: ${e.message}`);
+            }
+            size += chunk.length;
+            total += chunk.length;
+            if (total > MXL_MAX_UNCOMPRESSED_BYTES) {
+                failure = new MxlValidationError(
+                    "mxl_uncompressed_too_large",
+                    `The archive expands past ${MXL_MAX_UNCOMPRESSED_BYTES / (1024 * 1024)} MB.`
+                );
+                throw failure;
+            }
+            chunks.push(chunk);
+            if (final) {
+                entries[file.name] = concat(chunks, size);
+            }
+        };
+        file.start();
+    });
+    unzip.register(UnzipInflate);
+
+    try {
+        for (let at = 0; at < bytes.length; at += UNZIP_SLICE_BYTES) {
+            const end = Math.min(at + UNZIP_SLICE_BYTES, bytes.length);
+            unzip.push(bytes.subarray(at, end), end === bytes.length);
+        }
+    } catch (e) {
+        if (e instanceof MxlValidationError) { throw e; }
+        throw failure ?? new MxlValidationError("mxl_unzip_failed", `Could not unzip the file: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    if (entryCount === 0) {
+        throw new MxlValidationError("mxl_unzip_failed", "The file is not a readable zip archive.");
+    }
+    return entries;
+}
+
+/* =========================
+   Canonical form
+   ========================= */
+
+function escapeAttr(s: string): string {
+    return s.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+/** A container.xml naming only the score */
+function canonicalContainer(rootPath: string): string {
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<container>`,
+        `  <rootfiles>`,
+        `    <rootfile full-path="${escapeAttr(rootPath)}" media-type="application/vnd.recordare.musicxml+xml"/>`,
+        `  </rootfiles>`,
+        `</container>`,
+        ``,
+    ].join("\n");
+}
+
+/* =========================
+   Score XML
+   ========================= */
+
+/** Decode score bytes; UTF-16 (BOM) is re-declared as UTF-8 since that's how it gets stored */
+function decodeXml(bytes: Uint8Array): { text: string; reencoded: boolean } {
+    const b0 = bytes[0];
+    const b1 = bytes[1];
+    if ((b0 === 0xff && b1 === 0xfe) || (b0 === 0xfe && b1 === 0xff)) {
+        const text = new TextDecoder(b0 === 0xff ? "utf-16le" : "utf-16be").decode(bytes);
+        return { text: text.replace(/^(<\?xml[^>]*encoding=["'])[^"']*(["'])/, "$1UTF-8$2"), reencoded: true };
+    }
+    return { text: strFromU8(bytes), reencoded: false };
+}
+
+/** Check the document is MusicXML with parts; timewise scores come back as partwise text */
+function checkScoreXml(xmlText: string): { xmlText: string; converted: boolean } {
+    let doc: XmlDocument;
+    try {
+        doc = parseXml(xmlText);
+    } catch (e) {
+        throw new MxlValidationError("mxl_xml_malformed", `The score is not well-formed XML: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    const rootName = doc.documentElement?.tagName ?? "";
+    if (!MUSICXML_ROOTS.has(rootName)) {
+        throw new MxlValidationError(
+            "mxl_not_musicxml",
+            `The score's root element is <${rootName || "?"}>; expected <score-partwise> or <score-timewise>.`
+        );
+    }
+    if (doc.getElementsByTagName("part").length === 0) {
+        throw new MxlValidationError("mxl_no_parts", "The score has no <part> elements.");
+    }
+
+    if (rootName === "score-timewise") {
+        return { xmlText: XML_DECLARATION + serializeXml(timewiseToPartwise(doc)), converted: true };
+    }
+    return { xmlText, converted: false };
+}
+
+/** mimetype + container.xml + the score, zipped deterministically */
+function packScore(rootPath: string, root: Uint8Array, xmlText: string): { mxl: Uint8Array; contents: MxlContents } {
+    const canonical: Record<string, Uint8Array> = {
+        mimetype: strToU8(MXL_MIMETYPE),
+        [CONTAINER_PATH]: strToU8(canonicalContainer(rootPath)),
+        [rootPath]: root,
+    };
+    return {
+        mxl: writeMxl(canonical),
+        contents: { entries: canonical, rootPath, xmlText },
+    };
+}
+
+function normalizeMxl(bytes: Uint8Array): { mxl: Uint8Array; contents: MxlContents } {
+    if (bytes.length > MXL_MAX_BYTES) {
+        throw new MxlValidationError("mxl_too_large", `The file is larger than ${MXL_MAX_BYTES / (1024 * 1024)} MB.`);
+    }
+
+    const entries = unzipBounded(bytes);
+
+    const container = entries[CONTAINER_PATH];
+    if (!container) {
+        throw new MxlValidationError("mxl_container_missing", `The archive has no ${CONTAINER_PATH}.`);
+    }
+    let rootPath: string;
+    try {
+        rootPath = findRootfilePath(strFromU8(container));
+    } catch (e) {
+        throw new MxlValidationError("mxl_container_invalid", `${CONTAINER_PATH} is unreadable: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    const root = entries[rootPath];
+    if (!root) {
+        throw new MxlValidationError("mxl_rootfile_missing", `The score ${rootPath} named in ${CONTAINER_PATH} is not in the archive.`);
+    }
+
+    const decoded = decodeXml(root);
+    const checked = checkScoreXml(decoded.text);
+    const rewritten = decoded.reencoded || checked.converted;
+    return packScore(rootPath, rewritten ? strToU8(checked.xmlText) : root, checked.xmlText);
+}
+
+function normalizeMusicXml(bytes: Uint8Array): { mxl: Uint8Array; contents: MxlContents } {
+    if (bytes.length > MXL_MAX_UNCOMPRESSED_BYTES) {
+        throw new MxlValidationError("mxl_too_large", `The score is larger than ${MXL_MAX_UNCOMPRESSED_BYTES / (1024 * 1024)} MB.`);
+    }
+    const decoded = decodeXml(bytes);
+    const checked = checkScoreXml(decoded.text);
+    const rewritten = decoded.reencoded || checked.converted;
+    return packScore(RAW_ROOTFILE_PATH, rewritten ? strToU8(checked.xmlText) : bytes, checked.xmlText);
+}
+
+/** Uncompressed MusicXML starts with "<" once a BOM and leading whitespace are skipped */
+function looksLikeXml(bytes: Uint8Array): boolean {
+    let i = 0;
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) { i = 3; }
+    else if ((bytes[0] === 0xff && bytes[1] === 0xfe) || (bytes[0] === 0xfe && bytes[1] === 0xff)) { return true; }
+    while (i < bytes.length && (bytes[i] === 0x20 || bytes[i] === 0x09 || bytes[i] === 0x0a || bytes[i] === 0x0d)) { i += 1; }
+    return bytes[i] === 0x3c; // '<'
+}
+
+/* =========================
+   Public API
+   ========================= */
+
+/**
+ * Validate an uploaded score and return it as a canonical MXL: `mimetype` (stored)
+ * first, a container.xml naming only the score, then the score itself.
+ * Accepts a compressed .mxl or uncompressed MusicXML text; timewise scores are
+ * converted to partwise and UTF-16 text to UTF-8, otherwise the score bytes are kept.
+ * Other archive entries (extra rootfiles, images, manifests) are dropped; the zip
+ * is written with fixed timestamps so the same score always packs to the same bytes.
+ * Throws MxlValidationError.
+ */
+export function normalizeScore(bytes: Uint8Array): { mxl: Uint8Array; contents: MxlContents } {
+    if (isZipMagic(bytes)) {
+        return normalizeMxl(bytes);
+    }
+    if (looksLikeXml(bytes)) {
+        return normalizeMusicXml(bytes);
+    }
+    throw new MxlValidationError("payload_not_score", "Song bytes must be a compressed .mxl (ZIP) or MusicXML text.");
+}
@@ -0,0 +1,113 @@
+// src/lib/pageTurnKeys.ts
+// Which keys turn pages in the viewer. Bluetooth page-turn pedals pretend to be keyboards
+// and each model (or mode switch on it) sends different keys, so there are a few profiles
+// plus a "custom" map filled in by the viewer's learn mode. Values are KeyboardEvent.key.
+
+export type PageTurnAction = "next" | "prev" | "first" | "last";
+
+export type PageKeyMap = Record<PageTurnAction, string[]>;
+
+export type PageKeyProfileId = "keyboard" | "arrowsLeftRight" | "pageUpDown" | "arrowsUpDown" | "enterBackspace" | "custom";
+
+export type PageKeyPref = {
+    profile: PageKeyProfileId;
+    custom: PageKeyMap; // kept when another profile is picked, so switching back restores it
+};
+
+export const PAGE_TURN_ACTIONS: ReadonlyArray<{ action: PageTurnAction; label: string }> = [
+    { action: "next", label: "Next page" },
+    { action: "prev", label: "Previous page" },
+    { action: "first", label: "First page" },
+    { action: "last", label: "Last page" },
+];
+
+// Most pedals ship in one of the arrow or page-key modes; "keyboard" is the viewer's original set
+export const PAGE_KEY_PROFILES: Record<Exclude<PageKeyProfileId, "custom">, { label: string; keys: PageKeyMap }> = {
+    keyboard: {
+        label: "Keyboard",
+        keys: { next: ["PageDown", "ArrowDown", " "], prev: ["PageUp", "ArrowUp"], first: ["Home"], last: ["End"] },
+    },
+    arrowsLeftRight: {
+        label: "Pedal: ← / →",
+        keys: { next: ["ArrowRight"], prev: ["ArrowLeft"], first: [], last: [] },
+    },
+    pageUpDown: {
+        label: "Pedal: Page Up / Down",
+        keys: { next: ["PageDown"], prev: ["PageUp"], first: [], last: [] },
+    },
+    arrowsUpDown: {
+        label: "Pedal: ↑ / ↓",
+        keys: { next: ["ArrowDown"], prev: ["ArrowUp"], first: [], last: [] },
+    },
+    enterBackspace: {
+        label: "Pedal: Enter / Backspace",
+        keys: { next: ["Enter"], prev: ["Backspace"], first: [], last: [] },
+    },
+};
+
+export const DEFAULT_PAGE_KEYS: PageKeyPref = {
+    profile: "keyboard",
+    custom: PAGE_KEY_PROFILES.keyboard.keys,
+};
+
+// Held on their own these never turn a page (and learn mode waits for the real key)
+const MODIFIER_KEYS: ReadonlySet<string> = new Set(["Shift", "Control", "Alt", "Meta", "AltGraph", "CapsLock", "Fn"]);
+
+export function isModifierKey(key: string): boolean {
+    return MODIFIER_KEYS.has(key);
+}
+
+function parseKeyMap(v: unknown, fallback: PageKeyMap): PageKeyMap {
+    const o = v && typeof v === "object" ? v as Record<string, unknown> : {};
+    const keys = (value: unknown, dflt: string[]): string[] =>
+        Array.isArray(value) ? value.filter((k): k is string => typeof k === "string" && k.length > 0) : dflt;
+    return {
+        next: keys(o.next, fallback.next),
+        prev: keys(o.prev, fallback.prev),
+        first: keys(o.first, fallback.first),
+        last: keys(o.last, fallback.last),
+    };
+}
+
+/** Preference from an untrusted value (e.g. a cookie); anything unreadable falls back to the defaults */
+export function parsePageKeyPref(v: unknown): PageKeyPref {
+    const o = v && typeof v === "object" ? v as Record<string, unknown> : {};
+    const profile = typeof o.profile === "string" &&
+        (o.profile === "custom" || Object.prototype.hasOwnProperty.call(PAGE_KEY_PROFILES, o.profile))
+        ? o.profile as PageKeyProfileId
+        : DEFAULT_PAGE_KEYS.profile;
+    return { profile, custom: parseKeyMap(o.custom, DEFAULT_PAGE_KEYS.custom) };
+}
+
+export function activeKeyMap(pref: PageKeyPref): PageKeyMap {
+    return pref.profile === "custom" ? pref.custom : PAGE_KEY_PROFILES[pref.profile].keys;
+}
+
+/** The action a key press maps to, or null */
+export function actionForKey(map: PageKeyMap, key: string): PageTurnAction | null {
+    for (const { action } of PAGE_TURN_ACTIONS) {
+        if (map[action].includes(key)) { return action; }
+    }
+    return null;
+}
+
+/** Custom map with `key` as the only key for `action` (and taken away from any other action) */
+export function withLearnedKey(map: PageKeyMap, action: PageTurnAction, key: string): PageKeyMap {
+    const out = { ...map };
+    for (const { action: a } of PAGE_TURN_ACTIONS) {
+        out[a] = a === action ? [key] : map[a].filter((k) => k !== key);
+    }
+    return out;
+}
+
+/** Display name for a KeyboardEvent.key value */
+export function keyLabel(key: string): string {
+    switch (key) {
+        case " ": return "Space";
+        case "ArrowLeft": return "←";
+        case "ArrowRight": return "→";
+        case "ArrowUp": return "↑";
+        case "ArrowDown": return "↓";
+        default: return key.length === 1 ? key.toUpperCase() : key;
+    }
+}
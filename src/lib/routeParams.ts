@@ -0,0 +1,11 @@
+// src/lib/routeParams.ts
+// Path segment and query string parsing shared by the API routes.
+
+/** Digits-only positive integer path segment (rejects "1e3", "-1", "abc"); null when invalid */
+export function parsePositiveId(raw: string): number | null {
+    if (!/^\d+$/.test(raw)) {
+        return null;
+    }
+    const n = Number(raw);
+    return Number.isFinite(n) && n > 0 ? n : null;
+}
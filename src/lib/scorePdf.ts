@@ -0,0 +1,318 @@
+// src/lib/scorePdf.ts
+// In-browser PDF export of the rendered score: each page slice of the OSMD SVG is
+// rasterized on a canvas and written into a small image-only PDF. No server round-trip.
+// The paper options also size the viewer's print mode (/viewer?print=1).
+import { zlibSync } from "fflate";
+
+/* =========================
+   Paper options
+   ========================= */
+
+export type PaperSize = "letter" | "a4";
+export type PaperOrientation = "portrait" | "landscape";
+export type PdfMargin = "narrow" | "normal" | "wide";
+
+export interface PdfExportOptions {
+    paper: PaperSize;
+    orientation: PaperOrientation;
+    margin: PdfMargin;
+}
+
+// Portrait sizes in PDF points (1/72 in)
+export const PAPER_SIZES: Record<PaperSize, { label: string; widthPt: number; heightPt: number }> = {
+    letter: { label: "Letter", widthPt: 612, heightPt: 792 },
+    a4: { label: "A4", widthPt: 595.28, heightPt: 841.89 },
+};
+
+export const PDF_MARGINS: Record<PdfMargin, { label: string; pt: number }> = {
+    narrow: { label: "Narrow (¼ in)", pt: 18 },
+    normal: { label: "Normal (½ in)", pt: 36 },
+    wide: { label: "Wide (1 in)", pt: 72 },
+};
+
+export const DEFAULT_PDF_OPTIONS: PdfExportOptions = { paper: "letter", orientation: "portrait", margin: "normal" };
+
+/** Options from an untrusted value (e.g. a cookie); unknown fields fall back to the defaults */
+export function parsePdfOptions(v: unknown): PdfExportOptions {
+    const o = v && typeof v === "object" ? v as Record<string, unknown> : {};
+    const pick = <K extends string>(value: unknown, allowed: Record<K, unknown>, fallback: K): K =>
+        typeof value === "string" && Object.prototype.hasOwnProperty.call(allowed, value) ? value as K : fallback;
+    return {
+        paper: pick(o.paper, PAPER_SIZES, DEFAULT_PDF_OPTIONS.paper),
+        orientation: o.orientation === "landscape" ? "landscape" : "portrait",
+        margin: pick(o.margin, PDF_MARGINS, DEFAULT_PDF_OPTIONS.margin),
+    };
+}
+
+export interface PdfPageBox {
+    widthPt: number;
+    heightPt: number;
+    marginPt: number;
+    contentWidthPt: number;
+    contentHeightPt: number;
+}
+
+export function pdfPageBox(opts: PdfExportOptions): PdfPageBox {
+    const paper = PAPER_SIZES[opts.paper];
+    const landscape = opts.orientation === "landscape";
+    const widthPt = landscape ? paper.heightPt : paper.widthPt;
+    const heightPt = landscape ? paper.widthPt : paper.heightPt;
+    const marginPt = PDF_MARGINS[opts.margin].pt;
+    return {
+        widthPt,
+        heightPt,
+        marginPt,
+        contentWidthPt: widthPt - 2 * marginPt,
+        contentHeightPt: heightPt - 2 * marginPt,
+    };
+}
+
+/* =========================
+   Printing (CSS paged media)
+   ========================= */
+
+// CSS px per PDF point (96 px and 72 pt to the inch)
+export const PX_PER_PT = 96 / 72;
+
+/** `@page` rule for the browser's print dialog */
+export function pageCssRule(opts: PdfExportOptions): string {
+    const size = opts.paper === "a4" ? "A4" : "letter";
+    return `@page { size: ${size} ${opts.orientation}; margin: ${PDF_MARGINS[opts.margin].pt}pt; }`;
+}
+
+/* =========================
+   Rasterize
+   ========================= */
+
+// Print resolution of the page images; 200 dpi keeps staff lines crisp at a few hundred KB a page
+const RASTER_DPI = 200;
+
+/** One vertical slice of the score, in the SVG's own CSS px (top-left origin) */
+export interface SvgSlice { top: number; height: number }
+
+interface PageImage {
+    width: number;     // pixels
+    height: number;
+    gray: Uint8Array;  // 8-bit DeviceGray, row-major
+    drawWidthPt: number;
+    drawHeightPt: number;
+}
+
+/**
+ * The score SVG as standalone markup at its unit-scale CSS size. The viewer's page
+ * translate and sizing styles are dropped; per-system packing transforms are kept.
+ */
+export function standaloneSvgMarkup(svg: SVGSVGElement, size: { width: number; height: number }): string {
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.removeAttribute("style");
+    clone.setAttribute("x", "0");
+    clone.setAttribute("y", "0");
+    clone.setAttribute("width", String(size.width));
+    clone.setAttribute("height", String(size.height));
+    return new XMLSerializer().serializeToString(clone);
+}
+
+/** SVG markup showing just `slice` of `svg`, scaled to outW × outH pixels on white */
+function sliceMarkup(
+    svg: SVGSVGElement,
+    size: { width: number; height: number },
+    slice: SvgSlice,
+    outW: number,
+    outH: number
+): string {
+    const inner = standaloneSvgMarkup(svg, size);
+
+    return (
+        `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+        `width="${outW}" height="${outH}" viewBox="0 ${slice.top} ${size.width} ${slice.height}" ` +
+        `preserveAspectRatio="none">` +
+        `<rect x="0" y="${slice.top}" width="${size.width}" height="${slice.height}" fill="#fff"/>` +
+        inner +
+        `</svg>`
+    );
+}
+
+async function loadSvgImage(markup: string): Promise<HTMLImageElement> {
+    const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml" }));
+    try {
+        const img = new Image();
+        img.src = url;
+        await img.decode();
+        return img;
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+async function rasterizeSlice(
+    svg: SVGSVGElement,
+    size: { width: number; height: number },
+    slice: SvgSlice,
+    drawWidthPt: number,
+    drawHeightPt: number
+): Promise<PageImage> {
+    const width = Math.max(1, Math.round((drawWidthPt / 72) * RASTER_DPI));
+    const height = Math.max(1, Math.round((drawHeightPt / 72) * RASTER_DPI));
+    const img = await loadSvgImage(sliceMarkup(svg, size, slice, width, height));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) { throw new Error("Canvas 2D is not available."); }
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+
+    const rgba = ctx.getImageData(0, 0, width, height).data;
+    const gray = new Uint8Array(width * height);
+    for (let i = 0, p = 0; p < gray.length; i += 4, p += 1) {
+        gray[p] = (rgba[i]! * 299 + rgba[i + 1]! * 587 + rgba[i + 2]! * 114 + 500) / 1000;
+    }
+    return { width, height, gray, drawWidthPt, drawHeightPt };
+}
+
+/* =========================
+   PDF writer
+   ========================= */
+
+const enc = new TextEncoder();
+
+/** PDF text string; UTF-16BE hex so any title survives */
+function pdfText(s: string): string {
+    let hex = "FEFF";
+    for (let i = 0; i < s.length; i++) {
+        hex += s.charCodeAt(i).toString(16).padStart(4, "0").toUpperCase();
+    }
+    return `<${hex}>`;
+}
+
+const num = (n: number): string => String(Math.round(n * 100) / 100);
+
+function writePdf(pages: PageImage[], box: PdfPageBox, title: string): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let size = 0;
+    const push = (b: Uint8Array | string): void => {
+        const u8 = typeof b === "string" ? enc.encode(b) : b;
+        chunks.push(u8);
+        size += u8.length;
+    };
+    const object = (id: number, body: string, stream?: Uint8Array): void => {
+        offsets[id] = size;
+        push(`${id} 0 obj\n${body}\n`);
+        if (stream) {
+            push("stream\n");
+            push(stream);
+            push("\nendstream\n");
+        }
+        push("endobj\n");
+    };
+
+    push("%PDF-1.4\n");
+    push(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])); // binary marker comment
+
+    // 1 catalog, 2 page tree, 3 info, then page / content / image per page
+    const pageId = (i: number) => 4 + i * 3;
+    const kids = pages.map((_, i) => `${pageId(i)} 0 R`).join(" ");
+
+    object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+    object(2, `<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`);
+    object(3, `<< /Title ${pdfText(title)} /Producer ${pdfText("Music Portal")} >>`);
+
+    pages.forEach((pg, i) => {
+        const id = pageId(i);
+        // Top of the printable area, horizontally centred when a tall system was shrunk to fit
+        const x = box.marginPt + (box.contentWidthPt - pg.drawWidthPt) / 2;
+        const y = box.heightPt - box.marginPt - pg.drawHeightPt;
+        const content = enc.encode(
+            `q ${num(pg.drawWidthPt)} 0 0 ${num(pg.drawHeightPt)} ${num(x)} ${num(y)} cm /Im0 Do Q\n`
+        );
+        const pixels = zlibSync(pg.gray, { level: 6 });
+
+        object(
+            id,
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(box.widthPt)} ${num(box.heightPt)}] ` +
+            `/Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`
+        );
+        object(id + 1, `<< /Length ${content.length} >>`, content);
+        object(
+            id + 2,
+            `<< /Type /XObject /Subtype /Image /Width ${pg.width} /Height ${pg.height} ` +
+            `/ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode /Length ${pixels.length} >>`,
+            pixels
+        );
+    });
+
+    const objectCount = 4 + pages.length * 3;
+    const xrefAt = size;
+    let xref = `xref\n0 ${objectCount}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objectCount; id++) {
+        xref += `${String(offsets[id] ?? 0).padStart(10, "0")} 00000 n \n`;
+    }
+    push(xref);
+    push(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`);
+
+    const out = new Uint8Array(size);
+    let at = 0;
+    for (const c of chunks) {
+        out.set(c, at);
+        at += c.length;
+    }
+    return out;
+}
+
+/* =========================
+   Public API
+   ========================= */
+
+/**
+ * Render `slices` of the score SVG (sized `size` in CSS px at unit scale) as PDF pages,
+ * one slice per page, top-aligned in the printable area. Slices are expected to be
+ * content-width wide at `ptPerPx`; a slice taller than the printable height is shrunk to fit.
+ */
+export async function renderScorePdf(
+    svg: SVGSVGElement,
+    size: { width: number; height: number },
+    slices: SvgSlice[],
+    opts: PdfExportOptions,
+    title: string
+): Promise<Uint8Array> {
+    const box = pdfPageBox(opts);
+    const ptPerPx = box.contentWidthPt / size.width;
+
+    const pages: PageImage[] = [];
+    for (const slice of slices) {
+        let drawWidthPt = box.contentWidthPt;
+        let drawHeightPt = slice.height * ptPerPx;
+        if (drawHeightPt > box.contentHeightPt) {
+            const shrink = box.contentHeightPt / drawHeightPt;
+            drawWidthPt *= shrink;
+            drawHeightPt = box.contentHeightPt;
+        }
+        pages.push(await rasterizeSlice(svg, size, slice, drawWidthPt, drawHeightPt));
+    }
+    return writePdf(pages, box, title);
+}
+
+/** Hand the bytes to the browser as a download */
+export function downloadPdf(bytes: Uint8Array, fileName: string): void {
+    const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: "application/pdf" }));
+    try {
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = fileName;
+        document.body.appendChild(a);
+        a.click();
+        a.remove();
+    } finally {
+        // Some browsers read the URL after click() returns
+        window.setTimeout(() => URL.revokeObjectURL(url), 10_000);
+    }
+}
+
+/** "My Song: Part 1" → "My Song Part 1.pdf" */
+export function pdfFileName(title: string): string {
+    const base = title.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, " ").replace(/\s+/g, " ").trim().slice(0, 120);
+    return `${base || "score"}.pdf`;
+}
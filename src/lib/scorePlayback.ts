@@ -0,0 +1,269 @@
+// src/lib/scorePlayback.ts
+// Browser-only playback helpers for ScoreViewer. Do NOT import in server code.
+import type { OpenSheetMusicDisplay } from "opensheetmusicdisplay";
+
+/* ============================================================
+   Timeline
+   One step per OSMD cursor position, so step i is reached
+   by cursor.reset() followed by i × cursor.next().
+   ============================================================ */
+
+export type PlaybackNote = {
+    freq: number;    // Hz
+    durSec: number;  // at tempo multiplier 1.0
+};
+
+export type PlaybackStep = {
+    timeSec: number;        // onset at tempo multiplier 1.0
+    measureNumber: number;  // printed/OSMD measure number (matches g.vf-measure ids)
+    notes: PlaybackNote[];
+};
+
+// Fallback when the score carries no tempo marking
+const DEFAULT_BPM = 100;
+
+// Hard ceiling so a pathological score can't lock the tab while we walk it
+const MAX_STEPS = 20000;
+
+type TieLike = { StartNote?: unknown; Notes?: Array<{ Length?: { RealValue?: number } }> };
+
+/** Whole-note duration of a note, summing the tie chain when it starts one */
+function noteWholeLength(note: {
+    Length?: { RealValue?: number };
+    NoteTie?: TieLike;
+}): number {
+    const tie = note.NoteTie;
+    if (tie && Array.isArray(tie.Notes) && tie.Notes.length > 0) {
+        let sum = 0;
+        for (const n of tie.Notes) {
+            sum += n.Length?.RealValue ?? 0;
+        }
+        if (sum > 0) { return sum; }
+    }
+    return note.Length?.RealValue ?? 0;
+}
+
+/**
+ * Walk the OSMD cursor once and collect what sounds at each position.
+ * Leaves the cursor reset at the start of the score.
+ */
+export function buildPlaybackTimeline(osmd: OpenSheetMusicDisplay): PlaybackStep[] {
+    const cursor = osmd.cursor;
+    if (!cursor) { return []; }
+
+    const steps: PlaybackStep[] = [];
+    const sheetBpm = osmd.Sheet?.DefaultStartTempoInBpm || DEFAULT_BPM;
+
+    cursor.reset();
+    let sec = 0;
+    let prevWhole = 0;
+    let prevBpm = sheetBpm;
+
+    try {
+        while (!cursor.Iterator.EndReached && steps.length < MAX_STEPS) {
+            const it = cursor.Iterator;
+            const whole = it.CurrentEnrolledTimestamp?.RealValue ?? prevWhole;
+            const bpm = it.CurrentBpm > 0 ? it.CurrentBpm : prevBpm;
+
+            // Advance the clock using the tempo that was in force since the previous step
+            sec += Math.max(0, whole - prevWhole) * 240 / prevBpm;
+            prevWhole = whole;
+            prevBpm = bpm;
+
+            const notes: PlaybackNote[] = [];
+            for (const ve of it.CurrentVoiceEntries ?? []) {
+                for (const note of ve.Notes ?? []) {
+                    if (note.isRest()) { continue; }
+                    if (!note.PrintObject && note.IsCueNote) { continue; }
+
+                    // Hidden parts stay silent
+                    const staff = note.ParentStaff as { isVisible?: () => boolean } | undefined;
+                    if (staff?.isVisible && !staff.isVisible()) { continue; }
+
+                    // Tie continuations are covered by the tie's first note
+                    const tie = note.NoteTie as TieLike | undefined;
+                    if (tie && tie.StartNote && tie.StartNote !== note) { continue; }
+
+                    const freq = note.Pitch?.Frequency ?? 0;
+                    const wholeLen = noteWholeLength(note as unknown as Parameters<typeof noteWholeLength>[0]);
+                    if (!(freq > 0) || !(wholeLen > 0)) { continue; }
+
+                    notes.push({ freq, durSec: wholeLen * 240 / bpm });
+                }
+            }
+
+            steps.push({
+                timeSec: sec,
+                measureNumber: it.CurrentMeasure?.MeasureNumber ?? 0,
+                notes,
+            });
+
+            cursor.next();
+        }
+    } finally {
+        cursor.reset();
+    }
+
+    return steps;
+}
+
+/** Index of the last step whose onset is <= t (score seconds); -1 before the first */
+export function stepIndexAt(steps: ReadonlyArray<PlaybackStep>, t: number): number {
+    let lo = 0;
+    let hi = steps.length - 1;
+    let ans = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (steps[mid]!.timeSec <= t) {
+            ans = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    return ans;
+}
+
+/** Score time (seconds) at which the last note stops sounding */
+export function timelineEndSec(steps: ReadonlyArray<PlaybackStep>): number {
+    let end = 0;
+    for (const s of steps) {
+        end = Math.max(end, s.timeSec);
+        for (const n of s.notes) {
+            end = Math.max(end, s.timeSec + n.durSec);
+        }
+    }
+    return end;
+}
+
+/* ============================================================
+   A/B loop
+   Stored as measure numbers so it survives re-render/repagination;
+   resolved to timeline indices/seconds when playback needs it.
+   ============================================================ */
+
+export type LoopRange = {
+    startMeasure: number;
+    endMeasure: number;   // inclusive
+};
+
+export type LoopSpan = {
+    startIdx: number;     // first step of the loop
+    endIdx: number;       // first step after the loop (may equal steps.length)
+    startSec: number;
+    endSec: number;
+};
+
+/** Resolve a measure range against the timeline (first pass through the range only) */
+export function resolveLoopSpan(
+    steps: ReadonlyArray<PlaybackStep>,
+    loop: LoopRange,
+    totalEndSec: number
+): LoopSpan | null {
+    const startIdx = steps.findIndex((s) => s.measureNumber >= loop.startMeasure);
+    if (startIdx < 0) { return null; }
+
+    // Stop at the first step past the range (or a repeat jumping back before it)
+    let endIdx = steps.length;
+    for (let i = startIdx; i < steps.length; i++) {
+        const m = steps[i]!.measureNumber;
+        if (m > loop.endMeasure || m < loop.startMeasure) {
+            endIdx = i;
+            break;
+        }
+    }
+
+    const startSec = steps[startIdx]!.timeSec;
+    const endSec = endIdx < steps.length ? steps[endIdx]!.timeSec : totalEndSec;
+    if (!(endSec > startSec)) { return null; }
+
+    return { startIdx, endIdx, startSec, endSec };
+}
+
+/* ============================================================
+   Synth
+   A small WebAudio voice: triangle oscillator + short envelope.
+   No samples, no network.
+   ============================================================ */
+
+export type ScoreSynth = {
+    /** Current audio clock (seconds) */
+    now(): number;
+    /** Schedule notes to start at audio time `when`; durations are divided by `rate` */
+    play(notes: ReadonlyArray<PlaybackNote>, when: number, rate: number): void;
+    /** Cut every sounding/scheduled voice */
+    silence(): void;
+    /** Browsers start AudioContext suspended until a user gesture */
+    resume(): Promise<void>;
+    close(): Promise<void>;
+};
+
+type WindowWithWebkitAudio = Window & { webkitAudioContext?: typeof AudioContext };
+
+export function createScoreSynth(): ScoreSynth {
+    const Ctor = window.AudioContext ?? (window as WindowWithWebkitAudio).webkitAudioContext;
+    if (!Ctor) {
+        throw new Error("Web Audio is not available in this browser");
+    }
+    const ctx = new Ctor();
+
+    // Shared output chain keeps chords from clipping
+    const master = ctx.createGain();
+    master.gain.value = 0.25;
+    const comp = ctx.createDynamicsCompressor();
+    master.connect(comp);
+    comp.connect(ctx.destination);
+
+    let live = new Set<OscillatorNode>();
+
+    const ATTACK = 0.01;
+    const RELEASE = 0.08;
+
+    function play(notes: ReadonlyArray<PlaybackNote>, when: number, rate: number): void {
+        const r = rate > 0 ? rate : 1;
+        for (const n of notes) {
+            const dur = Math.max(0.05, n.durSec / r);
+            const osc = ctx.createOscillator();
+            const env = ctx.createGain();
+            osc.type = "triangle";
+            osc.frequency.setValueAtTime(n.freq, when);
+
+            env.gain.setValueAtTime(0, when);
+            env.gain.linearRampToValueAtTime(0.6, when + ATTACK);
+            env.gain.setTargetAtTime(0.35, when + ATTACK, 0.15);
+            env.gain.setTargetAtTime(0, when + dur, RELEASE / 3);
+
+            osc.connect(env);
+            env.connect(master);
+            osc.start(when);
+            osc.stop(when + dur + RELEASE);
+
+            live.add(osc);
+            osc.onended = () => {
+                live.delete(osc);
+                try { env.disconnect(); } catch { }
+            };
+        }
+    }
+
+    function silence(): void {
+        const t = ctx.currentTime;
+        for (const osc of live) {
+            try { osc.stop(t); } catch { }
+        }
+        live = new Set();
+    }
+
+    return {
+        now: () => ctx.currentTime,
+        play,
+        silence,
+        resume: async () => {
+            if (ctx.state === "suspended") { await ctx.resume(); }
+        },
+        close: async () => {
+            silence();
+            try { await ctx.close(); } catch { }
+        },
+    };
+}
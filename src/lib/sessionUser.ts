@@ -0,0 +1,50 @@
+// src/lib/sessionUser.ts
+// The signed-in site_user, resolved once per request by src/middleware.ts and passed to
+// route handlers as request headers. The middleware strips any client-sent copies first,
+// so handlers can trust them. Server-only.
+import { supabaseAdmin } from "./supabaseAdmin";
+import { DB_SCHEMA } from "./dbSchema";
+
+export const SESSION_HEADER = {
+    userId: "x-session-user-id",
+    roleNumber: "x-session-user-role",
+    email: "x-session-user-email",
+} as const;
+
+export type SessionUser = Readonly<{
+    userId: number;
+    roleNumber: number;
+    email: string;
+}>;
+
+/** site_user linked to a Supabase Auth identity (by email); null if none */
+export async function findSiteUserByEmail(email: string): Promise<SessionUser | null> {
+    const { data, error } = await supabaseAdmin
+        .schema(DB_SCHEMA)
+        .rpc("user_get_by_email", { p_user_email: email });
+    if (error) {
+        throw new Error(`user_get_by_email failed: ${error.message}`);
+    }
+    const row = (Array.isArray(data) ? data[0] : data) as
+        | { user_id?: unknown; user_role_number?: unknown; user_email?: unknown }
+        | null
+        | undefined;
+    if (!row || typeof row.user_id !== "number" || typeof row.user_role_number !== "number") {
+        return null;
+    }
+    return {
+        userId: row.user_id,
+        roleNumber: row.user_role_number,
+        email: String(row.user_email ?? email),
+    };
+}
+
+/** Read the session set by the middleware (null = anonymous or not linked to a site_user) */
+export function sessionFromHeaders(headers: Headers): SessionUser | null {
+    const userId = Number(headers.get(SESSION_HEADER.userId));
+    const roleNumber = Number(headers.get(SESSION_HEADER.roleNumber));
+    if (!Number.isInteger(userId) || userId <= 0 || !Number.isInteger(roleNumber) || roleNumber <= 0) {
+        return null;
+    }
+    return { userId, roleNumber, email: headers.get(SESSION_HEADER.email) ?? "" };
+}
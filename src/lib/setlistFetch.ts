@@ -0,0 +1,119 @@
+// src/lib/setlistFetch.ts
+import type { SetlistDetail, SetlistItem, SetlistSongItem } from "@/lib/types";
+
+const SETLIST_ENDPOINT = "/api/setlist";
+
+/** Convert /api/setlist payload into strict SetlistItem[] */
+export function normalizeSetlistList(json: unknown): SetlistItem[] {
+    const items = (json && typeof json === "object"
+        ? (json as Record<string, unknown>).items
+        : []) as unknown;
+
+    const out: SetlistItem[] = [];
+    if (Array.isArray(items)) {
+        for (const it of items) {
+            if (it && typeof it === "object") {
+                const r = it as Record<string, unknown>;
+                const id = r.setlist_id;
+                if (typeof id === "number" && Number.isFinite(id)) {
+                    out.push({
+                        setlist_id: id,
+                        setlist_name: String(r.setlist_name ?? ""),
+                        song_count: Number(r.song_count ?? 0),
+                        inserted_datetime: String(r.inserted_datetime ?? ""),
+                        updated_datetime: String(r.updated_datetime ?? ""),
+                    });
+                }
+            }
+        }
+    }
+    return out;
+}
+
+/** Convert /api/setlist/:id payload into a strict SetlistDetail */
+export function normalizeSetlistDetail(json: unknown): SetlistDetail {
+    const r = json && typeof json === "object" ? json as Record<string, unknown> : {};
+    const songs: SetlistSongItem[] = [];
+    if (Array.isArray(r.songs)) {
+        for (const it of r.songs) {
+            if (it && typeof it === "object") {
+                const s = it as Record<string, unknown>;
+                const songId = s.song_id;
+                if (typeof songId === "number" && Number.isFinite(songId)) {
+                    songs.push({
+                        song_position: Number(s.song_position ?? songs.length + 1),
+                        song_id: songId,
+                        song_title: String(s.song_title ?? ""),
+                        composer_first_name: String(s.composer_first_name ?? ""),
+                        composer_last_name: String(s.composer_last_name ?? ""),
+                        song_deleted: s.song_deleted === true,
+                    });
+                }
+            }
+        }
+    }
+    return {
+        setlist_id: Number(r.setlist_id ?? 0),
+        setlist_name: String(r.setlist_name ?? ""),
+        songs,
+    };
+}
+
+/** HTTP error that keeps the status so callers can tell "signed out" (401) apart */
+export class SetlistFetchError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = "SetlistFetchError";
+    }
+}
+
+async function readError(res: Response): Promise<SetlistFetchError> {
+    let message = `HTTP ${res.status}`;
+    try {
+        const j = (await res.json()) as { message?: unknown; error?: unknown };
+        if (typeof j.message === "string") { message = j.message; }
+        else if (typeof j.error === "string") { message = j.error; }
+    } catch {
+        // keep the status text
+    }
+    return new SetlistFetchError(message, res.status);
+}
+
+/** The signed-in user's setlists */
+export async function fetchSetlists(signal?: AbortSignal): Promise<SetlistItem[]> {
+    const res = await fetch(SETLIST_ENDPOINT, { cache: "no-store", signal });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+    return normalizeSetlistList(await res.json());
+}
+
+/** One setlist with its songs in play order */
+export async function fetchSetlist(setlistId: number | string, signal?: AbortSignal): Promise<SetlistDetail> {
+    const res = await fetch(`${SETLIST_ENDPOINT}/${encodeURIComponent(String(setlistId))}`, { cache: "no-store", signal });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+    return normalizeSetlistDetail(await res.json());
+}
+
+/** Create (setlistId null) or replace a setlist; returns its setlist_id */
+export async function saveSetlist(setlistId: number | null, setlistName: string, songIds: ReadonlyArray<number>): Promise<number> {
+    const res = await fetch(setlistId === null ? SETLIST_ENDPOINT : `${SETLIST_ENDPOINT}/${setlistId}`, {
+        method: setlistId === null ? "POST" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ setlist_name: setlistName, song_ids: songIds }),
+    });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+    const json = (await res.json()) as { setlist_id?: unknown };
+    return typeof json.setlist_id === "number" ? json.setlist_id : setlistId ?? 0;
+}
+
+export async function deleteSetlist(setlistId: number): Promise<void> {
+    const res = await fetch(`${SETLIST_ENDPOINT}/${setlistId}`, { method: "DELETE" });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+}
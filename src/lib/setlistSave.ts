@@ -0,0 +1,50 @@
+// src/lib/setlistSave.ts
+// Validation + setlist_save call shared by POST /api/setlist and PUT /api/setlist/:id. Server-only.
+import { z } from "zod";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+
+export const SETLIST_MAX_SONGS = 200;
+
+export type SetlistSaveFailure = { ok: false; status: 400 | 404 | 500; error: string; message?: string };
+export type SetlistSaveResult = { ok: true; setlist_id: number };
+
+const SaveSchema = z.object({
+    setlist_name: z.string().trim().min(1, "setlist_name is required").max(200, "setlist_name must be at most 200 characters"),
+    // Play order; the same song may come back later in the list
+    song_ids: z.array(z.number().int().positive({ message: "song_ids must be positive integers" }))
+        .max(SETLIST_MAX_SONGS, `A setlist holds at most ${SETLIST_MAX_SONGS} songs`),
+});
+
+/**
+ * Validate the body and create (setlistId null) or replace one of the user's setlists.
+ * A setlist that isn't theirs is reported as not found.
+ */
+export async function saveSetlist(raw: unknown, userId: number, setlistId: number | null): Promise<SetlistSaveResult | SetlistSaveFailure> {
+    const parsed = SaveSchema.safeParse(raw);
+    if (!parsed.success) {
+        const first = parsed.error.issues[0];
+        return { ok: false, status: 400, error: "invalid_body", message: first?.message ?? "Invalid request body" };
+    }
+    const input = parsed.data;
+
+    const { data, error } = await supabaseAdmin
+        .schema(DB_SCHEMA)
+        .rpc("setlist_save", {
+            p_setlist_id: setlistId,
+            p_user_id: userId,
+            p_setlist_name: input.setlist_name,
+            p_song_ids: input.song_ids,
+        });
+    if (error) {
+        if (error.code === "P0002") {
+            return { ok: false, status: 404, error: "not_found", message: "No setlist with that id for this user." };
+        }
+        if (error.code === "23503") {
+            return { ok: false, status: 404, error: "not_found", message: "One of the song_ids was not found." };
+        }
+        return { ok: false, status: 500, error: error.message ?? "RPC setlist_save failed" };
+    }
+
+    return { ok: true, setlist_id: typeof data === "number" ? data : Number(data ?? 0) };
+}
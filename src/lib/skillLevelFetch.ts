@@ -0,0 +1,23 @@
+// src/lib/skillLevelFetch.ts
+export type SkillLevel = { number: number; name: string };
+
+export async function fetchSkillLevels(): Promise<SkillLevel[]> {
+    const res = await fetch("/api/skill-level", { cache: "no-store" });
+    if (!res.ok) {
+        throw new Error(`HTTP ${res.status}`);
+    }
+    const json = await res.json();
+    if (!json.levels || !Array.isArray(json.levels)) {
+        return [];
+    }
+    const out: SkillLevel[] = [];
+    for (const l of json.levels as unknown[]) {
+        if (typeof l === "object" && l !== null && "number" in l && "name" in l) {
+            const { number, name } = l as { number: unknown; name: unknown };
+            if (typeof number === "number" && typeof name === "string") {
+                out.push({ number, name });
+            }
+        }
+    }
+    return out;
+}
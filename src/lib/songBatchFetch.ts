@@ -0,0 +1,30 @@
+// src/lib/songBatchFetch.ts
+import type { SongBatchItemResult } from "@/lib/types";
+
+const SONG_BATCH_ENDPOINT = "/api/song/batch";
+
+/** POST one chunk (≤ SONG_BATCH_MAX_ITEMS) of SONG_COL-keyed payloads; results come back in the same order */
+export async function submitSongBatch(items: ReadonlyArray<Record<string, unknown>>): Promise<SongBatchItemResult[]> {
+    const res = await fetch(SONG_BATCH_ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ items }),
+    });
+    if (!res.ok) {
+        let message = `HTTP ${res.status}`;
+        try {
+            const j = (await res.json()) as { message?: unknown; error?: unknown };
+            if (typeof j.message === "string") { message = j.message; }
+            else if (typeof j.error === "string") { message = j.error; }
+        } catch {
+            // keep the status text
+        }
+        throw new Error(message);
+    }
+    const json = (await res.json()) as { results?: unknown };
+    const results = Array.isArray(json.results) ? (json.results as SongBatchItemResult[]) : [];
+    if (results.length !== items.length) {
+        throw new Error("Batch response did not match the request");
+    }
+    return results;
+}
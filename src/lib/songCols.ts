@@ -14,6 +14,19 @@ export const SONG_COL = {
     skillLevelName: "skill_level_name",
     fileName: "file_name",
     songMxl: "song_mxl",
+    songMusicXml: "song_musicxml",   // upload only: plain MusicXML text instead of base64 song_mxl
+    // Read from the MusicXML on save (see mxlMetadata.ts)
+    keySignature: "key_signature",
+    timeSignature: "time_signature",
+    tempoText: "tempo_text",
+    tempoBpm: "tempo_bpm",
+    instrumentNames: "instrument_names",
+    measureCount: "measure_count",
+    pageCount: "page_count",
+    lyricist: "lyricist",
+    arranger: "arranger",
+    copyright: "copyright",
+    tagNames: "tag_names",           // genre / purpose tags; set by admins on save
     insertedDatetime: "inserted_datetime",
     updatedDatetime: "updated_datetime",
 } as const;
@@ -72,3 +85,6 @@ export const tokenToSql: Readonly<Record<SortableSongColToken, string>> = {
 
 export const DEFAULT_SORT: SortableSongColToken = SONG_COL.composerLastName;
 export const DEFAULT_DIR = "asc" as const;
+
+/** Most songs one POST /api/song/batch request may carry (bulk import sends several requests) */
+export const SONG_BATCH_MAX_ITEMS = 25;
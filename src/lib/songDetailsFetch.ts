@@ -0,0 +1,25 @@
+// src/lib/songDetailsFetch.ts
+import type { SongDetails } from "@/lib/types";
+
+/** Title / composer / level of one song; null when it doesn't exist */
+export async function fetchSongDetails(songId: number | string, signal?: AbortSignal): Promise<SongDetails | null> {
+    const res = await fetch(`/api/song/${encodeURIComponent(String(songId))}/details`, { cache: "no-store", signal });
+    if (res.status === 404) {
+        return null;
+    }
+    if (!res.ok) {
+        throw new Error(`HTTP ${res.status}`);
+    }
+    const json = (await res.json()) as Partial<SongDetails> | null;
+    if (!json || typeof json.song_id !== "number") {
+        return null;
+    }
+    return {
+        song_id: json.song_id,
+        song_title: String(json.song_title ?? ""),
+        composer_first_name: String(json.composer_first_name ?? ""),
+        composer_last_name: String(json.composer_last_name ?? ""),
+        skill_level_number: Number(json.skill_level_number ?? 0),
+        skill_level_name: String(json.skill_level_name ?? ""),
+    };
+}
@@ -0,0 +1,248 @@
+// src/lib/songFileClient.ts
+// Browser-side reading of picked score files (.mxl / .musicxml) and re-packing to .mxl.
+// Shared by the admin Songs page and bulk import. Uses DOMParser: do NOT import in server code.
+
+function firstText(doc: Document, selector: string): string {
+    const el = doc.querySelector(selector);
+    const raw = el?.textContent ?? "";
+    return collapseWs(raw);
+}
+
+function firstNonEmpty(...vals: (string | undefined)[]): string {
+    for (const v of vals) {
+        if (v && v.trim()) {
+            return v.trim();
+        }
+    }
+    return "";
+}
+
+export function stripExt(name: string): string {
+    const lower = (name || "").toLowerCase();
+    if (lower.endsWith(".musicxml")) {
+        return name.slice(0, -10);
+    }
+    if (lower.endsWith(".mxl")) {
+        return name.slice(0, -4);
+    }
+    return name;
+}
+
+function collapseWs(s: string): string {
+    let out = "";
+    let inWs = false;
+    for (let i = 0; i < s.length; i++) {
+        const ch = s[i]!;
+        const ws = ch === " " || ch === "\n" || ch === "\r" || ch === "\t" || ch === "\f";
+        if (ws) {
+            if (!inWs) {
+                out += " ";
+                inWs = true;
+            }
+        } else {
+            out += ch;
+            inWs = false;
+        }
+    }
+    return out.trim();
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    let s = "";
+    for (let i = 0; i < bytes.length; i++) {
+        s += String.fromCharCode(bytes[i]!);
+    }
+    return btoa(s);
+}
+
+function findRootfilePath(containerXml: string): string {
+    const doc = new DOMParser().parseFromString(containerXml, "application/xml");
+    const el = doc.querySelector("rootfile[full-path], rootfile[path], rootfile[href]");
+    const p = el?.getAttribute("full-path") || el?.getAttribute("path") || el?.getAttribute("href") || "";
+    if (!p) {
+        throw new Error("MXL: META-INF/container.xml rootfile path missing");
+    }
+    return p;
+}
+
+function extractFromMusicXml(xmlText: string, fallbackName: string): { title: string; composer: string } {
+    const doc = new DOMParser().parseFromString(xmlText, "application/xml");
+    if (doc.getElementsByTagName("parsererror").length) {
+        throw new Error("Invalid MusicXML (parsererror)");
+    }
+
+    const songTitle = firstText(doc, "song > song-title");
+    const movementTitle = firstText(doc, "movement-title");
+    const creditWords = firstText(doc, "credit > credit-words");
+    const title = firstNonEmpty(songTitle, movementTitle, creditWords, stripExt(fallbackName));
+
+    const composerTyped = firstText(doc, 'identification > creator[type="composer"]');
+    const anyCreator = firstText(doc, "identification > creator");
+    const composer = firstNonEmpty(composerTyped, anyCreator, "");
+
+    return { title, composer };
+}
+
+export async function extractMetadataAndXml(
+    file: File,
+    kind: { isMxl: boolean; isXml: boolean }
+): Promise<{ title: string; composer: string; xmlText: string }> {
+    if (kind.isXml) {
+        const xmlText = await file.text();
+        const meta = extractFromMusicXml(xmlText, file.name);
+        return { ...meta, xmlText };
+    }
+    if (kind.isMxl) {
+        const { unzip } = await import("unzipit");
+        const { entries } = await unzip(await file.arrayBuffer());
+        const container = entries["META-INF/container.xml"];
+        if (!container) {
+            throw new Error("MXL: META-INF/container.xml missing");
+        }
+        const containerXml = await container.text();
+        const rootPath = findRootfilePath(containerXml);
+        const root = entries[rootPath];
+        if (!root) {
+            throw new Error(`MXL: rootfile missing in archive: ${rootPath}`);
+        }
+        const xmlText = await root.text();
+        const meta = extractFromMusicXml(xmlText, file.name);
+        return { ...meta, xmlText };
+    }
+    throw new Error("Unsupported file type");
+}
+
+// Build a proper .mxl (ZIP) from full XML text for saving
+export async function xmlToMxl(xmlText: string, innerNameHint: string): Promise<Uint8Array> {
+    const { default: JSZip } = await import("jszip");
+    const zip = new JSZip();
+
+    const base = stripExt(innerNameHint || "score");
+    const innerName = `${base}.musicxml`;
+
+    zip.file(
+        "META-INF/container.xml",
+        `<?xml version="1.0" encoding="UTF-8"?>
+<container xmlns="urn:oasis:names:tc:opendocument:xmlns:container" version="1.0">
+  <rootfiles>
+    <rootfile full-path="${innerName}" media-type="application/vnd.recordare.musicxml+xml"/>
+  </rootfiles>
+</container>`
+    );
+
+    zip.file(innerName, xmlText);
+
+    return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+}
+
+/* ---------- Bulk import ---------- */
+
+export type ScoreKind = { isMxl: boolean; isXml: boolean };
+
+/** .mxl/.zip = compressed score, .musicxml/.xml = plain score (same rule as the single-file picker) */
+export function scoreKind(name: string): ScoreKind {
+    const lower = (name || "").toLowerCase();
+    const isMxl = lower.endsWith(".mxl") || lower.endsWith(".zip");
+    const isXml = !isMxl && (lower.endsWith(".musicxml") || lower.endsWith(".xml"));
+    return { isMxl, isXml };
+}
+
+/** The .mxl file name a score is saved under */
+export function toMxlFileName(name: string): string {
+    return name.toLowerCase().endsWith(".mxl") ? name : `${stripExt(name)}.mxl`;
+}
+
+/** "Johann Sebastian Bach" → { first: "Johann Sebastian", last: "Bach" } */
+export function splitComposer(composer: string): { first: string; last: string } {
+    const parts = collapseWs(composer).split(" ").filter(Boolean);
+    if (parts.length === 0) {
+        return { first: "", last: "" };
+    }
+    const last = parts.pop()!;
+    return { first: parts.join(" "), last };
+}
+
+function baseName(path: string): string {
+    const i = path.lastIndexOf("/");
+    return i >= 0 ? path.slice(i + 1) : path;
+}
+
+/**
+ * Flatten dropped/picked files into score files: a .zip holding META-INF/container.xml
+ * is itself an MXL score; any other .zip is an archive whose score entries are unpacked.
+ * Names that are not scores come back in `skipped`.
+ */
+export async function expandImportFiles(files: ReadonlyArray<File>): Promise<{ scores: File[]; skipped: string[] }> {
+    const scores: File[] = [];
+    const skipped: string[] = [];
+
+    for (const f of files) {
+        const lower = f.name.toLowerCase();
+        if (!lower.endsWith(".zip")) {
+            const kind = scoreKind(f.name);
+            if (kind.isMxl || kind.isXml) {
+                scores.push(f);
+            } else {
+                skipped.push(f.name);
+            }
+            continue;
+        }
+
+        const { unzip } = await import("unzipit");
+        const { entries } = await unzip(await f.arrayBuffer());
+        if (entries["META-INF/container.xml"]) {
+            scores.push(f);
+            continue;
+        }
+        for (const [path, entry] of Object.entries(entries)) {
+            const name = baseName(path);
+            if (entry.isDirectory || !name || path.startsWith("__MACOSX/") || name.startsWith(".")) {
+                continue;
+            }
+            const kind = scoreKind(name);
+            if (!kind.isMxl && !kind.isXml) {
+                skipped.push(`${f.name}/${path}`);
+                continue;
+            }
+            scores.push(new File([await entry.blob()], name));
+        }
+    }
+    return { scores, skipped };
+}
+
+/** Files from a drop, walking into dropped folders (browsers that lack entries get the flat list) */
+export async function filesFromDataTransfer(dt: DataTransfer): Promise<File[]> {
+    const entries = Array.from(dt.items)
+        .map((it) => (typeof it.webkitGetAsEntry === "function" ? it.webkitGetAsEntry() : null))
+        .filter((e): e is FileSystemEntry => e !== null);
+    if (entries.length === 0) {
+        return Array.from(dt.files);
+    }
+
+    const out: File[] = [];
+    const walk = async (entry: FileSystemEntry): Promise<void> => {
+        if (entry.isFile) {
+            out.push(await new Promise<File>((resolve, reject) => {
+                (entry as FileSystemFileEntry).file(resolve, reject);
+            }));
+            return;
+        }
+        if (entry.isDirectory) {
+            const reader = (entry as FileSystemDirectoryEntry).createReader();
+            // readEntries returns the listing in batches; an empty batch means done
+            for (;;) {
+                const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => {
+                    reader.readEntries(resolve, reject);
+                });
+                if (batch.length === 0) { break; }
+                for (const child of batch) {
+                    await walk(child);
+                }
+            }
+        }
+    };
+    for (const e of entries) {
+        await walk(e);
+    }
+    return out;
+}
@@ -1,5 +1,15 @@
 // src/lib/songListFetch.ts
-import type { SongListItem } from "@/lib/types";
+import type { SongFacetsResponse, SongListItem } from "@/lib/types";
+
+function textOrNull(v: unknown): string | null {
+    return typeof v === "string" && v.length > 0 ? v : null;
+}
+function numberOrNull(v: unknown): number | null {
+    return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+function stringList(v: unknown): string[] {
+    return Array.isArray(v) ? v.filter((x): x is string => typeof x === "string") : [];
+}
 
 /** Convert /api/songlist payload into strict SongListItem[] */
 export function normalizeSongList(json: unknown): SongListItem[] {
@@ -22,6 +32,17 @@ export function normalizeSongList(json: unknown): SongListItem[] {
                         skill_level_name: String(r.skill_level_name ?? ""),
                         skill_level_number: Number(r.skill_level_number ?? 0),
                         file_name: String(r.file_name ?? ""),
+                        key_signature: textOrNull(r.key_signature),
+                        time_signature: textOrNull(r.time_signature),
+                        tempo_text: textOrNull(r.tempo_text),
+                        tempo_bpm: numberOrNull(r.tempo_bpm),
+                        instrument_names: stringList(r.instrument_names),
+                        measure_count: numberOrNull(r.measure_count),
+                        page_count: numberOrNull(r.page_count),
+                        lyricist: textOrNull(r.lyricist),
+                        arranger: textOrNull(r.arranger),
+                        copyright: textOrNull(r.copyright),
+                        tag_names: stringList(r.tag_names),
                         inserted_datetime: String(r.inserted_datetime ?? ""),
                         updated_datetime: String(r.updated_datetime ?? ""),
                     });
@@ -32,18 +53,63 @@ export function normalizeSongList(json: unknown): SongListItem[] {
     return out;
 }
 
-/** Fetch + normalize with optional server sort */
+/** Metadata filters; each takes one value from /api/songlist/facets */
+export type SongFacetName = "keySignature" | "timeSignature" | "instrument";
+export type SongFacetFilter = Partial<Record<SongFacetName, string>>;
+
+/** Server-side filters for /api/songlist (empty = no filter) */
+export type SongListFilters = SongFacetFilter & {
+    q?: string;         // words matched against title + composer
+    levels?: number[];  // skill_level_number values
+    tags?: string[];    // songs carrying every one of these tags
+};
+
+// SongFacetName → /api/songlist query parameter
+const FACET_PARAM: Readonly<Record<SongFacetName, string>> = {
+    keySignature: "key",
+    timeSignature: "time",
+    instrument: "instrument",
+};
+
+/** One page of /api/songlist; nextCursor is null on the last page */
+export type SongListPage = {
+    items: SongListItem[];
+    nextCursor: string | null;
+};
+
+/** Fetch + normalize one page with optional server sort and filters (cursor null = first page) */
 export async function fetchSongList(
     endpoint: string,
     sort: string | null,
     dir: "asc" | "desc",
+    filters: SongListFilters = {},
+    cursor: string | null = null,
     signal?: AbortSignal
-): Promise<SongListItem[]> {
+): Promise<SongListPage> {
     const params = new URLSearchParams();
     if (sort !== null) {
         params.set("sort", sort);
         params.set("dir", dir);
     }
+    const q = filters.q?.trim() ?? "";
+    if (q) {
+        params.set("q", q);
+    }
+    if (filters.levels && filters.levels.length > 0) {
+        params.set("level", filters.levels.join(","));
+    }
+    for (const tag of filters.tags ?? []) {
+        params.append("tag", tag);
+    }
+    for (const [name, param] of Object.entries(FACET_PARAM) as [SongFacetName, string][]) {
+        const v = filters[name]?.trim() ?? "";
+        if (v) {
+            params.set(param, v);
+        }
+    }
+    if (cursor !== null) {
+        params.set("cursor", cursor);
+    }
     const res = await fetch(`${endpoint}?${params.toString()}`, {
         cache: "no-store",
         signal,
@@ -52,5 +118,28 @@ export async function fetchSongList(
         throw new Error(`HTTP ${res.status}`);
     }
     const json = await res.json();
-    return normalizeSongList(json);
+    return { items: normalizeSongList(json), nextCursor: readNextCursor(json) };
+}
+
+/** nextCursor from a list payload (absent/invalid = no further pages) */
+export function readNextCursor(json: unknown): string | null {
+    const c = json && typeof json === "object" ? (json as Record<string, unknown>).nextCursor : null;
+    return typeof c === "string" && c.length > 0 ? c : null;
+}
+
+export const EMPTY_SONG_FACETS: SongFacetsResponse = { key_signatures: [], time_signatures: [], instruments: [], tags: [] };
+
+/** Filter choices for the catalog (facets nobody uses yet come back empty); tags also feed the admin tag autocomplete */
+export async function fetchSongFacets(signal?: AbortSignal): Promise<SongFacetsResponse> {
+    const res = await fetch("/api/songlist/facets", { cache: "no-store", signal });
+    if (!res.ok) {
+        throw new Error(`HTTP ${res.status}`);
+    }
+    const json = (await res.json()) as Record<string, unknown> | null;
+    return {
+        key_signatures: stringList(json?.key_signatures),
+        time_signatures: stringList(json?.time_signatures),
+        instruments: stringList(json?.instruments),
+        tags: stringList(json?.tags),
+    };
 }
@@ -0,0 +1,71 @@
+// src/lib/songRevisionFetch.ts
+import type { SongRevisionItem } from "@/lib/types";
+
+/** Base URL for one song's revision history */
+export function songRevisionsUrl(songId: number): string {
+    return `/api/song/${songId}/revisions`;
+}
+
+/** Convert /api/song/:id/revisions payload into strict SongRevisionItem[] */
+export function normalizeSongRevisionList(json: unknown): SongRevisionItem[] {
+    const items = (json && typeof json === "object"
+        ? (json as Record<string, unknown>).items
+        : []) as unknown;
+
+    const out: SongRevisionItem[] = [];
+    if (Array.isArray(items)) {
+        for (const it of items) {
+            if (it && typeof it === "object") {
+                const r = it as Record<string, unknown>;
+                const id = r.song_revision_id;
+                if (typeof id === "number" && Number.isFinite(id)) {
+                    out.push({
+                        song_revision_id: id,
+                        file_name: String(r.file_name ?? ""),
+                        mxl_bytes: Number(r.mxl_bytes ?? 0),
+                        uploaded_by_user_id: typeof r.uploaded_by_user_id === "number" ? r.uploaded_by_user_id : null,
+                        uploaded_by_user_name: typeof r.uploaded_by_user_name === "string" ? r.uploaded_by_user_name : null,
+                        restored_from_revision_id: typeof r.restored_from_revision_id === "number" ? r.restored_from_revision_id : null,
+                        is_current: r.is_current === true,
+                        inserted_datetime: String(r.inserted_datetime ?? ""),
+                    });
+                }
+            }
+        }
+    }
+    return out;
+}
+
+async function readErrorMessage(res: Response): Promise<string> {
+    try {
+        const j = (await res.json()) as { message?: unknown; error?: unknown };
+        if (typeof j.message === "string") { return j.message; }
+        if (typeof j.error === "string") { return j.error; }
+    } catch {
+        // fall through to the status
+    }
+    return `HTTP ${res.status}`;
+}
+
+/** Newest first */
+export async function fetchSongRevisions(songId: number, signal?: AbortSignal): Promise<SongRevisionItem[]> {
+    const res = await fetch(songRevisionsUrl(songId), { cache: "no-store", signal });
+    if (!res.ok) {
+        throw new Error(await readErrorMessage(res));
+    }
+    return normalizeSongRevisionList(await res.json());
+}
+
+/** Make an old revision current again; returns the id of the revision that is now current */
+export async function restoreSongRevision(songId: number, songRevisionId: number): Promise<number> {
+    const res = await fetch(songRevisionsUrl(songId), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ song_revision_id: songRevisionId }),
+    });
+    if (!res.ok) {
+        throw new Error(await readErrorMessage(res));
+    }
+    const json = (await res.json()) as { song_revision_id?: unknown };
+    return typeof json.song_revision_id === "number" ? json.song_revision_id : songRevisionId;
+}
@@ -0,0 +1,195 @@
+// src/lib/songSave.ts
+// Validation + song_upsert call shared by POST /api/song and POST /api/song/batch. Server-only.
+// Every accepted score (.mxl or plain MusicXML) is stored as a canonical MXL; see mxlValidate.ts.
+import { Buffer } from "node:buffer";
+import { z } from "zod";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { DB_SCHEMA } from "@/lib/dbSchema";
+import type { AuditContext } from "@/lib/auditContext";
+import { SONG_COL } from "@/lib/songCols";
+import { extractMusicXmlMetadata, type SongMetadata } from "@/lib/mxlMetadata";
+import { MXL_MAX_UNCOMPRESSED_BYTES, MxlValidationError, normalizeScore } from "@/lib/mxlValidate";
+
+/* =========================
+   Result types
+   ========================= */
+
+// field: the SONG_COL token the error is about, when it is about one (the UI shows it next to that input)
+export type SongSaveFailure = { ok: false; status: 400 | 404 | 409 | 413 | 500; error: string; message?: string; field?: string };
+export type SongSaveRequest = { ok: true; input: SongSaveInput; mxlHex: string; metadata: SongMetadata | null };
+export type SongSaveResult = { ok: true; song_id: number | null };
+
+const TAG_MAX_LEN = 50;
+const TAGS_MAX = 20;
+
+/* =========================
+   Validation
+   - We read incoming fields via SONG_COL keys,
+     then validate a canonical object with Zod.
+   ========================= */
+
+const CanonicalSaveSchema = z.object({
+    song_id: z.number().int().positive().optional(),
+    song_title: z.string().trim().min(1, "song_title is required"),
+    composer_first_name: z.string().trim().min(1, "composer_first_name is required"),
+    composer_last_name: z.string().trim().min(1, "composer_last_name is required"),
+    // Your DB function expects a NUMBER, not a name:
+    skill_level_number: z.number().int().positive({ message: "skill_level_number must be a positive integer" }),
+    file_name: z.string().trim().min(1, "file_name is required"),
+    // The score, one of: base64 of an .mxl zip (or of MusicXML text), or the MusicXML text itself
+    mxl_base64: z.string().trim().optional(),
+    musicxml: z.string().optional(),
+    // The song's whole tag list; absent = keep its current tags (e.g. batch import)
+    tag_names: z.array(
+        z.string().trim().min(1, "Tags must not be blank").max(TAG_MAX_LEN, `Tags must be at most ${TAG_MAX_LEN} characters`)
+            .refine((t) => !t.includes(","), "Tags must not contain commas")
+    ).max(TAGS_MAX, `A song takes at most ${TAGS_MAX} tags`).optional(),
+}).refine(
+    (v) => (v.mxl_base64 === undefined) !== (v.musicxml === undefined),
+    { message: "Provide exactly one of song_mxl (base64) or song_musicxml (text)" }
+);
+
+export type SongSaveInput = z.infer<typeof CanonicalSaveSchema>;
+
+/* =========================
+   Small guards
+   ========================= */
+
+function isObjectRecord(x: unknown): x is Record<string, unknown> {
+    return typeof x === "object" && x !== null;
+}
+function nonBlank(v: unknown): string | undefined {
+    return typeof v === "string" && v.trim().length > 0 ? v : undefined;
+}
+function toByteaHex(u8: Uint8Array): string {
+    return "\\x" + Buffer.from(u8).toString("hex");
+}
+
+/* =========================
+   Parse one save payload (SONG_COL keys)
+   ========================= */
+
+export function readSongSave(raw: unknown): SongSaveRequest | SongSaveFailure {
+    if (!isObjectRecord(raw)) {
+        return { ok: false, status: 400, error: "Invalid JSON body" };
+    }
+
+    // Map from your column constants to a canonical object we can validate.
+    const candidate: SongSaveInput = {
+        song_id: (() => {
+            const v = raw[SONG_COL.songId];
+            if (typeof v === "number" && Number.isInteger(v) && v > 0) { return v; }
+            if (typeof v === "string" && /^\d+$/.test(v)) {
+                const n = Number(v);
+                if (Number.isInteger(n) && n > 0) { return n; }
+            }
+            return undefined;
+        })(),
+        song_title: String(raw[SONG_COL.songTitle] ?? ""),
+        composer_first_name: String(raw[SONG_COL.composerFirstName] ?? ""),
+        composer_last_name: String(raw[SONG_COL.composerLastName] ?? ""),
+        // DB expects NUMBER, not name:
+        skill_level_number: Number(raw[SONG_COL.skillLevelNumber]),
+        file_name: String(raw[SONG_COL.fileName] ?? ""),
+        mxl_base64: nonBlank(raw[SONG_COL.songMxl]),
+        musicxml: nonBlank(raw[SONG_COL.songMusicXml]),
+        tag_names: Array.isArray(raw[SONG_COL.tagNames]) ? raw[SONG_COL.tagNames] as string[] : undefined,
+    };
+
+    const parsed = CanonicalSaveSchema.safeParse(candidate);
+    if (!parsed.success) {
+        const first = parsed.error.issues[0];
+        return { ok: false, status: 400, error: first?.message ?? "Invalid request body" };
+    }
+    const input = parsed.data;
+
+    // Get the score bytes (size-checked before decoding), then validate + canonically re-pack as MXL
+    const field = input.musicxml !== undefined ? SONG_COL.songMusicXml : SONG_COL.songMxl;
+    let bytes: Uint8Array;
+    if (input.musicxml !== undefined) {
+        bytes = new Uint8Array(Buffer.from(input.musicxml, "utf8"));
+    } else {
+        const b64 = (input.mxl_base64 ?? "").replace(/\s+/g, "");
+        if (!/^[A-Za-z0-9+/]*={0,2}$/.test(b64)) {
+            return { ok: false, status: 400, error: "invalid_base64", message: "mxl_base64 is not valid base64.", field };
+        }
+        if (Math.floor(b64.length * 3 / 4) > MXL_MAX_UNCOMPRESSED_BYTES + 2) {
+            return {
+                ok: false,
+                status: 413,
+                error: "mxl_too_large",
+                message: `The file is larger than ${MXL_MAX_UNCOMPRESSED_BYTES / (1024 * 1024)} MB.`,
+                field,
+            };
+        }
+        bytes = new Uint8Array(Buffer.from(b64, "base64"));
+    }
+
+    let normalized: ReturnType<typeof normalizeScore>;
+    try {
+        normalized = normalizeScore(bytes);
+    } catch (e) {
+        if (e instanceof MxlValidationError) {
+            return { ok: false, status: e.status, error: e.code, message: e.message, field };
+        }
+        throw e;
+    }
+
+    // Metadata that can't be read is stored as null
+    let metadata: SongMetadata | null;
+    try {
+        metadata = extractMusicXmlMetadata(normalized.contents.xmlText);
+    } catch {
+        metadata = null;
+    }
+
+    // Whatever was uploaded is stored as MXL, so the file name says so too
+    const fileName = /\.mxl$/i.test(input.file_name) ? input.file_name : `${input.file_name.replace(/\.[^./\\]+$/, "")}.mxl`;
+
+    return { ok: true, input: { ...input, file_name: fileName }, mxlHex: toByteaHex(normalized.mxl), metadata };
+}
+
+/* =========================
+   song_upsert (a changed MXL is kept as a new song_revision;
+   the metadata columns are rewritten on every save; the change is audit-logged)
+   ========================= */
+
+export async function saveSong(
+    req: SongSaveRequest,
+    uploadedByUserId: number | null,
+    audit: AuditContext
+): Promise<SongSaveResult | SongSaveFailure> {
+    const { input, mxlHex, metadata } = req;
+
+    // RPC to your actual function + argument names
+    const { data, error } = await supabaseAdmin
+        .schema(DB_SCHEMA)
+        .rpc("song_upsert", {
+            p_song_id: input.song_id ?? null,
+            p_song_title: input.song_title,
+            p_composer_first_name: input.composer_first_name,
+            p_composer_last_name: input.composer_last_name,
+            p_skill_level_number: input.skill_level_number,
+            p_file_name: input.file_name,
+            p_song_mxl: mxlHex, // bytea hex literal
+            p_uploaded_by_user_id: uploadedByUserId,
+            p_metadata: metadata,
+            p_tag_names: input.tag_names ?? null,
+            p_audit: audit,
+        });
+
+    if (error) {
+        if (error.code === "23505") {
+            return { ok: false, status: 409, error: "conflict", message: "A song with the same file name or (title, composer, level) already exists (it may be in the Trash)." };
+        }
+        if (error.code === "P0002") {
+            return { ok: false, status: 404, error: "not_found", message: "song_id not found for update (it may be in the Trash)." };
+        }
+        if (error.code === "23503") {
+            return { ok: false, status: 400, error: "invalid_skill_level", message: "skill_level_number does not exist." };
+        }
+        return { ok: false, status: 500, error: error.message ?? "RPC song_upsert failed" };
+    }
+
+    return { ok: true, song_id: typeof data === "number" ? data : null };
+}
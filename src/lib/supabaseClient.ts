@@ -1,17 +1,22 @@
-// src/lib/supabase.ts
-// Browser (public) Supabase client. Do NOT import in server code.
-// For server-side access, use src/lib/supabaseAdmin.ts.
-import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+// src/lib/supabaseClient.ts
+// Browser (public) Supabase client, used for Supabase Auth sign-in only. Do NOT import in server code.
+// For server-side access, use src/lib/supabaseAdmin.ts (data) or src/lib/supabaseServer.ts (session).
+import { createBrowserClient } from "@supabase/ssr";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { envClient } from "./envClient";
+import { apexCookieDomain } from "./cookieDomain";
 
-export const supabase: SupabaseClient = createClient(
-  envClient.NEXT_PUBLIC_SUPABASE_URL,
-  envClient.NEXT_PUBLIC_SUPABASE_ANON_KEY,
-  {
-    auth: {
-      persistSession: false,   // no auth flow yet
-      autoRefreshToken: false, // keep browser client inert
-      detectSessionInUrl: false,
-    },
+let client: SupabaseClient | null = null;
+
+/** Lazily created so prerendering never touches document.cookie */
+export function getSupabaseBrowser(): SupabaseClient {
+  if (client === null) {
+    const domain = apexCookieDomain(window.location.hostname);
+    client = createBrowserClient(
+      envClient.NEXT_PUBLIC_SUPABASE_URL,
+      envClient.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+      { cookieOptions: domain ? { domain } : {} }
+    );
   }
-);
+  return client;
+}
@@ -0,0 +1,38 @@
+// src/lib/supabaseServer.ts
+// Cookie-session Supabase clients (anon key) for middleware and route handlers.
+// These are for Supabase Auth only; data access still goes through supabaseAdmin + RPCs.
+import { createServerClient, type CookieMethodsServer, type CookieOptionsWithName } from "@supabase/ssr";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { cookies } from "next/headers";
+import { envClient } from "./envClient";
+import { apexCookieDomain } from "./cookieDomain";
+
+/** Auth cookies are shared with every sandbox subdomain on production hosts */
+export function authCookieOptions(hostname: string): CookieOptionsWithName {
+    const domain = apexCookieDomain(hostname);
+    return domain ? { domain } : {};
+}
+
+export function createSupabaseAuthClient(hostname: string, cookieMethods: CookieMethodsServer): SupabaseClient {
+    return createServerClient(
+        envClient.NEXT_PUBLIC_SUPABASE_URL,
+        envClient.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+        {
+            cookieOptions: authCookieOptions(hostname),
+            cookies: cookieMethods,
+        }
+    );
+}
+
+/** Route-handler client that reads and writes the request's cookie store */
+export async function createSupabaseRouteClient(hostname: string): Promise<SupabaseClient> {
+    const store = await cookies();
+    return createSupabaseAuthClient(hostname, {
+        getAll: () => store.getAll(),
+        setAll: (list) => {
+            for (const c of list) {
+                store.set(c.name, c.value, c.options);
+            }
+        },
+    });
+}
@@ -0,0 +1,36 @@
+// src/lib/transposePresets.ts
+// Shared by the viewer UI and /api/song/[id]?transpose= (no server-only imports here).
+
+export const TRANSPOSE_MIN = -12;
+export const TRANSPOSE_MAX = 12;
+
+export type TransposePreset = Readonly<{
+    key: string;
+    label: string;
+    semitones: number; // written pitch relative to concert pitch
+}>;
+
+// Common transposing instruments: how far the written part sits above concert pitch
+export const TRANSPOSE_PRESETS: ReadonlyArray<TransposePreset> = [
+    { key: "concert", label: "Concert", semitones: 0 },
+    { key: "bb", label: "B♭ instrument", semitones: 2 },
+    { key: "eb", label: "E♭ instrument", semitones: 9 },
+    { key: "f", label: "F instrument", semitones: 7 },
+];
+
+export function isValidTranspose(n: number): boolean {
+    return Number.isInteger(n) && n >= TRANSPOSE_MIN && n <= TRANSPOSE_MAX;
+}
+
+/** Append/replace ?transpose= on an /api/song/... URL (0 removes it) */
+export function withTransposeParam(src: string, semitones: number): string {
+    const [path, query = ""] = src.split("?", 2) as [string, string?];
+    const params = new URLSearchParams(query);
+    if (semitones === 0) {
+        params.delete("transpose");
+    } else {
+        params.set("transpose", String(semitones));
+    }
+    const qs = params.toString();
+    return qs ? `${path}?${qs}` : path;
+}
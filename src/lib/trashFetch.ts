@@ -0,0 +1,89 @@
+// src/lib/trashFetch.ts
+import type { TrashItem, TrashListResponse } from "@/lib/types";
+import { TRASH_RETENTION_DAYS, isTrashItemType, type TrashItemType } from "@/lib/trashPolicy";
+
+const TRASH_ENDPOINT = "/api/trash";
+
+/** Convert /api/trash payload into a strict TrashListResponse */
+export function normalizeTrashList(json: unknown): TrashListResponse {
+    const r = json && typeof json === "object" ? json as Record<string, unknown> : {};
+    const items: TrashItem[] = [];
+    if (Array.isArray(r.items)) {
+        for (const it of r.items) {
+            if (it && typeof it === "object") {
+                const t = it as Record<string, unknown>;
+                const id = t.item_id;
+                if (isTrashItemType(t.item_type) && typeof id === "number" && Number.isFinite(id)) {
+                    items.push({
+                        item_type: t.item_type,
+                        item_id: id,
+                        item_name: String(t.item_name ?? ""),
+                        item_detail: String(t.item_detail ?? ""),
+                        deleted_datetime: String(t.deleted_datetime ?? ""),
+                        purge_datetime: String(t.purge_datetime ?? ""),
+                    });
+                }
+            }
+        }
+    }
+    const days = r.retention_days;
+    return { items, retention_days: typeof days === "number" ? days : TRASH_RETENTION_DAYS };
+}
+
+export class TrashFetchError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = "TrashFetchError";
+    }
+}
+
+async function readError(res: Response): Promise<TrashFetchError> {
+    let message = `HTTP ${res.status}`;
+    try {
+        const j = (await res.json()) as { message?: unknown; error?: unknown };
+        if (typeof j.message === "string") { message = j.message; }
+        else if (typeof j.error === "string") { message = j.error; }
+    } catch {
+        // keep the status text
+    }
+    return new TrashFetchError(message, res.status);
+}
+
+/** Deleted songs and users, most recently deleted first */
+export async function fetchTrash(signal?: AbortSignal): Promise<TrashListResponse> {
+    const res = await fetch(TRASH_ENDPOINT, { cache: "no-store", signal });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+    return normalizeTrashList(await res.json());
+}
+
+export async function restoreTrashItem(itemType: TrashItemType, itemId: number): Promise<void> {
+    const res = await fetch(`${TRASH_ENDPOINT}/restore`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ item_type: itemType, item_id: itemId }),
+    });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+}
+
+/** Delete one item for good (no way back) */
+export async function deleteTrashItem(itemType: TrashItemType, itemId: number): Promise<void> {
+    const qs = new URLSearchParams({ type: itemType, id: String(itemId) });
+    const res = await fetch(`${TRASH_ENDPOINT}?${qs.toString()}`, { method: "DELETE" });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+}
+
+/** Delete everything past the retention window; returns how many items went */
+export async function purgeTrash(): Promise<number> {
+    const res = await fetch(`${TRASH_ENDPOINT}/purge`, { method: "POST" });
+    if (!res.ok) {
+        throw await readError(res);
+    }
+    const json = (await res.json()) as { purged?: unknown };
+    return typeof json.purged === "number" ? json.purged : 0;
+}
@@ -0,0 +1,13 @@
+// src/lib/trashPolicy.ts
+// Deleted songs and users wait in the Trash (deleted_datetime set) before they are purged for good.
+// The nightly pg_cron job in database/*/functions.sql passes the same number to trash_purge.
+
+export const TRASH_RETENTION_DAYS = 30;
+
+export const TRASH_ITEM_TYPES = ["song", "user"] as const;
+
+export type TrashItemType = (typeof TRASH_ITEM_TYPES)[number];
+
+export function isTrashItemType(x: unknown): x is TrashItemType {
+    return typeof x === "string" && (TRASH_ITEM_TYPES as ReadonlyArray<string>).includes(x);
+}
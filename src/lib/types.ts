@@ -8,11 +8,42 @@ export type SongListItem = Readonly<{
    skill_level_name: string;
    skill_level_number: number;
    file_name: string;
+   // Read from the MusicXML on save; null when the score doesn't say
+   key_signature: string | null;
+   time_signature: string | null;
+   tempo_text: string | null;
+   tempo_bpm: number | null;
+   instrument_names: string[];
+   measure_count: number | null;
+   page_count: number | null;         // explicit page breaks, else an estimate
+   lyricist: string | null;
+   arranger: string | null;
+   copyright: string | null;
+   tag_names: string[];               // genre / purpose tags, alphabetical
    inserted_datetime: string;
    updated_datetime: string;
 }>;
 
-export type SongListResponse = Readonly<{ items: SongListItem[] }>;
+// nextCursor: pass back as ?cursor= for the following page; null on the last page
+export type SongListResponse = Readonly<{ items: SongListItem[]; nextCursor: string | null }>;
+
+// Values present in the catalog, most used first (GET /api/songlist/facets)
+export type SongFacetsResponse = Readonly<{
+   key_signatures: string[];
+   time_signatures: string[];
+   instruments: string[];
+   tags: string[];
+}>;
+
+// One song's catalog fields (GET /api/song/[id]/details)
+export type SongDetails = Readonly<{
+   song_id: number;
+   song_title: string;
+   composer_first_name: string;
+   composer_last_name: string;
+   skill_level_number: number;
+   skill_level_name: string;
+}>;
 
 export type UserListItem = Readonly<{
    user_id: number;
@@ -26,4 +57,179 @@ export type UserListItem = Readonly<{
    updated_datetime: string;
 }>;
 
-export type UserListResponse = Readonly<{ items: UserListItem[] }>;
+export type UserListResponse = Readonly<{ items: UserListItem[]; nextCursor: string | null }>;
+
+export type AssignmentItem = Readonly<{
+   assignment_id: number;
+   song_id: number;
+   song_title: string;
+   composer_first_name: string;
+   composer_last_name: string;
+   user_id: number;
+   user_name: string;
+   user_first_name: string;
+   user_last_name: string;
+   assignment_notes: string;
+   due_date: string | null;            // YYYY-MM-DD
+   completed_datetime: string | null;
+   inserted_datetime: string;
+}>;
+
+export type AssignmentListResponse = Readonly<{ items: AssignmentItem[] }>;
+
+export type SongRevisionItem = Readonly<{
+   song_revision_id: number;
+   file_name: string;
+   mxl_bytes: number;
+   uploaded_by_user_id: number | null;
+   uploaded_by_user_name: string | null;   // null for backfilled rows or deleted users
+   restored_from_revision_id: number | null;
+   is_current: boolean;
+   inserted_datetime: string;
+}>;
+
+export type SongRevisionListResponse = Readonly<{ items: SongRevisionItem[] }>;
+
+// POST /api/song/batch: one result per submitted item, in request order
+export type SongBatchItemResult = Readonly<{
+   file_name: string;
+   status: 200 | 400 | 404 | 409 | 413 | 500;
+   song_id: number | null;
+   error: string | null;
+   message: string | null;
+}>;
+
+export type SongBatchResponse = Readonly<{ ok: true; results: SongBatchItemResult[] }>;
+
+// Score markings; each is anchored to one staff of one measure (GET/POST /api/annotation)
+export type AnnotationKind = "stroke" | "text";
+
+// x/y are fractions of the anchor staff's box in its measure (0,0 = top left), so markings
+// follow the music through reflow and zoom; strokes may reach past the box
+export type AnnotationData = Readonly<{
+   points?: ReadonlyArray<readonly [number, number]>;   // stroke
+   x?: number;                                          // text (baseline start)
+   y?: number;
+   text?: string;
+}>;
+
+export type AnnotationItem = Readonly<{
+   annotation_id: number;
+   song_id: number;
+   annotation_kind: AnnotationKind;
+   measure_number: number;
+   part_id: string;          // <score-part id>
+   staff_number: number;     // 1-based staff within the part
+   annotation_data: AnnotationData;
+   inserted_datetime: string;
+}>;
+
+export type AnnotationListResponse = Readonly<{ items: AnnotationItem[] }>;
+
+// User-owned setlists: songs in play order for a recital or lesson (/api/setlist)
+export type SetlistItem = Readonly<{
+   setlist_id: number;
+   setlist_name: string;
+   song_count: number;
+   inserted_datetime: string;
+   updated_datetime: string;
+}>;
+
+export type SetlistListResponse = Readonly<{ items: SetlistItem[] }>;
+
+export type SetlistSongItem = Readonly<{
+   song_position: number;    // 1-based play order
+   song_id: number;
+   song_title: string;
+   composer_first_name: string;
+   composer_last_name: string;
+   song_deleted: boolean;    // in the Trash: kept in place for a restore, but not played
+}>;
+
+export type SetlistDetail = Readonly<{
+   setlist_id: number;
+   setlist_name: string;
+   songs: SetlistSongItem[];
+}>;
+
+// Composers that songs reference; song rows keep a copy of the name (/api/composer, admin-only)
+export type ComposerItem = Readonly<{
+   composer_id: number;
+   composer_first_name: string;
+   composer_last_name: string;
+   birth_year: number | null;
+   death_year: number | null;
+   alternate_names: string[];   // other spellings, e.g. "J.S. Bach"
+   song_count: number;
+   updated_datetime: string;
+}>;
+
+export type ComposerListResponse = Readonly<{ items: ComposerItem[] }>;
+
+// A pair of composers that are probably the same person (GET /api/composer/duplicates)
+export type ComposerDuplicateReason = "alternate_name" | "same_last_name" | "similar_name";
+
+export type ComposerDuplicateItem = Readonly<{
+   composer_id_a: number;
+   composer_id_b: number;
+   match_reason: ComposerDuplicateReason;
+   name_similarity: number;   // 0..1 trigram similarity of the full names
+}>;
+
+export type ComposerDuplicateListResponse = Readonly<{ items: ComposerDuplicateItem[] }>;
+
+// Existing composers for a score's creator text, best first (GET /api/composer/match?name=)
+export type ComposerMatchItem = Readonly<{
+   composer_id: number;
+   composer_first_name: string;
+   composer_last_name: string;
+   birth_year: number | null;
+   death_year: number | null;
+   name_similarity: number;
+}>;
+
+export type ComposerMatchResponse = Readonly<{ items: ComposerMatchItem[] }>;
+
+// A soft-deleted song or user (GET /api/trash, admin-only)
+export type TrashItem = Readonly<{
+   item_type: "song" | "user";
+   item_id: number;
+   item_name: string;       // song title / user name
+   item_detail: string;     // composer and file name / email
+   deleted_datetime: string;
+   purge_datetime: string;  // when the nightly purge may remove it for good
+}>;
+
+export type TrashListResponse = Readonly<{ items: TrashItem[]; retention_days: number }>;
+
+// One audited change to a song or user, newest first (GET /api/audit, admin-only)
+export type AuditEntityType = "song" | "user";
+
+export type AuditItem = Readonly<{
+   audit_id: number;
+   audit_action: string;            // the DB function, e.g. "song_upsert", "user_delete", "trash_restore"
+   entity_type: AuditEntityType;
+   entity_id: number;
+   entity_name: string | null;      // song title / user name as recorded; null if neither snapshot has it
+   actor_user_id: number | null;    // null = no session, or the actor was purged
+   actor_user_name: string | null;
+   before_data: Record<string, unknown> | null;   // null on create; songs carry song_mxl_sha256, not the MXL
+   after_data: Record<string, unknown> | null;    // null on permanent delete
+   request_method: string | null;
+   request_path: string | null;
+   request_ip: string | null;
+   user_agent: string | null;
+   inserted_datetime: string;
+}>;
+
+export type AuditListResponse = Readonly<{ items: AuditItem[]; nextCursor: string | null }>;
+
+// Users who have made at least one audited change (GET /api/audit/actors)
+export type AuditActorItem = Readonly<{
+   user_id: number;
+   user_name: string;
+   user_first_name: string;
+   user_last_name: string;
+}>;
+
+export type AuditActorListResponse = Readonly<{ items: AuditActorItem[] }>;
@@ -1,5 +1,6 @@
 // src/lib/userListFetch.ts
 import type { UserListItem } from "@/lib/types";
+import { readNextCursor } from "@/lib/songListFetch";
 
 export type SortDir = "asc" | "desc";
 
@@ -35,18 +36,28 @@ export function normalizeUserList(json: unknown): UserListItem[] {
     return out;
 }
 
-/** Fetch + normalize with optional server sort */
+/** One page of /api/userlist; nextCursor is null on the last page */
+export type UserListPage = {
+    items: UserListItem[];
+    nextCursor: string | null;
+};
+
+/** Fetch + normalize one page with optional server sort (cursor null = first page) */
 export async function fetchUserList(
     endpoint: string,
     sort: string | null,
     dir: SortDir,
+    cursor: string | null = null,
     signal?: AbortSignal
-): Promise<UserListItem[]> {
+): Promise<UserListPage> {
     const params = new URLSearchParams();
     if (sort !== null) {
         params.set("sort", sort);
         params.set("dir", dir);
     }
+    if (cursor !== null) {
+        params.set("cursor", cursor);
+    }
     const res = await fetch(`${endpoint}?${params.toString()}`, {
         cache: "no-store",
         signal,
@@ -55,5 +66,5 @@ export async function fetchUserList(
         throw new Error(`HTTP ${res.status}`);
     }
     const json = await res.json();
-    return normalizeUserList(json);
+    return { items: normalizeUserList(json), nextCursor: readNextCursor(json) };
 }
@@ -0,0 +1,83 @@
+// src/lib/viewerPrefs.ts
+// Viewer preferences that must survive the per-open sandbox subdomain (see sandboxUrl.ts).
+// localStorage is per-origin, so these live in cookies scoped to the apex domain instead.
+import { apexCookieDomain } from "@/lib/cookieDomain";
+
+const MAX_AGE_SEC = 60 * 60 * 24 * 365;
+
+/** `; domain=.apex` on production hosts so every sandbox subdomain sees the cookie */
+function domainAttr(): string {
+    if (typeof window === "undefined") { return ""; }
+    const domain = apexCookieDomain(window.location.hostname);
+    return domain ? `; domain=${domain}` : "";
+}
+
+export function readViewerPref(name: string): unknown {
+    if (typeof document === "undefined") { return null; }
+    const prefix = `${name}=`;
+    for (const part of document.cookie.split(";")) {
+        const c = part.trim();
+        if (!c.startsWith(prefix)) { continue; }
+        try {
+            return JSON.parse(decodeURIComponent(c.slice(prefix.length)));
+        } catch {
+            return null;
+        }
+    }
+    return null;
+}
+
+/** Store a JSON value (null deletes the cookie) */
+export function writeViewerPref(name: string, value: unknown): void {
+    if (typeof document === "undefined") { return; }
+    const base = `; path=/; SameSite=Lax${domainAttr()}`;
+    if (value === null || value === undefined) {
+        document.cookie = `${name}=; max-age=0${base}`;
+        return;
+    }
+    document.cookie = `${name}=${encodeURIComponent(JSON.stringify(value))}; max-age=${MAX_AGE_SEC}${base}`;
+}
+
+/* =========================
+   Per-song maps
+   One cookie holds { [songId]: value } for the most recently touched songs.
+   Oldest songs are evicted by count and by encoded size: browsers silently drop
+   a cookie over 4 KB, which would lose every entry at once.
+   ========================= */
+
+const MAX_SONGS_PER_MAP = 40;
+const MAX_MAP_COOKIE_BYTES = 3584; // name + encoded value, leaving room for the attributes
+
+function readSongMap(name: string): Record<string, unknown> {
+    const raw = readViewerPref(name);
+    return raw && typeof raw === "object" && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+}
+
+// Non-numeric keys keep insertion (recency) order; integer-like keys would sort numerically
+const songKey = (songId: number | string) => `s${songId}`;
+
+export function readSongPref(name: string, songId: number | string): unknown {
+    return readSongMap(name)[songKey(songId)] ?? null;
+}
+
+/** Set (or with null, remove) one song's value; the song becomes most recent */
+export function writeSongPref(name: string, songId: number | string, value: unknown): void {
+    const map = readSongMap(name);
+    const key = songKey(songId);
+    delete map[key];
+    if (value !== null && value !== undefined) {
+        map[key] = value;
+    }
+
+    const keys = Object.keys(map);
+    for (const k of keys.slice(0, Math.max(0, keys.length - MAX_SONGS_PER_MAP))) {
+        delete map[k];
+    }
+    // Keys are in recency order, so the first one is always the oldest
+    const cookieBytes = () => name.length + 1 + encodeURIComponent(JSON.stringify(map)).length;
+    for (const k of Object.keys(map)) {
+        if (cookieBytes() <= MAX_MAP_COOKIE_BYTES) { break; }
+        delete map[k];
+    }
+    writeViewerPref(name, Object.keys(map).length ? map : null);
+}
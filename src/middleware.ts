@@ -0,0 +1,97 @@
+// src/middleware.ts
+// Supabase Auth session refresh + role gate (see src/lib/accessPolicy.ts).
+// Runs on the Node runtime so it can look the user up with supabaseAdmin.
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import type { CookieOptions } from "@supabase/ssr";
+import { createSupabaseAuthClient } from "@/lib/supabaseServer";
+import { requiredRoles, isRoleAllowed } from "@/lib/accessPolicy";
+import { findSiteUserByEmail, SESSION_HEADER, type SessionUser } from "@/lib/sessionUser";
+
+export const config = {
+    runtime: "nodejs",
+    matcher: ["/admin/:path*", "/api/:path*"],
+};
+
+type PendingCookie = { name: string; value: string; options: CookieOptions };
+
+// Supabase Auth session cookies are named sb-<project-ref>-auth-token(.N)
+function hasAuthCookie(req: NextRequest): boolean {
+    return req.cookies.getAll().some((c) => c.name.startsWith("sb-"));
+}
+
+function deny(req: NextRequest, status: 401 | 403): NextResponse {
+    if (req.nextUrl.pathname.startsWith("/api/")) {
+        const error = status === 401 ? "unauthorized" : "forbidden";
+        return NextResponse.json({ ok: false, error }, { status });
+    }
+    const login = new URL("/login", req.url);
+    login.searchParams.set("next", req.nextUrl.pathname + req.nextUrl.search);
+    if (status === 403) {
+        login.searchParams.set("error", "forbidden");
+    }
+    return NextResponse.redirect(login);
+}
+
+export async function middleware(req: NextRequest): Promise<NextResponse> {
+    const roles = requiredRoles(req.nextUrl.pathname, req.method);
+
+    // Never trust session headers from the client
+    const headers = new Headers(req.headers);
+    for (const h of Object.values(SESSION_HEADER)) {
+        headers.delete(h);
+    }
+
+    // Public request with no session to refresh: skip the auth round-trip
+    if (!roles && !hasAuthCookie(req)) {
+        return NextResponse.next({ request: { headers } });
+    }
+
+    // Refreshed tokens are written back on whatever response we return
+    const pending: PendingCookie[] = [];
+    const supabase = createSupabaseAuthClient(req.nextUrl.hostname, {
+        getAll: () => req.cookies.getAll(),
+        setAll: (list) => {
+            pending.push(...list);
+        },
+    });
+    const withCookies = (res: NextResponse): NextResponse => {
+        for (const c of pending) {
+            res.cookies.set(c.name, c.value, c.options);
+        }
+        return res;
+    };
+
+    let signedIn = false;
+    let user: SessionUser | null = null;
+    try {
+        const { data } = await supabase.auth.getUser();
+        signedIn = data.user !== null;
+        const email = data.user?.email;
+        if (email) {
+            user = await findSiteUserByEmail(email);
+        }
+    } catch (e) {
+        console.error("[middleware] session lookup failed:", e);
+        if (roles) {
+            return withCookies(NextResponse.json({ ok: false, error: "auth_unavailable" }, { status: 503 }));
+        }
+    }
+
+    if (roles) {
+        if (!user) {
+            // Signed in but not linked to a site_user: same as lacking the role
+            return withCookies(deny(req, signedIn ? 403 : 401));
+        }
+        if (!isRoleAllowed(user.roleNumber, roles)) {
+            return withCookies(deny(req, 403));
+        }
+    }
+
+    if (user) {
+        headers.set(SESSION_HEADER.userId, String(user.userId));
+        headers.set(SESSION_HEADER.roleNumber, String(user.roleNumber));
+        headers.set(SESSION_HEADER.email, user.email);
+    }
+    return withCookies(NextResponse.next({ request: { headers } }));
+}